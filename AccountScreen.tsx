@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { View, ScrollView, StyleSheet, Pressable, Alert } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -13,7 +13,9 @@ import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
+import { apiRequestSafe } from "@/lib/query-client";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { AccountStackParamList } from "@/navigation/AccountStackNavigator";
 
 interface MenuItem {
   id: string;
@@ -24,6 +26,12 @@ interface MenuItem {
   danger?: boolean;
 }
 
+interface PermitSourceSettings {
+  providers: { name: string; label: string }[];
+  defaultProvider: string;
+  selected: string | null;
+}
+
 export default function AccountScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -31,6 +39,54 @@ export default function AccountScreen() {
   const { theme } = useTheme();
   const navigation =
     useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const accountNavigation =
+    useNavigation<NativeStackNavigationProp<AccountStackParamList>>();
+
+  const [permitSources, setPermitSources] =
+    useState<PermitSourceSettings | null>(null);
+  const [showPermitSources, setShowPermitSources] = useState(false);
+
+  // Only signed-in users have a saved permit source; guests get the default.
+  useEffect(() => {
+    const loadPermitSources = async () => {
+      try {
+        const response = await apiRequestSafe("GET", "/api/permit-providers");
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.success) {
+          setPermitSources({
+            providers: data.providers,
+            defaultProvider: data.defaultProvider,
+            selected: data.selected,
+          });
+        }
+      } catch (error) {
+        console.error("Permit provider load error:", error);
+      }
+    };
+    loadPermitSources();
+  }, []);
+
+  const getPermitSourceLabel = (name: string | null) =>
+    permitSources?.providers.find((provider) => provider.name === name)
+      ?.label ?? null;
+
+  const handleSelectPermitSource = async (provider: string | null) => {
+    if (!permitSources) return;
+    const previous = permitSources.selected;
+    setPermitSources({ ...permitSources, selected: provider });
+    setShowPermitSources(false);
+    try {
+      const response = await apiRequestSafe("PUT", "/api/permit-providers", {
+        provider,
+      });
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+    } catch (error) {
+      console.error("Permit provider save error:", error);
+      setPermitSources({ ...permitSources, selected: previous });
+      Alert.alert("Error", "Could not change the permit data source.");
+    }
+  };
 
   const handleLogout = () => {
     Alert.alert(
@@ -77,6 +133,26 @@ export default function AccountScreen() {
       subtitle: "Logo and company name for estimates",
       onPress: () => navigation.navigate("CompanyBranding"),
     },
+    {
+      id: "priceBook",
+      icon: "dollar-sign",
+      title: "Price Book",
+      subtitle: "Materials, accessory costs and coverage",
+      onPress: () => accountNavigation.navigate("PriceBook"),
+    },
+    ...(permitSources && permitSources.providers.length > 1
+      ? [
+          {
+            id: "permitSource",
+            icon: "file-text" as const,
+            title: "Permit Data Source",
+            subtitle:
+              getPermitSourceLabel(permitSources.selected) ??
+              `Default (${getPermitSourceLabel(permitSources.defaultProvider) ?? "not configured"})`,
+            onPress: () => setShowPermitSources(!showPermitSources),
+          },
+        ]
+      : []),
     {
       id: "notifications",
       icon: "bell",
@@ -271,9 +347,36 @@ export default function AccountScreen() {
         Settings
       </ThemedText>
       <Card style={styles.menuCard}>
-        {settingsItems.map((item, index) =>
-          renderMenuItem(item, index === settingsItems.length - 1)
-        )}
+        {settingsItems.map((item, index) => (
+          <React.Fragment key={item.id}>
+            {renderMenuItem(item, index === settingsItems.length - 1)}
+            {item.id === "permitSource" && showPermitSources && permitSources
+              ? [
+                  { name: null, label: "Default" },
+                  ...permitSources.providers,
+                ].map((provider) => {
+                  const isSelected = permitSources.selected === provider.name;
+                  return (
+                    <Pressable
+                      key={provider.name ?? "default"}
+                      onPress={() => handleSelectPermitSource(provider.name)}
+                      style={[
+                        styles.optionItem,
+                        { borderBottomColor: theme.divider },
+                      ]}
+                    >
+                      <ThemedText type="body" style={styles.menuContent}>
+                        {provider.label}
+                      </ThemedText>
+                      {isSelected ? (
+                        <Feather name="check" size={18} color={theme.accent} />
+                      ) : null}
+                    </Pressable>
+                  );
+                })
+              : null}
+          </React.Fragment>
+        ))}
       </Card>
 
       <ThemedText type="secondary" style={styles.sectionLabel}>
@@ -407,6 +510,14 @@ const styles = StyleSheet.create({
   menuContent: {
     flex: 1,
   },
+  optionItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    paddingLeft: Spacing.lg + 40 + Spacing.md,
+    paddingRight: Spacing.lg,
+    borderBottomWidth: 1,
+  },
   menuTitle: {
     fontWeight: "500",
   },
@@ -2,10 +2,14 @@ import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 
 import AccountScreen from "@/screens/AccountScreen";
+import PriceBookScreen from "@/screens/PriceBookScreen";
+import PriceImportScreen from "@/screens/PriceImportScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 
 export type AccountStackParamList = {
   Account: undefined;
+  PriceBook: undefined;
+  PriceImport: undefined;
 };
 
 const Stack = createNativeStackNavigator<AccountStackParamList>();
@@ -22,6 +26,20 @@ export default function AccountStackNavigator() {
           headerTitle: "Account",
         }}
       />
+      <Stack.Screen
+        name="PriceBook"
+        component={PriceBookScreen}
+        options={{
+          headerTitle: "Price Book",
+        }}
+      />
+      <Stack.Screen
+        name="PriceImport"
+        component={PriceImportScreen}
+        options={{
+          headerTitle: "Import Price List",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -0,0 +1,566 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Switch,
+  TextInput,
+  useWindowDimensions,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Feather } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import * as ImagePicker from "expo-image-picker";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  loadAttachments,
+  uploadAttachment,
+  updateAttachment,
+  deleteAttachment,
+  getAttachmentUrl,
+  getAttachmentHeaders,
+  isPhotoAttachment,
+  Attachment,
+  AttachmentFile,
+} from "@/lib/attachments";
+
+const GRID_COLUMNS = 3;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function AttachmentsScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { width } = useWindowDimensions();
+  const route = useRoute<RouteProp<RootStackParamList, "Attachments">>();
+  const { projectId } = route.params;
+
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [headers, setHeaders] = useState<Record<string, string>>({});
+  const [isGuest, setIsGuest] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [selected, setSelected] = useState<Attachment | null>(null);
+  const [caption, setCaption] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const tileSize =
+    (width - Spacing.lg * 2 - Spacing.sm * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+
+  const load = useCallback(async () => {
+    try {
+      const guestMode = await AsyncStorage.getItem("roofmaster_guest_mode");
+      const user = await AsyncStorage.getItem("roofmaster_user");
+      if (guestMode === "true" || !user) {
+        setIsGuest(true);
+        return;
+      }
+      setHeaders(await getAttachmentHeaders());
+      setAttachments(await loadAttachments(projectId));
+    } catch (error) {
+      console.error("Error loading attachments:", error);
+      Alert.alert("Error", "Failed to load attachments.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const uploadFiles = async (files: AttachmentFile[]) => {
+    setUploadCount(files.length);
+    let failed = 0;
+    for (const file of files) {
+      try {
+        const attachment = await uploadAttachment(projectId, file);
+        setAttachments((prev) => [...prev, attachment]);
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        failed++;
+      } finally {
+        setUploadCount((count) => count - 1);
+      }
+    }
+    if (failed > 0) {
+      Alert.alert(
+        "Upload Failed",
+        `${failed} of ${files.length} files could not be uploaded. Check your connection and try again.`,
+      );
+    }
+  };
+
+  const toFiles = (result: ImagePicker.ImagePickerResult): AttachmentFile[] =>
+    result.canceled
+      ? []
+      : result.assets.map((asset) => ({
+          uri: asset.uri,
+          mimeType: asset.mimeType,
+          fileName: asset.fileName,
+        }));
+
+  const pickPhotos = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      quality: 0.7,
+      exif: false,
+    });
+    const files = toFiles(result);
+    if (files.length > 0) await uploadFiles(files);
+  };
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        "Camera Access Needed",
+        "Allow camera access in Settings to take site photos.",
+      );
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.7,
+    });
+    const files = toFiles(result);
+    if (files.length > 0) await uploadFiles(files);
+  };
+
+  const openAttachment = (attachment: Attachment) => {
+    setSelected(attachment);
+    setCaption(attachment.caption || "");
+  };
+
+  const saveChanges = async (changes: {
+    caption?: string | null;
+    includeInPdf?: boolean;
+  }) => {
+    if (!selected) return;
+    setIsSaving(true);
+    try {
+      const updated = await updateAttachment(selected.id, changes);
+      setSelected(updated);
+      setAttachments((prev) =>
+        prev.map((a) => (a.id === updated.id ? updated : a)),
+      );
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      Alert.alert("Error", "Failed to update attachment.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const closeDetail = async () => {
+    if (selected && caption.trim() !== (selected.caption || "")) {
+      await saveChanges({ caption: caption.trim() || null });
+    }
+    setSelected(null);
+  };
+
+  const confirmDelete = () => {
+    if (!selected) return;
+    const attachment = selected;
+    Alert.alert("Delete Attachment", "This file will be removed permanently.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteAttachment(attachment.id);
+            setAttachments((prev) =>
+              prev.filter((a) => a.id !== attachment.id),
+            );
+            setSelected(null);
+          } catch (error) {
+            console.error("Error deleting attachment:", error);
+            Alert.alert("Error", "Failed to delete attachment.");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading && !isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <ActivityIndicator color={theme.accent} />
+      </View>
+    );
+  }
+
+  if (isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <Feather name="image" size={40} color={theme.textSecondary} />
+        <ThemedText type="secondary" style={styles.emptyText}>
+          Sign in to attach photos and documents to your projects.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const pdfCount = attachments.filter((a) => a.includeInPdf).length;
+
+  return (
+    <>
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+      >
+        <View style={styles.actions}>
+          <Button
+            onPress={pickPhotos}
+            disabled={uploadCount > 0}
+            style={styles.actionButton}
+          >
+            Add Photos
+          </Button>
+          <Button
+            variant="secondary"
+            onPress={takePhoto}
+            disabled={uploadCount > 0}
+            style={styles.actionButton}
+          >
+            Take Photo
+          </Button>
+        </View>
+
+        {uploadCount > 0 ? (
+          <View style={styles.uploading}>
+            <ActivityIndicator color={theme.accent} />
+            <ThemedText type="secondary">
+              Uploading {uploadCount} {uploadCount === 1 ? "file" : "files"}...
+            </ThemedText>
+          </View>
+        ) : null}
+
+        {attachments.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Feather name="camera" size={40} color={theme.textSecondary} />
+            <ThemedText type="secondary" style={styles.emptyText}>
+              No attachments yet. Add site photos to keep them with this
+              project.
+            </ThemedText>
+          </View>
+        ) : (
+          <>
+            <ThemedText type="secondary" style={styles.hint}>
+              {pdfCount > 0
+                ? `${pdfCount} of ${attachments.length} included in the estimate PDF`
+                : "Tap a photo to add a caption or include it in the estimate PDF."}
+            </ThemedText>
+            <View style={styles.grid}>
+              {attachments.map((attachment) => (
+                <Pressable
+                  key={attachment.id}
+                  onPress={() => openAttachment(attachment)}
+                  style={({ pressed }) => [
+                    styles.tile,
+                    {
+                      width: tileSize,
+                      height: tileSize,
+                      backgroundColor: theme.backgroundDefault,
+                      opacity: pressed ? 0.8 : 1,
+                    },
+                  ]}
+                >
+                  {isPhotoAttachment(attachment) ? (
+                    <Image
+                      source={{
+                        uri: getAttachmentUrl(attachment.thumbnailUrl),
+                        headers,
+                      }}
+                      style={styles.tileImage}
+                      contentFit="cover"
+                    />
+                  ) : (
+                    <View style={styles.documentTile}>
+                      <Feather
+                        name="file-text"
+                        size={28}
+                        color={theme.accent}
+                      />
+                      <ThemedText
+                        type="small"
+                        numberOfLines={2}
+                        style={styles.documentName}
+                      >
+                        {attachment.fileName}
+                      </ThemedText>
+                    </View>
+                  )}
+                  {attachment.includeInPdf ? (
+                    <View
+                      style={[
+                        styles.pdfBadge,
+                        { backgroundColor: theme.accent },
+                      ]}
+                    >
+                      <Feather name="file" size={12} color="#FFFFFF" />
+                    </View>
+                  ) : null}
+                </Pressable>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={selected !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeDetail}
+      >
+        {selected ? (
+          <ScrollView
+            style={{ backgroundColor: theme.backgroundRoot }}
+            contentContainerStyle={[
+              styles.modal,
+              { paddingBottom: insets.bottom + Spacing.lg },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <ThemedText type="h4" numberOfLines={1} style={styles.flex}>
+                {selected.fileName}
+              </ThemedText>
+              <Pressable onPress={closeDetail} hitSlop={8}>
+                <Feather name="x" size={24} color={theme.text} />
+              </Pressable>
+            </View>
+
+            {isPhotoAttachment(selected) ? (
+              <Image
+                source={{ uri: getAttachmentUrl(selected.url), headers }}
+                style={[
+                  styles.preview,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+                contentFit="contain"
+              />
+            ) : (
+              <View
+                style={[
+                  styles.preview,
+                  styles.documentTile,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <Feather name="file-text" size={48} color={theme.accent} />
+              </View>
+            )}
+            <ThemedText type="secondary" style={styles.meta}>
+              {formatFileSize(selected.size)} ·{" "}
+              {new Date(selected.createdAt).toLocaleDateString("en-US")}
+            </ThemedText>
+
+            <ThemedText type="body" style={styles.label}>
+              Caption
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={caption}
+              onChangeText={setCaption}
+              onBlur={() =>
+                caption.trim() !== (selected.caption || "")
+                  ? saveChanges({ caption: caption.trim() || null })
+                  : undefined
+              }
+              placeholder="e.g. Damaged flashing at north chimney"
+              placeholderTextColor={theme.textSecondary}
+              maxLength={500}
+              multiline
+            />
+
+            {isPhotoAttachment(selected) ? (
+              <View style={[styles.switchRow, { borderColor: theme.divider }]}>
+                <View style={styles.flex}>
+                  <ThemedText type="body">Include in Estimate PDF</ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Shown on a Site Photos page after the signatures
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={selected.includeInPdf}
+                  disabled={isSaving}
+                  onValueChange={(value) =>
+                    saveChanges({ includeInPdf: value })
+                  }
+                  trackColor={{ true: theme.accent }}
+                />
+              </View>
+            ) : null}
+
+            <Pressable
+              onPress={confirmDelete}
+              style={({ pressed }) => [
+                styles.deleteRow,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather name="trash-2" size={18} color="#DC3545" />
+              <ThemedText type="body" style={{ color: "#DC3545" }}>
+                Delete Attachment
+              </ThemedText>
+            </Pressable>
+          </ScrollView>
+        ) : null}
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+  },
+  flex: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  uploading: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: Spacing["3xl"],
+    gap: Spacing.md,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  tile: {
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+  },
+  tileImage: {
+    width: "100%",
+    height: "100%",
+  },
+  documentTile: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    padding: Spacing.sm,
+  },
+  documentName: {
+    textAlign: "center",
+  },
+  pdfBadge: {
+    position: "absolute",
+    top: Spacing.xs,
+    right: Spacing.xs,
+    width: 22,
+    height: 22,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modal: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  preview: {
+    width: "100%",
+    height: 280,
+    borderRadius: BorderRadius.md,
+  },
+  meta: {
+    fontSize: 13,
+  },
+  label: {
+    fontWeight: "600",
+  },
+  input: {
+    minHeight: 44,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+  },
+  deleteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+});
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from "react";
-import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert, ScrollView } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { useNavigation, useRoute, useFocusEffect, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -14,51 +14,27 @@ import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
 import { Card } from "@/components/Card";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { RoofSegmentsEditor } from "@/components/RoofSegmentsEditor";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
-
-interface MaterialType {
-  id: string;
-  name: string;
-  basePrice: number;
-  adjustedPrice: number;
-  description: string;
-  icon: string;
-}
-
-const MATERIAL_TYPES: MaterialType[] = [
-  {
-    id: "three-tab",
-    name: "Three Tab",
-    basePrice: 450,
-    adjustedPrice: 450,
-    description: "Standard asphalt shingles",
-    icon: "layers",
-  },
-  {
-    id: "architectural",
-    name: "Architectural",
-    basePrice: 500,
-    adjustedPrice: 500,
-    description: "Dimensional shingles with depth",
-    icon: "grid",
-  },
-  {
-    id: "metal-pbr",
-    name: "Metal PBR",
-    basePrice: 800,
-    adjustedPrice: 800,
-    description: "Purlin bearing rib metal panels",
-    icon: "box",
-  },
-  {
-    id: "standing-seam",
-    name: "Standing Seam",
-    basePrice: 1000,
-    adjustedPrice: 1000,
-    description: "Premium metal roofing",
-    icon: "align-justify",
-  },
-];
+import {
+  calculateMicroBreakdown,
+  calculateEstimateTotal,
+  calculateEstimateOptions,
+  getEstimateRevisionInputs,
+  ESTIMATE_OPTION_TIERS,
+  type EstimateInput,
+  type EstimateOption,
+  type EstimateOptionTier,
+} from "@shared/estimate";
+import { loadPriceBook, DEFAULT_PRICE_BOOK, PriceBook } from "@/lib/price-book";
+import { recordRevision } from "@/lib/revisions";
+import { loadLocalProject, saveProject } from "@/lib/sync";
+import {
+  getRoofSegmentsSquares,
+  summarizeRoofSegments,
+  type RoofSegment,
+} from "@shared/roof-segments";
+import type { RoofLinearMeasurements } from "@shared/roof-lines";
 
 export default function CostInputScreen() {
   const insets = useSafeAreaInsets();
@@ -68,22 +44,57 @@ export default function CostInputScreen() {
   const route = useRoute<RouteProp<RootStackParamList, "CostInput">>();
   const { projectId } = route.params;
 
+  const [priceBook, setPriceBook] = useState<PriceBook>(DEFAULT_PRICE_BOOK);
   const [selectedMaterial, setSelectedMaterial] = useState<string>("three-tab");
   const [materialPrices, setMaterialPrices] = useState<Record<string, number>>(
-    MATERIAL_TYPES.reduce((acc, m) => ({ ...acc, [m.id]: m.basePrice }), {})
+    DEFAULT_PRICE_BOOK.materials.reduce((acc, m) => ({ ...acc, [m.materialKey]: m.pricePerSquare }), {})
   );
   const [roofSquares, setRoofSquares] = useState<number>(0);
+  const [roofSegments, setRoofSegments] = useState<RoofSegment[]>([]);
+  const [linearMeasurements, setLinearMeasurements] =
+    useState<RoofLinearMeasurements | null>(null);
   const [laborRate, setLaborRate] = useState("");
   const [laborHours, setLaborHours] = useState("");
   const [additionalCosts, setAdditionalCosts] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [offerOptions, setOfferOptions] = useState(false);
+  const [optionMaterials, setOptionMaterials] = useState<
+    Partial<Record<EstimateOptionTier, string>>
+  >({});
+  const [hasSketch, setHasSketch] = useState(false);
+  // Last saved version of the project seen here, so returning from the roof
+  // sketch only reloads measurements when the sketch was saved.
+  const loadedAt = useRef<string | undefined>(undefined);
 
   useEffect(() => {
     loadProjectData();
   }, []);
 
+  useFocusEffect(
+    useCallback(() => {
+      loadLocalProject(projectId).then((project) => {
+        if (!project || loadedAt.current === undefined) return;
+        if (project.updatedAt === loadedAt.current) return;
+        loadedAt.current = project.updatedAt;
+        setRoofSquares(project.roofSquares || Math.ceil(project.roofArea / 100));
+        setRoofSegments(project.roofSegments || []);
+        setLinearMeasurements(project.linearMeasurements || null);
+        setHasSketch(!!project.roofSketch);
+      });
+    }, [projectId])
+  );
+
   const loadProjectData = async () => {
     try {
+      const book = await loadPriceBook();
+      setPriceBook(book);
+      setMaterialPrices(
+        book.materials.reduce((acc, m) => ({ ...acc, [m.materialKey]: m.pricePerSquare }), {})
+      );
+      if (book.materials.length > 0) {
+        setSelectedMaterial(book.materials[0].materialKey);
+      }
+
       const stored = await AsyncStorage.getItem("roofmaster_projects");
       if (stored) {
         const projects = JSON.parse(stored);
@@ -92,6 +103,10 @@ export default function CostInputScreen() {
           // Use stored roofSquares if available, otherwise calculate from roofArea
           const squares = project.roofSquares || Math.ceil(project.roofArea / 100);
           setRoofSquares(squares);
+          setRoofSegments(project.roofSegments || []);
+          setLinearMeasurements(project.linearMeasurements || null);
+          setHasSketch(!!project.roofSketch);
+          loadedAt.current = project.updatedAt ?? "";
 
           if (project.selectedMaterial) {
             setSelectedMaterial(project.selectedMaterial);
@@ -115,6 +130,20 @@ export default function CostInputScreen() {
           if (project.additionalCosts) {
             setAdditionalCosts(project.additionalCosts.toString());
           }
+
+          if (project.estimateOptions?.length) {
+            const options: EstimateOption[] = project.estimateOptions;
+            setOfferOptions(true);
+            setOptionMaterials(
+              options.reduce((acc, o) => ({ ...acc, [o.tier]: o.selectedMaterial }), {})
+            );
+            setMaterialPrices((prev) =>
+              options.reduce(
+                (acc, o) => ({ ...acc, [o.selectedMaterial]: o.materialPricePerSquare }),
+                prev
+              )
+            );
+          }
         }
       }
     } catch (error) {
@@ -122,30 +151,26 @@ export default function CostInputScreen() {
     }
   };
 
+  const selectedMaterialData = priceBook.materials.find((m) => m.materialKey === selectedMaterial);
+
   const updateMaterialPrice = (materialId: string, price: number) => {
     setMaterialPrices((prev) => ({ ...prev, [materialId]: Math.round(price) }));
   };
 
+  // Facets, when the roof has them, are priced each at its own pitch.
+  const pricedSquares =
+    roofSegments.length > 0 ? getRoofSegmentsSquares(roofSegments) : roofSquares;
+
   const getSelectedMaterialPrice = () => {
     return materialPrices[selectedMaterial] || 0;
   };
 
   const calculateMaterialsCost = () => {
-    return roofSquares * getSelectedMaterialPrice();
-  };
-
-  const calculateLaborCost = () => {
-    const rate = parseFloat(laborRate) || 0;
-    const hours = parseFloat(laborHours) || 0;
-    return rate * hours;
+    return pricedSquares * getSelectedMaterialPrice();
   };
 
   const calculateTotal = () => {
-    const b = getMicroBreakdown();
-    const materialTotal = (b.shingleTotal || 0) + (b.wasteTotal || 0) + (b.underlaymentTotal || 0) + 
-      (b.iceShieldTotal || 0) + (b.dripEdgeTotal || 0) + (b.starterTotal || 0) + 
-      (b.ridgeCapTotal || 0) + (b.flashingTotal || 0) + (b.ventTotal || 0) + (b.nailTotal || 0);
-    return materialTotal + (b.labor || 0) + (b.additional || 0);
+    return calculateEstimateTotal(getMicroBreakdown());
   };
 
   const formatCurrency = (amount: number) => {
@@ -157,141 +182,98 @@ export default function CostInputScreen() {
     }).format(amount);
   };
 
+  const getEstimateInput = (): EstimateInput => ({
+    roofSquares,
+    roofSegments,
+    linearMeasurements,
+    selectedMaterial,
+    materialPricePerSquare: getSelectedMaterialPrice(),
+    bundlesPerSquare: selectedMaterialData?.bundlesPerSquare,
+    accessories: priceBook.accessories,
+    laborRate: parseFloat(laborRate) || 0,
+    laborHours: parseFloat(laborHours) || 0,
+    additionalCosts: parseFloat(additionalCosts) || 0,
+  });
+
   const getMicroBreakdown = () => {
-    const laborTotal = calculateLaborCost();
-    const additional = parseFloat(additionalCosts) || 0;
-    const pricePerSquare = getSelectedMaterialPrice() || 0;
-    const squares = roofSquares || 1;
-
-    // Calculate quantities per square (industry standard)
-    // Shingles: 3 bundles per square for 3-tab, 4-5 for architectural
-    const isArchitectural = selectedMaterial === "architectural" || selectedMaterial === "standing-seam";
-    const bundlesPerSquare = isArchitectural ? 4 : 3;
-    const shingleBundles = Math.max(1, squares * bundlesPerSquare);
-    const shingleCostPerBundle = bundlesPerSquare > 0 ? Math.round(pricePerSquare * 0.62 / bundlesPerSquare) : 0;
-    
-    // Underlayment: 1 roll covers 4 squares (15 lb felt) or 2 squares (synthetic)
-    const underlaymentRolls = Math.ceil(squares / 3);
-    const underlaymentCostPerRoll = 45;
-    
-    // Ice & Water Shield: 1 roll per 2 squares of eave/valley
-    const iceShieldRolls = Math.ceil(squares * 0.15);
-    const iceShieldCostPerRoll = 85;
-    
-    // Drip Edge: 10 ft pieces, perimeter = sqrt(area) * 4 roughly
-    const roofPerimeter = Math.sqrt(squares * 100) * 4;
-    const dripEdgePieces = Math.ceil(roofPerimeter / 10);
-    const dripEdgeCostPerPiece = 8;
-    
-    // Starter Strip: same as drip edge
-    const starterStripPieces = dripEdgePieces;
-    const starterCostPerPiece = 12;
-    
-    // Ridge Cap: 1 bundle per 20-35 linear feet of ridge
-    const ridgeLength = Math.sqrt(squares * 100) * 0.4;
-    const ridgeCapBundles = Math.ceil(ridgeLength / 25);
-    const ridgeCapCostPerBundle = 55;
-    
-    // Nails: 1.5 lbs per square (coil nails) or 2.5 lbs (hand nails)
-    const nailPounds = squares * 2;
-    const nailCostPerPound = 3;
-    
-    // Vents: 1 per 150 sq ft of attic space
-    const ventCount = Math.ceil(squares / 1.5);
-    const ventCostEach = 25;
-    
-    // Flashing: step and chimney flashing
-    const flashingPieces = Math.ceil(squares * 0.3);
-    const flashingCostPerPiece = 15;
-
-    // Waste factor: 12% extra on shingles
-    const wasteSquares = Math.ceil(squares * 0.12);
-    const wasteBundles = wasteSquares * bundlesPerSquare;
-
-    return {
-      // Quantities
-      shingleBundles,
-      shingleCostPerBundle: Math.round(shingleCostPerBundle),
-      shingleTotal: Math.round(shingleBundles * shingleCostPerBundle),
-      
-      wasteBundles,
-      wasteTotal: Math.round(wasteBundles * shingleCostPerBundle),
-      
-      underlaymentRolls,
-      underlaymentCostPerRoll,
-      underlaymentTotal: Math.round(underlaymentRolls * underlaymentCostPerRoll),
-      
-      iceShieldRolls,
-      iceShieldCostPerRoll,
-      iceShieldTotal: Math.round(iceShieldRolls * iceShieldCostPerRoll),
-      
-      dripEdgePieces,
-      dripEdgeCostPerPiece,
-      dripEdgeTotal: Math.round(dripEdgePieces * dripEdgeCostPerPiece),
-      
-      starterStripPieces,
-      starterCostPerPiece,
-      starterTotal: Math.round(starterStripPieces * starterCostPerPiece),
-      
-      ridgeCapBundles,
-      ridgeCapCostPerBundle,
-      ridgeCapTotal: Math.round(ridgeCapBundles * ridgeCapCostPerBundle),
-      
-      nailPounds,
-      nailCostPerPound,
-      nailTotal: Math.round(nailPounds * nailCostPerPound),
-      
-      ventCount,
-      ventCostEach,
-      ventTotal: Math.round(ventCount * ventCostEach),
-      
-      flashingPieces,
-      flashingCostPerPiece,
-      flashingTotal: Math.round(flashingPieces * flashingCostPerPiece),
-      
-      labor: Math.round(laborTotal),
-      laborRate: parseFloat(laborRate) || 0,
-      laborHours: parseFloat(laborHours) || 0,
-      
-      additional: Math.round(additional),
-      
-      // Legacy fields for compatibility
-      shingles: Math.round(shingleBundles * shingleCostPerBundle),
-      waste: Math.round(wasteBundles * shingleCostPerBundle),
-      underlayment: Math.round(underlaymentRolls * underlaymentCostPerRoll),
-      flashing: Math.round(flashingPieces * flashingCostPerPiece),
-      nails: Math.round(nailPounds * nailCostPerPound),
-      venting: Math.round(ventCount * ventCostEach),
-      ridgeCap: Math.round(ridgeCapBundles * ridgeCapCostPerBundle),
-    };
+    return calculateMicroBreakdown(getEstimateInput());
+  };
+
+  // Default tiers run from the cheapest material in the price book to the
+  // most expensive.
+  const toggleOfferOptions = () => {
+    if (!offerOptions && Object.keys(optionMaterials).length === 0) {
+      const sorted = [...priceBook.materials].sort(
+        (a, b) => a.pricePerSquare - b.pricePerSquare
+      );
+      if (sorted.length > 0) {
+        setOptionMaterials({
+          good: sorted[0].materialKey,
+          better: sorted[Math.min(1, sorted.length - 1)].materialKey,
+          best: sorted[sorted.length - 1].materialKey,
+        });
+      }
+    }
+    setOfferOptions(!offerOptions);
+  };
+
+  const getEstimateOptions = (): EstimateOption[] => {
+    if (!offerOptions) return [];
+    return calculateEstimateOptions(
+      getEstimateInput(),
+      ESTIMATE_OPTION_TIERS.flatMap(({ tier }) => {
+        const materialKey = optionMaterials[tier];
+        return materialKey
+          ? [{ tier, selectedMaterial: materialKey, materialPricePerSquare: materialPrices[materialKey] || 0 }]
+          : [];
+      }),
+      priceBook.materials
+    );
   };
 
   const handlePreview = async () => {
     setIsSubmitting(true);
 
     try {
-      const stored = await AsyncStorage.getItem("roofmaster_projects");
-      if (stored) {
-        const projects = JSON.parse(stored);
-        const index = projects.findIndex((p: any) => p.id === projectId);
-        if (index !== -1) {
-          const breakdown = getMicroBreakdown();
-          projects[index] = {
-            ...projects[index],
-            selectedMaterial,
-            materialPricePerSquare: getSelectedMaterialPrice(),
-            roofSquares,
-            microBreakdown: breakdown,
-            laborRate: parseFloat(laborRate) || 0,
-            laborHours: parseFloat(laborHours) || 0,
-            additionalCosts: parseFloat(additionalCosts) || 0,
-            estimateTotal: calculateTotal(),
-          };
-          await AsyncStorage.setItem(
-            "roofmaster_projects",
-            JSON.stringify(projects)
-          );
-        }
+      const project = await loadLocalProject(projectId);
+      if (project) {
+        const breakdown = getMicroBreakdown();
+        const estimateOptions = getEstimateOptions();
+        // A customer's earlier pick only stands if that option still
+        // matches the primary material and price.
+        const pickedOption = estimateOptions.find(
+          (o) => o.tier === project.selectedOptionTier
+        );
+        const keepPick =
+          pickedOption?.selectedMaterial === selectedMaterial &&
+          pickedOption.materialPricePerSquare === getSelectedMaterialPrice();
+        const segmentSummary = summarizeRoofSegments(roofSegments);
+        const updated = {
+          ...project,
+          selectedMaterial,
+          materialPricePerSquare: getSelectedMaterialPrice(),
+          ...(roofSegments.length > 0
+            ? {
+                roofSegments,
+                roofArea: segmentSummary.areaSqFt,
+                roofSquares: segmentSummary.squares,
+                pitch: segmentSummary.averagePitch,
+              }
+            : { roofSegments: null, roofSquares }),
+          microBreakdown: breakdown,
+          laborRate: parseFloat(laborRate) || 0,
+          laborHours: parseFloat(laborHours) || 0,
+          additionalCosts: parseFloat(additionalCosts) || 0,
+          estimateTotal: calculateTotal(),
+          estimateOptions: estimateOptions.length > 0 ? estimateOptions : null,
+          selectedOptionTier: keepPick ? pickedOption.tier : null,
+        };
+        await saveProject(updated);
+        await recordRevision(projectId, {
+          inputs: getEstimateRevisionInputs(updated),
+          breakdown,
+          estimateTotal: updated.estimateTotal,
+        });
       }
 
       navigation.navigate("EstimatePreview", { projectId });
@@ -302,8 +284,6 @@ export default function CostInputScreen() {
     }
   };
 
-  const selectedMaterialData = MATERIAL_TYPES.find((m) => m.id === selectedMaterial);
-
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
       <KeyboardAwareScrollViewCompat
@@ -322,19 +302,19 @@ export default function CostInputScreen() {
           </ThemedText>
 
           <View style={styles.materialGrid}>
-            {MATERIAL_TYPES.map((material) => (
+            {priceBook.materials.map((material) => (
               <Pressable
-                key={material.id}
-                onPress={() => setSelectedMaterial(material.id)}
+                key={material.materialKey}
+                onPress={() => setSelectedMaterial(material.materialKey)}
                 style={({ pressed }) => [
                   styles.materialOption,
                   {
                     backgroundColor:
-                      selectedMaterial === material.id
+                      selectedMaterial === material.materialKey
                         ? theme.accent + "15"
                         : theme.backgroundDefault,
                     borderColor:
-                      selectedMaterial === material.id
+                      selectedMaterial === material.materialKey
                         ? theme.accent
                         : theme.divider,
                     opacity: pressed ? 0.8 : 1,
@@ -346,7 +326,7 @@ export default function CostInputScreen() {
                     styles.materialIconWrap,
                     {
                       backgroundColor:
-                        selectedMaterial === material.id
+                        selectedMaterial === material.materialKey
                           ? theme.accent
                           : theme.backgroundSecondary,
                     },
@@ -356,7 +336,7 @@ export default function CostInputScreen() {
                     name={material.icon as any}
                     size={20}
                     color={
-                      selectedMaterial === material.id ? "white" : theme.text
+                      selectedMaterial === material.materialKey ? "white" : theme.text
                     }
                   />
                 </View>
@@ -366,7 +346,7 @@ export default function CostInputScreen() {
                     styles.materialName,
                     {
                       color:
-                        selectedMaterial === material.id
+                        selectedMaterial === material.materialKey
                           ? theme.accent
                           : theme.text,
                     },
@@ -375,7 +355,7 @@ export default function CostInputScreen() {
                   {material.name}
                 </ThemedText>
                 <ThemedText type="secondary" style={styles.materialPrice}>
-                  {formatCurrency(materialPrices[material.id])}/sq
+                  {formatCurrency(materialPrices[material.materialKey] || 0)}/sq
                 </ThemedText>
               </Pressable>
             ))}
@@ -392,15 +372,15 @@ export default function CostInputScreen() {
 
           <Card style={styles.sliderCard}>
             <View style={styles.sliderHeader}>
-              <ThemedText type="secondary">Base: {formatCurrency(selectedMaterialData?.basePrice || 0)}</ThemedText>
+              <ThemedText type="secondary">Base: {formatCurrency(selectedMaterialData?.pricePerSquare || 0)}</ThemedText>
               <ThemedText type="h3" style={{ color: theme.accent }}>
                 {formatCurrency(materialPrices[selectedMaterial])}
               </ThemedText>
             </View>
             <Slider
               style={styles.slider}
-              minimumValue={(selectedMaterialData?.basePrice || 0) * 0.5}
-              maximumValue={(selectedMaterialData?.basePrice || 0) * 2}
+              minimumValue={(selectedMaterialData?.pricePerSquare || 0) * 0.5}
+              maximumValue={(selectedMaterialData?.pricePerSquare || 0) * 2}
               value={materialPrices[selectedMaterial]}
               onValueChange={(value) => updateMaterialPrice(selectedMaterial, value)}
               minimumTrackTintColor={theme.accent}
@@ -409,10 +389,10 @@ export default function CostInputScreen() {
             />
             <View style={styles.sliderLabels}>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                {formatCurrency((selectedMaterialData?.basePrice || 0) * 0.5)}
+                {formatCurrency((selectedMaterialData?.pricePerSquare || 0) * 0.5)}
               </ThemedText>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                {formatCurrency((selectedMaterialData?.basePrice || 0) * 2)}
+                {formatCurrency((selectedMaterialData?.pricePerSquare || 0) * 2)}
               </ThemedText>
             </View>
           </Card>
@@ -420,11 +400,32 @@ export default function CostInputScreen() {
           <View style={styles.squaresInfo}>
             <ThemedText type="secondary">Roof Size:</ThemedText>
             <ThemedText type="h4" style={{ color: theme.accent }}>
-              {roofSquares} Squares
+              {pricedSquares} Squares
             </ThemedText>
           </View>
         </View>
 
+        <View style={styles.section}>
+          <ThemedText type="body" style={styles.sectionTitle}>
+            Roof Facets
+          </ThemedText>
+          <ThemedText type="secondary" style={styles.sectionSubtitle}>
+            {roofSegments.length > 0
+              ? "Each facet is priced at its own pitch"
+              : "Add facets to price each roof plane at its own pitch"}
+          </ThemedText>
+          <RoofSegmentsEditor segments={roofSegments} onChange={setRoofSegments} />
+          <Pressable
+            onPress={() => navigation.navigate("RoofSketch", { projectId })}
+            style={({ pressed }) => [styles.sketchRow, { opacity: pressed ? 0.6 : 1 }]}
+          >
+            <Feather name="edit-2" size={18} color={theme.accent} />
+            <ThemedText type="body" style={{ color: theme.accent }}>
+              {hasSketch ? "Edit Roof Sketch" : "Draw Roof Sketch"}
+            </ThemedText>
+          </Pressable>
+        </View>
+
         <View style={styles.section}>
           <ThemedText type="body" style={styles.sectionTitle}>
             Labor
@@ -500,6 +501,77 @@ export default function CostInputScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Pressable
+            onPress={toggleOfferOptions}
+            style={({ pressed }) => [styles.optionsToggle, { opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Feather
+              name={offerOptions ? "check-square" : "square"}
+              size={22}
+              color={offerOptions ? theme.accent : theme.textSecondary}
+            />
+            <View style={styles.itemDetails}>
+              <ThemedText type="body" style={styles.sectionTitle}>
+                Good / Better / Best Options
+              </ThemedText>
+              <ThemedText type="secondary">
+                Show the customer three materials side by side
+              </ThemedText>
+            </View>
+          </Pressable>
+
+          {offerOptions
+            ? (() => {
+                const options = getEstimateOptions();
+                return ESTIMATE_OPTION_TIERS.map(({ tier, label }) => {
+                  const option = options.find((o) => o.tier === tier);
+                  return (
+                    <Card key={tier} style={styles.optionCard}>
+                      <View style={styles.summaryRow}>
+                        <ThemedText type="h4">{label}</ThemedText>
+                        <ThemedText type="h4" style={{ color: theme.accent }}>
+                          {option ? formatCurrency(option.estimateTotal) : "—"}
+                        </ThemedText>
+                      </View>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                        <View style={styles.optionChips}>
+                          {priceBook.materials.map((material) => {
+                            const isActive = optionMaterials[tier] === material.materialKey;
+                            return (
+                              <Pressable
+                                key={material.materialKey}
+                                onPress={() =>
+                                  setOptionMaterials((prev) => ({
+                                    ...prev,
+                                    [tier]: material.materialKey,
+                                  }))
+                                }
+                                style={[
+                                  styles.optionChip,
+                                  {
+                                    backgroundColor: isActive ? theme.accent : theme.backgroundSecondary,
+                                  },
+                                ]}
+                              >
+                                <ThemedText
+                                  type="small"
+                                  style={{ color: isActive ? "white" : theme.text }}
+                                >
+                                  {material.name}
+                                </ThemedText>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      </ScrollView>
+                    </Card>
+                  );
+                });
+              })()
+            : null}
+        </View>
+
         <Card style={styles.summaryCard}>
           <ThemedText type="secondary" style={styles.summaryLabel}>
             Detailed Material Breakdown
@@ -633,7 +705,7 @@ export default function CostInputScreen() {
                 </View>
                 <View style={styles.perSquareRow}>
                   <ThemedText type="secondary">
-                    {formatCurrency(getSelectedMaterialPrice())} x {roofSquares} squares
+                    {formatCurrency(getSelectedMaterialPrice())} x {pricedSquares} squares
                   </ThemedText>
                 </View>
               </>
@@ -680,6 +752,12 @@ const styles = StyleSheet.create({
   sectionSubtitle: {
     marginBottom: Spacing.md,
   },
+  sketchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
   materialGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -759,6 +837,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     height: "100%",
   },
+  optionsToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  optionCard: {
+    marginBottom: Spacing.md,
+  },
+  optionChips: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  optionChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   summaryCard: {
     marginBottom: Spacing.lg,
   },
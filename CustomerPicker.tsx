@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import {
+  loadCustomers,
+  createCustomer,
+  Customer,
+  CustomerInput,
+} from "@/lib/customers";
+
+interface CustomerPickerProps {
+  customer: Customer | null;
+  onChange: (customer: Customer | null) => void;
+}
+
+const EMPTY_CUSTOMER: CustomerInput = {
+  name: "",
+  phone: "",
+  email: "",
+  billingAddress: "",
+};
+
+export function CustomerPicker({ customer, onChange }: CustomerPickerProps) {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState<CustomerInput>(EMPTY_CUSTOMER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const open = async () => {
+    setIsOpen(true);
+    setSearch("");
+    setIsCreating(false);
+    setIsLoading(true);
+    try {
+      setCustomers(await loadCustomers());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const select = (selected: Customer) => {
+    onChange(selected);
+    setIsOpen(false);
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert("Missing Information", "Please enter the customer's name.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await createCustomer({
+        name: draft.name.trim(),
+        phone: draft.phone?.trim() || null,
+        email: draft.email?.trim() || null,
+        billingAddress: draft.billingAddress?.trim() || null,
+      });
+      setDraft(EMPTY_CUSTOMER);
+      select(created);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to create customer.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const filtered = query
+    ? customers.filter((c) =>
+        [c.name, c.email, c.phone, c.billingAddress].some((field) =>
+          field?.toLowerCase().includes(query),
+        ),
+      )
+    : customers;
+
+  const renderField = (
+    field: keyof CustomerInput,
+    placeholder: string,
+    keyboardType: "default" | "phone-pad" | "email-address" = "default",
+  ) => (
+    <TextInput
+      style={[
+        styles.input,
+        { backgroundColor: theme.backgroundSecondary, color: theme.text },
+      ]}
+      value={draft[field] || ""}
+      onChangeText={(text) => setDraft((prev) => ({ ...prev, [field]: text }))}
+      placeholder={placeholder}
+      placeholderTextColor={theme.textSecondary}
+      keyboardType={keyboardType}
+      autoCapitalize={keyboardType === "email-address" ? "none" : "words"}
+    />
+  );
+
+  return (
+    <>
+      <Pressable
+        onPress={open}
+        style={({ pressed }) => [
+          styles.trigger,
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.8 : 1,
+          },
+        ]}
+      >
+        <View style={styles.triggerContent}>
+          <Feather name="user" size={20} color={theme.accent} />
+          <View style={styles.flex}>
+            <ThemedText type="body">
+              {customer ? customer.name : "Customer"}
+            </ThemedText>
+            <ThemedText type="secondary" style={styles.triggerSubtitle}>
+              {customer
+                ? customer.phone || customer.email || "No contact details"
+                : "Select or add the homeowner"}
+            </ThemedText>
+          </View>
+        </View>
+        {customer ? (
+          <Pressable onPress={() => onChange(null)} hitSlop={8}>
+            <Feather name="x" size={20} color={theme.textSecondary} />
+          </Pressable>
+        ) : (
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        )}
+      </Pressable>
+
+      <Modal
+        visible={isOpen}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <View
+          style={[
+            styles.modal,
+            {
+              backgroundColor: theme.backgroundRoot,
+              paddingBottom: insets.bottom + Spacing.lg,
+            },
+          ]}
+        >
+          <View style={styles.modalHeader}>
+            <ThemedText type="h4">
+              {isCreating ? "New Customer" : "Select Customer"}
+            </ThemedText>
+            <Pressable onPress={() => setIsOpen(false)} hitSlop={8}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {isCreating ? (
+            <ScrollView contentContainerStyle={styles.form}>
+              {renderField("name", "Full name")}
+              {renderField("phone", "Phone", "phone-pad")}
+              {renderField("email", "Email", "email-address")}
+              {renderField("billingAddress", "Billing address")}
+              <Button onPress={handleCreate} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save Customer"}
+              </Button>
+              <Button variant="ghost" onPress={() => setIsCreating(false)}>
+                Back to List
+              </Button>
+            </ScrollView>
+          ) : (
+            <>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={search}
+                onChangeText={setSearch}
+                placeholder="Search customers"
+                placeholderTextColor={theme.textSecondary}
+              />
+              <Pressable
+                onPress={() => setIsCreating(true)}
+                style={({ pressed }) => [
+                  styles.addRow,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <Feather name="user-plus" size={18} color={theme.accent} />
+                <ThemedText type="body" style={{ color: theme.accent }}>
+                  Add New Customer
+                </ThemedText>
+              </Pressable>
+              {isLoading ? (
+                <ActivityIndicator
+                  color={theme.accent}
+                  style={styles.loading}
+                />
+              ) : (
+                <ScrollView>
+                  {filtered.length === 0 ? (
+                    <ThemedText type="secondary" style={styles.empty}>
+                      {customers.length === 0
+                        ? "No customers yet."
+                        : "No customers match your search."}
+                    </ThemedText>
+                  ) : null}
+                  {filtered.map((item) => (
+                    <Pressable
+                      key={item.id}
+                      onPress={() => select(item)}
+                      style={({ pressed }) => [
+                        styles.customerRow,
+                        {
+                          borderBottomColor: theme.divider,
+                          opacity: pressed ? 0.6 : 1,
+                        },
+                      ]}
+                    >
+                      <View style={styles.flex}>
+                        <ThemedText type="body">{item.name}</ThemedText>
+                        {item.billingAddress || item.phone ? (
+                          <ThemedText type="secondary" numberOfLines={1}>
+                            {item.billingAddress || item.phone}
+                          </ThemedText>
+                        ) : null}
+                      </View>
+                      {customer?.id === item.id ? (
+                        <Feather name="check" size={20} color={theme.accent} />
+                      ) : null}
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              )}
+            </>
+          )}
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  triggerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    flex: 1,
+  },
+  triggerSubtitle: {
+    fontSize: 13,
+  },
+  flex: {
+    flex: 1,
+  },
+  modal: {
+    flex: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.xl,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.lg,
+  },
+  form: {
+    gap: Spacing.md,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+  loading: {
+    marginTop: Spacing.xl,
+  },
+  empty: {
+    textAlign: "center",
+    marginTop: Spacing.xl,
+  },
+  customerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+});
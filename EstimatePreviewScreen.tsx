@@ -1,22 +1,45 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { View, ScrollView, StyleSheet, Pressable, Alert, Share, Platform } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { useNavigation, useRoute, useFocusEffect, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Speech from "expo-speech";
-import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import * as FileSystem from "expo-file-system";
-import { apiRequest } from "@/lib/query-client";
+import { apiRequest, getApiUrl, getAuthToken } from "@/lib/query-client";
 
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing, BorderRadius } from "@/constants/theme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { Card } from "@/components/Card";
+import { RoofAgeSummary } from "@/components/RoofAgeSummary";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { Customer, formatCustomerLines } from "@/lib/customers";
+import { recordRevision } from "@/lib/revisions";
+import { updateProject } from "@/lib/sync";
+import {
+  createEstimateShare,
+  describeEstimateShare,
+  loadLatestEstimateShare,
+  EstimateShare,
+} from "@/lib/estimate-shares";
+import {
+  describeProjectPermits,
+  loadProjectPermits,
+  ProjectPermit,
+} from "@/lib/project-permits";
+import {
+  getEstimateGroupTotals,
+  getEstimateOptionFields,
+  getEstimateOptionLabel,
+  getEstimateRevisionInputs,
+  type EstimateOption,
+  type EstimateOptionTier,
+} from "@shared/estimate";
+import { estimateRoofAge } from "@shared/roof-age";
 
 const MATERIAL_NAMES: Record<string, string> = {
   "three-tab": "Three Tab Shingles",
@@ -71,6 +94,8 @@ interface MicroBreakdown {
 interface Project {
   id: string;
   address: string;
+  customerId?: string | null;
+  customer?: Customer | null;
   length: number;
   width: number;
   pitch: number;
@@ -79,6 +104,8 @@ interface Project {
   selectedMaterial?: string;
   materialPricePerSquare?: number;
   microBreakdown?: MicroBreakdown;
+  estimateOptions?: EstimateOption[] | null;
+  selectedOptionTier?: EstimateOptionTier | null;
   laborRate: number;
   laborHours: number;
   additionalCosts: number;
@@ -99,11 +126,33 @@ export default function EstimatePreviewScreen() {
   const [isSaving, setIsSaving] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const [estimateShare, setEstimateShare] = useState<EstimateShare | null>(null);
+  const [permits, setPermits] = useState<ProjectPermit[] | null>(null);
 
   useEffect(() => {
     loadProject();
+    loadEstimateShare();
   }, [projectId]);
 
+  // Reloaded on focus so edits made on the Permits screen show up here.
+  useFocusEffect(
+    useCallback(() => {
+      AsyncStorage.getItem("roofmaster_guest_mode").then((isGuest) => {
+        if (isGuest === "true") return;
+        loadProjectPermits(projectId)
+          .then(setPermits)
+          .catch((error) => console.error("Error loading permits:", error));
+      });
+    }, [projectId])
+  );
+
+  const loadEstimateShare = async () => {
+    const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+    if (isGuest === "true") return;
+    setEstimateShare(await loadLatestEstimateShare(projectId));
+  };
+
   const loadProject = async () => {
     try {
       const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
@@ -155,39 +204,10 @@ export default function EstimatePreviewScreen() {
     setIsSaving(true);
 
     try {
-      const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
-      
-      const stored = await AsyncStorage.getItem("roofmaster_projects");
-      if (stored) {
-        const projects = JSON.parse(stored);
-        const index = projects.findIndex((p: Project) => p.id === projectId);
-        if (index !== -1) {
-          projects[index] = {
-            ...projects[index],
-            status: finalize ? "completed" : "draft",
-          };
-          await AsyncStorage.setItem(
-            "roofmaster_projects",
-            JSON.stringify(projects)
-          );
-          
-          if (isGuest !== "true") {
-            try {
-              await apiRequest("POST", "/api/projects", {
-                name: project.address,
-                address: project.address,
-                status: finalize ? "completed" : "draft",
-                data: {
-                  ...project,
-                  status: finalize ? "completed" : "draft",
-                },
-              });
-            } catch (dbError) {
-              console.error("Failed to sync to database:", dbError);
-            }
-          }
-        }
-      }
+      // Saved on the device; the sync engine uploads it when signed in.
+      await updateProject(projectId, {
+        status: finalize ? "completed" : "draft",
+      });
 
       Alert.alert(
         finalize ? "Estimate Finalized" : "Draft Saved",
@@ -208,6 +228,59 @@ export default function EstimatePreviewScreen() {
     }
   };
 
+  // The customer's pick becomes the project's estimate, so the breakdown, PDF
+  // and saved project all describe the chosen option.
+  const handleSelectOption = async (option: EstimateOption) => {
+    if (!project) return;
+
+    const updated: Project = { ...project, ...getEstimateOptionFields(option) };
+
+    try {
+      await updateProject(projectId, getEstimateOptionFields(option));
+      await recordRevision(projectId, {
+        inputs: getEstimateRevisionInputs(updated),
+        breakdown: option.breakdown,
+        estimateTotal: option.estimateTotal,
+      });
+      setProject(updated);
+    } catch (error) {
+      console.error("Failed to select option:", error);
+      Alert.alert("Error", "Failed to select this option. Please try again.");
+    }
+  };
+
+  // Sends the homeowner a link where they can review the estimate, pick an
+  // option and accept it with a signature, or decline it.
+  const handleSendForSignature = async () => {
+    if (!project) return;
+
+    const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+    if (isGuest === "true") {
+      Alert.alert(
+        "Sign In Required",
+        "Sign in to send estimates for online signature."
+      );
+      return;
+    }
+
+    setIsSendingLink(true);
+    try {
+      const { share, url } = await createEstimateShare(project);
+      setEstimateShare(share);
+      const greeting = project.customer?.name
+        ? `Hi ${project.customer.name},\n\n`
+        : "";
+      await Share.share({
+        message: `${greeting}Here is your roofing estimate for ${project.address}. Review it and accept or decline online:\n\n${url}`,
+      });
+    } catch (error) {
+      console.error("Failed to create estimate link:", error);
+      Alert.alert("Error", "Failed to create the estimate link. Please try again.");
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
   const handleShare = async () => {
     if (!project) return;
 
@@ -215,15 +288,28 @@ export default function EstimatePreviewScreen() {
       ? MATERIAL_NAMES[project.selectedMaterial] || project.selectedMaterial
       : "Standard";
 
+    const customerText = project.customer
+      ? `Prepared For:\n${formatCustomerLines(project.customer).join("\n")}\n\n`
+      : "";
+
+    const optionsText = project.estimateOptions?.length
+      ? `Options:\n${project.estimateOptions
+          .map(
+            (option) =>
+              `${getEstimateOptionLabel(option.tier)}: ${MATERIAL_NAMES[option.selectedMaterial] || option.selectedMaterial} - ${formatCurrency(option.estimateTotal)}${option.tier === project.selectedOptionTier ? " (selected)" : ""}`
+          )
+          .join("\n")}\n\n`
+      : "";
+
     const message = `
 RoofMaster 360 Estimate
 
-Property: ${project.address}
+${customerText}Property: ${project.address}
 Roof Area: ${project.roofArea.toLocaleString()} sq ft (${project.roofSquares || Math.ceil(project.roofArea / 100)} squares)
 Material: ${materialName}
 Date: ${formatDate(project.createdAt)}
 
-Total Estimate: ${formatCurrency(project.estimateTotal)}
+${optionsText}Total Estimate: ${formatCurrency(project.estimateTotal)}
 
 Generated by RoofMaster 360
     `.trim();
@@ -283,6 +369,9 @@ Generated by RoofMaster 360
   const handleDownloadPDF = async () => {
     if (!project) return;
 
+    // Popup blockers only allow a window opened straight from the tap, so on
+    // web it's opened now and pointed at the PDF once that's ready.
+    const pdfWindow = Platform.OS === "web" ? window.open("", "_blank") : null;
     setIsGeneratingPdf(true);
 
     try {
@@ -299,36 +388,49 @@ Generated by RoofMaster 360
       const response = await apiRequest("POST", "/api/generate-pdf", { project, branding });
       const data = await response.json();
 
-      if (!data.success || !data.html) {
+      if (!data.success || !data.url) {
+        pdfWindow?.close();
         Alert.alert("Error", "Failed to generate PDF. Please try again.");
         return;
       }
 
+      // A signed-in user's PDF URL needs the auth header, so on web it's
+      // fetched and opened as a blob instead of by URL.
       if (Platform.OS === "web") {
-        const blob = new Blob([data.html], { type: "text/html" });
-        const url = URL.createObjectURL(blob);
-        const printWindow = window.open(url, "_blank");
-        if (printWindow) {
-          printWindow.onload = () => {
-            printWindow.print();
-          };
+        const pdfResponse = await apiRequest("GET", data.url);
+        const blobUrl = URL.createObjectURL(await pdfResponse.blob());
+        if (pdfWindow) {
+          pdfWindow.location.href = blobUrl;
+          // Released once the window has had time to load it.
+          setTimeout(() => URL.revokeObjectURL(blobUrl), 60 * 1000);
+        } else {
+          URL.revokeObjectURL(blobUrl);
+          Alert.alert("Pop-up Blocked", "Allow pop-ups for this site to view the PDF.");
         }
-        Alert.alert("PDF Ready", "Your estimate has been opened in a new window. Use your browser's print function to save as PDF.");
       } else {
-        const { uri } = await Print.printToFileAsync({ html: data.html });
+        const token = await getAuthToken();
+        const file = await FileSystem.File.downloadFileAsync(
+          new URL(data.url, getApiUrl()).toString(),
+          new FileSystem.File(FileSystem.Paths.cache, data.filename),
+          {
+            idempotent: true,
+            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+          }
+        );
         
         if (await Sharing.isAvailableAsync()) {
-          await Sharing.shareAsync(uri, {
+          await Sharing.shareAsync(file.uri, {
             mimeType: "application/pdf",
             dialogTitle: "Share Estimate PDF",
             UTI: "com.adobe.pdf",
           });
         } else {
-          Alert.alert("PDF Generated", `PDF saved to: ${uri}`);
+          Alert.alert("PDF Generated", `PDF saved to: ${file.uri}`);
         }
       }
     } catch (error) {
       console.error("PDF generation error:", error);
+      pdfWindow?.close();
       Alert.alert("Error", "Failed to generate PDF. Please try again.");
     } finally {
       setIsGeneratingPdf(false);
@@ -375,6 +477,11 @@ Generated by RoofMaster 360
     ? MATERIAL_NAMES[project.selectedMaterial] || project.selectedMaterial
     : "Standard Materials";
   const breakdown = project.microBreakdown;
+  // The job's own permit is the new roof, so only the property's history
+  // dates the current one.
+  const roofAge = permits
+    ? estimateRoofAge(permits.filter((p) => p.kind === "history"))
+    : null;
 
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
@@ -405,6 +512,20 @@ Generated by RoofMaster 360
           </ThemedText>
         </View>
 
+        {project.customer ? (
+          <Card style={styles.propertyCard}>
+            <View style={styles.propertyHeader}>
+              <Feather name="user" size={20} color={theme.accent} />
+              <ThemedText type="secondary">Prepared For</ThemedText>
+            </View>
+            {formatCustomerLines(project.customer).map((line, index) => (
+              <ThemedText key={index} type={index === 0 ? "h4" : "body"}>
+                {line}
+              </ThemedText>
+            ))}
+          </Card>
+        ) : null}
+
         <Card style={styles.propertyCard}>
           <View style={styles.propertyHeader}>
             <Feather name="map-pin" size={20} color={theme.accent} />
@@ -435,6 +556,68 @@ Generated by RoofMaster 360
           </View>
         </Card>
 
+        {roofAge ? (
+          <Card style={styles.propertyCard}>
+            <RoofAgeSummary roofAge={roofAge} />
+          </Card>
+        ) : null}
+
+        {project.estimateOptions?.length ? (
+          <Card style={styles.materialCard}>
+            <ThemedText type="body" style={styles.breakdownTitle}>
+              Choose Your Option
+            </ThemedText>
+            <View style={styles.optionsTable}>
+              {project.estimateOptions.map((option) => {
+                const isSelected = option.tier === project.selectedOptionTier;
+                const groups = getEstimateGroupTotals(option.breakdown);
+                return (
+                  <View
+                    key={option.tier}
+                    style={[
+                      styles.optionColumn,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        borderColor: isSelected ? theme.accent : "transparent",
+                      },
+                    ]}
+                  >
+                    <ThemedText type="h4">{getEstimateOptionLabel(option.tier)}</ThemedText>
+                    <ThemedText type="small" style={styles.optionMaterial} numberOfLines={2}>
+                      {MATERIAL_NAMES[option.selectedMaterial] || option.selectedMaterial}
+                    </ThemedText>
+                    <ThemedText type="secondary" style={styles.optionLabel}>Per Square</ThemedText>
+                    <ThemedText type="body">{formatCurrency(option.materialPricePerSquare)}</ThemedText>
+                    <ThemedText type="secondary" style={styles.optionLabel}>Materials</ThemedText>
+                    <ThemedText type="body">{formatCurrency(groups.materials)}</ThemedText>
+                    <ThemedText type="secondary" style={styles.optionLabel}>Labor & Other</ThemedText>
+                    <ThemedText type="body">{formatCurrency(groups.labor)}</ThemedText>
+                    <ThemedText type="secondary" style={styles.optionLabel}>Total</ThemedText>
+                    <ThemedText type="h4" style={{ color: theme.accent }}>
+                      {formatCurrency(option.estimateTotal)}
+                    </ThemedText>
+                    <Pressable
+                      onPress={() => handleSelectOption(option)}
+                      disabled={isSelected}
+                      style={({ pressed }) => [
+                        styles.optionButton,
+                        {
+                          backgroundColor: isSelected ? theme.accent : theme.backgroundDefault,
+                          opacity: pressed ? 0.7 : 1,
+                        },
+                      ]}
+                    >
+                      <ThemedText type="small" style={isSelected ? { color: "#FFFFFF" } : undefined}>
+                        {isSelected ? "Selected" : "Choose"}
+                      </ThemedText>
+                    </Pressable>
+                  </View>
+                );
+              })}
+            </View>
+          </Card>
+        ) : null}
+
         <Card style={styles.materialCard}>
           <View style={styles.materialHeader}>
             <Feather name="layers" size={20} color={theme.accent} />
@@ -601,6 +784,85 @@ Generated by RoofMaster 360
           </View>
         </Card>
 
+        <Pressable
+          onPress={() => navigation.navigate("RevisionHistory", { projectId })}
+          style={({ pressed }) => [
+            styles.historyRow,
+            { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <Feather name="clock" size={20} color={theme.accent} />
+          <ThemedText type="body" style={styles.historyLabel}>
+            Revision History
+          </ThemedText>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </Pressable>
+
+        <Pressable
+          onPress={() => navigation.navigate("Attachments", { projectId })}
+          style={({ pressed }) => [
+            styles.historyRow,
+            { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <Feather name="camera" size={20} color={theme.accent} />
+          <ThemedText type="body" style={styles.historyLabel}>
+            Photos & Documents
+          </ThemedText>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </Pressable>
+
+        <Pressable
+          onPress={() => navigation.navigate("ProjectPermits", { projectId })}
+          style={({ pressed }) => [
+            styles.historyRow,
+            { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <Feather name="file-text" size={20} color={theme.accent} />
+          <View style={styles.historyLabel}>
+            <ThemedText type="body">Permits</ThemedText>
+            {permits ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {describeProjectPermits(permits)}
+              </ThemedText>
+            ) : null}
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </Pressable>
+
+        <Pressable
+          onPress={handleSendForSignature}
+          disabled={isSendingLink}
+          style={({ pressed }) => [
+            styles.historyRow,
+            { backgroundColor: theme.backgroundDefault, opacity: pressed || isSendingLink ? 0.7 : 1 },
+          ]}
+        >
+          <Feather name="edit-3" size={20} color={theme.accent} />
+          <View style={styles.historyLabel}>
+            <ThemedText type="body">
+              {isSendingLink ? "Creating Link..." : "Send for Signature"}
+            </ThemedText>
+            {estimateShare ? (
+              <ThemedText
+                type="small"
+                style={{
+                  color:
+                    estimateShare.status === "accepted"
+                      ? Colors.light.success
+                      : estimateShare.status === "declined"
+                        ? "#DC3545"
+                        : theme.textSecondary,
+                }}
+              >
+                {describeEstimateShare(estimateShare)}
+              </ThemedText>
+            ) : null}
+          </View>
+          <Feather name="send" size={20} color={theme.textSecondary} />
+        </Pressable>
+
         <View style={styles.signatureSection}>
           <View
             style={[styles.signatureLine, { borderBottomColor: theme.divider }]}
@@ -733,6 +995,17 @@ const styles = StyleSheet.create({
   dateText: {
     textAlign: "right",
   },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  historyLabel: {
+    flex: 1,
+  },
   propertyCard: {
     marginBottom: Spacing.lg,
   },
@@ -758,6 +1031,31 @@ const styles = StyleSheet.create({
   materialCard: {
     marginBottom: Spacing.lg,
   },
+  optionsTable: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  optionColumn: {
+    flex: 1,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+  },
+  optionMaterial: {
+    minHeight: 32,
+    marginBottom: Spacing.xs,
+  },
+  optionLabel: {
+    fontSize: 11,
+    marginTop: Spacing.xs,
+  },
+  optionButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+  },
   materialHeader: {
     flexDirection: "row",
     alignItems: "center",
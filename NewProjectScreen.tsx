@@ -14,16 +14,40 @@ import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { CustomerPicker } from "@/components/CustomerPicker";
+import { RoofSegmentsEditor } from "@/components/RoofSegmentsEditor";
+import { RoofAgeSummary } from "@/components/RoofAgeSummary";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { apiRequestSafe } from "@/lib/query-client";
+import { Customer } from "@/lib/customers";
+import { createProjectId, saveProject } from "@/lib/sync";
+import { previewAerialReport } from "@/lib/aerial-reports";
+import { previewDroneSurvey } from "@/lib/drone-surveys";
+import { savePermitToProject } from "@/lib/project-permits";
+import type { RoofAgeEstimate } from "@shared/roof-age";
+import { getPitchFactor, summarizeRoofSegments, type RoofSegment } from "@shared/roof-segments";
+import {
+  ROOF_LINES,
+  emptyLinearMeasurements,
+  hasLinearMeasurements,
+  type RoofLineKey,
+  type RoofLinearMeasurements,
+} from "@shared/roof-lines";
+import {
+  ROOF_STYLES,
+  ROOF_STYLE_LABELS,
+  calculateRoofGeometry,
+  validateRoofGeometryInput,
+  type FootprintShape,
+  type RoofGeometryInput,
+  type RoofStyle,
+} from "@shared/roof-geometry";
 
-interface RoofSegment {
-  id: number;
-  areaSqFt: number;
-  pitchDegrees: number;
-  pitchRatio: number;
-  orientation: string;
-}
+const FOOTPRINT_SHAPES: { shape: FootprintShape; label: string }[] = [
+  { shape: "rectangle", label: "Rectangle" },
+  { shape: "l", label: "L-Shape" },
+  { shape: "t", label: "T-Shape" },
+];
 
 interface MeasurementResult {
   totalAreaSqFt: number;
@@ -32,21 +56,39 @@ interface MeasurementResult {
   avgPitchRatio: number;
   segmentCount: number;
   segments: RoofSegment[];
+  // Set when the measurements came from an imported report or drone survey.
+  source?: "report" | "drone";
+  vendor?: string | null;
+  reportId?: string | null;
+}
+
+// Where an auto-measure result came from; cached answers can be refreshed.
+interface MeasurementLookupInfo {
+  cached: boolean;
+  fetchedAt: string;
+  imageryDate?: { year: number; month: number; day: number };
 }
 
-interface PermitAddress {
-  street_no: string;
-  street: string;
-  city: string;
-  state: string;
-  zip_code: string;
+type ImportType = "report" | "drone";
+
+const IMPORT_TYPES: { type: ImportType; label: string }[] = [
+  { type: "report", label: "Aerial Report" },
+  { type: "drone", label: "Drone Survey" },
+];
+
+// What an import read, before the estimator applies it to the project.
+interface ImportPreview {
+  title: string;
+  measurements: MeasurementResult;
+  linearMeasurements: RoofLinearMeasurements | null;
+  warnings: string[];
 }
 
 interface Permit {
   id: string;
-  address: PermitAddress;
+  address: string;
   permitType: string;
-  status: string;
+  status: "approved" | "pending" | "expired";
   issueDate: string;
   description?: string;
 }
@@ -56,6 +98,7 @@ export default function NewProjectScreen() {
   const { theme, isDark } = useTheme();
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
+  const [customer, setCustomer] = useState<Customer | null>(null);
   const [address, setAddress] = useState("");
   const [length, setLength] = useState("");
   const [width, setWidth] = useState("");
@@ -63,12 +106,32 @@ export default function NewProjectScreen() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAutoMeasuring, setIsAutoMeasuring] = useState(false);
   const [autoMeasurements, setAutoMeasurements] = useState<MeasurementResult | null>(null);
+  const [lookupInfo, setLookupInfo] = useState<MeasurementLookupInfo | null>(null);
+  const [segments, setSegments] = useState<RoofSegment[]>([]);
+  const [roofLines, setRoofLines] = useState<Partial<Record<RoofLineKey, string>>>({});
+  const [roofStyle, setRoofStyle] = useState<RoofStyle>("gable");
+  const [footprintShape, setFootprintShape] = useState<FootprintShape>("rectangle");
+  const [overhang, setOverhang] = useState("1");
+  const [wingLength, setWingLength] = useState("");
+  const [wingWidth, setWingWidth] = useState("");
+  const [geometryError, setGeometryError] = useState<string | null>(null);
   const [measurementError, setMeasurementError] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [showManualEntry, setShowManualEntry] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importType, setImportType] = useState<ImportType>("report");
+  const [importText, setImportText] = useState("");
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isReadingImport, setIsReadingImport] = useState(false);
   const [permits, setPermits] = useState<Permit[]>([]);
+  const [nearbyPermits, setNearbyPermits] = useState<Permit[]>([]);
   const [isLoadingPermits, setIsLoadingPermits] = useState(false);
+  const [permitSource, setPermitSource] = useState<string | null>(null);
+  const [roofAge, setRoofAge] = useState<RoofAgeEstimate | null>(null);
+  // Permits to copy onto the project when it's created.
+  const [savedPermitIds, setSavedPermitIds] = useState<string[]>([]);
   
   const audioRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
 
@@ -143,29 +206,76 @@ export default function NewProjectScreen() {
     }
   };
 
+  const segmentSummary = summarizeRoofSegments(segments);
+
+  // An empty pitch defaults to 4/12; an entered 0/12 (a flat roof) is kept.
+  const getPitch = () => {
+    const value = parseFloat(pitch);
+    return Number.isNaN(value) ? 4 : value;
+  };
+
   const calculateRoofArea = () => {
+    if (segments.length > 0) return segmentSummary.areaSqFt;
     if (autoMeasurements) return autoMeasurements.totalAreaSqFt;
     const l = parseFloat(length) || 0;
     const w = parseFloat(width) || 0;
     const p = parseFloat(pitch) || 0;
-    const pitchMultiplier = 1 + (p / 12) * 0.1;
-    return Math.round(l * w * pitchMultiplier);
+    return Math.round(l * w * getPitchFactor(p));
   };
 
-  const extractZipCode = (addr: string): string | null => {
-    const match = addr.match(/\b\d{5}(-\d{4})?\b/);
-    return match ? match[0].substring(0, 5) : null;
+  const getLinearMeasurements = () => {
+    const lines = emptyLinearMeasurements();
+    for (const { key } of ROOF_LINES) {
+      lines[key] = Math.max(0, parseFloat(roofLines[key] || "") || 0);
+    }
+    return hasLinearMeasurements(lines) ? lines : null;
+  };
+
+  const handleCalculateGeometry = () => {
+    const l = parseFloat(length) || 0;
+    const w = parseFloat(width) || 0;
+    const input: RoofGeometryInput = {
+      footprint:
+        footprintShape === "rectangle"
+          ? { shape: "rectangle", length: l, width: w }
+          : {
+              shape: footprintShape,
+              length: l,
+              width: w,
+              wingLength: parseFloat(wingLength) || 0,
+              wingWidth: parseFloat(wingWidth) || 0,
+            },
+      style: roofStyle,
+      pitch: getPitch(),
+      overhang: parseFloat(overhang) || 0,
+    };
+
+    const error = validateRoofGeometryInput(input);
+    setGeometryError(error);
+    if (error) return;
+
+    const geometry = calculateRoofGeometry(input);
+    setSegments(geometry.segments);
+    const lines: Partial<Record<RoofLineKey, string>> = {};
+    for (const { key } of ROOF_LINES) {
+      const value = geometry.linearMeasurements[key];
+      lines[key] = value > 0 ? String(value) : "";
+    }
+    setRoofLines(lines);
   };
 
   const fetchPermits = async (addr: string) => {
     setIsLoadingPermits(true);
     try {
-      const zipCode = extractZipCode(addr);
-      const searchQuery = zipCode || addr;
-      const response = await apiRequestSafe("POST", "/api/permits", { address: searchQuery });
+      const response = await apiRequestSafe("POST", "/api/permits", { address: addr });
       const data = await response.json();
-      if (data.success && data.permits) {
-        setPermits(data.permits.slice(0, 3));
+      if (data.success) {
+        const propertyPermits: Permit[] = (data.permits || []).slice(0, 5);
+        setPermits(propertyPermits);
+        setNearbyPermits((data.nearby || []).slice(0, 3));
+        setPermitSource(data.provider || null);
+        setRoofAge(data.roofAge || null);
+        setSavedPermitIds(propertyPermits.map((p) => p.id));
       }
     } catch (error) {
       console.error("Permit fetch error:", error);
@@ -174,7 +284,47 @@ export default function NewProjectScreen() {
     }
   };
 
-  const handleAutoMeasure = async () => {
+  const renderPermit = (permit: Permit) => (
+    <View key={permit.id} style={[styles.permitItem, { backgroundColor: theme.backgroundSecondary }]}>
+      <View style={styles.permitItemHeader}>
+        <ThemedText type="body" style={styles.permitAddress}>
+          {permit.address}
+        </ThemedText>
+        <View style={[styles.permitStatus, { backgroundColor: permit.status === "approved" ? Colors.light.success + "20" : Colors.light.accent + "20" }]}>
+          <ThemedText type="small" style={{ color: permit.status === "approved" ? Colors.light.success : Colors.light.accent, fontWeight: "600" }}>
+            {permit.status}
+          </ThemedText>
+        </View>
+      </View>
+      <ThemedText type="secondary" style={styles.permitType}>{permit.permitType}</ThemedText>
+      {permit.description ? (
+        <ThemedText type="small" style={styles.permitDescription} numberOfLines={2}>
+          {permit.description}
+        </ThemedText>
+      ) : null}
+      <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: 4 }}>
+        {new Date(permit.issueDate).toLocaleDateString()}
+      </ThemedText>
+      <Pressable
+        onPress={() =>
+          setSavedPermitIds((prev) =>
+            prev.includes(permit.id) ? prev.filter((id) => id !== permit.id) : [...prev, permit.id],
+          )
+        }
+        style={styles.permitSaveToggle}
+        hitSlop={4}
+      >
+        <Feather
+          name={savedPermitIds.includes(permit.id) ? "check-square" : "square"}
+          size={16}
+          color={savedPermitIds.includes(permit.id) ? theme.accent : theme.textSecondary}
+        />
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>Save with project</ThemedText>
+      </Pressable>
+    </View>
+  );
+
+  const handleAutoMeasure = async (refresh = false) => {
     if (!address.trim()) {
       Alert.alert("Missing Address", "Please enter a property address first.");
       return;
@@ -183,12 +333,17 @@ export default function NewProjectScreen() {
     setIsAutoMeasuring(true);
     setMeasurementError(null);
     setAutoMeasurements(null);
+    setLookupInfo(null);
+    setSegments([]);
     setPermits([]);
+    setNearbyPermits([]);
+    setRoofAge(null);
+    setSavedPermitIds([]);
 
     fetchPermits(address.trim());
 
     try {
-      const response = await apiRequestSafe("POST", "/api/roof-measurements", { address: address.trim() });
+      const response = await apiRequestSafe("POST", "/api/roof-measurements", { address: address.trim(), refresh });
       const data = await response.json();
 
       if (!response.ok) {
@@ -198,6 +353,8 @@ export default function NewProjectScreen() {
 
       if (data.success && data.measurements) {
         setAutoMeasurements(data.measurements);
+        setLookupInfo({ cached: !!data.cached, fetchedAt: data.fetchedAt, imageryDate: data.imageryDate });
+        setSegments(data.measurements.segments || []);
         setPitch(String(data.measurements.avgPitchRatio));
         const side = Math.round(Math.sqrt(data.measurements.totalAreaSqFt));
         setLength(String(side));
@@ -215,6 +372,115 @@ export default function NewProjectScreen() {
     }
   };
 
+  const readImport = async (): Promise<ImportPreview> => {
+    if (importType === "drone") {
+      const survey = await previewDroneSurvey(importText);
+      const { linearMeasurements, ...measurements } = survey.measurements;
+      return {
+        title: `Drone Survey (${survey.format === "kml" ? "KML" : "GeoJSON"})`,
+        measurements: { ...measurements, source: "drone" },
+        linearMeasurements,
+        warnings: survey.warnings,
+      };
+    }
+
+    const { report, warnings } = await previewAerialReport(importText);
+    return {
+      title: `${report.vendor || "Measurement Report"}${report.reportId ? ` #${report.reportId}` : ""}`,
+      measurements: {
+        totalAreaSqFt: report.totalAreaSqFt,
+        roofSquares: report.roofSquares,
+        avgPitchDegrees: Math.round((Math.atan(report.avgPitchRatio / 12) * 180) / Math.PI),
+        avgPitchRatio: report.avgPitchRatio,
+        segmentCount: report.segments.length,
+        segments: report.segments,
+        source: "report",
+        vendor: report.vendor,
+        reportId: report.reportId,
+      },
+      linearMeasurements: report.linearMeasurements,
+      warnings,
+    };
+  };
+
+  const handlePreviewImport = async () => {
+    if (!importText.trim()) {
+      setImportError(
+        importType === "drone"
+          ? "Paste the survey's GeoJSON or KML export first."
+          : "Paste the report's XML, JSON or CSV export first.",
+      );
+      return;
+    }
+
+    setIsReadingImport(true);
+    setImportError(null);
+    setImportPreview(null);
+    try {
+      setImportPreview(await readImport());
+    } catch (error: any) {
+      setImportError(error.message || "Failed to read the file.");
+    } finally {
+      setIsReadingImport(false);
+    }
+  };
+
+  const applyImport = () => {
+    if (!importPreview) return;
+    const { measurements, linearMeasurements } = importPreview;
+
+    setAutoMeasurements(measurements);
+    setSegments(measurements.segments);
+    setPitch(String(measurements.avgPitchRatio));
+    if (linearMeasurements) {
+      const lines: Partial<Record<RoofLineKey, string>> = {};
+      for (const { key } of ROOF_LINES) {
+        const value = linearMeasurements[key];
+        lines[key] = value > 0 ? String(value) : "";
+      }
+      setRoofLines(lines);
+    }
+    setMeasurementError(null);
+    setImportPreview(null);
+    setImportText("");
+    setShowImport(false);
+  };
+
+  const handleUseImport = () => {
+    const hasMeasurements =
+      !!autoMeasurements || segments.length > 0 || !!getLinearMeasurements() || !!(length && width);
+    if (!hasMeasurements) {
+      applyImport();
+      return;
+    }
+    Alert.alert(
+      "Replace Measurements?",
+      importPreview?.linearMeasurements
+        ? "The imported facets and edge lengths will replace the measurements you have now."
+        : "The imported facets will replace the ones you have now. Edge lengths you entered are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: applyImport },
+      ],
+    );
+  };
+
+  // Runs in the background once the project exists; a permit that fails to
+  // save can still be added later from the Permits tab.
+  const savePermits = async (projectId: string) => {
+    const selected = [...permits, ...nearbyPermits].filter((p) => savedPermitIds.includes(p.id));
+    if (selected.length === 0) return;
+    const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+    if (isGuest === "true") return;
+    try {
+      for (const permit of selected) {
+        await savePermitToProject(projectId, permit, permitSource);
+      }
+    } catch (error) {
+      console.error("Error saving permits to project:", error);
+    }
+  };
+
   const handleContinue = async () => {
     if (!address.trim()) {
       Alert.alert("Missing Information", "Please enter a property address.");
@@ -230,15 +496,21 @@ export default function NewProjectScreen() {
     setIsSubmitting(true);
 
     try {
-      const projectId = Date.now().toString();
+      const projectId = createProjectId();
       const newProject = {
         id: projectId,
         address: address.trim(),
+        customerId: customer?.id ?? null,
+        customer,
         length: parseFloat(length) || 0,
         width: parseFloat(width) || 0,
-        pitch: parseFloat(pitch) || 4,
+        pitch: segments.length > 0 ? segmentSummary.averagePitch : getPitch(),
         roofArea,
-        roofSquares: autoMeasurements?.roofSquares || Math.ceil(roofArea / 100),
+        roofSquares: segments.length > 0
+          ? segmentSummary.squares
+          : autoMeasurements?.roofSquares || Math.ceil(roofArea / 100),
+        roofSegments: segments.length > 0 ? segments : null,
+        linearMeasurements: getLinearMeasurements(),
         autoMeasurements,
         materials: [],
         laborRate: 0,
@@ -248,10 +520,8 @@ export default function NewProjectScreen() {
         createdAt: new Date().toISOString(),
       };
 
-      const stored = await AsyncStorage.getItem("roofmaster_projects");
-      const projects = stored ? JSON.parse(stored) : [];
-      projects.unshift(newProject);
-      await AsyncStorage.setItem("roofmaster_projects", JSON.stringify(projects));
+      await saveProject(newProject);
+      savePermits(projectId);
 
       navigation.replace("CostInput", { projectId });
     } catch (error) {
@@ -270,6 +540,8 @@ export default function NewProjectScreen() {
         style={styles.scrollView}
         contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 120 }]}
       >
+        <CustomerPicker customer={customer} onChange={setCustomer} />
+
         <View style={[styles.heroCard, { backgroundColor: isDark ? "rgba(255,107,53,0.15)" : "rgba(255,107,53,0.08)" }]}>
           <View style={styles.heroHeader}>
             <View style={[styles.heroIconContainer, { backgroundColor: theme.accent }]}>
@@ -324,7 +596,7 @@ export default function NewProjectScreen() {
           </View>
 
           <Pressable
-            onPress={handleAutoMeasure}
+            onPress={() => handleAutoMeasure()}
             disabled={isAutoMeasuring || !address.trim()}
             style={({ pressed }) => [
               styles.measureButton,
@@ -355,21 +627,48 @@ export default function NewProjectScreen() {
               <View style={[styles.successBadge, { backgroundColor: Colors.light.success + "20" }]}>
                 <Feather name="check-circle" size={16} color={Colors.light.success} />
                 <ThemedText type="small" style={{ color: Colors.light.success, fontWeight: "600" }}>
-                  Measurement Complete
+                  {autoMeasurements.source === "report"
+                    ? `Imported${autoMeasurements.vendor ? ` from ${autoMeasurements.vendor}` : " Report"}`
+                    : autoMeasurements.source === "drone"
+                      ? "Imported Drone Survey"
+                      : "Measurement Complete"}
                 </ThemedText>
               </View>
+              {!autoMeasurements.source && lookupInfo ? (
+                <View style={styles.lookupInfo}>
+                  <ThemedText type="small" style={[styles.lookupInfoText, { color: theme.textSecondary }]}>
+                    {lookupInfo.cached
+                      ? `Saved result from ${new Date(lookupInfo.fetchedAt).toLocaleDateString()}`
+                      : "Fresh from satellite"}
+                    {lookupInfo.imageryDate
+                      ? ` · Imagery ${new Date(
+                          lookupInfo.imageryDate.year,
+                          lookupInfo.imageryDate.month - 1,
+                          lookupInfo.imageryDate.day,
+                        ).toLocaleDateString()}`
+                      : ""}
+                  </ThemedText>
+                  {lookupInfo.cached ? (
+                    <Pressable onPress={() => handleAutoMeasure(true)} disabled={isAutoMeasuring} hitSlop={8}>
+                      <ThemedText type="small" style={{ color: theme.accent, fontWeight: "600" }}>
+                        Refresh Measurement
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                </View>
+              ) : null}
             </View>
 
             <View style={styles.statsGrid}>
               <View style={[styles.statCard, { backgroundColor: theme.accent + "15" }]}>
                 <ThemedText type="h2" style={{ color: theme.accent }}>
-                  {autoMeasurements.totalAreaSqFt.toLocaleString()}
+                  {roofArea.toLocaleString()}
                 </ThemedText>
                 <ThemedText type="secondary">Square Feet</ThemedText>
               </View>
               <View style={[styles.statCard, { backgroundColor: theme.accent + "15" }]}>
                 <ThemedText type="h2" style={{ color: theme.accent }}>
-                  {autoMeasurements.roofSquares}
+                  {segments.length > 0 ? segmentSummary.squares : autoMeasurements.roofSquares}
                 </ThemedText>
                 <ThemedText type="secondary">Roofing Squares</ThemedText>
               </View>
@@ -379,7 +678,7 @@ export default function NewProjectScreen() {
               <View style={styles.detailItem}>
                 <Feather name="trending-up" size={18} color={theme.textSecondary} />
                 <ThemedText type="body" style={styles.detailValue}>
-                  {autoMeasurements.avgPitchRatio}:12
+                  {segments.length > 0 ? segmentSummary.averagePitch : autoMeasurements.avgPitchRatio}:12
                 </ThemedText>
                 <ThemedText type="secondary" style={styles.detailLabel}>Pitch</ThemedText>
               </View>
@@ -387,7 +686,7 @@ export default function NewProjectScreen() {
               <View style={styles.detailItem}>
                 <Feather name="layers" size={18} color={theme.textSecondary} />
                 <ThemedText type="body" style={styles.detailValue}>
-                  {autoMeasurements.segmentCount}
+                  {segments.length}
                 </ThemedText>
                 <ThemedText type="secondary" style={styles.detailLabel}>Sections</ThemedText>
               </View>
@@ -395,41 +694,31 @@ export default function NewProjectScreen() {
               <View style={styles.detailItem}>
                 <Feather name="compass" size={18} color={theme.textSecondary} />
                 <ThemedText type="body" style={styles.detailValue}>
-                  {autoMeasurements.segments[0]?.orientation || "Mixed"}
+                  {segmentSummary.primaryOrientation || "Mixed"}
                 </ThemedText>
                 <ThemedText type="secondary" style={styles.detailLabel}>Primary</ThemedText>
               </View>
             </View>
 
-            {autoMeasurements.segments.length > 1 ? (
-              <View style={[styles.segmentsSection, { borderTopColor: theme.divider }]}>
-                <ThemedText type="body" style={styles.segmentsTitle}>Roof Segments</ThemedText>
-                {autoMeasurements.segments.slice(0, 4).map((seg) => (
-                  <View key={seg.id} style={[styles.segmentItem, { backgroundColor: theme.backgroundSecondary }]}>
-                    <View style={styles.segmentInfo}>
-                      <ThemedText type="body">{seg.orientation}</ThemedText>
-                      <ThemedText type="secondary">{seg.pitchRatio}:12 pitch</ThemedText>
-                    </View>
-                    <ThemedText type="body" style={{ color: theme.accent, fontWeight: "600" }}>
-                      {seg.areaSqFt ? seg.areaSqFt.toLocaleString() : "—"} sq ft
-                    </ThemedText>
-                  </View>
-                ))}
-                {autoMeasurements.segments.length > 4 ? (
-                  <ThemedText type="secondary" style={styles.moreSegments}>
-                    +{autoMeasurements.segments.length - 4} more segments
-                  </ThemedText>
-                ) : null}
-              </View>
-            ) : null}
+            <View style={[styles.segmentsSection, { borderTopColor: theme.divider }]}>
+              <ThemedText type="body" style={styles.segmentsTitle}>Roof Facets</ThemedText>
+              <ThemedText type="secondary" style={styles.segmentsHint}>
+                {autoMeasurements.source === "report"
+                  ? "Adjust footprints and pitches, or add facets the report missed."
+                  : autoMeasurements.source === "drone"
+                    ? "Adjust footprints and pitches, or add planes the survey missed."
+                    : "Adjust footprints and pitches, or add facets the satellite missed."}
+              </ThemedText>
+              <RoofSegmentsEditor segments={segments} onChange={setSegments} />
+            </View>
           </View>
         ) : null}
 
-        {(permits.length > 0 || isLoadingPermits) ? (
+        {(permits.length > 0 || nearbyPermits.length > 0 || isLoadingPermits) ? (
           <View style={[styles.permitsCard, { backgroundColor: theme.backgroundDefault }]}>
             <View style={styles.permitsHeader}>
               <Feather name="file-text" size={20} color={theme.accent} />
-              <ThemedText type="body" style={styles.permitsTitle}>Recent Permits in Area</ThemedText>
+              <ThemedText type="body" style={styles.permitsTitle}>Permit History</ThemedText>
             </View>
             
             {isLoadingPermits ? (
@@ -439,31 +728,125 @@ export default function NewProjectScreen() {
               </View>
             ) : (
               <>
-                {permits.map((permit) => (
-                  <View key={permit.id} style={[styles.permitItem, { backgroundColor: theme.backgroundSecondary }]}>
-                    <View style={styles.permitItemHeader}>
-                      <ThemedText type="body" style={styles.permitAddress}>
-                        {permit.address.street_no} {permit.address.street}
-                      </ThemedText>
-                      <View style={[styles.permitStatus, { backgroundColor: permit.status === "approved" ? Colors.light.success + "20" : Colors.light.accent + "20" }]}>
-                        <ThemedText type="small" style={{ color: permit.status === "approved" ? Colors.light.success : Colors.light.accent, fontWeight: "600" }}>
-                          {permit.status}
-                        </ThemedText>
+                {roofAge ? <RoofAgeSummary roofAge={roofAge} style={styles.roofAge} /> : null}
+                <ThemedText type="secondary" style={styles.permitsGroupTitle}>This Property</ThemedText>
+                {permits.length === 0 ? (
+                  <ThemedText type="small" style={{ color: theme.textSecondary, marginBottom: Spacing.md }}>
+                    No permits found for this address.
+                  </ThemedText>
+                ) : null}
+                {permits.map(renderPermit)}
+                {nearbyPermits.length > 0 ? (
+                  <>
+                    <ThemedText type="secondary" style={styles.permitsGroupTitle}>Nearby Roofing Permits</ThemedText>
+                    {nearbyPermits.map(renderPermit)}
+                  </>
+                ) : null}
+              </>
+            )}
+          </View>
+        ) : null}
+
+        <Pressable
+          onPress={() => setShowImport(!showImport)}
+          style={[styles.manualToggle, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View style={styles.manualToggleContent}>
+            <Feather name="upload" size={20} color={theme.textSecondary} />
+            <View>
+              <ThemedText type="body">Import Measurements</ThemedText>
+              <ThemedText type="secondary" style={styles.manualToggleSubtitle}>
+                Aerial vendor reports or drone surveys
+              </ThemedText>
+            </View>
+          </View>
+          <Feather name={showImport ? "chevron-up" : "chevron-down"} size={20} color={theme.textSecondary} />
+        </Pressable>
+
+        {showImport ? (
+          <View style={[styles.manualSection, { backgroundColor: theme.backgroundDefault }]}>
+            <View style={styles.shapeChips}>
+              {IMPORT_TYPES.map(({ type, label }) => {
+                const isActive = importType === type;
+                return (
+                  <Pressable
+                    key={type}
+                    onPress={() => {
+                      setImportType(type);
+                      setImportPreview(null);
+                      setImportError(null);
+                    }}
+                    style={[styles.shapeChip, { backgroundColor: isActive ? theme.accent : theme.backgroundSecondary }]}
+                  >
+                    <ThemedText type="small" style={{ color: isActive ? "white" : theme.text }}>{label}</ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <ThemedText type="secondary" style={styles.segmentsHint}>
+              {importType === "drone"
+                ? "Paste roof planes exported from your photogrammetry software as GeoJSON or KML polygons with elevations."
+                : "Paste the report export."}{" "}
+              You can check what was read before it replaces anything.
+            </ThemedText>
+            <TextInput
+              style={[styles.reportInput, { color: theme.text, backgroundColor: theme.backgroundSecondary }]}
+              placeholder={
+                importType === "drone"
+                  ? '{ "type": "FeatureCollection", ... } or <kml ...'
+                  : "<?xml ... or { ... } or Total Area,2450"
+              }
+              placeholderTextColor={theme.textSecondary}
+              value={importText}
+              onChangeText={(text) => {
+                setImportText(text);
+                setImportPreview(null);
+              }}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Button onPress={handlePreviewImport} variant="secondary" disabled={isReadingImport}>
+              {isReadingImport ? "Reading..." : importType === "drone" ? "Preview Survey" : "Preview Report"}
+            </Button>
+
+            {importError ? (
+              <View style={styles.errorBanner}>
+                <Feather name="alert-circle" size={16} color="#DC3545" />
+                <ThemedText type="secondary" style={styles.errorText}>{importError}</ThemedText>
+              </View>
+            ) : null}
+
+            {importPreview ? (
+              <View style={[styles.segmentsSection, { borderTopColor: theme.divider }]}>
+                <ThemedText type="body" style={styles.segmentsTitle}>{importPreview.title}</ThemedText>
+                <ThemedText type="secondary" style={styles.segmentsHint}>
+                  {importPreview.measurements.totalAreaSqFt.toLocaleString()} sq ft ·{" "}
+                  {importPreview.measurements.roofSquares} squares · {importPreview.measurements.avgPitchRatio}:12 ·{" "}
+                  {importPreview.measurements.segmentCount}{" "}
+                  {importPreview.measurements.segmentCount === 1 ? "facet" : "facets"}
+                </ThemedText>
+                {importPreview.linearMeasurements ? (
+                  <View style={styles.linesGrid}>
+                    {ROOF_LINES.map((line) => (
+                      <View key={line.key} style={styles.lineField}>
+                        <ThemedText type="small" style={{ color: theme.textSecondary }}>{line.label}</ThemedText>
+                        <ThemedText type="body">{importPreview.linearMeasurements![line.key]} ft</ThemedText>
                       </View>
-                    </View>
-                    <ThemedText type="secondary" style={styles.permitType}>{permit.permitType}</ThemedText>
-                    {permit.description ? (
-                      <ThemedText type="small" style={styles.permitDescription} numberOfLines={2}>
-                        {permit.description}
-                      </ThemedText>
-                    ) : null}
-                    <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: 4 }}>
-                      {new Date(permit.issueDate).toLocaleDateString()}
-                    </ThemedText>
+                    ))}
+                  </View>
+                ) : null}
+                {importPreview.warnings.map((warning, index) => (
+                  <View key={index} style={styles.reportWarning}>
+                    <Feather name="alert-triangle" size={14} color={theme.textSecondary} />
+                    <ThemedText type="small" style={styles.reportWarningText}>{warning}</ThemedText>
                   </View>
                 ))}
-              </>
-            )}
+                <Button onPress={handleUseImport} style={styles.reportApply}>
+                  Use These Measurements
+                </Button>
+              </View>
+            ) : null}
           </View>
         ) : null}
 
@@ -526,9 +909,136 @@ export default function NewProjectScreen() {
                 />
               </View>
             </View>
+            <View style={[styles.segmentsSection, { borderTopColor: theme.divider }]}>
+              <ThemedText type="body" style={styles.segmentsTitle}>Roof Shape</ThemedText>
+              <ThemedText type="secondary" style={styles.segmentsHint}>
+                Work out the facets and edge lengths from the length and width above.
+              </ThemedText>
+              <ThemedText type="secondary" style={styles.fieldLabel}>Footprint</ThemedText>
+              <View style={styles.shapeChips}>
+                {FOOTPRINT_SHAPES.map(({ shape, label }) => {
+                  const isActive = footprintShape === shape;
+                  return (
+                    <Pressable
+                      key={shape}
+                      onPress={() => setFootprintShape(shape)}
+                      style={[styles.shapeChip, { backgroundColor: isActive ? theme.accent : theme.backgroundSecondary }]}
+                    >
+                      <ThemedText type="small" style={{ color: isActive ? "white" : theme.text }}>{label}</ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <ThemedText type="secondary" style={styles.fieldLabel}>Roof Style</ThemedText>
+              <View style={styles.shapeChips}>
+                {ROOF_STYLES.map((style) => {
+                  const isActive = roofStyle === style;
+                  return (
+                    <Pressable
+                      key={style}
+                      onPress={() => setRoofStyle(style)}
+                      style={[styles.shapeChip, { backgroundColor: isActive ? theme.accent : theme.backgroundSecondary }]}
+                    >
+                      <ThemedText type="small" style={{ color: isActive ? "white" : theme.text }}>
+                        {ROOF_STYLE_LABELS[style]}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {footprintShape !== "rectangle" ? (
+                <View style={styles.manualRow}>
+                  <View style={styles.manualField}>
+                    <ThemedText type="secondary" style={styles.fieldLabel}>Wing Width (ft)</ThemedText>
+                    <View style={[styles.fieldInput, { backgroundColor: theme.backgroundSecondary }]}>
+                      <TextInput
+                        style={[styles.input, { color: theme.text }]}
+                        placeholder="0"
+                        placeholderTextColor={theme.textSecondary}
+                        value={wingWidth}
+                        onChangeText={setWingWidth}
+                        keyboardType="numeric"
+                        accessibilityHint="Measured along the main house"
+                      />
+                    </View>
+                  </View>
+                  <View style={styles.manualField}>
+                    <ThemedText type="secondary" style={styles.fieldLabel}>Wing Depth (ft)</ThemedText>
+                    <View style={[styles.fieldInput, { backgroundColor: theme.backgroundSecondary }]}>
+                      <TextInput
+                        style={[styles.input, { color: theme.text }]}
+                        placeholder="0"
+                        placeholderTextColor={theme.textSecondary}
+                        value={wingLength}
+                        onChangeText={setWingLength}
+                        keyboardType="numeric"
+                        accessibilityHint="How far the wing sticks out from the main house"
+                      />
+                    </View>
+                  </View>
+                </View>
+              ) : null}
+              <View style={styles.manualRow}>
+                <View style={styles.manualField}>
+                  <ThemedText type="secondary" style={styles.fieldLabel}>Overhang (ft)</ThemedText>
+                  <View style={[styles.fieldInput, { backgroundColor: theme.backgroundSecondary }]}>
+                    <TextInput
+                      style={[styles.input, { color: theme.text }]}
+                      placeholder="0"
+                      placeholderTextColor={theme.textSecondary}
+                      value={overhang}
+                      onChangeText={setOverhang}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+                <View style={[styles.manualField, styles.geometryAction]}>
+                  <Button onPress={handleCalculateGeometry} variant="secondary">
+                    Calculate Facets
+                  </Button>
+                </View>
+              </View>
+              {geometryError ? (
+                <ThemedText type="small" style={styles.geometryError}>{geometryError}</ThemedText>
+              ) : null}
+            </View>
+            {!autoMeasurements ? (
+              <View style={[styles.segmentsSection, { borderTopColor: theme.divider }]}>
+                <ThemedText type="body" style={styles.segmentsTitle}>Roof Facets</ThemedText>
+                <ThemedText type="secondary" style={styles.segmentsHint}>
+                  Optional. Add each roof plane with its own pitch instead of one length and width.
+                </ThemedText>
+                <RoofSegmentsEditor segments={segments} onChange={setSegments} />
+              </View>
+            ) : null}
           </View>
         ) : null}
 
+        <View style={[styles.manualSection, { backgroundColor: theme.backgroundDefault }]}>
+          <ThemedText type="body" style={styles.segmentsTitle}>Roof Edges (ft)</ThemedText>
+          <ThemedText type="secondary" style={styles.segmentsHint}>
+            Optional. Measured lengths size drip edge, starter, ridge cap, ice shield and flashing.
+          </ThemedText>
+          <View style={styles.linesGrid}>
+            {ROOF_LINES.map((line) => (
+              <View key={line.key} style={styles.lineField}>
+                <ThemedText type="secondary" style={styles.fieldLabel}>{line.label}</ThemedText>
+                <View style={[styles.fieldInput, { backgroundColor: theme.backgroundSecondary }]}>
+                  <TextInput
+                    style={[styles.input, { color: theme.text }]}
+                    placeholder="0"
+                    placeholderTextColor={theme.textSecondary}
+                    value={roofLines[line.key] || ""}
+                    onChangeText={(value) => setRoofLines((prev) => ({ ...prev, [line.key]: value }))}
+                    keyboardType="decimal-pad"
+                    accessibilityHint={line.hint}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+
         {hasValidMeasurements && !autoMeasurements ? (
           <View style={[styles.summaryCard, { backgroundColor: theme.backgroundDefault }]}>
             <ThemedText type="secondary">Calculated Roof Area</ThemedText>
@@ -616,6 +1126,18 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.sm,
   },
   errorText: { flex: 1, color: "#DC3545" },
+  reportInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  reportWarning: { flexDirection: "row", alignItems: "flex-start", gap: Spacing.sm, marginTop: Spacing.sm },
+  reportWarningText: { flex: 1 },
+  reportApply: { marginTop: Spacing.lg },
   
   resultsCard: {
     borderRadius: BorderRadius.lg,
@@ -623,6 +1145,14 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
   resultsHeader: { marginBottom: Spacing.lg },
+  lookupInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  lookupInfoText: { flex: 1 },
   successBadge: {
     flexDirection: "row",
     alignItems: "center",
@@ -661,17 +1191,12 @@ const styles = StyleSheet.create({
     paddingTop: Spacing.lg,
     borderTopWidth: 1,
   },
-  segmentsTitle: { fontWeight: "600", marginBottom: Spacing.md },
-  segmentItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    padding: Spacing.md,
-    borderRadius: BorderRadius.sm,
-    marginBottom: Spacing.sm,
-  },
-  segmentInfo: { gap: 2 },
-  moreSegments: { textAlign: "center", marginTop: Spacing.sm },
+  segmentsTitle: { fontWeight: "600", marginBottom: Spacing.xs },
+  segmentsHint: { marginBottom: Spacing.md },
+  shapeChips: { flexDirection: "row", flexWrap: "wrap", gap: Spacing.sm, marginBottom: Spacing.md },
+  shapeChip: { paddingHorizontal: Spacing.md, paddingVertical: Spacing.sm, borderRadius: BorderRadius.full },
+  geometryAction: { justifyContent: "flex-end" },
+  geometryError: { color: "#DC3545" },
   
   permitsCard: {
     borderRadius: BorderRadius.lg,
@@ -685,6 +1210,8 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
   permitsTitle: { fontWeight: "600" },
+  roofAge: { marginBottom: Spacing.lg },
+  permitsGroupTitle: { fontWeight: "600", marginBottom: Spacing.sm },
   permitsLoading: {
     flexDirection: "row",
     alignItems: "center",
@@ -696,6 +1223,12 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.sm,
     marginBottom: Spacing.sm,
   },
+  permitSaveToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
   permitItemHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -729,6 +1262,8 @@ const styles = StyleSheet.create({
   },
   manualRow: { flexDirection: "row", gap: Spacing.md, marginBottom: Spacing.md },
   manualField: { flex: 1 },
+  linesGrid: { flexDirection: "row", flexWrap: "wrap", gap: Spacing.md },
+  lineField: { width: "47%" },
   fieldLabel: { marginBottom: Spacing.xs, fontSize: 13 },
   fieldInput: {
     height: 48,
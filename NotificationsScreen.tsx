@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  FlatList,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  loadNotifications,
+  markNotificationRead,
+  isPermitNotification,
+  AppNotification,
+} from "@/lib/notifications";
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function NotificationsScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    setNotifications(await loadNotifications());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await load();
+    setIsRefreshing(false);
+  };
+
+  const markRead = (notification: AppNotification) => {
+    if (notification.readAt) return;
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === notification.id ? { ...n, readAt } : n)),
+    );
+    markNotificationRead(notification.id);
+  };
+
+  const handlePress = (notification: AppNotification) => {
+    markRead(notification);
+    if (notification.projectId) {
+      navigation.navigate("EstimatePreview", {
+        projectId: notification.projectId,
+      });
+    } else if (isPermitNotification(notification)) {
+      navigation.navigate("PermitWatchlist");
+    }
+  };
+
+  const markAllRead = () => {
+    notifications.filter((n) => !n.readAt).forEach(markRead);
+  };
+
+  const getIcon = (
+    notification: AppNotification,
+  ): { name: keyof typeof Feather.glyphMap; color: string } => {
+    if (notification.type === "estimate_declined") {
+      return { name: "x-circle", color: "#DC3545" };
+    }
+    if (isPermitNotification(notification)) {
+      return { name: "file-text", color: theme.accent };
+    }
+    return { name: "check-circle", color: Colors.light.success };
+  };
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <ActivityIndicator color={theme.accent} />
+      </View>
+    );
+  }
+
+  const unreadCount = notifications.filter((n) => !n.readAt).length;
+
+  return (
+    <FlatList
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + Spacing.xl },
+      ]}
+      data={notifications}
+      keyExtractor={(item) => item.id}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          tintColor={theme.accent}
+        />
+      }
+      ListHeaderComponent={
+        unreadCount > 0 ? (
+          <Pressable onPress={markAllRead} style={styles.markAll} hitSlop={8}>
+            <ThemedText type="small" style={{ color: theme.accent }}>
+              Mark all as read
+            </ThemedText>
+          </Pressable>
+        ) : null
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Feather name="bell" size={40} color={theme.textSecondary} />
+          <ThemedText type="secondary" style={styles.emptyText}>
+            No notifications yet. Estimate responses and permit watchlist
+            updates will show up here.
+          </ThemedText>
+        </View>
+      }
+      renderItem={({ item }) => {
+        const icon = getIcon(item);
+        return (
+          <Pressable
+            onPress={() => handlePress(item)}
+            style={({ pressed }) => [
+              styles.row,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.7 : 1,
+              },
+            ]}
+          >
+            <Feather name={icon.name} size={20} color={icon.color} />
+            <View style={styles.text}>
+              <ThemedText
+                type="body"
+                style={item.readAt ? undefined : styles.unreadTitle}
+              >
+                {item.title}
+              </ThemedText>
+              {item.body ? (
+                <ThemedText type="secondary">{item.body}</ThemedText>
+              ) : null}
+              <ThemedText
+                type="small"
+                style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+              >
+                {formatTime(item.createdAt)}
+              </ThemedText>
+            </View>
+            {!item.readAt ? (
+              <View
+                style={[styles.unreadDot, { backgroundColor: theme.accent }]}
+              />
+            ) : null}
+          </Pressable>
+        );
+      }}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  markAll: {
+    alignSelf: "flex-end",
+    marginBottom: Spacing.md,
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: Spacing["3xl"],
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  text: {
+    flex: 1,
+  },
+  unreadTitle: {
+    fontWeight: "600",
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: Spacing.sm,
+  },
+});
@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  loadPermitWatches,
+  addPermitWatch,
+  checkPermitWatch,
+  deletePermitWatch,
+  describePermitWatch,
+  PermitWatch,
+  PermitWatchKind,
+} from "@/lib/permit-watches";
+
+const WATCH_KINDS: { kind: PermitWatchKind; label: string }[] = [
+  { kind: "address", label: "Address" },
+  { kind: "zip", label: "ZIP Code" },
+];
+
+export default function PermitWatchlistScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const route = useRoute<RouteProp<RootStackParamList, "PermitWatchlist">>();
+
+  const [watches, setWatches] = useState<PermitWatch[]>([]);
+  const [isGuest, setIsGuest] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [kind, setKind] = useState<PermitWatchKind>("address");
+  const [query, setQuery] = useState(route.params?.address || "");
+  const [addError, setAddError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const guestMode = await AsyncStorage.getItem("roofmaster_guest_mode");
+      const user = await AsyncStorage.getItem("roofmaster_user");
+      if (guestMode === "true" || !user) {
+        setIsGuest(true);
+        return;
+      }
+      setWatches(await loadPermitWatches());
+    } catch (error) {
+      console.error("Error loading watchlist:", error);
+      Alert.alert("Error", "Failed to load your watchlist.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    if (!query.trim()) return;
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      const watch = await addPermitWatch(kind, query.trim());
+      setWatches((prev) =>
+        prev.some((w) => w.id === watch.id) ? prev : [...prev, watch],
+      );
+      setQuery("");
+    } catch (error: any) {
+      setAddError(error.message || "Failed to add to watchlist.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleCheck = async (watch: PermitWatch) => {
+    setCheckingId(watch.id);
+    try {
+      const result = await checkPermitWatch(watch.id);
+      setWatches((prev) =>
+        prev.map((w) => (w.id === result.watch.id ? result.watch : w)),
+      );
+      const changes = result.filed + result.changed;
+      if (changes > 0) {
+        Alert.alert(
+          "Permits Updated",
+          `${changes} ${changes === 1 ? "update" : "updates"} found. See your notifications for details.`,
+        );
+      }
+    } catch (error) {
+      console.error("Error checking watch:", error);
+      Alert.alert("Error", "Failed to check permits.");
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const confirmDelete = (watch: PermitWatch) => {
+    Alert.alert(
+      "Stop Watching",
+      `You'll no longer be notified about permits for ${watch.query}.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePermitWatch(watch.id);
+              setWatches((prev) => prev.filter((w) => w.id !== watch.id));
+            } catch (error) {
+              console.error("Error deleting watch:", error);
+              Alert.alert("Error", "Failed to remove from watchlist.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading && !isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <ActivityIndicator color={theme.accent} />
+      </View>
+    );
+  }
+
+  if (isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <Feather name="eye" size={40} color={theme.textSecondary} />
+        <ThemedText type="secondary" style={styles.emptyText}>
+          Sign in to watch addresses and ZIP codes for new permits.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + Spacing.xl },
+      ]}
+      keyboardShouldPersistTaps="handled"
+    >
+      <ThemedText type="secondary" style={styles.hint}>
+        You&apos;ll get a notification when a roofing permit is filed or a
+        permit changes status. Watches are checked every few hours.
+      </ThemedText>
+
+      <View style={styles.chips}>
+        {WATCH_KINDS.map((option) => {
+          const isActive = kind === option.kind;
+          return (
+            <Pressable
+              key={option.kind}
+              onPress={() => {
+                setKind(option.kind);
+                setAddError(null);
+              }}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: isActive
+                    ? theme.accent
+                    : theme.backgroundSecondary,
+                },
+              ]}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: isActive ? "white" : theme.text }}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundDefault, color: theme.text },
+        ]}
+        value={query}
+        onChangeText={setQuery}
+        onSubmitEditing={handleAdd}
+        placeholder={
+          kind === "zip" ? "e.g. 62701" : "e.g. 100 Main St, Springfield, IL"
+        }
+        placeholderTextColor={theme.textSecondary}
+        keyboardType={kind === "zip" ? "number-pad" : "default"}
+        maxLength={kind === "zip" ? 5 : 200}
+        returnKeyType="done"
+      />
+      {addError ? (
+        <ThemedText type="small" style={styles.error}>
+          {addError}
+        </ThemedText>
+      ) : null}
+      <Button
+        onPress={handleAdd}
+        disabled={isAdding || !query.trim()}
+        style={styles.addButton}
+      >
+        {isAdding ? "Adding..." : "Add to Watchlist"}
+      </Button>
+
+      {watches.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Feather name="eye" size={40} color={theme.textSecondary} />
+          <ThemedText type="secondary" style={styles.emptyText}>
+            You&apos;re not watching any addresses or ZIP codes yet.
+          </ThemedText>
+        </View>
+      ) : (
+        watches.map((watch) => (
+          <Card key={watch.id} style={styles.watchCard}>
+            <View style={styles.watchRow}>
+              <Feather
+                name={watch.kind === "zip" ? "hash" : "map-pin"}
+                size={20}
+                color={theme.accent}
+              />
+              <View style={styles.flex}>
+                <ThemedText type="body" style={styles.watchQuery}>
+                  {watch.kind === "zip" ? `ZIP ${watch.query}` : watch.query}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={{
+                    color: watch.lastError ? "#DC3545" : theme.textSecondary,
+                  }}
+                >
+                  {describePermitWatch(watch)}
+                </ThemedText>
+              </View>
+              {checkingId === watch.id ? (
+                <ActivityIndicator color={theme.accent} size="small" />
+              ) : (
+                <Pressable
+                  onPress={() => handleCheck(watch)}
+                  disabled={checkingId !== null}
+                  hitSlop={8}
+                >
+                  <Feather name="refresh-cw" size={18} color={theme.accent} />
+                </Pressable>
+              )}
+              <Pressable onPress={() => confirmDelete(watch)} hitSlop={8}>
+                <Feather name="trash-2" size={18} color={theme.textSecondary} />
+              </Pressable>
+            </View>
+          </Card>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+  },
+  flex: {
+    flex: 1,
+  },
+  hint: {
+    marginBottom: Spacing.lg,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+    marginBottom: Spacing.md,
+  },
+  error: {
+    color: "#DC3545",
+    marginBottom: Spacing.md,
+  },
+  addButton: {
+    marginBottom: Spacing.xl,
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: Spacing["2xl"],
+    gap: Spacing.md,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  watchCard: {
+    marginBottom: Spacing.md,
+  },
+  watchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  watchQuery: {
+    fontWeight: "600",
+  },
+});
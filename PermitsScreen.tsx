@@ -1,15 +1,33 @@
 import React, { useState } from "react";
-import { View, FlatList, StyleSheet, TextInput, Pressable, ActivityIndicator } from "react-native";
+import {
+  View,
+  SectionList,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Feather } from "@expo/vector-icons";
 
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
+import { RoofAgeSummary } from "@/components/RoofAgeSummary";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { apiRequest } from "@/lib/query-client";
+import { loadLocalProjects, LocalProject } from "@/lib/sync";
+import { savePermitToProject } from "@/lib/project-permits";
+import type { RoofAgeEstimate } from "@shared/roof-age";
 
 interface Contractor {
   name: string;
@@ -34,13 +52,23 @@ export default function PermitsScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [permits, setPermits] = useState<Permit[]>([]);
+  const [nearbyPermits, setNearbyPermits] = useState<Permit[]>([]);
+  const [resolvedAddress, setResolvedAddress] = useState<string | null>(null);
+  const [roofAge, setRoofAge] = useState<RoofAgeEstimate | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
   const [apiConfigured, setApiConfigured] = useState(true);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [permitToSave, setPermitToSave] = useState<Permit | null>(null);
+  const [projects, setProjects] = useState<LocalProject[]>([]);
+  const [savingProjectId, setSavingProjectId] = useState<string | null>(null);
+  const [savedPermitIds, setSavedPermitIds] = useState<string[]>([]);
 
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
@@ -55,20 +83,62 @@ export default function PermitsScreen() {
 
       if (data.success) {
         setPermits(data.permits || []);
+        setNearbyPermits(data.nearby || []);
+        setResolvedAddress(data.resolvedAddress || null);
+        setRoofAge(data.roofAge || null);
         setApiConfigured(data.configured !== false);
+        setProvider(data.provider || null);
       } else {
         setSearchError(data.error || "Failed to search permits");
         setPermits([]);
+        setNearbyPermits([]);
+        setRoofAge(null);
       }
     } catch (error) {
       console.error("Permit search error:", error);
       setSearchError("Failed to search permits. Please try again.");
       setPermits([]);
+      setNearbyPermits([]);
+      setRoofAge(null);
     } finally {
       setIsSearching(false);
     }
   };
 
+  const openSaveToProject = async (permit: Permit) => {
+    const guestMode = await AsyncStorage.getItem("roofmaster_guest_mode");
+    if (guestMode === "true") {
+      Alert.alert("Sign In Required", "Sign in to save permits to your projects.");
+      return;
+    }
+    const localProjects = await loadLocalProjects();
+    if (localProjects.length === 0) {
+      Alert.alert("No Projects", "Create a project first, then save permits to it.");
+      return;
+    }
+    setProjects(
+      [...localProjects].sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      ),
+    );
+    setPermitToSave(permit);
+  };
+
+  const handleSaveToProject = async (project: LocalProject) => {
+    if (!permitToSave) return;
+    setSavingProjectId(project.id);
+    try {
+      await savePermitToProject(project.id, permitToSave, provider);
+      setSavedPermitIds((prev) => [...prev, permitToSave.id]);
+      setPermitToSave(null);
+    } catch (error) {
+      console.error("Error saving permit:", error);
+      Alert.alert("Error", "Failed to save permit to the project.");
+    } finally {
+      setSavingProjectId(null);
+    }
+  };
+
   const getStatusColor = (status: Permit["status"]) => {
     switch (status) {
       case "approved":
@@ -112,6 +182,18 @@ export default function PermitsScreen() {
     }).format(value);
   };
 
+  // The property's own permits always come first; nearby roofing work is
+  // only context and is listed under its own heading.
+  const sections =
+    permits.length > 0 || nearbyPermits.length > 0
+      ? [
+          { key: "property", title: "This Property", data: permits },
+          ...(nearbyPermits.length > 0
+            ? [{ key: "nearby", title: "Nearby Roofing Permits", data: nearbyPermits }]
+            : []),
+        ]
+      : [];
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View
@@ -208,12 +290,29 @@ export default function PermitsScreen() {
           ) : null}
         </View>
       ) : null}
+
+      <Pressable
+        onPress={() => openSaveToProject(item)}
+        style={({ pressed }) => [
+          styles.saveButton,
+          { borderTopColor: theme.divider, opacity: pressed ? 0.6 : 1 },
+        ]}
+      >
+        <Feather
+          name={savedPermitIds.includes(item.id) ? "check" : "folder-plus"}
+          size={16}
+          color={theme.accent}
+        />
+        <ThemedText type="small" style={{ color: theme.accent, fontWeight: "600" }}>
+          {savedPermitIds.includes(item.id) ? "Saved to Project" : "Save to Project"}
+        </ThemedText>
+      </Pressable>
     </Card>
   );
 
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
-      <FlatList
+      <SectionList
         style={styles.list}
         contentContainerStyle={[
           styles.listContent,
@@ -223,9 +322,22 @@ export default function PermitsScreen() {
           },
         ]}
         scrollIndicatorInsets={{ bottom: insets.bottom }}
-        data={permits}
-        keyExtractor={(item) => item.id}
+        sections={sections}
+        keyExtractor={(item, index) => `${item.id}-${index}`}
         renderItem={renderPermit}
+        renderSectionHeader={({ section }) => (
+          <ThemedText type="body" style={styles.sectionTitle}>
+            {section.title}
+          </ThemedText>
+        )}
+        renderSectionFooter={({ section }) =>
+          section.key === "property" && section.data.length === 0 ? (
+            <ThemedText type="secondary" style={styles.sectionEmpty}>
+              No permits on file for this address
+            </ThemedText>
+          ) : null
+        }
+        stickySectionHeadersEnabled={false}
         ListHeaderComponent={
           <View style={styles.searchSection}>
             <View
@@ -253,6 +365,8 @@ export default function PermitsScreen() {
                 <Pressable onPress={() => {
                   setSearchQuery("");
                   setPermits([]);
+                  setNearbyPermits([]);
+                  setResolvedAddress(null);
                   setHasSearched(false);
                   setSearchError(null);
                 }}>
@@ -284,6 +398,16 @@ export default function PermitsScreen() {
               )}
             </Pressable>
 
+            <Pressable
+              onPress={() => navigation.navigate("PermitWatchlist")}
+              style={({ pressed }) => [styles.watchLink, { opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Feather name="eye" size={16} color={theme.accent} />
+              <ThemedText type="small" style={{ color: theme.accent, fontWeight: "600" }}>
+                Permit Watchlist
+              </ThemedText>
+            </Pressable>
+
             {searchError ? (
               <View style={[styles.errorCard, { backgroundColor: "#DC354520" }]}>
                 <Feather name="alert-circle" size={16} color="#DC3545" />
@@ -293,17 +417,97 @@ export default function PermitsScreen() {
               </View>
             ) : null}
 
-            {permits.length > 0 ? (
+            {sections.length > 0 ? (
               <View style={styles.resultsHeader}>
                 <ThemedText type="body" style={{ fontWeight: "600" }}>
-                  {permits.length} Permit{permits.length !== 1 ? "s" : ""} Found
+                  {permits.length} Permit{permits.length !== 1 ? "s" : ""} for This Property
                 </ThemedText>
+                {resolvedAddress ? (
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Matched {resolvedAddress}
+                  </ThemedText>
+                ) : null}
+                <Pressable
+                  onPress={() =>
+                    navigation.navigate("PermitWatchlist", {
+                      address: resolvedAddress || searchQuery.trim(),
+                    })
+                  }
+                  style={({ pressed }) => [styles.watchInline, { opacity: pressed ? 0.6 : 1 }]}
+                >
+                  <Feather name="bell" size={14} color={theme.accent} />
+                  <ThemedText type="small" style={{ color: theme.accent }}>
+                    Notify me about new permits here
+                  </ThemedText>
+                </Pressable>
+                {roofAge ? (
+                  <Card style={styles.roofAgeCard}>
+                    <RoofAgeSummary roofAge={roofAge} />
+                  </Card>
+                ) : null}
               </View>
             ) : null}
           </View>
         }
         ListEmptyComponent={!isSearching ? renderEmptyState : null}
       />
+
+      <Modal
+        visible={permitToSave !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPermitToSave(null)}
+      >
+        <ScrollView
+          style={{ backgroundColor: theme.backgroundRoot }}
+          contentContainerStyle={[
+            styles.modal,
+            { paddingBottom: insets.bottom + Spacing.lg },
+          ]}
+        >
+          <View style={styles.modalHeader}>
+            <ThemedText type="h4" style={styles.flex}>
+              Save to Project
+            </ThemedText>
+            <Pressable onPress={() => setPermitToSave(null)} hitSlop={8}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+          <ThemedText type="secondary">
+            {permitToSave?.permitType} · {permitToSave?.address}
+          </ThemedText>
+          {projects.map((project) => (
+            <Pressable
+              key={project.id}
+              onPress={() => handleSaveToProject(project)}
+              disabled={savingProjectId !== null}
+              style={({ pressed }) => [
+                styles.projectRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              <View style={styles.flex}>
+                <ThemedText type="body" numberOfLines={1} style={{ fontWeight: "600" }}>
+                  {project.address || "Untitled Project"}
+                </ThemedText>
+                {project.customer?.name ? (
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {project.customer.name}
+                  </ThemedText>
+                ) : null}
+              </View>
+              {savingProjectId === project.id ? (
+                <ActivityIndicator color={theme.accent} size="small" />
+              ) : (
+                <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+              )}
+            </Pressable>
+          ))}
+        </ScrollView>
+      </Modal>
     </View>
   );
 }
@@ -349,6 +553,22 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     fontWeight: "600",
   },
+  watchLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  watchInline: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  roofAgeCard: {
+    marginTop: Spacing.md,
+  },
   errorCard: {
     flexDirection: "row",
     alignItems: "center",
@@ -364,6 +584,13 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
     marginBottom: Spacing.sm,
   },
+  sectionTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+  },
+  sectionEmpty: {
+    marginBottom: Spacing.lg,
+  },
   permitCard: {
     marginBottom: Spacing.md,
   },
@@ -411,6 +638,34 @@ const styles = StyleSheet.create({
   contractorName: {
     fontWeight: "600",
   },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+    paddingTop: Spacing.md,
+    borderTopWidth: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  modal: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  projectRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
   emptyState: {
     alignItems: "center",
     paddingTop: Spacing["5xl"],
@@ -0,0 +1,577 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation, useIsFocused } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { apiRequestSafe } from "@/lib/query-client";
+import { AccountStackParamList } from "@/navigation/AccountStackNavigator";
+import { loadPriceBook, PriceBook, PriceBookMaterial } from "@/lib/price-book";
+import { ACCESSORY_CATEGORIES, type AccessoryCategory } from "@shared/estimate";
+
+interface MaterialDraft {
+  name: string;
+  pricePerSquare: string;
+  bundlesPerSquare: string;
+}
+
+interface AccessoryDraft {
+  unitCost: string;
+  coverage: string;
+}
+
+function toMaterialDraft(material: PriceBookMaterial): MaterialDraft {
+  return {
+    name: material.name,
+    pricePerSquare: String(material.pricePerSquare),
+    bundlesPerSquare: String(material.bundlesPerSquare),
+  };
+}
+
+export default function PriceBookScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<AccountStackParamList>>();
+  const isFocused = useIsFocused();
+
+  const [priceBook, setPriceBook] = useState<PriceBook | null>(null);
+  const [materialDrafts, setMaterialDrafts] = useState<
+    Record<string, MaterialDraft>
+  >({});
+  const [accessoryDrafts, setAccessoryDrafts] = useState<
+    Record<string, AccessoryDraft>
+  >({});
+  const [newMaterial, setNewMaterial] = useState<MaterialDraft>({
+    name: "",
+    pricePerSquare: "",
+    bundlesPerSquare: "3",
+  });
+  const [isGuest, setIsGuest] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isFocused) {
+      load();
+    }
+  }, [isFocused]);
+
+  const applyPriceBook = (book: PriceBook) => {
+    setPriceBook(book);
+    setMaterialDrafts(
+      book.materials.reduce(
+        (acc, m) => ({ ...acc, [m.id || m.materialKey]: toMaterialDraft(m) }),
+        {},
+      ),
+    );
+    setAccessoryDrafts(
+      ACCESSORY_CATEGORIES.reduce(
+        (acc, { category }) => ({
+          ...acc,
+          [category]: {
+            unitCost: String(book.accessories[category].unitCost),
+            coverage: String(book.accessories[category].coverage),
+          },
+        }),
+        {},
+      ),
+    );
+  };
+
+  const load = async () => {
+    const guestMode = await AsyncStorage.getItem("roofmaster_guest_mode");
+    setIsGuest(guestMode === "true");
+    applyPriceBook(await loadPriceBook());
+  };
+
+  const sendRequest = async (method: string, route: string, body?: unknown) => {
+    const response = await apiRequestSafe(method, route, body);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const updateMaterialDraft = (
+    key: string,
+    field: keyof MaterialDraft,
+    value: string,
+  ) => {
+    setMaterialDrafts((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], [field]: value },
+    }));
+  };
+
+  const updateAccessoryDraft = (
+    category: AccessoryCategory,
+    field: keyof AccessoryDraft,
+    value: string,
+  ) => {
+    setAccessoryDrafts((prev) => ({
+      ...prev,
+      [category]: { ...prev[category], [field]: value },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!priceBook) return;
+
+    setIsSaving(true);
+    try {
+      for (const material of priceBook.materials) {
+        if (!material.id) continue;
+        const draft = materialDrafts[material.id];
+        const changed =
+          draft.name !== material.name ||
+          parseFloat(draft.pricePerSquare) !== material.pricePerSquare ||
+          parseFloat(draft.bundlesPerSquare) !== material.bundlesPerSquare;
+        if (!changed) continue;
+
+        await sendRequest("PUT", `/api/price-book/materials/${material.id}`, {
+          name: draft.name,
+          pricePerSquare: draft.pricePerSquare,
+          bundlesPerSquare: draft.bundlesPerSquare,
+        });
+      }
+
+      for (const { category } of ACCESSORY_CATEGORIES) {
+        const draft = accessoryDrafts[category];
+        const current = priceBook.accessories[category];
+        if (
+          parseFloat(draft.unitCost) === current.unitCost &&
+          parseFloat(draft.coverage) === current.coverage
+        ) {
+          continue;
+        }
+
+        await sendRequest("PUT", `/api/price-book/accessories/${category}`, {
+          unitCost: draft.unitCost,
+          coverage: draft.coverage,
+        });
+      }
+
+      applyPriceBook(await loadPriceBook());
+      Alert.alert("Saved", "Your price book has been updated.");
+    } catch (error: any) {
+      console.error("Error saving price book:", error);
+      Alert.alert("Error", error.message || "Failed to save price book.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddMaterial = async () => {
+    if (!newMaterial.name.trim() || !newMaterial.pricePerSquare) {
+      Alert.alert("Missing Information", "Enter a name and price per square.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await sendRequest("POST", "/api/price-book/materials", {
+        name: newMaterial.name.trim(),
+        pricePerSquare: newMaterial.pricePerSquare,
+        bundlesPerSquare: newMaterial.bundlesPerSquare,
+      });
+      setNewMaterial({ name: "", pricePerSquare: "", bundlesPerSquare: "3" });
+      applyPriceBook(await loadPriceBook());
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to add material.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteMaterial = (material: PriceBookMaterial) => {
+    Alert.alert(
+      "Remove Material",
+      `Remove ${material.name} from your price book?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await sendRequest(
+                "DELETE",
+                `/api/price-book/materials/${material.id}`,
+              );
+              applyPriceBook(await loadPriceBook());
+            } catch (error: any) {
+              Alert.alert(
+                "Error",
+                error.message || "Failed to remove material.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderInput = (
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    numeric = true,
+  ) => (
+    <TextInput
+      style={[
+        styles.input,
+        { backgroundColor: theme.backgroundSecondary, color: theme.text },
+      ]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={theme.textSecondary}
+      keyboardType={numeric ? "decimal-pad" : "default"}
+      editable={!isGuest}
+    />
+  );
+
+  if (!priceBook) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color={theme.accent} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <KeyboardAwareScrollViewCompat
+        style={styles.container}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: insets.bottom + 120,
+          },
+        ]}
+      >
+        {isGuest ? (
+          <Card style={styles.card}>
+            <ThemedText type="secondary">
+              Sign in to customize your price book. Guest estimates use the
+              default pricing shown below.
+            </ThemedText>
+          </Card>
+        ) : (
+          <Card style={styles.card}>
+            <Pressable
+              onPress={() => navigation.navigate("PriceImport")}
+              style={({ pressed }) => [
+                styles.importRow,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather name="upload" size={20} color={theme.accent} />
+              <View style={styles.flex}>
+                <ThemedText type="body" style={styles.rowTitle}>
+                  Import Supplier Price List
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Update prices from a CSV and review the changes first.
+                </ThemedText>
+              </View>
+              <Feather
+                name="chevron-right"
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          </Card>
+        )}
+
+        <ThemedText type="secondary" style={styles.sectionLabel}>
+          Roofing Materials
+        </ThemedText>
+        <Card style={styles.card}>
+          {priceBook.materials.map((material, index) => {
+            const key = material.id || material.materialKey;
+            const draft = materialDrafts[key];
+            if (!draft) return null;
+            return (
+              <View
+                key={key}
+                style={[
+                  styles.row,
+                  index < priceBook.materials.length - 1 && {
+                    borderBottomWidth: 1,
+                    borderBottomColor: theme.divider,
+                  },
+                ]}
+              >
+                <View style={styles.rowHeader}>
+                  <View style={styles.flex}>
+                    {renderInput(
+                      draft.name,
+                      (text) => updateMaterialDraft(key, "name", text),
+                      "Material name",
+                      false,
+                    )}
+                  </View>
+                  {!isGuest && material.id ? (
+                    <Pressable
+                      onPress={() => handleDeleteMaterial(material)}
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        { opacity: pressed ? 0.6 : 1 },
+                      ]}
+                    >
+                      <Feather name="trash-2" size={18} color="#DC3545" />
+                    </Pressable>
+                  ) : null}
+                </View>
+                <View style={styles.fieldRow}>
+                  <View style={styles.flex}>
+                    <ThemedText type="small" style={styles.fieldLabel}>
+                      Price / square ($)
+                    </ThemedText>
+                    {renderInput(
+                      draft.pricePerSquare,
+                      (text) =>
+                        updateMaterialDraft(key, "pricePerSquare", text),
+                      "0",
+                    )}
+                  </View>
+                  <View style={styles.flex}>
+                    <ThemedText type="small" style={styles.fieldLabel}>
+                      Bundles / square
+                    </ThemedText>
+                    {renderInput(
+                      draft.bundlesPerSquare,
+                      (text) =>
+                        updateMaterialDraft(key, "bundlesPerSquare", text),
+                      "3",
+                    )}
+                  </View>
+                </View>
+              </View>
+            );
+          })}
+        </Card>
+
+        {!isGuest ? (
+          <>
+            <ThemedText type="secondary" style={styles.sectionLabel}>
+              Add Material
+            </ThemedText>
+            <Card style={styles.card}>
+              {renderInput(
+                newMaterial.name,
+                (text) => setNewMaterial((prev) => ({ ...prev, name: text })),
+                "e.g. Designer Shingles",
+                false,
+              )}
+              <View style={[styles.fieldRow, styles.addRow]}>
+                <View style={styles.flex}>
+                  <ThemedText type="small" style={styles.fieldLabel}>
+                    Price / square ($)
+                  </ThemedText>
+                  {renderInput(
+                    newMaterial.pricePerSquare,
+                    (text) =>
+                      setNewMaterial((prev) => ({
+                        ...prev,
+                        pricePerSquare: text,
+                      })),
+                    "0",
+                  )}
+                </View>
+                <View style={styles.flex}>
+                  <ThemedText type="small" style={styles.fieldLabel}>
+                    Bundles / square
+                  </ThemedText>
+                  {renderInput(
+                    newMaterial.bundlesPerSquare,
+                    (text) =>
+                      setNewMaterial((prev) => ({
+                        ...prev,
+                        bundlesPerSquare: text,
+                      })),
+                    "3",
+                  )}
+                </View>
+              </View>
+              <Button
+                variant="secondary"
+                onPress={handleAddMaterial}
+                disabled={isSaving}
+              >
+                Add Material
+              </Button>
+            </Card>
+          </>
+        ) : null}
+
+        <ThemedText type="secondary" style={styles.sectionLabel}>
+          Accessories
+        </ThemedText>
+        <Card style={styles.card}>
+          {ACCESSORY_CATEGORIES.map(
+            ({ category, label, unit, coverageLabel }, index) => {
+              const draft = accessoryDrafts[category];
+              if (!draft) return null;
+              return (
+                <View
+                  key={category}
+                  style={[
+                    styles.row,
+                    index < ACCESSORY_CATEGORIES.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText type="body" style={styles.rowTitle}>
+                    {label}
+                  </ThemedText>
+                  <View style={styles.fieldRow}>
+                    <View style={styles.flex}>
+                      <ThemedText type="small" style={styles.fieldLabel}>
+                        Cost per {unit} ($)
+                      </ThemedText>
+                      {renderInput(
+                        draft.unitCost,
+                        (text) =>
+                          updateAccessoryDraft(category, "unitCost", text),
+                        "0",
+                      )}
+                    </View>
+                    <View style={styles.flex}>
+                      <ThemedText type="small" style={styles.fieldLabel}>
+                        {coverageLabel}
+                      </ThemedText>
+                      {renderInput(
+                        draft.coverage,
+                        (text) =>
+                          updateAccessoryDraft(category, "coverage", text),
+                        "1",
+                      )}
+                    </View>
+                  </View>
+                </View>
+              );
+            },
+          )}
+        </Card>
+      </KeyboardAwareScrollViewCompat>
+
+      {!isGuest ? (
+        <View
+          style={[
+            styles.footer,
+            {
+              backgroundColor: theme.backgroundRoot,
+              paddingBottom: insets.bottom + Spacing.lg,
+            },
+          ]}
+        >
+          <Button onPress={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Price Book"}
+          </Button>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  sectionLabel: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    textTransform: "uppercase",
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  card: {
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    paddingVertical: Spacing.md,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  rowTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  addRow: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  flex: {
+    flex: 1,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.xs,
+    fontSize: 12,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  importRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+});
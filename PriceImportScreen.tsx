@@ -0,0 +1,487 @@
+import React, { useState, useEffect } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { apiRequestSafe } from "@/lib/query-client";
+import {
+  loadPriceBook,
+  cachePriceBook,
+  DEFAULT_PRICE_BOOK,
+  PriceBook,
+} from "@/lib/price-book";
+import {
+  getTargetOptions,
+  SKIP_TARGET,
+  type PriceListDiffRow,
+  type PriceListTarget,
+} from "@shared/price-list";
+
+// The local calendar day, matching how the server reads effective dates.
+function todayString(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function formatCost(value: number | null): string {
+  return value === null ? "—" : `$${value.toLocaleString()}`;
+}
+
+export default function PriceImportScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation();
+  const { theme } = useTheme();
+
+  const [priceBook, setPriceBook] = useState<PriceBook>(DEFAULT_PRICE_BOOK);
+  const [csv, setCsv] = useState("");
+  const [supplierName, setSupplierName] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(todayString());
+  const [rows, setRows] = useState<PriceListDiffRow[] | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [mappings, setMappings] = useState<Record<string, PriceListTarget>>({});
+  const [expandedSku, setExpandedSku] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    loadPriceBook().then(setPriceBook);
+  }, []);
+
+  const targetOptions = getTargetOptions(priceBook.materials);
+
+  const sendImport = async (route: string, body: Record<string, unknown>) => {
+    const response = await apiRequestSafe("POST", route, body);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const preview = async (overrides: Record<string, PriceListTarget>) => {
+    if (!csv.trim()) {
+      Alert.alert("Missing Price List", "Paste your supplier's CSV first.");
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const data = await sendImport("/api/price-book/imports/preview", {
+        csv,
+        mappings: overrides,
+      });
+      setRows(data.rows);
+      setWarnings(data.warnings || []);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to read price list.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMap = (sku: string, target: PriceListTarget) => {
+    const next = { ...mappings, [sku]: target };
+    setMappings(next);
+    setExpandedSku(null);
+    preview(next);
+  };
+
+  const handleApply = async () => {
+    setIsWorking(true);
+    try {
+      const data = await sendImport("/api/price-book/imports/apply", {
+        csv,
+        mappings,
+        effectiveDate,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        supplierName: supplierName.trim() || undefined,
+      });
+      await cachePriceBook(data.priceBook);
+
+      const message = data.scheduled
+        ? `${data.changes} price change(s) will take effect on ${effectiveDate}.`
+        : `${data.changes} price change(s) applied to your price book.`;
+      Alert.alert("Price List Imported", message, [
+        { text: "OK", onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to apply price list.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changedCount = rows
+    ? rows.filter((r) => r.status === "changed").length
+    : 0;
+
+  const renderStatus = (row: PriceListDiffRow) => {
+    if (row.status === "unmapped") {
+      return (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Not imported
+        </ThemedText>
+      );
+    }
+    if (row.status === "duplicate") {
+      return (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Duplicate, ignored
+        </ThemedText>
+      );
+    }
+
+    const change =
+      row.currentCost && row.newCost !== null
+        ? ((row.newCost - row.currentCost) / row.currentCost) * 100
+        : null;
+    return (
+      <View style={styles.costRow}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {formatCost(row.currentCost)}
+        </ThemedText>
+        <Feather name="arrow-right" size={12} color={theme.textSecondary} />
+        <ThemedText
+          type="small"
+          style={[
+            styles.newCost,
+            row.status === "changed" && { color: theme.accent },
+          ]}
+        >
+          {formatCost(row.newCost)}
+        </ThemedText>
+        {change !== null && row.status === "changed" ? (
+          <ThemedText
+            type="small"
+            style={{
+              color: change > 0 ? "#DC3545" : Colors.light.success,
+            }}
+          >
+            {change > 0 ? "+" : ""}
+            {change.toFixed(1)}%
+          </ThemedText>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <KeyboardAwareScrollViewCompat
+        style={styles.container}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: insets.bottom + 120,
+          },
+        ]}
+      >
+        <Card style={styles.card}>
+          <ThemedText type="secondary" style={styles.description}>
+            Paste your supplier&apos;s price list as CSV. It needs a header row
+            with a SKU or description column and a price column; unit and
+            category columns help with matching.
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              styles.csvInput,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+            value={csv}
+            onChangeText={(text) => {
+              setCsv(text);
+              setRows(null);
+            }}
+            placeholder={"SKU,Description,Unit,Price\n..."}
+            placeholderTextColor={theme.textSecondary}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.fieldRow}>
+            <View style={styles.flex}>
+              <ThemedText type="small" style={styles.fieldLabel}>
+                Supplier
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={supplierName}
+                onChangeText={setSupplierName}
+                placeholder="Optional"
+                placeholderTextColor={theme.textSecondary}
+              />
+            </View>
+            <View style={styles.flex}>
+              <ThemedText type="small" style={styles.fieldLabel}>
+                Effective date
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={effectiveDate}
+                onChangeText={setEffectiveDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={theme.textSecondary}
+                autoCapitalize="none"
+              />
+            </View>
+          </View>
+          <Button
+            variant="secondary"
+            onPress={() => preview(mappings)}
+            disabled={isWorking}
+          >
+            {isWorking && !rows ? "Reading..." : "Preview Changes"}
+          </Button>
+        </Card>
+
+        {warnings.length > 0 ? (
+          <Card style={styles.card}>
+            {warnings.map((warning) => (
+              <View key={warning} style={styles.warningRow}>
+                <Feather
+                  name="alert-triangle"
+                  size={14}
+                  color={theme.textSecondary}
+                />
+                <ThemedText type="small" style={styles.flex}>
+                  {warning}
+                </ThemedText>
+              </View>
+            ))}
+          </Card>
+        ) : null}
+
+        {rows ? (
+          <>
+            <ThemedText type="secondary" style={styles.sectionLabel}>
+              {changedCount} price change{changedCount === 1 ? "" : "s"}
+            </ThemedText>
+            <Card style={styles.card}>
+              {rows.map((row, index) => (
+                <View
+                  key={`${row.line}-${row.sku}`}
+                  style={[
+                    styles.row,
+                    index < rows.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText type="body" style={styles.rowTitle}>
+                    {row.description || row.sku}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {row.sku} · ${row.price}
+                    {row.unit ? ` / ${row.unit}` : ""}
+                  </ThemedText>
+                  <Pressable
+                    onPress={() =>
+                      setExpandedSku(expandedSku === row.sku ? null : row.sku)
+                    }
+                    style={({ pressed }) => [
+                      styles.targetButton,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        opacity: pressed ? 0.7 : 1,
+                      },
+                    ]}
+                  >
+                    <ThemedText type="small" style={styles.flex}>
+                      {row.targetLabel || "Choose price book entry"}
+                    </ThemedText>
+                    <Feather
+                      name={
+                        expandedSku === row.sku ? "chevron-up" : "chevron-down"
+                      }
+                      size={16}
+                      color={theme.textSecondary}
+                    />
+                  </Pressable>
+                  {expandedSku === row.sku ? (
+                    <View
+                      style={[styles.options, { borderColor: theme.divider }]}
+                    >
+                      {targetOptions.map((option) => (
+                        <Pressable
+                          key={option.target}
+                          onPress={() => handleMap(row.sku, option.target)}
+                          style={styles.option}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={
+                              option.target === row.target && {
+                                color: theme.accent,
+                              }
+                            }
+                          >
+                            {option.label}
+                          </ThemedText>
+                        </Pressable>
+                      ))}
+                      <Pressable
+                        onPress={() => handleMap(row.sku, SKIP_TARGET)}
+                        style={styles.option}
+                      >
+                        <ThemedText
+                          type="small"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          Don&apos;t import this SKU
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                  ) : null}
+                  {renderStatus(row)}
+                </View>
+              ))}
+            </Card>
+          </>
+        ) : null}
+      </KeyboardAwareScrollViewCompat>
+
+      {rows ? (
+        <View
+          style={[
+            styles.footer,
+            {
+              backgroundColor: theme.backgroundRoot,
+              paddingBottom: insets.bottom + Spacing.lg,
+            },
+          ]}
+        >
+          <Button
+            onPress={handleApply}
+            disabled={isWorking || changedCount === 0}
+          >
+            {effectiveDate > todayString()
+              ? `Schedule for ${effectiveDate}`
+              : "Apply Changes"}
+          </Button>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  card: {
+    marginBottom: Spacing.lg,
+  },
+  description: {
+    marginBottom: Spacing.md,
+  },
+  sectionLabel: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    textTransform: "uppercase",
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  csvInput: {
+    height: 160,
+    paddingTop: Spacing.md,
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginVertical: Spacing.md,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.xs,
+    fontSize: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  row: {
+    paddingVertical: Spacing.md,
+    gap: Spacing.xs,
+  },
+  rowTitle: {
+    fontWeight: "600",
+  },
+  targetButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    marginTop: Spacing.xs,
+  },
+  options: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    paddingVertical: Spacing.xs,
+  },
+  option: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  costRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  newCost: {
+    fontWeight: "600",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+});
@@ -0,0 +1,813 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { RoofAgeSummary } from "@/components/RoofAgeSummary";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  loadProjectPermits,
+  createProjectPermit,
+  updateProjectPermit,
+  deleteProjectPermit,
+  ProjectPermit,
+  ProjectPermitFields,
+} from "@/lib/project-permits";
+import {
+  getPermitStatusLabel,
+  INSPECTION_RESULTS,
+  PROJECT_PERMIT_STATUSES,
+  PROJECT_PERMIT_STATUS_LABELS,
+  type InspectionResult,
+  type PermitInspection,
+  type ProjectPermitStatus,
+} from "@shared/permit-records";
+import { estimateRoofAge } from "@shared/roof-age";
+
+interface PermitForm {
+  permitNumber: string;
+  jurisdiction: string;
+  fee: string;
+  status: ProjectPermitStatus;
+  appliedDate: string;
+  issueDate: string;
+  expiryDate: string;
+  inspections: PermitInspection[];
+}
+
+const INSPECTION_RESULT_LABELS: Record<InspectionResult, string> = {
+  scheduled: "Scheduled",
+  passed: "Passed",
+  failed: "Failed",
+};
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toForm(permit: ProjectPermit | null): PermitForm {
+  return {
+    permitNumber: permit?.permitNumber || "",
+    jurisdiction: permit?.jurisdiction || "",
+    fee: permit?.fee != null ? String(permit.fee) : "",
+    status: (permit?.status as ProjectPermitStatus) || "planned",
+    appliedDate: permit?.appliedDate || "",
+    issueDate: permit?.issueDate || "",
+    expiryDate: permit?.expiryDate || "",
+    inspections: permit?.inspections || [],
+  };
+}
+
+function toFields(form: PermitForm): ProjectPermitFields {
+  return {
+    permitType: "Reroof",
+    permitNumber: form.permitNumber.trim() || null,
+    jurisdiction: form.jurisdiction.trim() || null,
+    fee: form.fee.trim() ? Number(form.fee.replace(/[$,]/g, "")) : null,
+    status: form.status,
+    appliedDate: form.appliedDate.trim() || null,
+    issueDate: form.issueDate.trim() || null,
+    expiryDate: form.expiryDate.trim() || null,
+    inspections: form.inspections,
+  };
+}
+
+// Permit dates are calendar days; parse them as UTC so they don't shift.
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function ProjectPermitsScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const route = useRoute<RouteProp<RootStackParamList, "ProjectPermits">>();
+  const { projectId } = route.params;
+
+  const [permits, setPermits] = useState<ProjectPermit[]>([]);
+  const [isGuest, setIsGuest] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  // null while closed; "new" when adding the job's permit.
+  const [editing, setEditing] = useState<ProjectPermit | "new" | null>(null);
+  const [form, setForm] = useState<PermitForm>(toForm(null));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const guestMode = await AsyncStorage.getItem("roofmaster_guest_mode");
+      const user = await AsyncStorage.getItem("roofmaster_user");
+      if (guestMode === "true" || !user) {
+        setIsGuest(true);
+        return;
+      }
+      setPermits(await loadProjectPermits(projectId));
+    } catch (error) {
+      console.error("Error loading permits:", error);
+      Alert.alert("Error", "Failed to load permits.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const projectPermits = permits.filter((p) => p.kind === "project");
+  const historyPermits = permits.filter((p) => p.kind === "history");
+  const roofAge = estimateRoofAge(historyPermits);
+
+  const openForm = (permit: ProjectPermit | null) => {
+    setForm(toForm(permit));
+    setFormError(null);
+    setEditing(permit ?? "new");
+  };
+
+  const updateForm = (changes: Partial<PermitForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateInspection = (id: string, changes: Partial<PermitInspection>) => {
+    updateForm({
+      inspections: form.inspections.map((inspection) =>
+        inspection.id === id ? { ...inspection, ...changes } : inspection,
+      ),
+    });
+  };
+
+  const addInspection = () => {
+    updateForm({
+      inspections: [
+        ...form.inspections,
+        {
+          id: String(Date.now()),
+          type: form.inspections.length === 0 ? "Deck" : "Final",
+          date: today(),
+          result: "scheduled",
+        },
+      ],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const fields = toFields(form);
+      const saved =
+        editing === "new"
+          ? await createProjectPermit(projectId, fields)
+          : await updateProjectPermit(editing.id, fields);
+      setPermits((prev) =>
+        prev.some((p) => p.id === saved.id)
+          ? prev.map((p) => (p.id === saved.id ? saved : p))
+          : [...prev, saved],
+      );
+      setEditing(null);
+    } catch (error: any) {
+      console.error("Error saving permit:", error);
+      setFormError(error.message || "Failed to save permit.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = (permit: ProjectPermit) => {
+    Alert.alert(
+      "Remove Permit",
+      "This permit will be removed from the project.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteProjectPermit(permit.id);
+              setPermits((prev) => prev.filter((p) => p.id !== permit.id));
+              setEditing(null);
+            } catch (error) {
+              console.error("Error deleting permit:", error);
+              Alert.alert("Error", "Failed to remove permit.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const getStatusColor = (permit: ProjectPermit) => {
+    if (permit.status === "expired") return "#DC3545";
+    if (["final", "issued", "approved"].includes(permit.status)) {
+      return Colors.light.success;
+    }
+    return Colors.light.accent;
+  };
+
+  const renderStatus = (permit: ProjectPermit) => (
+    <View
+      style={[
+        styles.statusBadge,
+        { backgroundColor: getStatusColor(permit) + "20" },
+      ]}
+    >
+      <ThemedText
+        type="small"
+        style={{ color: getStatusColor(permit), fontWeight: "600" }}
+      >
+        {getPermitStatusLabel(permit.kind, permit.status)}
+      </ThemedText>
+    </View>
+  );
+
+  const renderDateField = (
+    label: string,
+    key: "appliedDate" | "issueDate" | "expiryDate",
+  ) => (
+    <View style={styles.flex}>
+      <ThemedText type="small" style={styles.label}>
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundSecondary, color: theme.text },
+        ]}
+        value={form[key]}
+        onChangeText={(value) => updateForm({ [key]: value })}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={theme.textSecondary}
+        maxLength={10}
+      />
+    </View>
+  );
+
+  if (isLoading && !isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <ActivityIndicator color={theme.accent} />
+      </View>
+    );
+  }
+
+  if (isGuest) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <Feather name="file-text" size={40} color={theme.textSecondary} />
+        <ThemedText type="secondary" style={styles.emptyText}>
+          Sign in to save permits to your projects.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+      >
+        <ThemedText type="body" style={styles.sectionTitle}>
+          Reroof Permit
+        </ThemedText>
+        {projectPermits.map((permit) => (
+          <Pressable key={permit.id} onPress={() => openForm(permit)}>
+            <Card style={styles.permitCard}>
+              <View style={styles.permitHeader}>
+                <View style={styles.flex}>
+                  <ThemedText type="body" style={styles.permitTitle}>
+                    {permit.permitNumber
+                      ? `Permit #${permit.permitNumber}`
+                      : "Permit number not set"}
+                  </ThemedText>
+                  {permit.jurisdiction ? (
+                    <ThemedText type="secondary">
+                      {permit.jurisdiction}
+                    </ThemedText>
+                  ) : null}
+                </View>
+                {renderStatus(permit)}
+              </View>
+              <View style={styles.details}>
+                <View style={styles.detailItem}>
+                  <ThemedText type="secondary" style={styles.detailLabel}>
+                    Applied
+                  </ThemedText>
+                  <ThemedText type="small">
+                    {formatDate(permit.appliedDate)}
+                  </ThemedText>
+                </View>
+                <View style={styles.detailItem}>
+                  <ThemedText type="secondary" style={styles.detailLabel}>
+                    Issued
+                  </ThemedText>
+                  <ThemedText type="small">
+                    {formatDate(permit.issueDate)}
+                  </ThemedText>
+                </View>
+                {permit.fee != null ? (
+                  <View style={styles.detailItem}>
+                    <ThemedText type="secondary" style={styles.detailLabel}>
+                      Fee
+                    </ThemedText>
+                    <ThemedText type="small" style={{ color: theme.accent }}>
+                      ${permit.fee.toLocaleString("en-US")}
+                    </ThemedText>
+                  </View>
+                ) : null}
+              </View>
+              {permit.inspections.map((inspection) => (
+                <View
+                  key={inspection.id}
+                  style={[
+                    styles.inspectionRow,
+                    { borderTopColor: theme.divider },
+                  ]}
+                >
+                  <ThemedText type="small" style={styles.flex}>
+                    {inspection.type} inspection · {formatDate(inspection.date)}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      fontWeight: "600",
+                      color:
+                        inspection.result === "failed"
+                          ? "#DC3545"
+                          : inspection.result === "passed"
+                            ? Colors.light.success
+                            : theme.textSecondary,
+                    }}
+                  >
+                    {INSPECTION_RESULT_LABELS[inspection.result]}
+                  </ThemedText>
+                </View>
+              ))}
+            </Card>
+          </Pressable>
+        ))}
+        {projectPermits.length === 0 ? (
+          <>
+            <ThemedText type="secondary" style={styles.hint}>
+              Track the permit you pull for this job, its fee and inspections.
+            </ThemedText>
+            <Button onPress={() => openForm(null)} style={styles.addButton}>
+              Add Permit
+            </Button>
+          </>
+        ) : null}
+
+        <ThemedText type="body" style={styles.sectionTitle}>
+          Property History
+        </ThemedText>
+        {roofAge ? (
+          <Card style={styles.permitCard}>
+            <RoofAgeSummary roofAge={roofAge} />
+          </Card>
+        ) : null}
+        {historyPermits.length === 0 ? (
+          <ThemedText type="secondary" style={styles.hint}>
+            Save permits from a permit search to keep the property&apos;s
+            history with this project.
+          </ThemedText>
+        ) : (
+          historyPermits.map((permit) => (
+            <Card key={permit.id} style={styles.permitCard}>
+              <View style={styles.permitHeader}>
+                <View style={styles.flex}>
+                  <ThemedText type="body" style={styles.permitTitle}>
+                    {permit.permitType}
+                  </ThemedText>
+                  <ThemedText type="secondary">
+                    {permit.permitNumber ? `#${permit.permitNumber} · ` : ""}
+                    Issued {formatDate(permit.issueDate)}
+                  </ThemedText>
+                </View>
+                {renderStatus(permit)}
+              </View>
+              {permit.description ? (
+                <ThemedText type="secondary" style={styles.description}>
+                  {permit.description}
+                </ThemedText>
+              ) : null}
+              <Pressable
+                onPress={() => confirmDelete(permit)}
+                style={({ pressed }) => [
+                  styles.removeRow,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <Feather name="trash-2" size={14} color="#DC3545" />
+                <ThemedText type="small" style={{ color: "#DC3545" }}>
+                  Remove
+                </ThemedText>
+              </Pressable>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={editing !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEditing(null)}
+      >
+        <ScrollView
+          style={{ backgroundColor: theme.backgroundRoot }}
+          contentContainerStyle={[
+            styles.modal,
+            { paddingBottom: insets.bottom + Spacing.lg },
+          ]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.modalHeader}>
+            <ThemedText type="h4" style={styles.flex}>
+              Reroof Permit
+            </ThemedText>
+            <Pressable onPress={() => setEditing(null)} hitSlop={8}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View>
+            <ThemedText type="small" style={styles.label}>
+              Permit Number
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={form.permitNumber}
+              onChangeText={(permitNumber) => updateForm({ permitNumber })}
+              placeholder="e.g. BLD-2026-01234"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              maxLength={60}
+            />
+          </View>
+          <View style={styles.row}>
+            <View style={styles.flex}>
+              <ThemedText type="small" style={styles.label}>
+                Jurisdiction
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={form.jurisdiction}
+                onChangeText={(jurisdiction) => updateForm({ jurisdiction })}
+                placeholder="City or county"
+                placeholderTextColor={theme.textSecondary}
+                maxLength={200}
+              />
+            </View>
+            <View style={styles.feeField}>
+              <ThemedText type="small" style={styles.label}>
+                Fee
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={form.fee}
+                onChangeText={(fee) => updateForm({ fee })}
+                placeholder="$0"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+
+          <View>
+            <ThemedText type="small" style={styles.label}>
+              Status
+            </ThemedText>
+            <View style={styles.chips}>
+              {PROJECT_PERMIT_STATUSES.map((status) => {
+                const isActive = form.status === status;
+                return (
+                  <Pressable
+                    key={status}
+                    onPress={() => updateForm({ status })}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: isActive
+                          ? theme.accent
+                          : theme.backgroundSecondary,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: isActive ? "white" : theme.text }}
+                    >
+                      {PROJECT_PERMIT_STATUS_LABELS[status]}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            {renderDateField("Applied", "appliedDate")}
+            {renderDateField("Issued", "issueDate")}
+            {renderDateField("Expires", "expiryDate")}
+          </View>
+
+          <ThemedText type="body" style={styles.sectionTitle}>
+            Inspections
+          </ThemedText>
+          {form.inspections.map((inspection) => (
+            <View
+              key={inspection.id}
+              style={[
+                styles.inspectionForm,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <View style={styles.row}>
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.flex,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={inspection.type}
+                  onChangeText={(type) =>
+                    updateInspection(inspection.id, { type })
+                  }
+                  placeholder="Inspection"
+                  placeholderTextColor={theme.textSecondary}
+                  maxLength={60}
+                />
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.flex,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={inspection.date}
+                  onChangeText={(date) =>
+                    updateInspection(inspection.id, { date })
+                  }
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.textSecondary}
+                  maxLength={10}
+                />
+                <Pressable
+                  onPress={() =>
+                    updateForm({
+                      inspections: form.inspections.filter(
+                        (i) => i.id !== inspection.id,
+                      ),
+                    })
+                  }
+                  hitSlop={8}
+                  style={styles.removeInspection}
+                >
+                  <Feather name="x" size={18} color={theme.textSecondary} />
+                </Pressable>
+              </View>
+              <View style={styles.chips}>
+                {INSPECTION_RESULTS.map((result) => {
+                  const isActive = inspection.result === result;
+                  return (
+                    <Pressable
+                      key={result}
+                      onPress={() =>
+                        updateInspection(inspection.id, { result })
+                      }
+                      style={[
+                        styles.chip,
+                        {
+                          backgroundColor: isActive
+                            ? theme.accent
+                            : theme.backgroundSecondary,
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        type="small"
+                        style={{ color: isActive ? "white" : theme.text }}
+                      >
+                        {INSPECTION_RESULT_LABELS[result]}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+          <Button variant="secondary" onPress={addInspection}>
+            Add Inspection
+          </Button>
+
+          {formError ? (
+            <ThemedText type="small" style={{ color: "#DC3545" }}>
+              {formError}
+            </ThemedText>
+          ) : null}
+
+          <Button onPress={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Permit"}
+          </Button>
+          {editing && editing !== "new" ? (
+            <Pressable
+              onPress={() => confirmDelete(editing)}
+              style={({ pressed }) => [
+                styles.deleteRow,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather name="trash-2" size={18} color="#DC3545" />
+              <ThemedText type="body" style={{ color: "#DC3545" }}>
+                Remove Permit
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </ScrollView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+  },
+  flex: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    marginBottom: Spacing.lg,
+  },
+  addButton: {
+    marginBottom: Spacing.xl,
+  },
+  permitCard: {
+    marginBottom: Spacing.md,
+  },
+  permitHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  permitTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  statusBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+  },
+  details: {
+    flexDirection: "row",
+    gap: Spacing["2xl"],
+  },
+  detailItem: {
+    gap: Spacing.xs,
+  },
+  detailLabel: {
+    fontSize: 12,
+  },
+  description: {
+    marginBottom: Spacing.sm,
+  },
+  inspectionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  removeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  modal: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  label: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    minHeight: 44,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  feeField: {
+    width: 110,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  inspectionForm: {
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  removeInspection: {
+    padding: Spacing.xs,
+  },
+  deleteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+});
@@ -1,11 +1,13 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import {
   View,
   FlatList,
+  ScrollView,
   StyleSheet,
   TextInput,
   Pressable,
   RefreshControl,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -13,7 +15,6 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useFocusEffect } from "@react-navigation/native";
 
 import { useTheme } from "@/hooks/useTheme";
@@ -21,7 +22,28 @@ import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
-import { apiRequest } from "@/lib/query-client";
+import {
+  applyEstimateResponses,
+  loadNotifications,
+  markNotificationRead,
+  isPermitNotification,
+  AppNotification,
+} from "@/lib/notifications";
+import {
+  getSyncState,
+  subscribeToSyncState,
+  syncProjects,
+  SyncState,
+} from "@/lib/sync";
+import { searchProjects } from "@/lib/project-search";
+import { loadPriceBook, PriceBookMaterial } from "@/lib/price-book";
+import {
+  PROJECT_SORTS,
+  PROJECT_STATUSES,
+  type ProjectFilters,
+  type ProjectSort,
+  type ProjectStatus,
+} from "@shared/project-filters";
 
 interface Project {
   id: string;
@@ -29,9 +51,37 @@ interface Project {
   roofArea: number;
   estimateTotal: number;
   createdAt: string;
-  status: "draft" | "completed";
+  status: "draft" | "completed" | "accepted" | "declined";
 }
 
+const STATUS_LABELS: Record<Project["status"], string> = {
+  draft: "Draft",
+  completed: "Completed",
+  accepted: "Accepted",
+  declined: "Declined",
+};
+
+const SORT_LABELS: Record<ProjectSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  updated: "Recently Updated",
+  total_desc: "Highest Total",
+  total_asc: "Lowest Total",
+};
+
+const DATE_RANGES = [
+  { key: "30d", label: "Last 30 Days", days: 30 },
+  { key: "12m", label: "Last 12 Months", days: 365 },
+];
+
+const TOTAL_RANGES = [
+  { key: "under-10k", label: "Under $10k", maxTotal: 10000 },
+  { key: "10k-25k", label: "$10k–$25k", minTotal: 10000, maxTotal: 25000 },
+  { key: "over-25k", label: "Over $25k", minTotal: 25000 },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function ProjectsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -43,40 +93,94 @@ export default function ProjectsScreen() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [refreshing, setRefreshing] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState());
 
-  const loadProjects = useCallback(async () => {
+  const [filters, setFilters] = useState<ProjectFilters>({ sort: "newest" });
+  const [dateRange, setDateRange] = useState<string | null>(null);
+  const [totalRange, setTotalRange] = useState<string | null>(null);
+  const [materials, setMaterials] = useState<PriceBookMaterial[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Ignores responses for a filter set that has since changed.
+  const requestRef = useRef(0);
+  const lastSyncStatus = useRef(getSyncState().status);
+
+  const loadFirstPage = useCallback(async () => {
+    const request = ++requestRef.current;
     try {
-      const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
-      
-      if (isGuest === "true") {
-        const stored = await AsyncStorage.getItem("roofmaster_projects");
-        if (stored) {
-          setProjects(JSON.parse(stored));
-        }
-      } else {
-        const response = await apiRequest("GET", "/api/projects");
-        const data = await response.json();
-        if (data.success && data.projects) {
-          const formattedProjects = data.projects.map((p: any) => ({
-            id: p.id,
-            address: p.address || "Unknown Address",
-            roofArea: p.data?.roofArea || 0,
-            estimateTotal: p.data?.estimateTotal || 0,
-            createdAt: p.createdAt,
-            status: p.status || "draft",
-          }));
-          setProjects(formattedProjects);
-        }
-      }
+      const page = await searchProjects(filters);
+      if (request !== requestRef.current) return;
+      setProjects(page.projects as Project[]);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error("Failed to load projects:", error);
-      const stored = await AsyncStorage.getItem("roofmaster_projects");
-      if (stored) {
-        setProjects(JSON.parse(stored));
-      }
     }
+  }, [filters]);
+
+  const loadFirstPageRef = useRef(loadFirstPage);
+  loadFirstPageRef.current = loadFirstPage;
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const request = requestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchProjects(filters, nextCursor);
+      if (request !== requestRef.current) return;
+      setProjects((prev) => [
+        ...prev,
+        ...(page.projects as Project[]).filter(
+          (p) => !prev.some((existing) => existing.id === p.id)
+        ),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to load more projects:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadProjects = useCallback(async () => {
+    await loadFirstPageRef.current();
+    await syncProjects();
+
+    const loadedNotifications = await loadNotifications();
+    await applyEstimateResponses(loadedNotifications);
+    setNotifications(loadedNotifications.filter((n) => !n.readAt));
+    await loadFirstPageRef.current();
+  }, []);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const q = searchQuery.trim() || undefined;
+      setFilters((prev) => (prev.q === q ? prev : { ...prev, q }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    loadPriceBook().then((book) => setMaterials(book.materials));
   }, []);
 
+  // Refresh the list whenever a background sync finishes.
+  useEffect(
+    () =>
+      subscribeToSyncState((state) => {
+        setSyncState(state);
+        if (lastSyncStatus.current === "syncing" && state.status !== "syncing") {
+          loadFirstPageRef.current();
+        }
+        lastSyncStatus.current = state.status;
+      }),
+    []
+  );
+
   useFocusEffect(
     useCallback(() => {
       loadProjects();
@@ -89,9 +193,64 @@ export default function ProjectsScreen() {
     setRefreshing(false);
   }, [loadProjects]);
 
-  const filteredProjects = projects.filter((p) =>
-    p.address.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const hasActiveFilters =
+    !!filters.q ||
+    !!filters.status?.length ||
+    !!filters.material ||
+    !!dateRange ||
+    !!totalRange;
+
+  const toggleStatus = (status: ProjectStatus) => {
+    setFilters((prev) => {
+      const current = prev.status || [];
+      const next = current.includes(status)
+        ? current.filter((s) => s !== status)
+        : [...current, status];
+      return { ...prev, status: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const toggleDateRange = (key: string, days: number) => {
+    const active = dateRange === key;
+    setDateRange(active ? null : key);
+    setFilters((prev) => ({
+      ...prev,
+      from: active
+        ? undefined
+        : new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+    }));
+  };
+
+  const toggleTotalRange = (range: (typeof TOTAL_RANGES)[number]) => {
+    const active = totalRange === range.key;
+    setTotalRange(active ? null : range.key);
+    setFilters((prev) => ({
+      ...prev,
+      minTotal: active ? undefined : range.minTotal,
+      maxTotal: active ? undefined : range.maxTotal,
+    }));
+  };
+
+  const toggleMaterial = (materialKey: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      material: prev.material === materialKey ? undefined : materialKey,
+    }));
+  };
+
+  const cycleSort = () => {
+    setFilters((prev) => {
+      const index = PROJECT_SORTS.indexOf(prev.sort || "newest");
+      return { ...prev, sort: PROJECT_SORTS[(index + 1) % PROJECT_SORTS.length] };
+    });
+  };
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setDateRange(null);
+    setTotalRange(null);
+    setFilters({ sort: filters.sort });
+  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -108,6 +267,145 @@ export default function ProjectsScreen() {
     });
   };
 
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const getSyncLabel = () => {
+    const pending = `${syncState.pendingCount} change${syncState.pendingCount === 1 ? "" : "s"}`;
+    if (syncState.status === "syncing") return "Syncing...";
+    if (syncState.status === "offline") {
+      return syncState.pendingCount > 0
+        ? `Offline · ${pending} waiting to sync`
+        : "Offline";
+    }
+    if (syncState.status === "error") {
+      return syncState.error || "Sync error";
+    }
+    if (syncState.pendingCount > 0) return `${pending} not synced`;
+    return syncState.lastSyncedAt
+      ? `Synced at ${formatTime(syncState.lastSyncedAt)}`
+      : null;
+  };
+
+  const renderSyncIndicator = () => {
+    const label = getSyncLabel();
+    if (!label) return null;
+
+    const color =
+      syncState.status === "error"
+        ? "#DC3545"
+        : syncState.status === "idle" && syncState.pendingCount === 0
+          ? Colors.light.success
+          : theme.textSecondary;
+    const icon =
+      syncState.status === "syncing"
+        ? "refresh-cw"
+        : syncState.status === "offline"
+          ? "cloud-off"
+          : syncState.status === "error"
+            ? "alert-circle"
+            : "check-circle";
+
+    return (
+      <View style={styles.syncIndicator}>
+        <Feather name={icon} size={14} color={color} />
+        <ThemedText type="small" style={{ color }}>
+          {label}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    icon?: keyof typeof Feather.glyphMap
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.filterChip,
+        {
+          backgroundColor: active ? theme.accent : theme.backgroundDefault,
+          borderColor: active ? theme.accent : theme.divider,
+        },
+      ]}
+    >
+      {icon ? (
+        <Feather
+          name={icon}
+          size={14}
+          color={active ? "#FFFFFF" : theme.textSecondary}
+        />
+      ) : null}
+      <ThemedText
+        type="small"
+        style={{ color: active ? "#FFFFFF" : theme.text }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const renderFilterChips = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.filterBar}
+      contentContainerStyle={styles.filterChips}
+    >
+      {renderChip(
+        "sort",
+        SORT_LABELS[filters.sort || "newest"],
+        false,
+        cycleSort,
+        "bar-chart-2"
+      )}
+      {hasActiveFilters
+        ? renderChip("clear", "Clear", false, clearFilters, "x")
+        : null}
+      {PROJECT_STATUSES.map((status) =>
+        renderChip(
+          `status-${status}`,
+          STATUS_LABELS[status],
+          !!filters.status?.includes(status),
+          () => toggleStatus(status)
+        )
+      )}
+      {DATE_RANGES.map((range) =>
+        renderChip(
+          `date-${range.key}`,
+          range.label,
+          dateRange === range.key,
+          () => toggleDateRange(range.key, range.days)
+        )
+      )}
+      {TOTAL_RANGES.map((range) =>
+        renderChip(
+          `total-${range.key}`,
+          range.label,
+          totalRange === range.key,
+          () => toggleTotalRange(range)
+        )
+      )}
+      {materials.map((material) =>
+        renderChip(
+          `material-${material.materialKey}`,
+          material.name,
+          filters.material === material.materialKey,
+          () => toggleMaterial(material.materialKey)
+        )
+      )}
+    </ScrollView>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View
@@ -116,17 +414,36 @@ export default function ProjectsScreen() {
           { backgroundColor: theme.backgroundSecondary },
         ]}
       >
-        <Feather name="clipboard" size={48} color={theme.textSecondary} />
+        <Feather
+          name={hasActiveFilters ? "search" : "clipboard"}
+          size={48}
+          color={theme.textSecondary}
+        />
       </View>
       <ThemedText type="h4" style={styles.emptyTitle}>
-        No Projects Yet
+        {hasActiveFilters ? "No Matching Projects" : "No Projects Yet"}
       </ThemedText>
       <ThemedText type="secondary" style={styles.emptyDescription}>
-        Start your first roofing estimate by tapping the button below
+        {hasActiveFilters
+          ? "Try a different search or clear the filters"
+          : "Start your first roofing estimate by tapping the button below"}
       </ThemedText>
     </View>
   );
 
+  const dismissNotification = (id: string) => {
+    setNotifications((prev) => prev.filter((n) => n.id !== id));
+    markNotificationRead(id);
+  };
+
+  const getStatusColor = (status: Project["status"]) => {
+    if (status === "completed" || status === "accepted") {
+      return Colors.light.success;
+    }
+    if (status === "declined") return "#DC3545";
+    return theme.textSecondary;
+  };
+
   const handleProjectPress = (item: Project) => {
     // If project has no estimate, go to cost input first
     if (item.estimateTotal <= 0) {
@@ -155,22 +472,17 @@ export default function ProjectsScreen() {
             styles.statusBadge,
             {
               backgroundColor:
-                item.status === "completed"
-                  ? Colors.light.success + "20"
-                  : theme.backgroundSecondary,
+                item.status === "draft"
+                  ? theme.backgroundSecondary
+                  : getStatusColor(item.status) + "20",
             },
           ]}
         >
           <ThemedText
             type="small"
-            style={{
-              color:
-                item.status === "completed"
-                  ? Colors.light.success
-                  : theme.textSecondary,
-            }}
+            style={{ color: getStatusColor(item.status) }}
           >
-            {item.status === "completed" ? "Completed" : "Draft"}
+            {STATUS_LABELS[item.status] || STATUS_LABELS.draft}
           </ThemedText>
         </View>
       </View>
@@ -195,30 +507,91 @@ export default function ProjectsScreen() {
           },
         ]}
         scrollIndicatorInsets={{ bottom: insets.bottom }}
-        data={filteredProjects}
+        data={projects}
         keyExtractor={(item) => item.id}
         renderItem={renderProject}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator color={theme.accent} style={styles.footer} />
+          ) : null
+        }
         ListHeaderComponent={
-          <View
-            style={[
-              styles.searchContainer,
-              { backgroundColor: theme.backgroundDefault },
-            ]}
-          >
-            <Feather
-              name="search"
-              size={20}
-              color={theme.textSecondary}
-              style={styles.searchIcon}
-            />
-            <TextInput
-              style={[styles.searchInput, { color: theme.text }]}
-              placeholder="Search projects..."
-              placeholderTextColor={theme.textSecondary}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
-          </View>
+          <>
+            {notifications.map((notification) => (
+              <Card
+                key={notification.id}
+                style={styles.notificationCard}
+                onPress={
+                  notification.projectId
+                    ? () =>
+                        navigation.navigate("EstimatePreview", {
+                          projectId: notification.projectId!,
+                        })
+                    : isPermitNotification(notification)
+                      ? () => navigation.navigate("PermitWatchlist")
+                      : undefined
+                }
+              >
+                <View style={styles.notificationRow}>
+                  <Feather
+                    name={
+                      notification.type === "estimate_declined"
+                        ? "x-circle"
+                        : isPermitNotification(notification)
+                          ? "file-text"
+                          : "check-circle"
+                    }
+                    size={20}
+                    color={
+                      notification.type === "estimate_declined"
+                        ? "#DC3545"
+                        : isPermitNotification(notification)
+                          ? theme.accent
+                          : Colors.light.success
+                    }
+                  />
+                  <View style={styles.notificationText}>
+                    <ThemedText type="body" style={styles.projectAddress}>
+                      {notification.title}
+                    </ThemedText>
+                    {notification.body ? (
+                      <ThemedText type="secondary">{notification.body}</ThemedText>
+                    ) : null}
+                  </View>
+                  <Pressable
+                    onPress={() => dismissNotification(notification.id)}
+                    hitSlop={8}
+                  >
+                    <Feather name="x" size={18} color={theme.textSecondary} />
+                  </Pressable>
+                </View>
+              </Card>
+            ))}
+            <View
+              style={[
+                styles.searchContainer,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <Feather
+                name="search"
+                size={20}
+                color={theme.textSecondary}
+                style={styles.searchIcon}
+              />
+              <TextInput
+                style={[styles.searchInput, { color: theme.text }]}
+                placeholder="Search address, customer or customer notes..."
+                placeholderTextColor={theme.textSecondary}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+              />
+            </View>
+            {renderFilterChips()}
+            {renderSyncIndicator()}
+          </>
         }
         ListEmptyComponent={renderEmptyState}
         refreshControl={
@@ -287,6 +660,33 @@ const styles = StyleSheet.create({
     height: Spacing.inputHeight,
     fontSize: 16,
   },
+  filterBar: {
+    marginHorizontal: -Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  filterChips: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  footer: {
+    paddingVertical: Spacing.lg,
+  },
+  syncIndicator: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
   projectCard: {
     marginBottom: Spacing.md,
   },
@@ -309,6 +709,17 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.xs,
     borderRadius: BorderRadius.xs,
   },
+  notificationCard: {
+    marginBottom: Spacing.md,
+  },
+  notificationRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+  },
+  notificationText: {
+    flex: 1,
+  },
   projectFooter: {
     flexDirection: "row",
     justifyContent: "space-between",
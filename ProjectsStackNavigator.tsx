@@ -1,9 +1,17 @@
 import React from "react";
-import { createNativeStackNavigator } from "@react-navigation/native-stack";
+import {
+  createNativeStackNavigator,
+  NativeStackNavigationProp,
+} from "@react-navigation/native-stack";
+import { useNavigation } from "@react-navigation/native";
+import { HeaderButton } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
 
 import ProjectsScreen from "@/screens/ProjectsScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { HeaderTitle } from "@/components/HeaderTitle";
+import { useTheme } from "@/hooks/useTheme";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 export type ProjectsStackParamList = {
   Projects: undefined;
@@ -11,6 +19,18 @@ export type ProjectsStackParamList = {
 
 const Stack = createNativeStackNavigator<ProjectsStackParamList>();
 
+function NotificationsButton() {
+  const { theme } = useTheme();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  return (
+    <HeaderButton onPress={() => navigation.navigate("Notifications")}>
+      <Feather name="bell" size={22} color={theme.text} />
+    </HeaderButton>
+  );
+}
+
 export default function ProjectsStackNavigator() {
   const screenOptions = useScreenOptions();
 
@@ -21,6 +41,7 @@ export default function ProjectsStackNavigator() {
         component={ProjectsScreen}
         options={{
           headerTitle: () => <HeaderTitle title="RoofMaster 360" />,
+          headerRight: () => <NotificationsButton />,
         }}
       />
     </Stack.Navigator>
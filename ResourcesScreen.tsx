@@ -35,7 +35,7 @@ const features: Feature[] = [
     icon: "camera",
     title: "Drone Integration",
     description:
-      "Seamlessly import drone measurements for accurate roof dimensions",
+      "Import GeoJSON or KML roof planes from drone surveys for true facet areas and pitches",
   },
   {
     id: "2",
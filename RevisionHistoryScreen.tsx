@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Card } from "@/components/Card";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { loadRevisions, EstimateRevision } from "@/lib/revisions";
+import {
+  diffEstimateLineItems,
+  type EstimateLineItem,
+  type EstimateRevisionInputs,
+} from "@shared/estimate";
+
+const MATERIAL_NAMES: Record<string, string> = {
+  "three-tab": "Three Tab Shingles",
+  architectural: "Architectural Shingles",
+  "metal-pbr": "Metal PBR Panels",
+  "standing-seam": "Standing Seam Metal",
+};
+
+type InputKey = Extract<keyof EstimateRevisionInputs, string>;
+
+type InputRows = {
+  [K in InputKey]: {
+    key: K;
+    label: string;
+    format: (value: EstimateRevisionInputs[K]) => string;
+  };
+};
+
+type InputRow = InputRows[InputKey];
+
+const INPUT_ROWS: InputRow[] = [
+  {
+    key: "selectedMaterial",
+    label: "Material",
+    format: (value) => MATERIAL_NAMES[value] || value || "None",
+  },
+  {
+    key: "materialPricePerSquare",
+    label: "Price per Square",
+    format: (value) => formatCurrency(value),
+  },
+  { key: "roofSquares", label: "Squares", format: (value) => String(value) },
+  {
+    key: "laborRate",
+    label: "Labor Rate",
+    format: (value) => `${formatCurrency(value)}/hr`,
+  },
+  { key: "laborHours", label: "Labor Hours", format: (value) => String(value) },
+  {
+    key: "additionalCosts",
+    label: "Additional Costs",
+    format: (value) => formatCurrency(value),
+  },
+];
+
+function formatInput<K extends InputKey>(
+  row: InputRows[K],
+  inputs: EstimateRevisionInputs,
+): string {
+  return row.format(inputs[row.key]);
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatChange(amount: number): string {
+  if (amount === 0) return "—";
+  return `${amount > 0 ? "+" : "-"}${formatCurrency(Math.abs(amount))}`;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatLineItem(item: EstimateLineItem | null): string {
+  if (!item) return "—";
+  return `${item.quantity} ${item.unit} · ${formatCurrency(item.total)}`;
+}
+
+export default function RevisionHistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const route = useRoute<RouteProp<RootStackParamList, "RevisionHistory">>();
+  const { projectId } = route.params;
+
+  const [revisions, setRevisions] = useState<EstimateRevision[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const loaded = await loadRevisions(projectId);
+        setRevisions(loaded);
+        // Newest first, so this compares the latest revision with the one before it.
+        setSelectedIds(loaded.slice(0, 2).map((r) => r.id));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [projectId]);
+
+  const toggleRevision = (id: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((selected) => selected !== id);
+      // Keep at most two selected; the earliest pick is dropped first.
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const selected = revisions
+    .filter((r) => selectedIds.includes(r.id))
+    .sort((a, b) => a.revisionNumber - b.revisionNumber);
+  const [before, after] = selected.length === 2 ? selected : [null, null];
+
+  const renderChange = (change: number) => (
+    <ThemedText
+      type="body"
+      style={[
+        styles.changeText,
+        change !== 0
+          ? { color: change > 0 ? "#DC3545" : Colors.light.success }
+          : { color: theme.textSecondary },
+      ]}
+    >
+      {formatChange(change)}
+    </ThemedText>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <ActivityIndicator color={theme.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + Spacing.xl },
+      ]}
+    >
+      {revisions.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Feather name="clock" size={40} color={theme.textSecondary} />
+          <ThemedText type="secondary" style={styles.emptyText}>
+            No revisions yet. A revision is saved each time you preview an
+            estimate with new pricing.
+          </ThemedText>
+        </View>
+      ) : (
+        <>
+          <ThemedText type="secondary" style={styles.hint}>
+            Select two revisions to compare them line by line.
+          </ThemedText>
+
+          {revisions.map((revision) => {
+            const isSelected = selectedIds.includes(revision.id);
+            return (
+              <Pressable
+                key={revision.id}
+                onPress={() => toggleRevision(revision.id)}
+                style={({ pressed }) => [
+                  styles.revisionRow,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    borderColor: isSelected ? theme.accent : "transparent",
+                    opacity: pressed ? 0.8 : 1,
+                  },
+                ]}
+              >
+                <Feather
+                  name={isSelected ? "check-circle" : "circle"}
+                  size={20}
+                  color={isSelected ? theme.accent : theme.textSecondary}
+                />
+                <View style={styles.revisionInfo}>
+                  <ThemedText type="body" style={styles.revisionTitle}>
+                    Revision {revision.revisionNumber}
+                  </ThemedText>
+                  <ThemedText type="secondary" style={styles.revisionMeta}>
+                    {formatTimestamp(revision.createdAt)}
+                    {revision.authorName ? ` · ${revision.authorName}` : ""}
+                  </ThemedText>
+                </View>
+                <ThemedText type="body" style={styles.revisionTotal}>
+                  {formatCurrency(revision.estimateTotal)}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+
+          {before && after ? (
+            <>
+              <Card style={styles.card}>
+                <ThemedText type="h4" style={styles.cardTitle}>
+                  Revision {before.revisionNumber} → Revision{" "}
+                  {after.revisionNumber}
+                </ThemedText>
+                <View style={styles.totalRow}>
+                  <View>
+                    <ThemedText type="secondary">Total</ThemedText>
+                    <ThemedText type="h3">
+                      {formatCurrency(before.estimateTotal)} →{" "}
+                      {formatCurrency(after.estimateTotal)}
+                    </ThemedText>
+                  </View>
+                  {renderChange(after.estimateTotal - before.estimateTotal)}
+                </View>
+              </Card>
+
+              <Card style={styles.card}>
+                <ThemedText type="h4" style={styles.cardTitle}>
+                  Inputs
+                </ThemedText>
+                {INPUT_ROWS.map((row) => {
+                  const changed =
+                    before.inputs[row.key] !== after.inputs[row.key];
+                  return (
+                    <View
+                      key={row.label}
+                      style={[
+                        styles.diffRow,
+                        { borderBottomColor: theme.divider },
+                      ]}
+                    >
+                      <ThemedText type="body" style={styles.diffLabel}>
+                        {row.label}
+                      </ThemedText>
+                      <ThemedText
+                        type="body"
+                        style={[
+                          styles.diffValue,
+                          changed ? { color: theme.accent } : null,
+                        ]}
+                      >
+                        {changed
+                          ? `${formatInput(row, before.inputs)} → ${formatInput(row, after.inputs)}`
+                          : formatInput(row, after.inputs)}
+                      </ThemedText>
+                    </View>
+                  );
+                })}
+              </Card>
+
+              <Card style={styles.card}>
+                <ThemedText type="h4" style={styles.cardTitle}>
+                  Line Items
+                </ThemedText>
+                {diffEstimateLineItems(before.breakdown, after.breakdown).map(
+                  (item) => (
+                    <View
+                      key={item.key}
+                      style={[
+                        styles.lineItemRow,
+                        { borderBottomColor: theme.divider },
+                      ]}
+                    >
+                      <View style={styles.lineItemHeader}>
+                        <ThemedText type="body" style={styles.diffLabel}>
+                          {item.label}
+                        </ThemedText>
+                        {renderChange(item.change)}
+                      </View>
+                      <ThemedText type="secondary" style={styles.lineItemText}>
+                        {formatLineItem(item.before)} →{" "}
+                        {formatLineItem(item.after)}
+                      </ThemedText>
+                    </View>
+                  ),
+                )}
+              </Card>
+            </>
+          ) : null}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: Spacing["3xl"],
+    gap: Spacing.md,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+  revisionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTitle: {
+    fontWeight: "600",
+  },
+  revisionMeta: {
+    fontSize: 13,
+  },
+  revisionTotal: {
+    fontWeight: "600",
+  },
+  card: {
+    marginTop: Spacing.lg,
+  },
+  cardTitle: {
+    marginBottom: Spacing.md,
+  },
+  totalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  changeText: {
+    fontWeight: "600",
+  },
+  diffRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  diffLabel: {
+    flex: 1,
+  },
+  diffValue: {
+    textAlign: "right",
+    flexShrink: 1,
+  },
+  lineItemRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  lineItemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+  },
+  lineItemText: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
+});
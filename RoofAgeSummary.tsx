@@ -0,0 +1,96 @@
+import React from "react";
+import { View, StyleSheet, ViewStyle, StyleProp } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  describeRemainingLife,
+  describeRoofAge,
+  ROOF_CONDITION_LABELS,
+  type RoofAgeEstimate,
+} from "@shared/roof-age";
+
+interface RoofAgeSummaryProps {
+  roofAge: RoofAgeEstimate;
+  style?: StyleProp<ViewStyle>;
+}
+
+// The current roof's estimated age and remaining life, with a bar showing
+// how much of its expected life is used up.
+export function RoofAgeSummary({ roofAge, style }: RoofAgeSummaryProps) {
+  const { theme } = useTheme();
+
+  const conditionColor =
+    roofAge.condition === "good"
+      ? Colors.light.success
+      : roofAge.condition === "past-life"
+        ? "#DC3545"
+        : theme.accent;
+  const used = Math.min(1, roofAge.ageYears / roofAge.lifespanYears);
+  const age = Math.round(roofAge.ageYears);
+
+  return (
+    <View style={style}>
+      <View style={styles.header}>
+        <Feather name="clock" size={18} color={conditionColor} />
+        <ThemedText type="body" style={styles.title}>
+          {age < 1
+            ? "Roof is less than a year old"
+            : `Roof is about ${age} ${age === 1 ? "year" : "years"} old`}
+        </ThemedText>
+        <View
+          style={[styles.badge, { backgroundColor: conditionColor + "20" }]}
+        >
+          <ThemedText
+            type="small"
+            style={{ color: conditionColor, fontWeight: "600" }}
+          >
+            {ROOF_CONDITION_LABELS[roofAge.condition]}
+          </ThemedText>
+        </View>
+      </View>
+      <View
+        style={[styles.track, { backgroundColor: theme.backgroundSecondary }]}
+      >
+        <View
+          style={[
+            styles.fill,
+            { width: `${used * 100}%`, backgroundColor: conditionColor },
+          ]}
+        />
+      </View>
+      <ThemedText type="secondary">
+        {describeRoofAge(roofAge)} {describeRemainingLife(roofAge)}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+    marginVertical: Spacing.sm,
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+});
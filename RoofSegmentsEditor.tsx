@@ -0,0 +1,242 @@
+import React from "react";
+import { View, StyleSheet, TextInput, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  createRoofSegment,
+  getSegmentAreaSqFt,
+  summarizeRoofSegments,
+  MAX_ROOF_PITCH,
+  MAX_ROOF_SEGMENTS,
+  type RoofSegment,
+} from "@shared/roof-segments";
+
+interface RoofSegmentsEditorProps {
+  segments: RoofSegment[];
+  onChange: (segments: RoofSegment[]) => void;
+}
+
+// Pitch is stepped in whole inches; measured facets may start fractional.
+function stepPitch(pitch: number, step: number): number {
+  const next = step > 0 ? Math.floor(pitch) + 1 : Math.ceil(pitch) - 1;
+  return Math.min(MAX_ROOF_PITCH, Math.max(0, next));
+}
+
+export function RoofSegmentsEditor({
+  segments,
+  onChange,
+}: RoofSegmentsEditorProps) {
+  const { theme } = useTheme();
+  const summary = summarizeRoofSegments(segments);
+
+  const updateSegment = (id: string, changes: Partial<RoofSegment>) => {
+    onChange(segments.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const removeSegment = (id: string) => {
+    onChange(segments.filter((s) => s.id !== id));
+  };
+
+  const addSegment = () => {
+    onChange([...segments, createRoofSegment(segments)]);
+  };
+
+  return (
+    <View>
+      {segments.map((segment) => (
+        <View
+          key={segment.id}
+          style={[
+            styles.segmentRow,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
+          <View style={styles.segmentHeader}>
+            <TextInput
+              style={[styles.labelInput, { color: theme.text }]}
+              value={segment.label}
+              onChangeText={(label) => updateSegment(segment.id, { label })}
+              placeholder="Facet name"
+              placeholderTextColor={theme.textSecondary}
+              maxLength={50}
+            />
+            <Pressable
+              onPress={() => removeSegment(segment.id)}
+              hitSlop={8}
+              accessibilityLabel={`Remove ${segment.label}`}
+            >
+              <Feather name="trash-2" size={18} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+
+          <View style={styles.segmentFields}>
+            <View style={styles.field}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Footprint (sq ft)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.areaInput,
+                  {
+                    color: theme.text,
+                    backgroundColor: theme.backgroundDefault,
+                  },
+                ]}
+                value={segment.planAreaSqFt ? String(segment.planAreaSqFt) : ""}
+                onChangeText={(text) =>
+                  updateSegment(segment.id, {
+                    planAreaSqFt: parseInt(text.replace(/\D/g, ""), 10) || 0,
+                  })
+                }
+                placeholder="0"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <View style={styles.field}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Pitch
+              </ThemedText>
+              <View style={styles.stepper}>
+                <Pressable
+                  onPress={() =>
+                    updateSegment(segment.id, {
+                      pitch: stepPitch(segment.pitch, -1),
+                    })
+                  }
+                  style={[
+                    styles.stepButton,
+                    { backgroundColor: theme.backgroundDefault },
+                  ]}
+                  hitSlop={4}
+                >
+                  <Feather name="minus" size={16} color={theme.text} />
+                </Pressable>
+                <ThemedText type="body" style={styles.pitchValue}>
+                  {segment.pitch}:12
+                </ThemedText>
+                <Pressable
+                  onPress={() =>
+                    updateSegment(segment.id, {
+                      pitch: stepPitch(segment.pitch, 1),
+                    })
+                  }
+                  style={[
+                    styles.stepButton,
+                    { backgroundColor: theme.backgroundDefault },
+                  ]}
+                  hitSlop={4}
+                >
+                  <Feather name="plus" size={16} color={theme.text} />
+                </Pressable>
+              </View>
+            </View>
+          </View>
+
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {segment.orientation ? `${segment.orientation} · ` : ""}
+            {Math.round(getSegmentAreaSqFt(segment)).toLocaleString()} sq ft of
+            roof surface
+          </ThemedText>
+        </View>
+      ))}
+
+      {segments.length < MAX_ROOF_SEGMENTS ? (
+        <Pressable
+          onPress={addSegment}
+          style={({ pressed }) => [
+            styles.addRow,
+            { opacity: pressed ? 0.6 : 1 },
+          ]}
+        >
+          <Feather name="plus-circle" size={18} color={theme.accent} />
+          <ThemedText type="body" style={{ color: theme.accent }}>
+            Add Facet
+          </ThemedText>
+        </Pressable>
+      ) : null}
+
+      {segments.length > 0 ? (
+        <View style={[styles.totalRow, { borderTopColor: theme.divider }]}>
+          <ThemedText type="secondary">
+            {summary.count} {summary.count === 1 ? "facet" : "facets"}
+          </ThemedText>
+          <ThemedText type="body" style={styles.totalValue}>
+            {summary.areaSqFt.toLocaleString()} sq ft · {summary.squares}{" "}
+            squares
+          </ThemedText>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segmentRow: {
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  segmentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  labelInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    paddingVertical: 0,
+  },
+  segmentFields: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  field: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  areaInput: {
+    height: 40,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    height: 40,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  pitchValue: {
+    fontWeight: "600",
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: Spacing.md,
+    borderTopWidth: 1,
+  },
+  totalValue: {
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  type LayoutChangeEvent,
+} from "react-native";
+
+import { useTheme } from "@/hooks/useTheme";
+import { BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  SKETCH_EDGE_COLORS,
+  SKETCH_EXTENT_FT,
+  SKETCH_GRID_FT,
+  type RoofSketch,
+  type SketchPoint,
+} from "@shared/roof-sketch";
+
+interface RoofSketchCanvasProps {
+  sketch: RoofSketch;
+  // Points picked for the line or facet being drawn.
+  pendingPointIds: string[];
+  selectedEdgeId: string | null;
+  selectedFacetId: string | null;
+  // Called with the tapped spot in sketch feet.
+  onPress: (x: number, y: number) => void;
+}
+
+const GRID_LINES = Array.from(
+  { length: SKETCH_EXTENT_FT / SKETCH_GRID_FT + 1 },
+  (_, i) => i * SKETCH_GRID_FT,
+);
+const EDGE_WIDTH = 3;
+const POINT_SIZE = 8;
+
+// A square drawing grid. Lines are rotated views, so it renders the same on
+// native and web without an SVG dependency; everything inside ignores
+// touches so tap positions are always relative to the canvas.
+export function RoofSketchCanvas({
+  sketch,
+  pendingPointIds,
+  selectedEdgeId,
+  selectedFacetId,
+  onPress,
+}: RoofSketchCanvasProps) {
+  const { theme } = useTheme();
+  const [size, setSize] = useState(0);
+  const scale = size / SKETCH_EXTENT_FT;
+  const points = new Map(sketch.points.map((p) => [p.id, p]));
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setSize(event.nativeEvent.layout.width);
+  };
+
+  const renderEdge = (
+    key: string,
+    from: SketchPoint,
+    to: SketchPoint,
+    color: string,
+    width: number,
+  ) => {
+    const dx = (to.x - from.x) * scale;
+    const dy = (to.y - from.y) * scale;
+    const length = Math.hypot(dx, dy);
+    return (
+      <View
+        key={key}
+        style={[
+          styles.edge,
+          {
+            width: length,
+            height: width,
+            left: ((from.x + to.x) / 2) * scale - length / 2,
+            top: ((from.y + to.y) / 2) * scale - width / 2,
+            backgroundColor: color,
+            transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+          },
+        ]}
+      />
+    );
+  };
+
+  return (
+    <Pressable
+      onLayout={handleLayout}
+      onPress={(event) => {
+        if (scale > 0) {
+          onPress(
+            event.nativeEvent.locationX / scale,
+            event.nativeEvent.locationY / scale,
+          );
+        }
+      }}
+      style={[
+        styles.canvas,
+        {
+          height: size || undefined,
+          backgroundColor: theme.backgroundSecondary,
+        },
+      ]}
+    >
+      {size > 0 ? (
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          {GRID_LINES.map((ft) => (
+            <React.Fragment key={ft}>
+              <View
+                style={[
+                  styles.gridLine,
+                  {
+                    left: ft * scale,
+                    top: 0,
+                    bottom: 0,
+                    width: 1,
+                    backgroundColor: theme.divider,
+                  },
+                ]}
+              />
+              <View
+                style={[
+                  styles.gridLine,
+                  {
+                    top: ft * scale,
+                    left: 0,
+                    right: 0,
+                    height: 1,
+                    backgroundColor: theme.divider,
+                  },
+                ]}
+              />
+            </React.Fragment>
+          ))}
+
+          {sketch.edges.map((edge) => {
+            const from = points.get(edge.from);
+            const to = points.get(edge.to);
+            if (!from || !to) return null;
+            const selected = edge.id === selectedEdgeId;
+            return renderEdge(
+              edge.id,
+              from,
+              to,
+              selected ? theme.accent : SKETCH_EDGE_COLORS[edge.type],
+              selected ? EDGE_WIDTH + 2 : EDGE_WIDTH,
+            );
+          })}
+
+          {pendingPointIds.slice(1).map((id, i) => {
+            const from = points.get(pendingPointIds[i]);
+            const to = points.get(id);
+            return from && to
+              ? renderEdge(`pending-${i}`, from, to, theme.accent, 1)
+              : null;
+          })}
+
+          {sketch.points.map((point) => {
+            const pending = pendingPointIds.includes(point.id);
+            return (
+              <View
+                key={point.id}
+                style={[
+                  styles.point,
+                  {
+                    left: point.x * scale - POINT_SIZE / 2,
+                    top: point.y * scale - POINT_SIZE / 2,
+                    backgroundColor: pending ? theme.accent : theme.text,
+                  },
+                ]}
+              />
+            );
+          })}
+
+          {sketch.facets.map((facet) => {
+            const corners = facet.pointIds
+              .map((id) => points.get(id))
+              .filter((p): p is SketchPoint => !!p);
+            if (corners.length === 0) return null;
+            const x = corners.reduce((sum, p) => sum + p.x, 0) / corners.length;
+            const y = corners.reduce((sum, p) => sum + p.y, 0) / corners.length;
+            const selected = facet.id === selectedFacetId;
+            return (
+              <View
+                key={facet.id}
+                style={[
+                  styles.facetBadge,
+                  {
+                    left: x * scale - 40,
+                    top: y * scale - 16,
+                    backgroundColor: selected
+                      ? theme.accent
+                      : theme.backgroundRoot,
+                    borderColor: theme.divider,
+                  },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  numberOfLines={1}
+                  style={styles.facetLabel}
+                >
+                  {facet.label}
+                </ThemedText>
+                <ThemedText type="small" style={styles.facetLabel}>
+                  {facet.pitch}:12
+                </ThemedText>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+  },
+  gridLine: {
+    position: "absolute",
+  },
+  edge: {
+    position: "absolute",
+    borderRadius: EDGE_WIDTH,
+  },
+  point: {
+    position: "absolute",
+    width: POINT_SIZE,
+    height: POINT_SIZE,
+    borderRadius: POINT_SIZE / 2,
+  },
+  facetBadge: {
+    position: "absolute",
+    width: 80,
+    alignItems: "center",
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    paddingVertical: 2,
+  },
+  facetLabel: {
+    fontSize: 11,
+    lineHeight: 14,
+  },
+});
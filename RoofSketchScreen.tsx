@@ -0,0 +1,692 @@
+import React, { useState, useEffect } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { RoofSketchCanvas } from "@/components/RoofSketchCanvas";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { loadLocalProject, updateProject } from "@/lib/sync";
+import {
+  emptyRoofSketch,
+  hasRoofSketch,
+  measureRoofSketch,
+  nextSketchId,
+  SKETCH_EDGE_COLORS,
+  SKETCH_EDGE_LABELS,
+  SKETCH_EDGE_TYPES,
+  SKETCH_EXTENT_FT,
+  SKETCH_GRID_FT,
+  SKETCH_SNAP_FT,
+  type RoofSketch,
+  type SketchEdgeType,
+  type SketchPoint,
+} from "@shared/roof-sketch";
+import { MAX_ROOF_PITCH, summarizeRoofSegments } from "@shared/roof-segments";
+import { ROOF_LINES, hasLinearMeasurements } from "@shared/roof-lines";
+
+type SketchTool = "line" | "facet" | "select";
+
+const TOOLS: {
+  tool: SketchTool;
+  label: string;
+  icon: keyof typeof Feather.glyphMap;
+}[] = [
+  { tool: "line", label: "Draw Lines", icon: "edit-2" },
+  { tool: "facet", label: "Mark Facets", icon: "triangle" },
+  { tool: "select", label: "Select", icon: "mouse-pointer" },
+];
+
+// How close, in feet, a tap must be to reuse a point or pick a line.
+const HIT_RADIUS_FT = 2.5;
+const MAX_UNDO = 50;
+
+function snap(value: number): number {
+  const snapped = Math.round(value / SKETCH_SNAP_FT) * SKETCH_SNAP_FT;
+  return Math.min(SKETCH_EXTENT_FT, Math.max(0, snapped));
+}
+
+function findNearestPoint(
+  sketch: RoofSketch,
+  x: number,
+  y: number,
+): SketchPoint | null {
+  let nearest: SketchPoint | null = null;
+  let best = HIT_RADIUS_FT;
+  for (const point of sketch.points) {
+    const distance = Math.hypot(point.x - x, point.y - y);
+    if (distance <= best) {
+      nearest = point;
+      best = distance;
+    }
+  }
+  return nearest;
+}
+
+function distanceToSegment(
+  x: number,
+  y: number,
+  a: SketchPoint,
+  b: SketchPoint,
+): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0
+      ? Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq))
+      : 0;
+  return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy));
+}
+
+function isInside(x: number, y: number, corners: SketchPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[i];
+    const b = corners[j];
+    if (
+      a.y > y !== b.y > y &&
+      x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Drops points no longer used by any line or facet.
+function prunePoints(sketch: RoofSketch): RoofSketch {
+  const used = new Set<string>();
+  sketch.edges.forEach((e) => {
+    used.add(e.from);
+    used.add(e.to);
+  });
+  sketch.facets.forEach((f) => f.pointIds.forEach((id) => used.add(id)));
+  return { ...sketch, points: sketch.points.filter((p) => used.has(p.id)) };
+}
+
+export default function RoofSketchScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "RoofSketch">>();
+  const { projectId } = route.params;
+
+  const [sketch, setSketch] = useState<RoofSketch>(emptyRoofSketch());
+  const [history, setHistory] = useState<RoofSketch[]>([]);
+  const [tool, setTool] = useState<SketchTool>("line");
+  const [lineType, setLineType] = useState<SketchEdgeType>("eave");
+  const [pendingPointIds, setPendingPointIds] = useState<string[]>([]);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [selectedFacetId, setSelectedFacetId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadLocalProject(projectId)
+      .then((project) => {
+        if (project?.roofSketch) setSketch(project.roofSketch);
+      })
+      .catch((error) => console.error("Failed to load roof sketch:", error));
+  }, [projectId]);
+
+  const measurements = measureRoofSketch(sketch);
+  const summary = summarizeRoofSegments(measurements.segments);
+  const selectedEdge =
+    sketch.edges.find((e) => e.id === selectedEdgeId) || null;
+  const selectedFacet =
+    sketch.facets.find((f) => f.id === selectedFacetId) || null;
+
+  const commit = (next: RoofSketch) => {
+    setHistory((prev) => [...prev.slice(-(MAX_UNDO - 1)), sketch]);
+    setSketch(next);
+  };
+
+  const changeTool = (next: SketchTool) => {
+    setTool(next);
+    setPendingPointIds([]);
+    setSelectedEdgeId(null);
+    setSelectedFacetId(null);
+  };
+
+  const handleLineTap = (x: number, y: number) => {
+    let next = sketch;
+    let point = findNearestPoint(sketch, x, y);
+    if (!point) {
+      point = { id: nextSketchId(sketch.points), x: snap(x), y: snap(y) };
+      next = { ...next, points: [...next.points, point] };
+    }
+
+    const start = pendingPointIds[pendingPointIds.length - 1];
+    if (start === point.id) {
+      setPendingPointIds([]);
+      return;
+    }
+    if (start) {
+      const exists = next.edges.some(
+        (e) =>
+          (e.from === start && e.to === point.id) ||
+          (e.from === point.id && e.to === start),
+      );
+      if (!exists) {
+        next = {
+          ...next,
+          edges: [
+            ...next.edges,
+            {
+              id: nextSketchId(next.edges),
+              from: start,
+              to: point.id,
+              type: lineType,
+            },
+          ],
+        };
+      }
+    }
+    if (next !== sketch) commit(next);
+    // Lines chain from the last point until it is tapped again.
+    setPendingPointIds([point.id]);
+  };
+
+  const handleFacetTap = (x: number, y: number) => {
+    const point = findNearestPoint(sketch, x, y);
+    if (!point) return;
+
+    if (point.id === pendingPointIds[0] && pendingPointIds.length >= 3) {
+      const id = nextSketchId(sketch.facets);
+      const pitch = sketch.facets[sketch.facets.length - 1]?.pitch ?? 6;
+      commit({
+        ...sketch,
+        facets: [
+          ...sketch.facets,
+          { id, label: `Facet ${id}`, pointIds: pendingPointIds, pitch },
+        ],
+      });
+      setPendingPointIds([]);
+      setSelectedFacetId(id);
+      return;
+    }
+    if (!pendingPointIds.includes(point.id)) {
+      setPendingPointIds([...pendingPointIds, point.id]);
+    }
+  };
+
+  const handleSelectTap = (x: number, y: number) => {
+    const points = new Map(sketch.points.map((p) => [p.id, p]));
+    const edge = sketch.edges.find((e) => {
+      const from = points.get(e.from);
+      const to = points.get(e.to);
+      return from && to && distanceToSegment(x, y, from, to) <= HIT_RADIUS_FT;
+    });
+    const facet = edge
+      ? undefined
+      : [...sketch.facets].reverse().find((f) =>
+          isInside(
+            x,
+            y,
+            f.pointIds
+              .map((id) => points.get(id))
+              .filter((p): p is SketchPoint => !!p),
+          ),
+        );
+    setSelectedEdgeId(edge?.id ?? null);
+    setSelectedFacetId(facet?.id ?? null);
+  };
+
+  const handleCanvasPress = (x: number, y: number) => {
+    if (tool === "line") handleLineTap(x, y);
+    else if (tool === "facet") handleFacetTap(x, y);
+    else handleSelectTap(x, y);
+  };
+
+  const updateSelectedEdge = (type: SketchEdgeType) => {
+    if (!selectedEdge) return;
+    commit({
+      ...sketch,
+      edges: sketch.edges.map((e) =>
+        e.id === selectedEdge.id ? { ...e, type } : e,
+      ),
+    });
+  };
+
+  const updateSelectedFacet = (
+    changes: { label?: string; pitch?: number },
+    record = true,
+  ) => {
+    if (!selectedFacet) return;
+    const next = {
+      ...sketch,
+      facets: sketch.facets.map((f) =>
+        f.id === selectedFacet.id ? { ...f, ...changes } : f,
+      ),
+    };
+    if (record) commit(next);
+    else setSketch(next);
+  };
+
+  const deleteSelection = () => {
+    commit(
+      prunePoints({
+        ...sketch,
+        edges: sketch.edges.filter((e) => e.id !== selectedEdgeId),
+        facets: sketch.facets.filter((f) => f.id !== selectedFacetId),
+      }),
+    );
+    setSelectedEdgeId(null);
+    setSelectedFacetId(null);
+  };
+
+  const handleUndo = () => {
+    if (history.length === 0) return;
+    setSketch(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+    setPendingPointIds([]);
+    setSelectedEdgeId(null);
+    setSelectedFacetId(null);
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      "Clear Sketch",
+      "Remove every line and facet from this sketch?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: () => {
+            commit(emptyRoofSketch());
+            setPendingPointIds([]);
+            setSelectedEdgeId(null);
+            setSelectedFacetId(null);
+          },
+        },
+      ],
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { segments, linearMeasurements } = measurements;
+      await updateProject(projectId, {
+        roofSketch: hasRoofSketch(sketch) ? prunePoints(sketch) : null,
+        ...(segments.length > 0
+          ? {
+              roofSegments: segments,
+              roofArea: summary.areaSqFt,
+              roofSquares: summary.squares,
+              pitch: summary.averagePitch,
+            }
+          : {}),
+        ...(hasLinearMeasurements(linearMeasurements)
+          ? { linearMeasurements }
+          : {}),
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error("Failed to save roof sketch:", error);
+      Alert.alert("Error", "Failed to save the sketch. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hint =
+    tool === "line"
+      ? pendingPointIds.length > 0
+        ? "Tap the next corner. Tap the last point again to stop."
+        : "Tap a corner to start a line."
+      : tool === "facet"
+        ? pendingPointIds.length > 0
+          ? "Tap the corners in order, then the first corner again to close the facet."
+          : "Tap the corners of a roof plane."
+        : "Tap a line or facet to edit it.";
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <KeyboardAwareScrollViewCompat
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 120 },
+        ]}
+      >
+        <View style={styles.toolbar}>
+          {TOOLS.map((item) => {
+            const isActive = tool === item.tool;
+            return (
+              <Pressable
+                key={item.tool}
+                onPress={() => changeTool(item.tool)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isActive
+                      ? theme.accent
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <Feather
+                  name={item.icon}
+                  size={14}
+                  color={isActive ? "white" : theme.text}
+                />
+                <ThemedText
+                  type="small"
+                  style={{ color: isActive ? "white" : theme.text }}
+                >
+                  {item.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          <View style={styles.toolbarSpacer} />
+          <Pressable
+            onPress={handleUndo}
+            hitSlop={8}
+            disabled={history.length === 0}
+            accessibilityLabel="Undo"
+          >
+            <Feather
+              name="rotate-ccw"
+              size={20}
+              color={history.length > 0 ? theme.text : theme.textSecondary}
+            />
+          </Pressable>
+          <Pressable
+            onPress={handleClear}
+            hitSlop={8}
+            accessibilityLabel="Clear sketch"
+          >
+            <Feather name="trash-2" size={20} color={theme.text} />
+          </Pressable>
+        </View>
+
+        {tool === "line" ? (
+          <View style={styles.chips}>
+            {SKETCH_EDGE_TYPES.map((type) => (
+              <Pressable
+                key={type}
+                onPress={() => setLineType(type)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor:
+                      lineType === type
+                        ? theme.backgroundTertiary
+                        : theme.backgroundSecondary,
+                    borderColor:
+                      lineType === type
+                        ? SKETCH_EDGE_COLORS[type]
+                        : "transparent",
+                  },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: SKETCH_EDGE_COLORS[type] },
+                  ]}
+                />
+                <ThemedText type="small">{SKETCH_EDGE_LABELS[type]}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
+
+        <ThemedText type="secondary" style={styles.hint}>
+          {hint} Grid squares are {SKETCH_GRID_FT} ft.
+        </ThemedText>
+
+        <RoofSketchCanvas
+          sketch={sketch}
+          pendingPointIds={pendingPointIds}
+          selectedEdgeId={selectedEdgeId}
+          selectedFacetId={selectedFacetId}
+          onPress={handleCanvasPress}
+        />
+
+        {selectedEdge ? (
+          <View
+            style={[styles.panel, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View style={styles.panelHeader}>
+              <ThemedText type="body" style={styles.panelTitle}>
+                {SKETCH_EDGE_LABELS[selectedEdge.type]} Line
+              </ThemedText>
+              <Pressable
+                onPress={deleteSelection}
+                hitSlop={8}
+                accessibilityLabel="Delete line"
+              >
+                <Feather name="trash-2" size={18} color="#DC3545" />
+              </Pressable>
+            </View>
+            <View style={styles.chips}>
+              {SKETCH_EDGE_TYPES.map((type) => {
+                const isActive = selectedEdge.type === type;
+                return (
+                  <Pressable
+                    key={type}
+                    onPress={() => updateSelectedEdge(type)}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: isActive
+                          ? theme.accent
+                          : theme.backgroundSecondary,
+                      },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.swatch,
+                        { backgroundColor: SKETCH_EDGE_COLORS[type] },
+                      ]}
+                    />
+                    <ThemedText
+                      type="small"
+                      style={{ color: isActive ? "white" : theme.text }}
+                    >
+                      {SKETCH_EDGE_LABELS[type]}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ) : null}
+
+        {selectedFacet ? (
+          <View
+            style={[styles.panel, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View style={styles.panelHeader}>
+              <TextInput
+                style={[styles.labelInput, { color: theme.text }]}
+                value={selectedFacet.label}
+                onChangeText={(label) => updateSelectedFacet({ label }, false)}
+                placeholder="Facet name"
+                placeholderTextColor={theme.textSecondary}
+                maxLength={50}
+              />
+              <Pressable
+                onPress={deleteSelection}
+                hitSlop={8}
+                accessibilityLabel="Delete facet"
+              >
+                <Feather name="trash-2" size={18} color="#DC3545" />
+              </Pressable>
+            </View>
+            <View style={styles.stepper}>
+              <ThemedText type="secondary">Pitch</ThemedText>
+              <View style={styles.stepperControls}>
+                <Pressable
+                  onPress={() =>
+                    updateSelectedFacet({
+                      pitch: Math.max(0, Math.ceil(selectedFacet.pitch) - 1),
+                    })
+                  }
+                  style={[
+                    styles.stepButton,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                  hitSlop={4}
+                >
+                  <Feather name="minus" size={16} color={theme.text} />
+                </Pressable>
+                <ThemedText type="body" style={styles.panelTitle}>
+                  {selectedFacet.pitch}:12
+                </ThemedText>
+                <Pressable
+                  onPress={() =>
+                    updateSelectedFacet({
+                      pitch: Math.min(
+                        MAX_ROOF_PITCH,
+                        Math.floor(selectedFacet.pitch) + 1,
+                      ),
+                    })
+                  }
+                  style={[
+                    styles.stepButton,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                  hitSlop={4}
+                >
+                  <Feather name="plus" size={16} color={theme.text} />
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        ) : null}
+
+        <View
+          style={[styles.panel, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText type="body" style={styles.panelTitle}>
+            Measurements
+          </ThemedText>
+          <View style={styles.totalRow}>
+            <ThemedText type="secondary">
+              {summary.count} {summary.count === 1 ? "facet" : "facets"}
+            </ThemedText>
+            <ThemedText type="body" style={styles.panelTitle}>
+              {summary.areaSqFt.toLocaleString()} sq ft · {summary.squares}{" "}
+              squares
+            </ThemedText>
+          </View>
+          {ROOF_LINES.map((line) => (
+            <View key={line.key} style={styles.totalRow}>
+              <ThemedText type="secondary">{line.label}</ThemedText>
+              <ThemedText type="body">
+                {measurements.linearMeasurements[line.key]} ft
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      </KeyboardAwareScrollViewCompat>
+
+      <View
+        style={[
+          styles.footer,
+          {
+            backgroundColor: theme.backgroundRoot,
+            paddingBottom: insets.bottom + Spacing.lg,
+          },
+        ]}
+      >
+        <Button onPress={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Sketch"}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  toolbarSpacer: { flex: 1 },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  swatch: { width: 12, height: 3, borderRadius: 2 },
+  hint: { marginBottom: Spacing.md },
+  panel: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  panelHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+  },
+  panelTitle: { fontWeight: "600" },
+  labelInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    paddingVertical: 0,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  stepperControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+});
@@ -6,6 +6,12 @@ import MainTabNavigator from "@/navigation/MainTabNavigator";
 import NewProjectScreen from "@/screens/NewProjectScreen";
 import CostInputScreen from "@/screens/CostInputScreen";
 import EstimatePreviewScreen from "@/screens/EstimatePreviewScreen";
+import RevisionHistoryScreen from "@/screens/RevisionHistoryScreen";
+import AttachmentsScreen from "@/screens/AttachmentsScreen";
+import ProjectPermitsScreen from "@/screens/ProjectPermitsScreen";
+import PermitWatchlistScreen from "@/screens/PermitWatchlistScreen";
+import NotificationsScreen from "@/screens/NotificationsScreen";
+import RoofSketchScreen from "@/screens/RoofSketchScreen";
 import SignInScreen from "@/screens/SignInScreen";
 import FeedbackScreen from "@/screens/FeedbackScreen";
 import LegalScreen from "@/screens/LegalScreen";
@@ -19,6 +25,12 @@ export type RootStackParamList = {
   NewProject: undefined;
   CostInput: { projectId: string };
   EstimatePreview: { projectId: string };
+  RevisionHistory: { projectId: string };
+  Attachments: { projectId: string };
+  ProjectPermits: { projectId: string };
+  PermitWatchlist: { address?: string } | undefined;
+  Notifications: undefined;
+  RoofSketch: { projectId: string };
   SignIn: undefined;
   Feedback: undefined;
   Legal: { type: "terms" | "privacy" };
@@ -72,6 +84,60 @@ export default function RootStackNavigator() {
           headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
         })}
       />
+      <Stack.Screen
+        name="RevisionHistory"
+        component={RevisionHistoryScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Revision History",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
+      <Stack.Screen
+        name="Attachments"
+        component={AttachmentsScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Photos & Documents",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
+      <Stack.Screen
+        name="ProjectPermits"
+        component={ProjectPermitsScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Permits",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
+      <Stack.Screen
+        name="PermitWatchlist"
+        component={PermitWatchlistScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Permit Watchlist",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
+      <Stack.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Notifications",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
+      <Stack.Screen
+        name="RoofSketch"
+        component={RoofSketchScreen}
+        options={({ navigation }) => ({
+          presentation: "card",
+          headerTitle: "Roof Sketch",
+          headerLeft: () => <BackButton onPress={() => navigation.goBack()} />,
+        })}
+      />
       <Stack.Screen
         name="SignIn"
         component={SignInScreen}
@@ -0,0 +1,563 @@
+// Reads measurement reports exported by aerial measurement vendors. Vendors
+// lay their exports out differently, so each format is first read into a
+// loose tree of keys and values and the measurements are then picked out by
+// the names vendors commonly use for them. Anything that can't be read
+// cleanly becomes a warning rather than a failed import, so the estimator can
+// decide whether the result is good enough to use.
+
+import { parseCsv } from "@shared/price-list";
+import {
+  emptyLinearMeasurements,
+  hasLinearMeasurements,
+  type RoofLineKey,
+  type RoofLinearMeasurements,
+} from "@shared/roof-lines";
+import {
+  getPitchFactor,
+  summarizeRoofSegments,
+  MAX_ROOF_PITCH,
+  MAX_ROOF_SEGMENTS,
+  type RoofSegment,
+} from "@shared/roof-segments";
+
+export type AerialReportFormat = "xml" | "json" | "csv";
+
+export interface AerialReport {
+  format: AerialReportFormat;
+  vendor: string | null;
+  reportId: string | null;
+  totalAreaSqFt: number;
+  roofSquares: number;
+  avgPitchRatio: number;
+  segments: RoofSegment[];
+  linearMeasurements: RoofLinearMeasurements | null;
+}
+
+export interface ParsedAerialReport {
+  report: AerialReport;
+  warnings: string[];
+}
+
+export const MAX_REPORT_BYTES = 2 * 1024 * 1024;
+
+// How far the facet areas may drift from the report's own total before the
+// estimator is warned.
+const AREA_TOLERANCE = 0.02;
+
+type ReportTree = { [key: string]: ReportValue };
+type ReportValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ReportTree
+  | ReportValue[];
+
+interface RawFacet {
+  label: string | null;
+  area: number;
+  pitch: number | null;
+}
+
+const KEYS = {
+  vendor: ["vendor", "provider", "source", "company", "generator"],
+  reportId: ["reportid", "reportnumber", "ordernumber", "orderid", "jobid"],
+  totalArea: [
+    "totalarea",
+    "totalroofarea",
+    "totalareasqft",
+    "roofarea",
+    "totalsqft",
+    "totalsquarefeet",
+  ],
+  pitch: ["predominantpitch", "primarypitch", "pitch", "slope"],
+  facets: [
+    "facets",
+    "roofFacets",
+    "faces",
+    "planes",
+    "segments",
+    "areasPerPitch",
+    "pitches",
+  ],
+  facetArea: ["area", "areasqft", "sqft", "surfacearea", "squarefeet", "size"],
+  facetLabel: ["name", "label", "designator", "facet", "id"],
+  lines: ["lengths", "linearmeasurements", "lines", "edges", "linear"],
+  lineType: ["type", "linetype", "name", "kind"],
+  lineLength: ["length", "lengthft", "feet", "value", "total"],
+};
+
+const LINE_ALIASES: [RoofLineKey, string[]][] = [
+  ["eaves", ["eave", "eaves"]],
+  ["rakes", ["rake", "rakes", "gable", "gables"]],
+  ["ridges", ["ridge", "ridges"]],
+  ["hips", ["hip", "hips"]],
+  ["valleys", ["valley", "valleys"]],
+  [
+    "stepFlashing",
+    ["stepflashing", "step", "wallflashing", "sidewall", "sidewallflashing"],
+  ],
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function isTree(value: ReportValue | undefined): value is ReportTree {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Breadth-first search for the first key matching one of the names, so
+// top-level totals win over same-named fields on individual facets.
+function findValue(
+  tree: ReportValue,
+  names: string[],
+): ReportValue | undefined {
+  const wanted = names.map(normalizeKey);
+  const queue: ReportValue[] = [tree];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (Array.isArray(node)) {
+      queue.push(...node);
+      continue;
+    }
+    if (!isTree(node)) continue;
+    for (const name of wanted) {
+      const key = Object.keys(node).find((k) => normalizeKey(k) === name);
+      if (key !== undefined) return node[key];
+    }
+    queue.push(...Object.values(node));
+  }
+  return undefined;
+}
+
+function findList(tree: ReportValue, names: string[]): ReportValue[] | null {
+  const value = findValue(tree, names);
+  if (Array.isArray(value)) return value;
+  // XML wraps lists in a container element: <FACES><FACE/><FACE/></FACES>.
+  if (isTree(value)) {
+    const lists = Object.values(value).filter(Array.isArray);
+    if (lists.length === 1) return lists[0];
+    const children = Object.values(value).filter(isTree);
+    if (children.length > 0 && children.length === Object.keys(value).length) {
+      return children;
+    }
+  }
+  return null;
+}
+
+function toText(value: ReportValue | undefined): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "object") {
+    return Array.isArray(value) ? null : toText(value["#text"]);
+  }
+  const text = String(value).trim();
+  return text || null;
+}
+
+// Accepts plain numbers and values like "2,345 sq ft" or "120 ft 6 in".
+export function parseMeasurement(
+  value: ReportValue | undefined,
+): number | null {
+  const text = toText(value);
+  if (!text) return null;
+  const feetInches = text.match(
+    /^(-?[\d,.]+)\s*(?:ft|feet|')\s*([\d.]+)\s*(?:in|inches|")$/i,
+  );
+  if (feetInches) {
+    return (
+      parseFloat(feetInches[1].replace(/,/g, "")) +
+      parseFloat(feetInches[2]) / 12
+    );
+  }
+  const number = parseFloat(text.replace(/,/g, "").replace(/^[^\d.-]+/, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+// Accepts "6/12", "6:12", "6 in 12", a bare rise, or degrees ("26.6°").
+export function parsePitch(value: ReportValue | undefined): number | null {
+  const text = toText(value);
+  if (!text) return null;
+  const ratio = text.match(/^([\d.]+)\s*(?:\/|:|in)\s*12$/i);
+  if (ratio) return parseFloat(ratio[1]);
+  const degrees = text.match(/^([\d.]+)\s*(?:°|deg|degrees)$/i);
+  if (degrees) {
+    return (
+      Math.round(Math.tan((parseFloat(degrees[1]) * Math.PI) / 180) * 12 * 10) /
+      10
+    );
+  }
+  const rise = parseFloat(text);
+  return Number.isFinite(rise) ? rise : null;
+}
+
+function getLineKey(name: string): RoofLineKey | null {
+  const key = normalizeKey(name);
+  for (const [line, aliases] of LINE_ALIASES) {
+    if (aliases.some((alias) => key === alias || key.startsWith(alias))) {
+      return line;
+    }
+  }
+  return null;
+}
+
+function readLines(
+  tree: ReportValue,
+  warnings: string[],
+): RoofLinearMeasurements | null {
+  const lines = emptyLinearMeasurements();
+  const add = (name: string, value: ReportValue | undefined) => {
+    const normalized = normalizeKey(name);
+    const key = getLineKey(normalized);
+    const length = parseMeasurement(value);
+    if (!key || length === null) return;
+    if (length < 0) {
+      warnings.push(`Ignored a negative ${name} length`);
+      return;
+    }
+    if (key === "ridges" && normalized.includes("hip")) {
+      warnings.push(
+        "Ridges and hips were reported together and imported as ridges",
+      );
+    }
+    lines[key] += length;
+  };
+
+  const container = findValue(tree, KEYS.lines);
+  const list = findList(tree, KEYS.lines);
+  if (list) {
+    // A list of { type, length } entries.
+    for (const entry of list) {
+      const type = toText(findValue(entry, KEYS.lineType));
+      if (type) add(type, findValue(entry, KEYS.lineLength));
+    }
+  } else if (isTree(container)) {
+    for (const [name, value] of Object.entries(container)) add(name, value);
+  } else if (isTree(tree)) {
+    // No dedicated section: look for "Eaves", "Ridges", ... among the
+    // report's own fields and those of its top-level sections.
+    const sections = [tree, ...Object.values(tree).filter(isTree)];
+    for (const section of sections) {
+      for (const [name, value] of Object.entries(section)) {
+        if (!isTree(value) && !Array.isArray(value)) add(name, value);
+      }
+    }
+  }
+
+  for (const key of Object.keys(lines) as RoofLineKey[]) {
+    lines[key] = Math.round(lines[key] * 10) / 10;
+  }
+  return hasLinearMeasurements(lines) ? lines : null;
+}
+
+function readFacets(tree: ReportValue): RawFacet[] {
+  const list = findList(tree, KEYS.facets) || [];
+  return list.flatMap((entry) => {
+    const area = parseMeasurement(findValue(entry, KEYS.facetArea));
+    if (area === null) return [];
+    return [
+      {
+        label: toText(findValue(entry, KEYS.facetLabel)),
+        area,
+        pitch: parsePitch(findValue(entry, KEYS.pitch)),
+      },
+    ];
+  });
+}
+
+// Report facet areas are surface areas; facets store their footprint.
+function toSegments(
+  facets: RawFacet[],
+  fallbackPitch: number | null,
+  warnings: string[],
+): RoofSegment[] {
+  let usable = facets.filter((facet, index) => {
+    if (facet.area <= 0) {
+      warnings.push(
+        `Facet ${facet.label || index + 1}: skipped, area is not positive`,
+      );
+      return false;
+    }
+    return true;
+  });
+
+  if (usable.length > MAX_ROOF_SEGMENTS) {
+    warnings.push(
+      `Report has ${usable.length} facets; facets with the same pitch were combined to stay within ${MAX_ROOF_SEGMENTS}`,
+    );
+    const byPitch = new Map<number | null, RawFacet>();
+    for (const facet of usable) {
+      const existing = byPitch.get(facet.pitch);
+      byPitch.set(facet.pitch, {
+        label: facet.pitch === null ? "Other" : `${facet.pitch}/12`,
+        area: (existing?.area || 0) + facet.area,
+        pitch: facet.pitch,
+      });
+    }
+    const groups = [...byPitch.values()];
+    usable = groups.slice(0, MAX_ROOF_SEGMENTS);
+
+    // Still too many: the remaining pitches are added to the last facet so
+    // the total area is kept.
+    const overflow = groups.slice(MAX_ROOF_SEGMENTS);
+    if (overflow.length > 0) {
+      const last = usable[usable.length - 1];
+      const area = overflow.reduce((sum, facet) => sum + facet.area, 0);
+      warnings.push(
+        `${overflow.length} more pitches (${Math.round(area)} sq ft) were added to the ${last.label} facet`,
+      );
+      usable[usable.length - 1] = { ...last, area: last.area + area };
+    }
+  }
+
+  return usable.map((facet, index) => {
+    let pitch = facet.pitch ?? fallbackPitch;
+    // Vendors name facets "A", "B", ... or "1", "2", ...
+    const label = !facet.label
+      ? `Facet ${index + 1}`
+      : /^[A-Z]?\d*$/i.test(facet.label)
+        ? `Facet ${facet.label}`
+        : facet.label;
+    if (pitch === null) {
+      warnings.push(`${label}: no pitch given, assumed 0/12`);
+      pitch = 0;
+    } else if (pitch < 0 || pitch > MAX_ROOF_PITCH) {
+      warnings.push(
+        `${label}: pitch ${pitch}/12 is out of range and was clamped`,
+      );
+      pitch = Math.min(MAX_ROOF_PITCH, Math.max(0, pitch));
+    }
+    return {
+      id: String(index + 1),
+      label: label.slice(0, 50),
+      planAreaSqFt: Math.round((facet.area / getPitchFactor(pitch)) * 10) / 10,
+      pitch,
+      orientation: null,
+    };
+  });
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// A small XML reader: elements become objects keyed by child name (repeated
+// children become lists), attributes become keys, and text lands in "#text"
+// or, for leaf elements, becomes the value itself.
+export function parseXmlTree(xml: string): ReportTree {
+  const root: ReportTree = {};
+  const stack: { name: string; node: ReportTree }[] = [
+    { name: "", node: root },
+  ];
+  const body = xml
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<!DOCTYPE[^>]*>/gi, "")
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text) =>
+      text.replace(/&/g, "&amp;").replace(/</g, "&lt;"),
+    );
+  const tokens =
+    /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  const attach = (parent: ReportTree, name: string, value: ReportValue) => {
+    const existing = parent[name];
+    if (existing === undefined) parent[name] = value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else parent[name] = [existing, value];
+  };
+  const collapse = (node: ReportTree): ReportValue => {
+    const keys = Object.keys(node);
+    return keys.length === 1 && keys[0] === "#text"
+      ? node["#text"]
+      : keys.length === 0
+        ? null
+        : node;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(body))) {
+    const [, closing, name, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (text !== undefined) {
+      const trimmed = decodeEntities(text).trim();
+      if (trimmed) current.node["#text"] = trimmed;
+      continue;
+    }
+    if (closing) {
+      if (current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      attach(stack[stack.length - 1].node, name, collapse(current.node));
+      continue;
+    }
+
+    const node: ReportTree = {};
+    for (const attr of attributes.matchAll(
+      /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+    )) {
+      node[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+    }
+    if (selfClosing) attach(current.node, name, collapse(node));
+    else stack.push({ name, node });
+  }
+
+  if (stack.length > 1) {
+    throw new Error(
+      `Missing closing tag for <${stack[stack.length - 1].name}>`,
+    );
+  }
+  return root;
+}
+
+// The CSV summary layout: "Label,Value" rows for totals and line lengths,
+// optionally followed by a table of facets or areas per pitch with a header
+// row naming its columns.
+function parseCsvTree(text: string): ReportTree {
+  const tree: ReportTree = {};
+  const facets: ReportTree[] = [];
+  let columns: { area: number; pitch: number; label: number } | null = null;
+
+  for (const row of parseCsv(text)) {
+    const cells = row.map((cell) => cell.trim());
+    const normalized = cells.map(normalizeKey);
+    const area = normalized.findIndex(
+      (c) => KEYS.facetArea.includes(c) || c === "areasqft",
+    );
+    const pitch = normalized.findIndex((c) => KEYS.pitch.includes(c));
+    if (area !== -1 && pitch !== -1 && cells.filter(Boolean).length >= 2) {
+      columns = {
+        area,
+        pitch,
+        label: normalized.findIndex((c) => KEYS.facetLabel.includes(c)),
+      };
+      continue;
+    }
+
+    if (
+      columns &&
+      parseMeasurement(cells[columns.area]) !== null &&
+      parsePitch(cells[columns.pitch]) !== null
+    ) {
+      facets.push({
+        area: cells[columns.area],
+        pitch: cells[columns.pitch] || null,
+        ...(columns.label !== -1 ? { name: cells[columns.label] } : {}),
+      });
+      continue;
+    }
+    columns = null;
+
+    const [label, ...values] = cells;
+    const value = values.find(Boolean);
+    if (label && value !== undefined) tree[label] = value;
+  }
+
+  if (facets.length > 0) tree.facets = facets;
+  return tree;
+}
+
+export function detectReportFormat(
+  content: string,
+  fileName?: string | null,
+): AerialReportFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "xml" || extension === "json" || extension === "csv") {
+    return extension;
+  }
+  const start = content.trimStart()[0];
+  if (start === "<") return "xml";
+  if (start === "{" || start === "[") return "json";
+  return "csv";
+}
+
+export function parseAerialReport(
+  content: string,
+  fileName?: string | null,
+): { error: string } | ParsedAerialReport {
+  const text = content.replace(/^﻿/, "");
+  if (!text.trim()) return { error: "Report is empty" };
+
+  const format = detectReportFormat(text, fileName);
+  let tree: ReportTree;
+  try {
+    if (format === "json") {
+      const parsed = JSON.parse(text);
+      tree = Array.isArray(parsed) ? { facets: parsed } : parsed;
+      if (!isTree(tree)) return { error: "JSON report must be an object" };
+    } else if (format === "xml") {
+      tree = parseXmlTree(text);
+    } else {
+      tree = parseCsvTree(text);
+    }
+  } catch (error: any) {
+    return {
+      error: `Could not read ${format.toUpperCase()} report: ${error.message}`,
+    };
+  }
+
+  const warnings: string[] = [];
+  const reportedTotal = parseMeasurement(findValue(tree, KEYS.totalArea));
+  const reportedPitch = parsePitch(findValue(tree, KEYS.pitch));
+  const facets = readFacets(tree);
+
+  let segments = toSegments(facets, reportedPitch, warnings);
+  if (segments.length === 0) {
+    if (!reportedTotal || reportedTotal <= 0) {
+      return { error: "Report has no roof area or facets" };
+    }
+    const pitch = Math.min(MAX_ROOF_PITCH, Math.max(0, reportedPitch ?? 0));
+    warnings.push(
+      reportedPitch === null
+        ? "Report has no facets or pitch; imported as one flat facet"
+        : `Report has no facet breakdown; imported as one facet at ${pitch}/12`,
+    );
+    segments = [
+      {
+        id: "1",
+        label: "Roof",
+        planAreaSqFt:
+          Math.round((reportedTotal / getPitchFactor(pitch)) * 10) / 10,
+        pitch,
+        orientation: null,
+      },
+    ];
+  }
+
+  const summary = summarizeRoofSegments(segments);
+  if (
+    reportedTotal &&
+    Math.abs(summary.areaSqFt - reportedTotal) > reportedTotal * AREA_TOLERANCE
+  ) {
+    warnings.push(
+      `Facets add up to ${summary.areaSqFt.toLocaleString()} sq ft but the report total is ${Math.round(reportedTotal).toLocaleString()} sq ft`,
+    );
+  }
+
+  const linearMeasurements = readLines(tree, warnings);
+  if (!linearMeasurements) {
+    warnings.push(
+      "Report has no edge lengths; edge materials will be estimated from the area",
+    );
+  }
+
+  return {
+    report: {
+      format,
+      vendor: toText(findValue(tree, KEYS.vendor))?.slice(0, 100) ?? null,
+      reportId: toText(findValue(tree, KEYS.reportId))?.slice(0, 100) ?? null,
+      totalAreaSqFt: summary.areaSqFt,
+      roofSquares: summary.squares,
+      avgPitchRatio: summary.averagePitch,
+      segments,
+      linearMeasurements,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,50 @@
+import { getApiUrl, getAuthToken } from "@/lib/query-client";
+import type { RoofSegment } from "@shared/roof-segments";
+import type { RoofLinearMeasurements } from "@shared/roof-lines";
+
+export interface AerialReport {
+  format: "xml" | "json" | "csv";
+  vendor: string | null;
+  reportId: string | null;
+  totalAreaSqFt: number;
+  roofSquares: number;
+  avgPitchRatio: number;
+  segments: RoofSegment[];
+  linearMeasurements: RoofLinearMeasurements | null;
+}
+
+export interface AerialReportPreview {
+  report: AerialReport;
+  warnings: string[];
+}
+
+// Sends the report as plain text so large XML exports aren't held to the
+// JSON body limit. The server only reads it; nothing is saved.
+export async function previewAerialReport(
+  content: string,
+  fileName?: string,
+): Promise<AerialReportPreview> {
+  const params = new URLSearchParams();
+  if (fileName) params.set("fileName", fileName);
+
+  const url = new URL(
+    `/api/measurement-reports/preview?${params.toString()}`,
+    getApiUrl(),
+  );
+  const token = await getAuthToken();
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: content,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Import failed (${response.status})`);
+  }
+  return { report: data.report, warnings: data.warnings || [] };
+}
@@ -0,0 +1,142 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+export const ATTACHMENT_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "application/pdf": "pdf",
+} as const;
+
+export type AttachmentMimeType = keyof typeof ATTACHMENT_TYPES;
+
+// Where attachment bytes are kept. Keys are relative paths such as
+// "<userId>/<projectId>/<attachmentId>.jpg".
+export interface AttachmentStore {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskAttachmentStore implements AttachmentStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export const attachmentStore: AttachmentStore = new LocalDiskAttachmentStore(
+  process.env.ATTACHMENTS_DIR || path.resolve(process.cwd(), "uploads"),
+);
+
+// Identifies the file from its leading bytes; the client's Content-Type is
+// not trusted.
+export function detectAttachmentType(data: Buffer): AttachmentMimeType | null {
+  if (
+    data.length >= 3 &&
+    data[0] === 0xff &&
+    data[1] === 0xd8 &&
+    data[2] === 0xff
+  ) {
+    return "image/jpeg";
+  }
+  if (
+    data
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "image/png";
+  }
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "application/pdf";
+  }
+  return null;
+}
+
+// Camera JPEGs carry a small preview in their EXIF block (IFD1). Returns it
+// when present; other files have no thumbnail and the original is shown.
+export function extractJpegThumbnail(data: Buffer): Buffer | null {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // Start of scan: image data follows, no more metadata segments.
+    if (marker === 0xda) return null;
+
+    if (
+      marker === 0xe1 &&
+      data.toString("latin1", offset + 4, offset + 10) === "Exif\0\0"
+    ) {
+      return readExifThumbnail(data.subarray(offset + 10, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readExifThumbnail(tiff: Buffer): Buffer | null {
+  try {
+    const littleEndian = tiff.toString("latin1", 0, 2) === "II";
+    const readUInt16 = (at: number) =>
+      littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+    const readUInt32 = (at: number) =>
+      littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+    const ifd0 = readUInt32(4);
+    const ifd1 = readUInt32(ifd0 + 2 + readUInt16(ifd0) * 12);
+    if (ifd1 === 0) return null;
+
+    let thumbnailOffset = 0;
+    let thumbnailLength = 0;
+    const entries = readUInt16(ifd1);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd1 + 2 + i * 12;
+      const tag = readUInt16(entry);
+      if (tag === 0x0201) thumbnailOffset = readUInt32(entry + 8);
+      if (tag === 0x0202) thumbnailLength = readUInt32(entry + 8);
+    }
+
+    if (
+      !thumbnailOffset ||
+      !thumbnailLength ||
+      thumbnailOffset + thumbnailLength > tiff.length
+    ) {
+      return null;
+    }
+    const thumbnail = tiff.subarray(
+      thumbnailOffset,
+      thumbnailOffset + thumbnailLength,
+    );
+    return detectAttachmentType(thumbnail) === "image/jpeg"
+      ? Buffer.from(thumbnail)
+      : null;
+  } catch {
+    // Truncated or malformed EXIF; treat as no thumbnail.
+    return null;
+  }
+}
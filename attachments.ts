@@ -0,0 +1,106 @@
+import {
+  apiRequest,
+  apiRequestSafe,
+  getApiUrl,
+  getAuthToken,
+} from "@/lib/query-client";
+import { syncProjects } from "@/lib/sync";
+
+export interface Attachment {
+  id: string;
+  projectId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  caption: string | null;
+  includeInPdf: boolean;
+  url: string;
+  thumbnailUrl: string;
+  createdAt: string;
+}
+
+export interface AttachmentFile {
+  uri: string;
+  mimeType?: string | null;
+  fileName?: string | null;
+}
+
+export function isPhotoAttachment(attachment: Attachment): boolean {
+  return attachment.mimeType.startsWith("image/");
+}
+
+export async function loadAttachments(
+  projectId: string,
+): Promise<Attachment[]> {
+  const response = await apiRequestSafe(
+    "GET",
+    `/api/projects/${projectId}/attachments`,
+  );
+  // A project that hasn't reached the server yet has nothing attached.
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to load attachments (${response.status})`);
+  }
+  const data = await response.json();
+  return data.attachments;
+}
+
+// Files are sent as the raw request body. The project is synced first so the
+// server knows about projects created offline.
+export async function uploadAttachment(
+  projectId: string,
+  file: AttachmentFile,
+  caption?: string,
+): Promise<Attachment> {
+  await syncProjects();
+
+  const params = new URLSearchParams();
+  if (file.fileName) params.set("fileName", file.fileName);
+  if (caption) params.set("caption", caption);
+
+  const url = new URL(
+    `/api/projects/${projectId}/attachments?${params.toString()}`,
+    getApiUrl(),
+  );
+  const token = await getAuthToken();
+  const body = await (await fetch(file.uri)).blob();
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.mimeType || "application/octet-stream",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Upload failed (${response.status})`);
+  }
+  return data.attachment;
+}
+
+export async function updateAttachment(
+  id: string,
+  changes: { caption?: string | null; includeInPdf?: boolean },
+): Promise<Attachment> {
+  const response = await apiRequest("PUT", `/api/attachments/${id}`, changes);
+  const data = await response.json();
+  return data.attachment;
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  await apiRequest("DELETE", `/api/attachments/${id}`);
+}
+
+export function getAttachmentUrl(path: string): string {
+  return new URL(path, getApiUrl()).toString();
+}
+
+// Attachment files are private, so images are requested with the user's
+// token in the headers.
+export async function getAttachmentHeaders(): Promise<Record<string, string>> {
+  const token = await getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,99 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+
+const CUSTOMERS_STORAGE_KEY = "roofmaster_customers";
+const LOCAL_ID_PREFIX = "local-";
+
+export interface Customer {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  billingAddress?: string | null;
+  notes?: string | null;
+}
+
+export type CustomerInput = Omit<Customer, "id">;
+
+async function isGuestMode(): Promise<boolean> {
+  return (await AsyncStorage.getItem("roofmaster_guest_mode")) === "true";
+}
+
+async function getCachedCustomers(): Promise<Customer[]> {
+  try {
+    const stored = await AsyncStorage.getItem(CUSTOMERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to read cached customers:", error);
+    return [];
+  }
+}
+
+async function cacheCustomers(customers: Customer[]): Promise<void> {
+  await AsyncStorage.setItem(CUSTOMERS_STORAGE_KEY, JSON.stringify(customers));
+}
+
+function sortByName(customers: Customer[]): Customer[] {
+  return [...customers].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Guests keep customers on the device; signed-in users load them from the
+// server and fall back to the last cached list when offline.
+export async function loadCustomers(): Promise<Customer[]> {
+  if (await isGuestMode()) {
+    return getCachedCustomers();
+  }
+
+  try {
+    const response = await apiRequestSafe("GET", "/api/customers");
+    if (response.ok) {
+      const data = await response.json();
+      if (data.success) {
+        await cacheCustomers(data.customers);
+        return data.customers;
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to load customers from server, using cache:", error);
+  }
+
+  return getCachedCustomers();
+}
+
+export async function createCustomer(input: CustomerInput): Promise<Customer> {
+  const cached = await getCachedCustomers();
+
+  if (await isGuestMode()) {
+    const customer: Customer = {
+      ...input,
+      id: `${LOCAL_ID_PREFIX}${Date.now()}`,
+    };
+    await cacheCustomers(sortByName([...cached, customer]));
+    return customer;
+  }
+
+  const response = await apiRequestSafe("POST", "/api/customers", input);
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to create customer");
+  }
+
+  await cacheCustomers(sortByName([...cached, data.customer]));
+  return data.customer;
+}
+
+// Customers created in guest mode never reach the server, so their ids must
+// not be sent as a project's customerId.
+export function isLocalCustomerId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+export function formatCustomerLines(customer: Customer): string[] {
+  return [
+    customer.name,
+    customer.billingAddress,
+    customer.phone,
+    customer.email,
+  ].filter((line): line is string => !!line);
+}
@@ -0,0 +1,425 @@
+// Reads roof planes exported from drone photogrammetry software as GeoJSON or
+// KML polygons with elevations. Each polygon is one facet: its true area,
+// pitch and azimuth come from the 3D vertices, and the edges it shares (or
+// doesn't) with neighbouring facets are sorted into ridges, hips, valleys,
+// eaves and rakes.
+
+import {
+  emptyLinearMeasurements,
+  hasLinearMeasurements,
+  type RoofLineKey,
+  type RoofLinearMeasurements,
+} from "@shared/roof-lines";
+import {
+  getOrientation,
+  summarizeRoofSegments,
+  MAX_ROOF_PITCH,
+  MAX_ROOF_SEGMENTS,
+  type RoofSegment,
+} from "@shared/roof-segments";
+
+export type DroneSurveyFormat = "geojson" | "kml";
+
+export interface DroneSurveyMeasurements {
+  totalAreaSqFt: number;
+  roofSquares: number;
+  avgPitchDegrees: number;
+  avgPitchRatio: number;
+  segmentCount: number;
+  segments: RoofSegment[];
+  linearMeasurements: RoofLinearMeasurements | null;
+}
+
+export interface ParsedDroneSurvey {
+  format: DroneSurveyFormat;
+  measurements: DroneSurveyMeasurements;
+  warnings: string[];
+}
+
+interface Vertex {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Plane {
+  label: string | null;
+  vertices: Vertex[];
+}
+
+interface RawPolygon {
+  label: string | null;
+  // [longitude, latitude, elevation in meters]
+  ring: number[][];
+}
+
+const FEET_PER_METER = 3.28084;
+const EARTH_RADIUS_METERS = 6371008.8;
+// Vertices of neighbouring facets closer than this are the same corner.
+const VERTEX_TOLERANCE_METERS = 0.15;
+// Edges flatter than this are level (eaves and ridges).
+const LEVEL_EDGE_SLOPE = 0.1;
+
+function toNumberRing(value: unknown): number[][] | null {
+  if (!Array.isArray(value)) return null;
+  const ring = value.filter(
+    (p): p is number[] =>
+      Array.isArray(p) &&
+      p.length >= 2 &&
+      p.every((n) => typeof n === "number" && Number.isFinite(n)),
+  );
+  return ring.length === value.length ? ring : null;
+}
+
+function readGeoJson(text: string): RawPolygon[] {
+  const data = JSON.parse(text);
+  const polygons: RawPolygon[] = [];
+
+  const visit = (node: any, label: string | null) => {
+    if (!node || typeof node !== "object") return;
+    switch (node.type) {
+      case "FeatureCollection":
+        (node.features || []).forEach((feature: any) => visit(feature, null));
+        break;
+      case "Feature": {
+        const props = node.properties || {};
+        const name =
+          props.name ?? props.label ?? props.title ?? props.id ?? node.id;
+        visit(
+          node.geometry,
+          name !== undefined && name !== null ? String(name) : null,
+        );
+        break;
+      }
+      case "GeometryCollection":
+        (node.geometries || []).forEach((geometry: any) =>
+          visit(geometry, label),
+        );
+        break;
+      case "Polygon": {
+        const ring = toNumberRing(node.coordinates?.[0]);
+        if (ring) polygons.push({ label, ring });
+        break;
+      }
+      case "MultiPolygon":
+        (node.coordinates || []).forEach(
+          (coordinates: unknown[], index: number) => {
+            const ring = toNumberRing(coordinates?.[0]);
+            if (ring)
+              polygons.push({
+                label: label ? `${label} ${index + 1}` : null,
+                ring,
+              });
+          },
+        );
+        break;
+    }
+  };
+
+  visit(data, null);
+  return polygons;
+}
+
+function readKml(text: string): RawPolygon[] {
+  const polygons: RawPolygon[] = [];
+  const tag = (name: string) =>
+    `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`;
+  const placemarks = text.match(new RegExp(tag("Placemark"), "g")) || [];
+
+  for (const placemark of placemarks) {
+    const name = placemark.match(new RegExp(tag("name")))?.[1]?.trim() || null;
+    const polygonBlocks =
+      placemark.match(new RegExp(tag("Polygon"), "g")) || [];
+    polygonBlocks.forEach((polygon, index) => {
+      const outer =
+        polygon.match(new RegExp(tag("outerBoundaryIs")))?.[1] ?? polygon;
+      const coordinates = outer.match(new RegExp(tag("coordinates")))?.[1];
+      if (!coordinates) return;
+      const ring = coordinates
+        .trim()
+        .split(/\s+/)
+        .map((tuple) => tuple.split(",").map(Number));
+      polygons.push({
+        label: name && polygonBlocks.length > 1 ? `${name} ${index + 1}` : name,
+        ring,
+      });
+    });
+  }
+  return polygons;
+}
+
+export function detectSurveyFormat(
+  content: string,
+  fileName?: string | null,
+): DroneSurveyFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "kml") return "kml";
+  if (extension === "geojson" || extension === "json") return "geojson";
+  return content.trimStart().startsWith("<") ? "kml" : "geojson";
+}
+
+// Longitude/latitude to meters east/north of the survey's first vertex.
+// Roofs are small enough that a flat projection is accurate to millimeters.
+function toLocalPlanes(polygons: RawPolygon[]): Plane[] {
+  const [originLon, originLat] = polygons[0].ring[0];
+  const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  const cosLat = Math.cos((originLat * Math.PI) / 180);
+
+  return polygons.map((polygon) => {
+    const vertices = polygon.ring.map(([lon, lat, elevation]) => ({
+      x: (lon - originLon) * metersPerDegree * cosLat,
+      y: (lat - originLat) * metersPerDegree,
+      z: elevation ?? 0,
+    }));
+    // Rings repeat their first vertex at the end.
+    const first = vertices[0];
+    const last = vertices[vertices.length - 1];
+    if (
+      vertices.length > 1 &&
+      first.x === last.x &&
+      first.y === last.y &&
+      first.z === last.z
+    ) {
+      vertices.pop();
+    }
+    return { label: polygon.label, vertices };
+  });
+}
+
+// Newell's method: the normal's length is twice the polygon's 3D area and
+// its vertical part twice the footprint area. Turned to point upwards.
+function getNormal(vertices: Vertex[]): Vertex {
+  const normal = { x: 0, y: 0, z: 0 };
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  });
+  const sign = normal.z < 0 ? -1 : 1;
+  return { x: normal.x * sign, y: normal.y * sign, z: normal.z * sign };
+}
+
+function distance(a: Vertex, b: Vertex): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function isSameVertex(a: Vertex, b: Vertex): boolean {
+  return distance(a, b) <= VERTEX_TOLERANCE_METERS;
+}
+
+// Height of a point above (positive) or below the plane through `origin`.
+function heightAbovePlane(
+  point: Vertex,
+  origin: Vertex,
+  normal: Vertex,
+): number {
+  return (
+    ((point.x - origin.x) * normal.x +
+      (point.y - origin.y) * normal.y +
+      (point.z - origin.z) * normal.z) /
+    Math.hypot(normal.x, normal.y, normal.z)
+  );
+}
+
+function measureEdges(
+  planes: Plane[],
+  normals: Vertex[],
+): RoofLinearMeasurements {
+  const lines = emptyLinearMeasurements();
+
+  planes.forEach((plane, p) => {
+    const heights = plane.vertices.map((v) => v.z);
+    const top = Math.max(...heights);
+    const sloped = top - Math.min(...heights) > VERTEX_TOLERANCE_METERS;
+    plane.vertices.forEach((a, i) => {
+      const b = plane.vertices[(i + 1) % plane.vertices.length];
+      const length = distance(a, b);
+      const level = Math.abs(b.z - a.z) <= length * LEVEL_EDGE_SLOPE;
+
+      const neighbour = planes.findIndex(
+        (other, o) =>
+          o !== p &&
+          other.vertices.some((v) => isSameVertex(v, a)) &&
+          other.vertices.some((v) => isSameVertex(v, b)),
+      );
+
+      let key: RoofLineKey;
+      if (neighbour === -1) {
+        // A level edge at the top of a facet with nothing beside it runs
+        // into a wall.
+        key = level
+          ? sloped && Math.abs(a.z - top) <= VERTEX_TOLERANCE_METERS
+            ? "stepFlashing"
+            : "eaves"
+          : "rakes";
+      } else {
+        // Shared edges are walked from both facets; count them once.
+        if (neighbour < p) return;
+        if (level) {
+          key = "ridges";
+        } else {
+          // The neighbour's far corner sits below this facet's plane on a
+          // hip and above it in a valley.
+          const far = planes[neighbour].vertices.reduce((best, v) =>
+            Math.abs(heightAbovePlane(v, a, normals[p])) >
+            Math.abs(heightAbovePlane(best, a, normals[p]))
+              ? v
+              : best,
+          );
+          key = heightAbovePlane(far, a, normals[p]) < 0 ? "hips" : "valleys";
+        }
+      }
+      lines[key] += length * FEET_PER_METER;
+    });
+  });
+
+  for (const key of Object.keys(lines) as RoofLineKey[]) {
+    lines[key] = Math.round(lines[key] * 10) / 10;
+  }
+  return lines;
+}
+
+export function parseDroneSurvey(
+  content: string,
+  fileName?: string | null,
+): { error: string } | ParsedDroneSurvey {
+  const text = content.replace(/^﻿/, "");
+  if (!text.trim()) return { error: "Survey file is empty" };
+
+  const format = detectSurveyFormat(text, fileName);
+  let polygons: RawPolygon[];
+  try {
+    polygons = format === "kml" ? readKml(text) : readGeoJson(text);
+  } catch (error: any) {
+    return {
+      error: `Could not read ${format === "kml" ? "KML" : "GeoJSON"} file: ${error.message}`,
+    };
+  }
+
+  const warnings: string[] = [];
+  polygons = polygons.filter((polygon, index) => {
+    const name = polygon.label || `Polygon ${index + 1}`;
+    const valid = polygon.ring.every(
+      (p) =>
+        p.length >= 2 &&
+        p.every(Number.isFinite) &&
+        Math.abs(p[0]) <= 180 &&
+        Math.abs(p[1]) <= 90,
+    );
+    if (!valid || polygon.ring.length < 4) {
+      warnings.push(
+        `${name}: skipped, needs at least three longitude/latitude corners`,
+      );
+      return false;
+    }
+    return true;
+  });
+  if (polygons.length === 0) {
+    return { error: "No roof polygons found. Export roof planes as polygons." };
+  }
+  if (polygons.length > MAX_ROOF_SEGMENTS) {
+    return {
+      error: `Surveys can have at most ${MAX_ROOF_SEGMENTS} roof planes`,
+    };
+  }
+  if (
+    polygons.every((polygon) =>
+      polygon.ring.every(
+        (p) => p[2] === undefined || p[2] === polygon.ring[0][2],
+      ),
+    )
+  ) {
+    warnings.push(
+      "No elevation differences in the file; pitch can't be measured and every facet is flat",
+    );
+  }
+
+  const planes = toLocalPlanes(polygons);
+  const normals = planes.map((plane) => getNormal(plane.vertices));
+
+  const segments: RoofSegment[] = [];
+  // Walls and degenerate planes are left out of the edges too.
+  const kept: number[] = [];
+  planes.forEach((plane, index) => {
+    const normal = normals[index];
+    const surfaceArea = Math.hypot(normal.x, normal.y, normal.z) / 2;
+    const planArea = normal.z / 2;
+    const label = plane.label || `Facet ${index + 1}`;
+    if (planArea <= 0) {
+      warnings.push(`${label}: skipped, the plane is vertical or has no area`);
+      return;
+    }
+
+    let pitch =
+      Math.round((Math.hypot(normal.x, normal.y) / normal.z) * 12 * 10) / 10;
+    if (pitch > MAX_ROOF_PITCH) {
+      warnings.push(
+        `${label}: pitch ${pitch}/12 is steeper than ${MAX_ROOF_PITCH}/12 and was capped`,
+      );
+      pitch = MAX_ROOF_PITCH;
+    }
+    // Downslope direction, clockwise from north.
+    const azimuth =
+      ((Math.atan2(normal.x, normal.y) * 180) / Math.PI + 360) % 360;
+    const flat = Math.hypot(normal.x, normal.y) < 1e-9;
+    const orientation = flat ? null : getOrientation(azimuth);
+
+    const planeVertices = plane.vertices;
+    const offPlane = Math.max(
+      ...planeVertices.map((v) =>
+        Math.abs(heightAbovePlane(v, planeVertices[0], normal)),
+      ),
+    );
+    if (offPlane > 0.3) {
+      warnings.push(
+        `${label}: corners are up to ${offPlane.toFixed(1)} m off a flat plane; area is approximate`,
+      );
+    }
+
+    segments.push({
+      id: String(segments.length + 1),
+      label: label.slice(0, 50),
+      // Keep the measured surface area exact when the pitch was capped.
+      planAreaSqFt:
+        Math.round(
+          (pitch === MAX_ROOF_PITCH
+            ? surfaceArea / Math.sqrt(1 + (pitch / 12) ** 2)
+            : planArea) *
+            10.7639 *
+            10,
+        ) / 10,
+      pitch,
+      orientation,
+    });
+    kept.push(index);
+  });
+
+  if (segments.length === 0) {
+    return { error: "No usable roof planes in the survey" };
+  }
+
+  const summary = summarizeRoofSegments(segments);
+  const linearMeasurements = measureEdges(
+    kept.map((index) => planes[index]),
+    kept.map((index) => normals[index]),
+  );
+
+  return {
+    format,
+    measurements: {
+      totalAreaSqFt: summary.areaSqFt,
+      roofSquares: summary.squares,
+      avgPitchDegrees: Math.round(
+        (Math.atan(summary.averagePitch / 12) * 180) / Math.PI,
+      ),
+      avgPitchRatio: summary.averagePitch,
+      segmentCount: segments.length,
+      segments,
+      linearMeasurements: hasLinearMeasurements(linearMeasurements)
+        ? linearMeasurements
+        : null,
+    },
+    warnings,
+  };
+}
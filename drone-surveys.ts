@@ -0,0 +1,52 @@
+import { getApiUrl, getAuthToken } from "@/lib/query-client";
+import type { RoofSegment } from "@shared/roof-segments";
+import type { RoofLinearMeasurements } from "@shared/roof-lines";
+
+export interface DroneSurveyPreview {
+  format: "geojson" | "kml";
+  measurements: {
+    totalAreaSqFt: number;
+    roofSquares: number;
+    avgPitchDegrees: number;
+    avgPitchRatio: number;
+    segmentCount: number;
+    segments: RoofSegment[];
+    linearMeasurements: RoofLinearMeasurements | null;
+  };
+  warnings: string[];
+}
+
+// Same plain-text upload as aerial reports; survey exports with many
+// vertices easily pass the JSON body limit.
+export async function previewDroneSurvey(
+  content: string,
+  fileName?: string,
+): Promise<DroneSurveyPreview> {
+  const params = new URLSearchParams();
+  if (fileName) params.set("fileName", fileName);
+
+  const url = new URL(
+    `/api/drone-surveys/preview?${params.toString()}`,
+    getApiUrl(),
+  );
+  const token = await getAuthToken();
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: content,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Import failed (${response.status})`);
+  }
+  return {
+    format: data.format,
+    measurements: data.measurements,
+    warnings: data.warnings || [],
+  };
+}
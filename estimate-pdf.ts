@@ -0,0 +1,1016 @@
+import PDFDocument from "pdfkit";
+import {
+  calculateEstimateTotal,
+  getEstimateGroupTotals,
+  getEstimateLineItems,
+  getEstimateOptionLabel,
+  type EstimateLineItem,
+  type EstimateOption,
+  type MicroBreakdown,
+} from "@shared/estimate";
+import {
+  describeRemainingLife,
+  describeRoofAge,
+  ROOF_CONDITION_LABELS,
+  type RoofAgeEstimate,
+} from "@shared/roof-age";
+import type { RoofSegment } from "@shared/roof-segments";
+import {
+  getRoofSketchDiagram,
+  getSketchEdgeLength,
+  validateRoofSketch,
+  SKETCH_EDGE_COLORS,
+  SKETCH_EDGE_LABELS,
+  SKETCH_EDGE_TYPES,
+  type RoofSketch,
+} from "@shared/roof-sketch";
+
+export interface EstimatePdfBranding {
+  companyName?: string | null;
+  logoUri?: string | null;
+}
+
+// A homeowner's online acceptance, printed on the client signature line.
+export interface EstimatePdfSignature {
+  signerName: string;
+  imageUri?: string | null;
+  signedAt: string | Date;
+  signerIp?: string | null;
+}
+
+// A project photo chosen for the PDF, already read from the attachment store.
+export interface EstimatePdfPhoto {
+  data: Buffer;
+  caption?: string | null;
+}
+
+// A permit saved to the project: the job's own permit ("project") or one
+// from the property's permit history. Status is already a display label.
+export interface EstimatePdfPermit {
+  kind: string;
+  permitNumber?: string | null;
+  jurisdiction?: string | null;
+  permitType: string;
+  status: string;
+  issueDate?: string | null;
+  fee?: number | null;
+}
+
+export interface EstimatePdfInput {
+  project: any;
+  branding?: EstimatePdfBranding | null;
+  signature?: EstimatePdfSignature | null;
+  photos?: EstimatePdfPhoto[] | null;
+  permits?: EstimatePdfPermit[] | null;
+  roofAge?: RoofAgeEstimate | null;
+}
+
+const MARGIN = 54;
+const HEADER_HEIGHT = 60;
+const FOOTER_HEIGHT = 30;
+const ROW_HEIGHT = 22;
+
+const COLORS = {
+  text: "#1A2332",
+  muted: "#666666",
+  accent: "#FF6B35",
+  rule: "#E0E0E0",
+  category: "#F0F0F0",
+  highlight: "#FFF1EA",
+};
+
+const MATERIAL_NAMES: Record<string, string> = {
+  "three-tab": "Three Tab Shingles",
+  architectural: "Architectural Shingles",
+  "metal-pbr": "Metal PBR Panels",
+  "standing-seam": "Standing Seam Metal",
+};
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatUnitCost(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string | Date | undefined): string {
+  const date = value ? new Date(value) : new Date();
+  return (Number.isNaN(date.getTime()) ? new Date() : date).toLocaleDateString(
+    "en-US",
+    { month: "long", day: "numeric", year: "numeric" },
+  );
+}
+
+// Only inline PNG/JPEG data URIs can be embedded; remote and device file URIs
+// are not reachable from the server.
+function decodeImage(uri: string | null | undefined): Buffer | null {
+  const match = uri?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], "base64") : null;
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+// Starts a new page when the next block would run into the footer. Returns
+// true when a page was added.
+function ensureSpace(doc: Doc, height: number): boolean {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+    return true;
+  }
+  return false;
+}
+
+function drawSectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 40);
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor(COLORS.muted)
+    .text(title.toUpperCase(), doc.page.margins.left, doc.y, {
+      characterSpacing: 0.5,
+    });
+  doc.moveDown(0.5);
+}
+
+function drawHeader(
+  doc: Doc,
+  companyName: string,
+  date: string,
+  logo: Buffer | null,
+) {
+  const left = doc.page.margins.left;
+  const top = MARGIN;
+  const width = contentWidth(doc);
+  let textLeft = left;
+
+  if (logo) {
+    try {
+      doc.image(logo, left, top, { fit: [36, 36] });
+      textLeft = left + 46;
+    } catch (error) {
+      console.warn("Skipping unreadable logo in PDF:", error);
+    }
+  }
+  if (textLeft === left) {
+    doc.roundedRect(left, top, 36, 36, 6).fill(COLORS.accent);
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(18)
+      .fillColor("#FFFFFF")
+      .text(companyName.charAt(0).toUpperCase(), left, top + 9, {
+        width: 36,
+        align: "center",
+        lineBreak: false,
+      });
+    textLeft = left + 46;
+  }
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .fillColor(COLORS.text)
+    .text(companyName, textLeft, top + 2, { lineBreak: false });
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text("Professional Roofing Estimate", textLeft, top + 22, {
+      lineBreak: false,
+    });
+  doc.text(date, left, top + 12, { width, align: "right", lineBreak: false });
+
+  doc
+    .moveTo(left, top + HEADER_HEIGHT - 14)
+    .lineTo(left + width, top + HEADER_HEIGHT - 14)
+    .lineWidth(2)
+    .strokeColor(COLORS.accent)
+    .stroke();
+}
+
+function drawFooter(doc: Doc, pageNumber: number, pageCount: number) {
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const y = doc.page.height - MARGIN - FOOTER_HEIGHT + 12;
+
+  // Writing below the bottom margin would otherwise trigger a page break.
+  const bottomMargin = doc.page.margins.bottom;
+  doc.page.margins.bottom = 0;
+
+  doc
+    .moveTo(left, y - 8)
+    .lineTo(left + width, y - 8)
+    .lineWidth(0.5)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .fillColor(COLORS.muted)
+    .text(
+      "Generated by RoofMaster 360 | support@lionshareanimation.com",
+      left,
+      y,
+      { lineBreak: false },
+    );
+  doc.text(`Page ${pageNumber} of ${pageCount}`, left, y, {
+    width,
+    align: "right",
+    lineBreak: false,
+  });
+
+  doc.page.margins.bottom = bottomMargin;
+}
+
+function drawCustomerSection(doc: Doc, customer: any) {
+  const lines = [
+    customer.billingAddress,
+    customer.phone,
+    customer.email,
+  ].filter(Boolean);
+
+  drawSectionTitle(doc, "Prepared For");
+  ensureSpace(doc, 24 + lines.length * 14);
+
+  const left = doc.page.margins.left;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.text)
+    .text(customer.name, left, doc.y, { width: contentWidth(doc) });
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted);
+  lines.forEach((line) => {
+    doc.text(line, left, doc.y, { width: contentWidth(doc) });
+  });
+  doc.moveDown(1);
+}
+
+// Roofs measured facet by facet show their pitch range.
+function formatPitch(project: any): string {
+  const pitches: number[] = (project.roofSegments || []).map(
+    (segment: RoofSegment) => segment.pitch,
+  );
+  const min = Math.min(...pitches);
+  const max = Math.max(...pitches);
+  return pitches.length > 1 && min !== max
+    ? `${min}-${max}/12`
+    : `${pitches[0] ?? project.pitch ?? 0}/12`;
+}
+
+function drawPropertySection(doc: Doc, project: any) {
+  drawSectionTitle(doc, "Property Address");
+  ensureSpace(doc, 60);
+
+  const left = doc.page.margins.left;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.text)
+    .text(project.address || "Address not provided", left, doc.y, {
+      width: contentWidth(doc),
+    });
+  doc.moveDown(0.5);
+
+  const details = [
+    ["Roof Area", `${(project.roofArea || 0).toLocaleString()} sq ft`],
+    [
+      "Squares",
+      String(project.roofSquares || Math.ceil((project.roofArea || 0) / 100)),
+    ],
+    ["Pitch", formatPitch(project)],
+  ];
+  if (project.roofSegments?.length) {
+    details.push(["Facets", String(project.roofSegments.length)]);
+  }
+  const columnWidth = contentWidth(doc) / details.length;
+  const y = doc.y;
+  details.forEach(([label, value], index) => {
+    const x = left + index * columnWidth;
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(label, x, y, { width: columnWidth });
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(12)
+      .fillColor(COLORS.text)
+      .text(value, x, y + 12, { width: columnWidth });
+  });
+  doc.y = y + 48;
+}
+
+// How old the current roof is and how much life it has left, from the
+// property's last reroof permit.
+function drawRoofAgeSection(doc: Doc, roofAge: RoofAgeEstimate) {
+  drawSectionTitle(doc, "Current Roof");
+  ensureSpace(doc, 84);
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const age = Math.round(roofAge.ageYears);
+  const details = [
+    ["Last Reroof", formatPermitDate(roofAge.lastReroofDate)],
+    ["Age", `${age} ${age === 1 ? "year" : "years"}`],
+    ["Expected Life", `${roofAge.lifespanYears} years`],
+    ["Condition", ROOF_CONDITION_LABELS[roofAge.condition]],
+  ];
+  const columnWidth = width / details.length;
+  const y = doc.y;
+  details.forEach(([label, value], index) => {
+    const x = left + index * columnWidth;
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(label, x, y, { width: columnWidth });
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(12)
+      .fillColor(
+        index === 3 && roofAge.condition !== "good"
+          ? COLORS.accent
+          : COLORS.text,
+      )
+      .text(value, x, y + 12, { width: columnWidth });
+  });
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.text)
+    .text(
+      `${describeRoofAge(roofAge)} ${describeRemainingLife(roofAge)}`,
+      left,
+      y + 36,
+      { width },
+    );
+  doc.moveDown(1);
+}
+
+const DIAGRAM_HEIGHT = 220;
+const DIAGRAM_PADDING = 16;
+
+// The estimator's roof sketch, drawn from the same SVG path data the app
+// uses, with a legend of line types and their total lengths.
+function drawSketchSection(doc: Doc, sketch: RoofSketch) {
+  drawSectionTitle(doc, "Roof Diagram");
+  ensureSpace(doc, DIAGRAM_HEIGHT + 40);
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const top = doc.y;
+  const diagram = getRoofSketchDiagram(
+    sketch,
+    width - DIAGRAM_PADDING * 2,
+    DIAGRAM_HEIGHT - DIAGRAM_PADDING * 2,
+  );
+
+  doc
+    .rect(left, top, width, DIAGRAM_HEIGHT)
+    .lineWidth(1)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc.save();
+  doc.translate(left + DIAGRAM_PADDING, top + DIAGRAM_PADDING);
+  diagram.facets.forEach((facet) => {
+    doc.path(facet.path).fillColor(COLORS.highlight).fill();
+  });
+  diagram.edges.forEach((edge) => {
+    doc
+      .path(edge.path)
+      .lineWidth(2)
+      .lineCap("round")
+      .strokeColor(SKETCH_EDGE_COLORS[edge.type])
+      .stroke();
+  });
+  diagram.facets.forEach((facet) => {
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(
+        `${facet.label}\n${facet.pitch}/12`,
+        facet.center.x - 40,
+        facet.center.y - 10,
+        {
+          width: 80,
+          align: "center",
+        },
+      );
+  });
+  doc.restore();
+
+  const totals = SKETCH_EDGE_TYPES.map((type) => ({
+    type,
+    length: sketch.edges
+      .filter((edge) => edge.type === type)
+      .reduce((sum, edge) => sum + getSketchEdgeLength(edge, sketch), 0),
+  })).filter((total) => total.length > 0);
+  const legendY = top + DIAGRAM_HEIGHT + 8;
+  const itemWidth = width / Math.max(totals.length, 1);
+  totals.forEach((total, index) => {
+    const x = left + index * itemWidth;
+    doc
+      .moveTo(x, legendY + 5)
+      .lineTo(x + 14, legendY + 5)
+      .lineWidth(2)
+      .strokeColor(SKETCH_EDGE_COLORS[total.type])
+      .stroke();
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `${SKETCH_EDGE_LABELS[total.type]} ${Math.round(total.length)} ft`,
+        x + 18,
+        legendY,
+        { width: itemWidth - 18 },
+      );
+  });
+  doc.y = legendY + 24;
+}
+
+// Permit dates are calendar days, so they're formatted in UTC to avoid
+// shifting a day in timezones west of it.
+function formatPermitDate(value: string | null | undefined): string {
+  const date = value ? new Date(`${value.slice(0, 10)}T00:00:00Z`) : null;
+  return date && !Number.isNaN(date.getTime())
+    ? date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      })
+    : "—";
+}
+
+const PERMIT_COLUMNS = [0.4, 0.2, 0.2, 0.2];
+
+// The job's own permit first, then the property's earlier permits.
+function drawPermitsSection(doc: Doc, permits: EstimatePdfPermit[]) {
+  drawSectionTitle(doc, "Permits");
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const drawRow = (values: string[], bold: boolean, color: string) => {
+    ensureSpace(doc, ROW_HEIGHT);
+    const y = doc.y;
+    let x = left;
+    values.forEach((value, index) => {
+      const columnWidth = width * PERMIT_COLUMNS[index];
+      doc
+        .font(bold ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(9)
+        .fillColor(color)
+        .text(value, x + 4, y + 6, {
+          width: columnWidth - 8,
+          lineBreak: false,
+          ellipsis: true,
+        });
+      x += columnWidth;
+    });
+    doc
+      .moveTo(left, y + ROW_HEIGHT)
+      .lineTo(left + width, y + ROW_HEIGHT)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.rule)
+      .stroke();
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  drawRow(["Permit", "Number", "Issued", "Status"], true, COLORS.muted);
+  const ordered = [
+    ...permits.filter((permit) => permit.kind === "project"),
+    ...permits.filter((permit) => permit.kind !== "project"),
+  ];
+  ordered.forEach((permit) => {
+    const isProject = permit.kind === "project";
+    const type = isProject
+      ? `${permit.permitType} (this job)`
+      : permit.permitType;
+    const place = permit.jurisdiction ? ` · ${permit.jurisdiction}` : "";
+    const fee =
+      isProject && permit.fee != null ? ` · ${formatCurrency(permit.fee)}` : "";
+    drawRow(
+      [
+        `${type}${place}${fee}`,
+        permit.permitNumber || "—",
+        formatPermitDate(permit.issueDate),
+        permit.status,
+      ],
+      isProject,
+      COLORS.text,
+    );
+  });
+  doc.moveDown(1);
+}
+
+function drawMaterialSection(doc: Doc, project: any) {
+  const materialName = project.selectedMaterial
+    ? MATERIAL_NAMES[project.selectedMaterial] || project.selectedMaterial
+    : "Standard Materials";
+
+  drawSectionTitle(doc, "Material Selection");
+  ensureSpace(doc, 30);
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const y = doc.y;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.text)
+    .text(materialName, left, y, { width: width / 2 });
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor(COLORS.muted)
+    .text("Price per Square", left, y, { width, align: "right" });
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor(COLORS.text)
+    .text(formatCurrency(project.materialPricePerSquare || 0), left, y + 12, {
+      width,
+      align: "right",
+    });
+  doc.y = y + 48;
+}
+
+const OPTION_LABEL_WIDTH = 120;
+
+// Good/Better/Best comparison: one column per option, the customer's pick
+// shaded.
+function drawOptionsSection(
+  doc: Doc,
+  options: EstimateOption[],
+  selectedTier: string | null,
+) {
+  const rows: { label: string; values: string[]; bold?: boolean }[] = [
+    {
+      label: "Material",
+      values: options.map(
+        (o) => MATERIAL_NAMES[o.selectedMaterial] || o.selectedMaterial,
+      ),
+    },
+    {
+      label: "Price per Square",
+      values: options.map((o) => formatCurrency(o.materialPricePerSquare)),
+    },
+    {
+      label: "Materials",
+      values: options.map((o) =>
+        formatCurrency(getEstimateGroupTotals(o.breakdown).materials),
+      ),
+    },
+    {
+      label: "Labor & Other",
+      values: options.map((o) =>
+        formatCurrency(getEstimateGroupTotals(o.breakdown).labor),
+      ),
+    },
+    {
+      label: "Total",
+      values: options.map((o) => formatCurrency(o.estimateTotal)),
+      bold: true,
+    },
+  ];
+
+  drawSectionTitle(doc, "Proposal Options");
+  ensureSpace(doc, ROW_HEIGHT * (rows.length + 1));
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const columnWidth = (width - OPTION_LABEL_WIDTH) / options.length;
+  const columnX = (index: number) =>
+    left + OPTION_LABEL_WIDTH + index * columnWidth;
+  const top = doc.y;
+  const tableHeight = ROW_HEIGHT * (rows.length + 1);
+
+  options.forEach((option, index) => {
+    if (option.tier === selectedTier) {
+      doc
+        .rect(columnX(index), top, columnWidth, tableHeight)
+        .fill(COLORS.highlight);
+    }
+  });
+
+  doc.rect(left, top, width, ROW_HEIGHT).fill(COLORS.category);
+  options.forEach((option, index) => {
+    const label = getEstimateOptionLabel(option.tier);
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(
+        option.tier === selectedTier ? `${label} (Selected)` : label,
+        columnX(index) + CELL_PADDING,
+        top + 7,
+        { width: columnWidth - CELL_PADDING * 2, lineBreak: false },
+      );
+  });
+
+  rows.forEach((row, rowIndex) => {
+    const y = top + ROW_HEIGHT * (rowIndex + 1);
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(row.label, left + CELL_PADDING, y + 7, { lineBreak: false });
+    row.values.forEach((value, index) => {
+      doc
+        .font(row.bold ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(10)
+        .fillColor(row.bold ? COLORS.accent : COLORS.text)
+        .text(value, columnX(index) + CELL_PADDING, y + 7, {
+          width: columnWidth - CELL_PADDING * 2,
+          lineBreak: false,
+          ellipsis: true,
+        });
+    });
+    doc
+      .moveTo(left, y + ROW_HEIGHT)
+      .lineTo(left + width, y + ROW_HEIGHT)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.rule)
+      .stroke();
+  });
+
+  doc.y = top + tableHeight + 20;
+}
+
+// Widths of the numeric columns, laid out right to left from the table edge;
+// the item description takes the remaining width.
+const COLUMNS = { total: 80, unitCost: 70, unit: 50, quantity: 50 };
+const CELL_PADDING = 8;
+
+function getColumnPositions(doc: Doc) {
+  const left = doc.page.margins.left;
+  const right = left + contentWidth(doc) - CELL_PADDING;
+  const total = right - COLUMNS.total;
+  const unitCost = total - COLUMNS.unitCost;
+  const unit = unitCost - COLUMNS.unit;
+  const quantity = unit - COLUMNS.quantity - CELL_PADDING;
+  return {
+    item: left + CELL_PADDING,
+    itemWidth: quantity - left - CELL_PADDING * 2,
+    quantity,
+    unit: unit + CELL_PADDING,
+    unitCost,
+    total,
+  };
+}
+
+function drawTableHeader(doc: Doc) {
+  const columns = getColumnPositions(doc);
+  const y = doc.y;
+  doc.font("Helvetica").fontSize(8).fillColor(COLORS.muted);
+  doc.text("ITEM", columns.item, y, { lineBreak: false });
+  doc.text("QTY", columns.quantity, y, {
+    width: COLUMNS.quantity,
+    align: "right",
+    lineBreak: false,
+  });
+  doc.text("UNIT", columns.unit, y, { lineBreak: false });
+  doc.text("UNIT COST", columns.unitCost, y, {
+    width: COLUMNS.unitCost,
+    align: "right",
+    lineBreak: false,
+  });
+  doc.text("TOTAL", columns.total, y, {
+    width: COLUMNS.total,
+    align: "right",
+    lineBreak: false,
+  });
+  doc.y = y + 14;
+}
+
+// Breaks to a new page when needed and repeats the column headings there.
+function ensureTableSpace(doc: Doc, height: number) {
+  if (ensureSpace(doc, height)) {
+    drawTableHeader(doc);
+  }
+}
+
+function drawCategoryRow(doc: Doc, label: string) {
+  ensureTableSpace(doc, ROW_HEIGHT * 2);
+  const left = doc.page.margins.left;
+  const y = doc.y;
+  doc.rect(left, y, contentWidth(doc), ROW_HEIGHT).fill(COLORS.category);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(10)
+    .fillColor(COLORS.text)
+    .text(label, left + CELL_PADDING, y + 7, { lineBreak: false });
+  doc.y = y + ROW_HEIGHT;
+}
+
+function drawLineItemRow(doc: Doc, item: EstimateLineItem) {
+  ensureTableSpace(doc, ROW_HEIGHT);
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const columns = getColumnPositions(doc);
+  const top = doc.y;
+  const y = top + 7;
+
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.text);
+  doc.text(item.label, columns.item, y, {
+    width: columns.itemWidth,
+    lineBreak: false,
+    ellipsis: true,
+  });
+  doc.text(formatQuantity(item.quantity), columns.quantity, y, {
+    width: COLUMNS.quantity,
+    align: "right",
+    lineBreak: false,
+  });
+  doc.fillColor(COLORS.muted).text(item.unit, columns.unit, y, {
+    lineBreak: false,
+  });
+  doc
+    .fillColor(COLORS.text)
+    .text(formatUnitCost(item.unitCost), columns.unitCost, y, {
+      width: COLUMNS.unitCost,
+      align: "right",
+      lineBreak: false,
+    });
+  doc
+    .font("Helvetica-Bold")
+    .text(formatCurrency(item.total), columns.total, y, {
+      width: COLUMNS.total,
+      align: "right",
+      lineBreak: false,
+    });
+
+  doc
+    .moveTo(left, top + ROW_HEIGHT)
+    .lineTo(left + width, top + ROW_HEIGHT)
+    .lineWidth(0.5)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc.y = top + ROW_HEIGHT;
+}
+
+function drawTotalRow(doc: Doc, total: number) {
+  ensureSpace(doc, 40);
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const y = doc.y + 6;
+  doc
+    .moveTo(left, y)
+    .lineTo(left + width, y)
+    .lineWidth(1.5)
+    .strokeColor(COLORS.text)
+    .stroke();
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .fillColor(COLORS.text)
+    .text("Total Estimate", left + 8, y + 10, { lineBreak: false });
+  doc.fillColor(COLORS.accent).text(formatCurrency(total), left, y + 10, {
+    width: width - 8,
+    align: "right",
+    lineBreak: false,
+  });
+  doc.y = y + 36;
+}
+
+function drawBreakdownSection(doc: Doc, project: any) {
+  const breakdown: MicroBreakdown | undefined = project.microBreakdown;
+  drawSectionTitle(
+    doc,
+    project.estimateOptions?.length && project.selectedOptionTier
+      ? `Cost Breakdown: ${getEstimateOptionLabel(project.selectedOptionTier)} Option`
+      : "Cost Breakdown",
+  );
+
+  if (!breakdown) {
+    drawCategoryRow(doc, "Materials");
+    ensureSpace(doc, ROW_HEIGHT);
+    doc
+      .font("Helvetica")
+      .fontSize(10)
+      .fillColor(COLORS.muted)
+      .text("No breakdown available", doc.page.margins.left + 8, doc.y + 7);
+    doc.moveDown(0.5);
+    drawTotalRow(doc, project.estimateTotal || 0);
+    return;
+  }
+
+  const items = getEstimateLineItems(breakdown);
+  drawTableHeader(doc);
+  drawCategoryRow(doc, "Materials");
+  items
+    .filter((item) => item.group === "materials")
+    .forEach((item) => drawLineItemRow(doc, item));
+  drawCategoryRow(doc, "Labor & Other");
+  items
+    .filter((item) => item.group === "labor")
+    .forEach((item) => drawLineItemRow(doc, item));
+
+  // Same sum the estimate engine uses, so the printed lines always add up to
+  // the printed total.
+  drawTotalRow(doc, calculateEstimateTotal(breakdown));
+}
+
+function drawSignatures(doc: Doc, signature?: EstimatePdfSignature | null) {
+  ensureSpace(doc, signature ? 100 : 80);
+  const left = doc.page.margins.left;
+  const gap = 40;
+  const lineWidth = (contentWidth(doc) - gap) / 2;
+  const y = doc.y + 40;
+  const clientX = left + lineWidth + gap;
+
+  ["Contractor Signature", "Client Signature"].forEach((label, index) => {
+    const x = left + index * (lineWidth + gap);
+    doc
+      .moveTo(x, y)
+      .lineTo(x + lineWidth, y)
+      .lineWidth(0.75)
+      .strokeColor(COLORS.muted)
+      .stroke();
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(label, x, y + 6, { lineBreak: false });
+  });
+
+  if (!signature) {
+    doc.y = y + 24;
+    return;
+  }
+
+  const image = decodeImage(signature.imageUri);
+  if (image) {
+    try {
+      doc.image(image, clientX, y - 36, { fit: [lineWidth, 34] });
+    } catch (error) {
+      console.warn("Skipping unreadable signature in PDF:", error);
+    }
+  }
+  const signedAt = new Date(signature.signedAt);
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .fillColor(COLORS.muted)
+    .text(
+      `Signed online by ${signature.signerName} on ${signedAt.toUTCString()}` +
+        (signature.signerIp ? ` from ${signature.signerIp}` : ""),
+      clientX,
+      y + 20,
+      { width: lineWidth },
+    );
+  doc.y = Math.max(doc.y, y + 24);
+}
+
+const PHOTO_HEIGHT = 170;
+const PHOTO_CAPTION_HEIGHT = 28;
+
+// Two photos per row, each scaled to fit its cell with the caption below.
+function drawPhotosSection(doc: Doc, photos: EstimatePdfPhoto[]) {
+  doc.addPage();
+  drawSectionTitle(doc, "Site Photos");
+
+  const left = doc.page.margins.left;
+  const gap = 16;
+  const cellWidth = (contentWidth(doc) - gap) / 2;
+  const rowHeight = PHOTO_HEIGHT + PHOTO_CAPTION_HEIGHT;
+  let y = doc.y;
+
+  photos.forEach((photo, index) => {
+    const column = index % 2;
+    if (column === 0 && index > 0) {
+      y += rowHeight + gap;
+    }
+    if (
+      column === 0 &&
+      y + rowHeight > doc.page.height - doc.page.margins.bottom
+    ) {
+      doc.addPage();
+      y = doc.y;
+    }
+
+    const x = left + column * (cellWidth + gap);
+    try {
+      doc.image(photo.data, x, y, {
+        fit: [cellWidth, PHOTO_HEIGHT],
+        align: "center",
+        valign: "center",
+      });
+    } catch (error) {
+      console.warn("Skipping unreadable photo in PDF:", error);
+      doc.rect(x, y, cellWidth, PHOTO_HEIGHT).fillColor(COLORS.category).fill();
+    }
+    if (photo.caption) {
+      doc
+        .font("Helvetica")
+        .fontSize(9)
+        .fillColor(COLORS.muted)
+        .text(photo.caption, x, y + PHOTO_HEIGHT + 6, {
+          width: cellWidth,
+          height: PHOTO_CAPTION_HEIGHT - 6,
+          ellipsis: true,
+        });
+    }
+  });
+
+  doc.y = y + rowHeight;
+}
+
+// Renders the estimate as a paginated Letter-size PDF. Headers and footers are
+// drawn after layout so every page can show "Page N of M".
+export function renderEstimatePdf(
+  input: EstimatePdfInput,
+  generatedAt: Date = new Date(),
+): Promise<Buffer> {
+  const { project, branding } = input;
+  const companyName = branding?.companyName?.trim() || "RoofMaster 360";
+  const logo = decodeImage(branding?.logoUri);
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    bufferPages: true,
+    margins: {
+      top: MARGIN + HEADER_HEIGHT,
+      bottom: MARGIN + FOOTER_HEIGHT,
+      left: MARGIN,
+      right: MARGIN,
+    },
+    info: {
+      Title: `Roofing Estimate - ${project.address || "Property"}`,
+      Author: companyName,
+      Creator: "RoofMaster 360",
+      CreationDate: generatedAt,
+    },
+  });
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      if (project.customer?.name) {
+        drawCustomerSection(doc, project.customer);
+      }
+      drawPropertySection(doc, project);
+      if (input.roofAge) {
+        drawRoofAgeSection(doc, input.roofAge);
+      }
+      // The project arrives from the client, so the sketch is checked before
+      // it is drawn.
+      const sketch = validateRoofSketch(project.roofSketch);
+      if ("sketch" in sketch && sketch.sketch) {
+        drawSketchSection(doc, sketch.sketch);
+      }
+      if (input.permits?.length) {
+        drawPermitsSection(doc, input.permits);
+      }
+      drawMaterialSection(doc, project);
+      if (project.estimateOptions?.length) {
+        drawOptionsSection(
+          doc,
+          project.estimateOptions,
+          project.selectedOptionTier ?? null,
+        );
+      }
+      drawBreakdownSection(doc, project);
+      drawSignatures(doc, input.signature);
+      if (input.photos?.length) {
+        drawPhotosSection(doc, input.photos);
+      }
+
+      const date = formatDate(project.createdAt);
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawHeader(doc, companyName, date, logo);
+        drawFooter(doc, i - range.start + 1, range.count);
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
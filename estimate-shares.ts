@@ -0,0 +1,77 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequest, apiRequestSafe, getApiUrl } from "@/lib/query-client";
+import { syncProjects } from "@/lib/sync";
+
+export type EstimateShareStatus = "pending" | "accepted" | "declined";
+
+export interface EstimateShare {
+  id: string;
+  projectId: string;
+  status: EstimateShareStatus;
+  selectedOptionTier: string | null;
+  signerName: string | null;
+  declineReason: string | null;
+  viewedAt: string | null;
+  respondedAt: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+async function getBranding(): Promise<unknown> {
+  try {
+    const stored = await AsyncStorage.getItem("company_branding");
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Failed to load branding:", error);
+    return null;
+  }
+}
+
+// Snapshots the estimate on the server and returns the public link the
+// homeowner opens to review, sign and accept or decline it. The project is
+// synced first, since the server only shares projects it has.
+export async function createEstimateShare(
+  project: unknown,
+): Promise<{ share: EstimateShare; url: string }> {
+  await syncProjects();
+  const response = await apiRequest("POST", "/api/estimate-shares", {
+    project,
+    branding: await getBranding(),
+  });
+  const data = await response.json();
+  return {
+    share: data.share,
+    url: new URL(data.url, getApiUrl()).toString(),
+  };
+}
+
+export async function loadLatestEstimateShare(
+  projectId: string,
+): Promise<EstimateShare | null> {
+  try {
+    const response = await apiRequestSafe(
+      "GET",
+      `/api/estimate-shares?projectId=${encodeURIComponent(projectId)}`,
+    );
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success && data.shares.length > 0 ? data.shares[0] : null;
+  } catch (error) {
+    console.log("Failed to load estimate link status:", error);
+    return null;
+  }
+}
+
+export function describeEstimateShare(share: EstimateShare): string {
+  if (share.status === "accepted") {
+    return `Accepted by ${share.signerName}`;
+  }
+  if (share.status === "declined") {
+    return `Declined by ${share.signerName}`;
+  }
+  if (new Date(share.expiresAt).getTime() < Date.now()) {
+    return "Link expired";
+  }
+  return share.viewedAt ? "Viewed, awaiting signature" : "Sent, not yet opened";
+}
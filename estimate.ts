@@ -0,0 +1,771 @@
+import type { RoofLineKey, RoofLinearMeasurements } from "./roof-lines";
+import { getRoofSegmentsSquares, type RoofSegment } from "./roof-segments";
+
+export type AccessoryCategory =
+  | "underlayment"
+  | "iceShield"
+  | "dripEdge"
+  | "starter"
+  | "ridgeCap"
+  | "nails"
+  | "vents"
+  | "flashing";
+
+export interface AccessoryPricing {
+  unitCost: number;
+  coverage: number;
+}
+
+export type AccessoryPricingTable = Record<AccessoryCategory, AccessoryPricing>;
+
+export interface MaterialPricing {
+  materialKey: string;
+  name: string;
+  description: string;
+  icon: string;
+  pricePerSquare: number;
+  bundlesPerSquare: number;
+}
+
+export interface EstimateInput {
+  roofSquares: number;
+  // When present, squares are summed facet by facet with each facet's own
+  // pitch, and roofSquares is ignored.
+  roofSegments?: RoofSegment[] | null;
+  // Edge lengths in feet. Without them, edge materials are estimated from
+  // the roof area.
+  linearMeasurements?: RoofLinearMeasurements | null;
+  selectedMaterial: string;
+  materialPricePerSquare: number;
+  bundlesPerSquare?: number;
+  accessories?: Partial<AccessoryPricingTable>;
+  laborRate?: number;
+  laborHours?: number;
+  additionalCosts?: number;
+}
+
+export interface MicroBreakdown {
+  shingleBundles: number;
+  shingleCostPerBundle: number;
+  shingleTotal: number;
+  wasteBundles: number;
+  wasteTotal: number;
+  underlaymentRolls: number;
+  underlaymentCostPerRoll: number;
+  underlaymentTotal: number;
+  iceShieldRolls: number;
+  iceShieldCostPerRoll: number;
+  iceShieldTotal: number;
+  dripEdgePieces: number;
+  dripEdgeCostPerPiece: number;
+  dripEdgeTotal: number;
+  starterStripPieces: number;
+  starterCostPerPiece: number;
+  starterTotal: number;
+  ridgeCapBundles: number;
+  ridgeCapCostPerBundle: number;
+  ridgeCapTotal: number;
+  nailPounds: number;
+  nailCostPerPound: number;
+  nailTotal: number;
+  ventCount: number;
+  ventCostEach: number;
+  ventTotal: number;
+  flashingPieces: number;
+  flashingCostPerPiece: number;
+  flashingTotal: number;
+  labor: number;
+  laborRate: number;
+  laborHours: number;
+  additional: number;
+  // Legacy fields for compatibility
+  shingles: number;
+  waste: number;
+  underlayment: number;
+  flashing: number;
+  nails: number;
+  venting: number;
+  ridgeCap: number;
+}
+
+export interface EstimateLineItem {
+  key: string;
+  group: "materials" | "labor";
+  label: string;
+  quantity: number;
+  unit: string;
+  unitCost: number;
+  total: number;
+}
+
+export interface EstimateResult {
+  breakdown: MicroBreakdown;
+  estimateTotal: number;
+}
+
+// Share of the per-square price that is the shingle material itself; the
+// rest of pricePerSquare covers overhead and margin.
+export const SHINGLE_MATERIAL_SHARE = 0.62;
+
+// Ice & water shield rolls are 3 ft wide; a roll covers about this much eave
+// or valley once laps are taken out.
+const ICE_SHIELD_FEET_PER_ROLL = 65;
+// Step flashing is bought in 10 ft bundles of pre-bent pieces.
+const STEP_FLASHING_FEET_PER_PIECE = 10;
+
+export const DEFAULT_MATERIALS: MaterialPricing[] = [
+  {
+    materialKey: "three-tab",
+    name: "Three Tab",
+    description: "Standard asphalt shingles",
+    icon: "layers",
+    pricePerSquare: 450,
+    bundlesPerSquare: 3,
+  },
+  {
+    materialKey: "architectural",
+    name: "Architectural",
+    description: "Dimensional shingles with depth",
+    icon: "grid",
+    pricePerSquare: 500,
+    bundlesPerSquare: 4,
+  },
+  {
+    materialKey: "metal-pbr",
+    name: "Metal PBR",
+    description: "Purlin bearing rib metal panels",
+    icon: "box",
+    pricePerSquare: 800,
+    bundlesPerSquare: 3,
+  },
+  {
+    materialKey: "standing-seam",
+    name: "Standing Seam",
+    description: "Premium metal roofing",
+    icon: "align-justify",
+    pricePerSquare: 1000,
+    bundlesPerSquare: 4,
+  },
+];
+
+export const DEFAULT_ACCESSORIES: AccessoryPricingTable = {
+  underlayment: { unitCost: 45, coverage: 3 },
+  iceShield: { unitCost: 85, coverage: 0.15 },
+  dripEdge: { unitCost: 8, coverage: 10 },
+  starter: { unitCost: 12, coverage: 10 },
+  ridgeCap: { unitCost: 55, coverage: 25 },
+  nails: { unitCost: 3, coverage: 2 },
+  vents: { unitCost: 25, coverage: 1.5 },
+  flashing: { unitCost: 15, coverage: 0.3 },
+};
+
+// Display metadata for each accessory; `coverageLabel` explains what the
+// coverage number means for that category.
+export const ACCESSORY_CATEGORIES: {
+  category: AccessoryCategory;
+  label: string;
+  unit: string;
+  coverageLabel: string;
+}[] = [
+  {
+    category: "underlayment",
+    label: "Underlayment",
+    unit: "roll",
+    coverageLabel: "Squares per roll",
+  },
+  {
+    category: "iceShield",
+    label: "Ice & Water Shield",
+    unit: "roll",
+    coverageLabel: "Rolls per square",
+  },
+  {
+    category: "dripEdge",
+    label: "Drip Edge",
+    unit: "piece",
+    coverageLabel: "Feet per piece",
+  },
+  {
+    category: "starter",
+    label: "Starter Strip",
+    unit: "piece",
+    coverageLabel: "Feet per piece",
+  },
+  {
+    category: "ridgeCap",
+    label: "Ridge Cap",
+    unit: "bundle",
+    coverageLabel: "Feet per bundle",
+  },
+  {
+    category: "nails",
+    label: "Nails/Fasteners",
+    unit: "lb",
+    coverageLabel: "Pounds per square",
+  },
+  {
+    category: "vents",
+    label: "Roof Vents",
+    unit: "unit",
+    coverageLabel: "Squares per vent",
+  },
+  {
+    category: "flashing",
+    label: "Flashing",
+    unit: "piece",
+    coverageLabel: "Pieces per square",
+  },
+];
+
+export function isAccessoryCategory(
+  value: unknown,
+): value is AccessoryCategory {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(DEFAULT_ACCESSORIES, value)
+  );
+}
+
+function getDefaultBundlesPerSquare(materialKey: string): number {
+  const material = DEFAULT_MATERIALS.find((m) => m.materialKey === materialKey);
+  return material ? material.bundlesPerSquare : 3;
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === "string" ? parseFloat(value) : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function validateEstimateInput(
+  input: Partial<EstimateInput>,
+): string | null {
+  if (!input.selectedMaterial || typeof input.selectedMaterial !== "string") {
+    return "Material selection is required";
+  }
+
+  const numericFields: (keyof EstimateInput)[] = [
+    "roofSquares",
+    "materialPricePerSquare",
+    "laborRate",
+    "laborHours",
+    "additionalCosts",
+  ];
+
+  for (const field of numericFields) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+
+  // Bundles and coverage are divisors, so zero would price the roof at
+  // Infinity.
+  if (input.bundlesPerSquare !== undefined && input.bundlesPerSquare !== null) {
+    const n = Number(input.bundlesPerSquare);
+    if (!Number.isFinite(n) || n <= 0) {
+      return "bundlesPerSquare must be a positive number";
+    }
+  }
+
+  if (input.accessories !== undefined && input.accessories !== null) {
+    if (
+      typeof input.accessories !== "object" ||
+      Array.isArray(input.accessories)
+    ) {
+      return "accessories must be an object";
+    }
+    for (const [category, pricing] of Object.entries(input.accessories)) {
+      if (!isAccessoryCategory(category)) {
+        return `Unknown accessory category: ${category}`;
+      }
+      if (!pricing || typeof pricing !== "object") {
+        return `${category} pricing is required`;
+      }
+      const unitCost = Number(pricing.unitCost);
+      if (!Number.isFinite(unitCost) || unitCost < 0) {
+        return `${category} unit cost must be a non-negative number`;
+      }
+      const coverage = Number(pricing.coverage);
+      if (!Number.isFinite(coverage) || coverage <= 0) {
+        return `${category} coverage must be a positive number`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function calculateMicroBreakdown(input: EstimateInput): MicroBreakdown {
+  const laborRate = toNumber(input.laborRate);
+  const laborHours = toNumber(input.laborHours);
+  const laborTotal = laborRate * laborHours;
+  const additional = toNumber(input.additionalCosts);
+  const pricePerSquare = toNumber(input.materialPricePerSquare);
+  const squares =
+    (input.roofSegments?.length
+      ? getRoofSegmentsSquares(input.roofSegments)
+      : toNumber(input.roofSquares)) || 1;
+
+  const pricing: AccessoryPricingTable = {
+    ...DEFAULT_ACCESSORIES,
+    ...input.accessories,
+  };
+
+  // Calculate quantities per square (industry standard)
+  // Shingles: 3 bundles per square for 3-tab, 4-5 for architectural
+  const bundlesPerSquare =
+    toNumber(input.bundlesPerSquare) ||
+    getDefaultBundlesPerSquare(input.selectedMaterial);
+  const shingleBundles = Math.max(1, squares * bundlesPerSquare);
+  const shingleCostPerBundle =
+    bundlesPerSquare > 0
+      ? Math.round((pricePerSquare * SHINGLE_MATERIAL_SHARE) / bundlesPerSquare)
+      : 0;
+
+  // Underlayment: 1 roll covers 4 squares (15 lb felt) or 2 squares (synthetic)
+  const underlaymentRolls = Math.ceil(squares / pricing.underlayment.coverage);
+  const underlaymentCostPerRoll = pricing.underlayment.unitCost;
+
+  // Edge lengths come from the measured roof lines, item by item; an item
+  // whose lines weren't measured treats the roof as a square with a
+  // perimeter of about sqrt(area) * 4 and a ridge of about 40% of one side.
+  const measured = (...keys: RoofLineKey[]) =>
+    keys.reduce(
+      (sum, key) => sum + toNumber(input.linearMeasurements?.[key]),
+      0,
+    );
+  const roofPerimeter =
+    measured("eaves", "rakes") || Math.sqrt(squares * 100) * 4;
+
+  // Ice & Water Shield: one course along the eaves and down each valley, or
+  // 1 roll per 2 squares of eave/valley
+  const iceShieldRolls = measured("eaves", "valleys")
+    ? Math.ceil(measured("eaves", "valleys") / ICE_SHIELD_FEET_PER_ROLL)
+    : Math.ceil(squares * pricing.iceShield.coverage);
+  const iceShieldCostPerRoll = pricing.iceShield.unitCost;
+
+  // Drip Edge: 10 ft pieces along the eaves and rakes
+  const dripEdgePieces = Math.ceil(roofPerimeter / pricing.dripEdge.coverage);
+  const dripEdgeCostPerPiece = pricing.dripEdge.unitCost;
+
+  // Starter Strip: runs the same eaves and rakes as drip edge
+  const starterStripPieces = Math.ceil(
+    roofPerimeter / pricing.starter.coverage,
+  );
+  const starterCostPerPiece = pricing.starter.unitCost;
+
+  // Ridge Cap: 1 bundle per 20-35 linear feet of ridge and hip
+  const ridgeLength =
+    measured("ridges", "hips") || Math.sqrt(squares * 100) * 0.4;
+  const ridgeCapBundles = Math.ceil(ridgeLength / pricing.ridgeCap.coverage);
+  const ridgeCapCostPerBundle = pricing.ridgeCap.unitCost;
+
+  // Nails: 1.5 lbs per square (coil nails) or 2.5 lbs (hand nails)
+  const nailPounds = squares * pricing.nails.coverage;
+  const nailCostPerPound = pricing.nails.unitCost;
+
+  // Vents: 1 per 150 sq ft of attic space
+  const ventCount = Math.ceil(squares / pricing.vents.coverage);
+  const ventCostEach = pricing.vents.unitCost;
+
+  // Flashing: step flashing along sidewalls when measured, otherwise step
+  // and chimney flashing per square
+  const flashingPieces = measured("stepFlashing")
+    ? Math.ceil(measured("stepFlashing") / STEP_FLASHING_FEET_PER_PIECE)
+    : Math.ceil(squares * pricing.flashing.coverage);
+  const flashingCostPerPiece = pricing.flashing.unitCost;
+
+  // Waste factor: 12% extra on shingles
+  const wasteSquares = Math.ceil(squares * 0.12);
+  const wasteBundles = wasteSquares * bundlesPerSquare;
+
+  const shingleTotal = Math.round(shingleBundles * shingleCostPerBundle);
+  const wasteTotal = Math.round(wasteBundles * shingleCostPerBundle);
+  const underlaymentTotal = Math.round(
+    underlaymentRolls * underlaymentCostPerRoll,
+  );
+  const flashingTotal = Math.round(flashingPieces * flashingCostPerPiece);
+  const nailTotal = Math.round(nailPounds * nailCostPerPound);
+  const ventTotal = Math.round(ventCount * ventCostEach);
+  const ridgeCapTotal = Math.round(ridgeCapBundles * ridgeCapCostPerBundle);
+
+  return {
+    // Quantities
+    shingleBundles,
+    shingleCostPerBundle: Math.round(shingleCostPerBundle),
+    shingleTotal,
+
+    wasteBundles,
+    wasteTotal,
+
+    underlaymentRolls,
+    underlaymentCostPerRoll,
+    underlaymentTotal,
+
+    iceShieldRolls,
+    iceShieldCostPerRoll,
+    iceShieldTotal: Math.round(iceShieldRolls * iceShieldCostPerRoll),
+
+    dripEdgePieces,
+    dripEdgeCostPerPiece,
+    dripEdgeTotal: Math.round(dripEdgePieces * dripEdgeCostPerPiece),
+
+    starterStripPieces,
+    starterCostPerPiece,
+    starterTotal: Math.round(starterStripPieces * starterCostPerPiece),
+
+    ridgeCapBundles,
+    ridgeCapCostPerBundle,
+    ridgeCapTotal,
+
+    nailPounds,
+    nailCostPerPound,
+    nailTotal,
+
+    ventCount,
+    ventCostEach,
+    ventTotal,
+
+    flashingPieces,
+    flashingCostPerPiece,
+    flashingTotal,
+
+    labor: Math.round(laborTotal),
+    laborRate,
+    laborHours,
+
+    additional: Math.round(additional),
+
+    // Legacy fields for compatibility
+    shingles: shingleTotal,
+    waste: wasteTotal,
+    underlayment: underlaymentTotal,
+    flashing: flashingTotal,
+    nails: nailTotal,
+    venting: ventTotal,
+    ridgeCap: ridgeCapTotal,
+  };
+}
+
+function getAccessoryLabel(category: AccessoryCategory): string {
+  return ACCESSORY_CATEGORIES.find((a) => a.category === category)!.label;
+}
+
+function getAccessoryUnit(category: AccessoryCategory): string {
+  return ACCESSORY_CATEGORIES.find((a) => a.category === category)!.unit;
+}
+
+// Every priced line of an estimate in display order. The estimate total is the
+// sum of these lines, so anything rendering them reconciles to estimateTotal.
+export function getEstimateLineItems(b: MicroBreakdown): EstimateLineItem[] {
+  const accessory = (
+    category: AccessoryCategory,
+    quantity: number,
+    unitCost: number,
+    total: number,
+  ): EstimateLineItem => ({
+    key: category,
+    group: "materials",
+    label: getAccessoryLabel(category),
+    quantity: quantity || 0,
+    unit: getAccessoryUnit(category),
+    unitCost: unitCost || 0,
+    total: total || 0,
+  });
+
+  return [
+    {
+      key: "shingles",
+      group: "materials",
+      label: "Shingles/Panels",
+      quantity: b.shingleBundles || 0,
+      unit: "bundle",
+      unitCost: b.shingleCostPerBundle || 0,
+      total: b.shingleTotal || 0,
+    },
+    {
+      key: "waste",
+      group: "materials",
+      label: "Waste Factor (12%)",
+      quantity: b.wasteBundles || 0,
+      unit: "bundle",
+      unitCost: b.shingleCostPerBundle || 0,
+      total: b.wasteTotal || 0,
+    },
+    accessory(
+      "underlayment",
+      b.underlaymentRolls,
+      b.underlaymentCostPerRoll,
+      b.underlaymentTotal,
+    ),
+    accessory(
+      "iceShield",
+      b.iceShieldRolls,
+      b.iceShieldCostPerRoll,
+      b.iceShieldTotal,
+    ),
+    accessory(
+      "dripEdge",
+      b.dripEdgePieces,
+      b.dripEdgeCostPerPiece,
+      b.dripEdgeTotal,
+    ),
+    accessory(
+      "starter",
+      b.starterStripPieces,
+      b.starterCostPerPiece,
+      b.starterTotal,
+    ),
+    accessory(
+      "ridgeCap",
+      b.ridgeCapBundles,
+      b.ridgeCapCostPerBundle,
+      b.ridgeCapTotal,
+    ),
+    accessory(
+      "flashing",
+      b.flashingPieces,
+      b.flashingCostPerPiece,
+      b.flashingTotal,
+    ),
+    accessory("vents", b.ventCount, b.ventCostEach, b.ventTotal),
+    accessory("nails", b.nailPounds, b.nailCostPerPound, b.nailTotal),
+    {
+      key: "labor",
+      group: "labor",
+      label: "Labor",
+      quantity: b.laborHours || 0,
+      unit: "hr",
+      unitCost: b.laborRate || 0,
+      total: b.labor || 0,
+    },
+    {
+      key: "additional",
+      group: "labor",
+      label: "Additional Costs",
+      quantity: 1,
+      unit: "lot",
+      unitCost: b.additional || 0,
+      total: b.additional || 0,
+    },
+  ];
+}
+
+export function calculateEstimateTotal(b: MicroBreakdown): number {
+  return getEstimateLineItems(b).reduce((sum, item) => sum + item.total, 0);
+}
+
+export function calculateEstimate(input: EstimateInput): EstimateResult {
+  const breakdown = calculateMicroBreakdown(input);
+  return {
+    breakdown,
+    estimateTotal: calculateEstimateTotal(breakdown),
+  };
+}
+
+export type EstimateOptionTier = "good" | "better" | "best";
+
+export const ESTIMATE_OPTION_TIERS: {
+  tier: EstimateOptionTier;
+  label: string;
+}[] = [
+  { tier: "good", label: "Good" },
+  { tier: "better", label: "Better" },
+  { tier: "best", label: "Best" },
+];
+
+export interface EstimateOptionInput {
+  tier: EstimateOptionTier;
+  selectedMaterial: string;
+  materialPricePerSquare: number;
+}
+
+// One tier of a multi-option proposal. Options share the project's squares,
+// labor and additional costs and differ only in material and its price.
+export interface EstimateOption extends EstimateOptionInput {
+  breakdown: MicroBreakdown;
+  estimateTotal: number;
+}
+
+export function getEstimateOptionLabel(tier: EstimateOptionTier): string {
+  return ESTIMATE_OPTION_TIERS.find((t) => t.tier === tier)?.label || tier;
+}
+
+// Project fields to write when a customer picks an option, so the primary
+// estimate (breakdown, total, PDF) describes the chosen tier.
+export function getEstimateOptionFields(option: EstimateOption) {
+  return {
+    selectedOptionTier: option.tier,
+    selectedMaterial: option.selectedMaterial,
+    materialPricePerSquare: option.materialPricePerSquare,
+    microBreakdown: option.breakdown,
+    estimateTotal: option.estimateTotal,
+  };
+}
+
+export function validateEstimateOptions(options: unknown): string | null {
+  if (!Array.isArray(options)) return "Estimate options must be a list";
+  if (options.length > ESTIMATE_OPTION_TIERS.length) {
+    return `At most ${ESTIMATE_OPTION_TIERS.length} estimate options are allowed`;
+  }
+
+  const seen = new Set<string>();
+  for (const option of options) {
+    if (!ESTIMATE_OPTION_TIERS.some((t) => t.tier === option?.tier)) {
+      return "Invalid estimate option tier";
+    }
+    if (seen.has(option.tier)) {
+      return `Duplicate ${getEstimateOptionLabel(option.tier)} option`;
+    }
+    seen.add(option.tier);
+
+    const error = validateEstimateInput({
+      selectedMaterial: option.selectedMaterial,
+      materialPricePerSquare: option.materialPricePerSquare,
+    });
+    if (error) return `${getEstimateOptionLabel(option.tier)} option: ${error}`;
+  }
+
+  return null;
+}
+
+// Prices every option with the shared inputs in `base`, looking up each
+// material's bundles per square in `materials`. Results follow tier order.
+export function calculateEstimateOptions(
+  base: EstimateInput,
+  options: EstimateOptionInput[],
+  materials: Pick<MaterialPricing, "materialKey" | "bundlesPerSquare">[],
+): EstimateOption[] {
+  return ESTIMATE_OPTION_TIERS.flatMap(({ tier }) => {
+    const option = options.find((o) => o.tier === tier);
+    if (!option) return [];
+
+    const material = materials.find(
+      (m) => m.materialKey === option.selectedMaterial,
+    );
+    const { breakdown, estimateTotal } = calculateEstimate({
+      ...base,
+      selectedMaterial: option.selectedMaterial,
+      materialPricePerSquare: toNumber(option.materialPricePerSquare),
+      bundlesPerSquare: material?.bundlesPerSquare,
+    });
+    return [
+      {
+        tier,
+        selectedMaterial: option.selectedMaterial,
+        materialPricePerSquare: toNumber(option.materialPricePerSquare),
+        breakdown,
+        estimateTotal,
+      },
+    ];
+  });
+}
+
+export function getEstimateGroupTotals(
+  b: MicroBreakdown,
+): Record<EstimateLineItem["group"], number> {
+  return getEstimateLineItems(b).reduce(
+    (totals, item) => ({
+      ...totals,
+      [item.group]: totals[item.group] + item.total,
+    }),
+    { materials: 0, labor: 0 },
+  );
+}
+
+// Pricing inputs captured with each estimate revision.
+export interface EstimateRevisionInputs {
+  roofSquares: number;
+  selectedMaterial: string;
+  materialPricePerSquare: number;
+  laborRate: number;
+  laborHours: number;
+  additionalCosts: number;
+}
+
+export interface EstimateRevisionSnapshot {
+  inputs: EstimateRevisionInputs;
+  breakdown: MicroBreakdown;
+  estimateTotal: number;
+}
+
+export interface EstimateLineItemDiff {
+  key: string;
+  group: EstimateLineItem["group"];
+  label: string;
+  before: EstimateLineItem | null;
+  after: EstimateLineItem | null;
+  change: number;
+}
+
+export function getEstimateRevisionInputs(data: {
+  roofSquares?: number | null;
+  roofArea?: number | null;
+  selectedMaterial?: string | null;
+  materialPricePerSquare?: number | null;
+  laborRate?: number | null;
+  laborHours?: number | null;
+  additionalCosts?: number | null;
+}): EstimateRevisionInputs {
+  return {
+    roofSquares: data.roofSquares ?? Math.ceil((data.roofArea || 0) / 100),
+    selectedMaterial: data.selectedMaterial || "",
+    materialPricePerSquare: data.materialPricePerSquare ?? 0,
+    laborRate: data.laborRate ?? 0,
+    laborHours: data.laborHours ?? 0,
+    additionalCosts: data.additionalCosts ?? 0,
+  };
+}
+
+// Compares field by field rather than via JSON so key order (which jsonb
+// columns do not preserve) never makes identical revisions look different.
+export function isSameEstimateRevision(
+  a: EstimateRevisionSnapshot,
+  b: EstimateRevisionSnapshot,
+): boolean {
+  if (a.estimateTotal !== b.estimateTotal) return false;
+
+  const inputKeys = Object.keys(a.inputs) as (keyof EstimateRevisionInputs)[];
+  if (inputKeys.some((key) => a.inputs[key] !== b.inputs[key])) return false;
+
+  const itemsA = getEstimateLineItems(a.breakdown);
+  const itemsB = getEstimateLineItems(b.breakdown);
+  return itemsA.every(
+    (item, index) =>
+      item.quantity === itemsB[index].quantity &&
+      item.unitCost === itemsB[index].unitCost &&
+      item.total === itemsB[index].total,
+  );
+}
+
+// Pairs up the line items of two breakdowns so revisions can be compared row
+// by row. Items missing from one side have a null entry there.
+export function diffEstimateLineItems(
+  before: MicroBreakdown | null,
+  after: MicroBreakdown | null,
+): EstimateLineItemDiff[] {
+  const beforeItems = before ? getEstimateLineItems(before) : [];
+  const afterItems = after ? getEstimateLineItems(after) : [];
+  const keys = [
+    ...beforeItems.map((item) => item.key),
+    ...afterItems
+      .map((item) => item.key)
+      .filter((key) => !beforeItems.some((item) => item.key === key)),
+  ];
+
+  return keys.map((key) => {
+    const previous = beforeItems.find((item) => item.key === key) || null;
+    const next = afterItems.find((item) => item.key === key) || null;
+    const reference = (next || previous)!;
+    return {
+      key,
+      group: reference.group,
+      label: reference.label,
+      before: previous,
+      after: next,
+      change: (next?.total || 0) - (previous?.total || 0),
+    };
+  });
+}
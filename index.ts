@@ -2,6 +2,7 @@ import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { createProxyMiddleware } from "http-proxy-middleware";
 import { registerRoutes } from "./routes";
+import { startPermitWatchJob } from "./permit-watch-job";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -188,6 +189,16 @@ function configureExpoAndLanding(app: express.Application) {
     ? fs.readFileSync(privacyTemplatePath, "utf-8")
     : null;
 
+  const estimateShareTemplatePath = path.resolve(
+    process.cwd(),
+    "server",
+    "templates",
+    "estimate-share.html",
+  );
+  const estimateShareTemplate = fs.existsSync(estimateShareTemplatePath)
+    ? fs.readFileSync(estimateShareTemplatePath, "utf-8")
+    : null;
+
   log("Serving responsive website with Expo manifest routing for mobile apps");
 
   app.get("/website", (_req: Request, res: Response) => {
@@ -213,6 +224,19 @@ function configureExpoAndLanding(app: express.Application) {
     }
   });
 
+  // The page loads the estimate for the token in its URL from
+  // /api/public/estimates/:token.
+  app.get("/estimate/:token", (_req: Request, res: Response) => {
+    if (estimateShareTemplate) {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Referrer-Policy", "no-referrer");
+      res.status(200).send(estimateShareTemplate);
+    } else {
+      res.redirect("/");
+    }
+  });
+
   app.use((req: Request, res: Response, next: NextFunction) => {
     if (req.path.startsWith("/api")) {
       return next();
@@ -405,6 +429,7 @@ function setupErrorHandler(app: express.Application) {
     },
     () => {
       log(`Express server serving on port ${port}`);
+      startPermitWatchJob();
       if (isDev) {
         log(`Marketing website: http://localhost:${port}/`);
         log(`Metro dev server proxied from port ${METRO_PORT}`);
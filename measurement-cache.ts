@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import {
+  measurementProvider,
+  normalizeAddress,
+  type BuildingInsights,
+  type Coordinates,
+} from "./measurement-providers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Addresses don't move; imagery is refreshed by the provider every so often.
+const GEOCODE_TTL_MS = 180 * DAY_MS;
+const BUILDING_TTL_MS = 30 * DAY_MS;
+
+export interface RoofLookup {
+  coordinates: Coordinates;
+  buildingInsights: BuildingInsights;
+  // True when both answers came from the cache without calling the provider.
+  cached: boolean;
+  // When the building insights were fetched from the provider.
+  fetchedAt: Date;
+}
+
+// Five decimal places is about a metre, so repeat lookups for the same
+// geocoded point share an entry.
+function coordinateKey({ lat, lng }: Coordinates): string {
+  return `${lat.toFixed(5)},${lng.toFixed(5)}`;
+}
+
+// Returns a fresh cached value, or fetches and stores a new one. The cache is
+// only an optimisation: if the database can't be read or written the
+// provider is still asked and its answer returned.
+async function cached<T>(
+  key: string,
+  ttlMs: number,
+  refresh: boolean,
+  fetchValue: () => Promise<T>,
+): Promise<{ value: T; cached: boolean; fetchedAt: Date }> {
+  if (!refresh) {
+    try {
+      const entry = await storage.getMeasurementCacheEntry(key);
+      if (entry && entry.expiresAt > new Date()) {
+        return {
+          value: entry.payload as T,
+          cached: true,
+          fetchedAt: entry.createdAt,
+        };
+      }
+    } catch (error) {
+      console.error("Measurement cache read error:", error);
+    }
+  }
+
+  const value = await fetchValue();
+  const fetchedAt = new Date();
+  try {
+    await storage.saveMeasurementCacheEntry(
+      key,
+      value,
+      new Date(fetchedAt.getTime() + ttlMs),
+    );
+  } catch (error) {
+    console.error("Measurement cache write error:", error);
+  }
+  return { value, cached: false, fetchedAt };
+}
+
+// Geocodes the address and finds its building, reusing earlier answers for
+// the same address. Pass refresh to skip the cache and overwrite it.
+// Provider errors are not cached and propagate to the caller.
+export async function lookupRoof(
+  address: string,
+  options: { refresh?: boolean } = {},
+): Promise<RoofLookup> {
+  const refresh = options.refresh === true;
+  const provider = measurementProvider.name;
+
+  const geocode = await cached(
+    `geocode:${provider}:${normalizeAddress(address)}`,
+    GEOCODE_TTL_MS,
+    refresh,
+    () => measurementProvider.geocode(address),
+  );
+  const coordinates = geocode.value;
+
+  const building = await cached(
+    `building:${provider}:${coordinateKey(coordinates)}`,
+    BUILDING_TTL_MS,
+    refresh,
+    () =>
+      measurementProvider.findClosestBuilding(coordinates.lat, coordinates.lng),
+  );
+
+  return {
+    coordinates,
+    buildingInsights: building.value,
+    cached: geocode.cached && building.cached,
+    fetchedAt: building.fetchedAt,
+  };
+}
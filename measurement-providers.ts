@@ -0,0 +1,331 @@
+import { readFileSync } from "node:fs";
+
+export interface SolarRoofSegment {
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  stats: {
+    areaMeters2: number;
+    groundAreaMeters2?: number;
+  };
+  planeHeightAtCenterMeters?: number;
+}
+
+export interface BuildingInsights {
+  name?: string;
+  center: {
+    latitude: number;
+    longitude: number;
+  };
+  boundingBox?: {
+    sw: { latitude: number; longitude: number };
+    ne: { latitude: number; longitude: number };
+  };
+  imageryDate?: {
+    year: number;
+    month: number;
+    day: number;
+  };
+  imageryQuality?: string;
+  solarPotential?: {
+    maxArrayPanelsCount?: number;
+    maxArrayAreaMeters2?: number;
+    maxSunshineHoursPerYear?: number;
+    buildingStats?: {
+      areaMeters2: number;
+      sunshineQuantiles?: number[];
+    };
+    roofSegmentStats?: SolarRoofSegment[];
+  };
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export type MeasurementErrorCode =
+  | "not_configured"
+  | "address_not_found"
+  | "building_not_found"
+  | "provider_error";
+
+const ERROR_STATUS: Record<MeasurementErrorCode, number> = {
+  not_configured: 500,
+  address_not_found: 404,
+  building_not_found: 404,
+  provider_error: 502,
+};
+
+// Thrown by providers instead of returning null, so routes can tell a
+// missing key from an unknown address from the vendor being down.
+export class MeasurementProviderError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: MeasurementErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "MeasurementProviderError";
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+export interface GeocodingProvider {
+  geocode(address: string): Promise<Coordinates>;
+}
+
+export interface BuildingInsightsProvider {
+  findClosestBuilding(lat: number, lng: number): Promise<BuildingInsights>;
+}
+
+export interface MeasurementProvider
+  extends GeocodingProvider,
+    BuildingInsightsProvider {
+  readonly name: string;
+}
+
+// Lowercases and strips punctuation so "123 Main St." and "123 main st"
+// are the same address.
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.,#]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function fetchJson(
+  url: string,
+): Promise<{ response: Response; data: any }> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error: any) {
+    throw new MeasurementProviderError(
+      "provider_error",
+      `Could not reach the measurement service: ${error.message}`,
+    );
+  }
+  const data = await response.json().catch(() => ({}));
+  return { response, data };
+}
+
+export class GoogleMeasurementProvider implements MeasurementProvider {
+  readonly name = "google";
+
+  constructor(private readonly apiKey: string | undefined) {}
+
+  private requireKey(): string {
+    if (!this.apiKey) {
+      throw new MeasurementProviderError(
+        "not_configured",
+        "Google API key not configured. Please add GOOGLE_SOLAR_API_KEY.",
+      );
+    }
+    return this.apiKey;
+  }
+
+  async geocode(address: string): Promise<Coordinates> {
+    const key = this.requireKey();
+    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${key}`;
+    const { data } = await fetchJson(url);
+
+    if (data.status === "OK" && data.results?.length > 0) {
+      const location = data.results[0].geometry.location;
+      return { lat: location.lat, lng: location.lng };
+    }
+    if (data.status === "ZERO_RESULTS") {
+      throw new MeasurementProviderError(
+        "address_not_found",
+        "Could not find address",
+      );
+    }
+    console.error("Geocoding error:", data.status, data.error_message);
+    throw new MeasurementProviderError(
+      "provider_error",
+      `Geocoding failed${data.status ? ` (${data.status})` : ""}`,
+    );
+  }
+
+  async findClosestBuilding(
+    lat: number,
+    lng: number,
+  ): Promise<BuildingInsights> {
+    const key = this.requireKey();
+    const url = `https://solar.googleapis.com/v1/buildingInsights:findClosest?location.latitude=${lat}&location.longitude=${lng}&key=${key}`;
+    const { response, data } = await fetchJson(url);
+
+    if (response.ok) return data as BuildingInsights;
+    if (response.status === 404) {
+      throw new MeasurementProviderError(
+        "building_not_found",
+        "Could not get roof measurements for this location",
+      );
+    }
+    console.error("Solar API error:", data);
+    throw new MeasurementProviderError(
+      "provider_error",
+      `Building insights lookup failed (${response.status})`,
+    );
+  }
+}
+
+export interface MeasurementFixture {
+  address: string;
+  lat: number;
+  lng: number;
+  buildingInsights: BuildingInsights;
+}
+
+// How far a lookup can be from a fixture's coordinates and still match it.
+const FIXTURE_MATCH_METERS = 50;
+
+// A gable roof on a 40 x 30 ft house at 6/12, and a hip roof at 8/12.
+// Used when MEASUREMENT_FIXTURES doesn't point at a file.
+const DEFAULT_FIXTURES: MeasurementFixture[] = [
+  {
+    address: "100 Main St, Springfield, IL 62701",
+    lat: 39.8017,
+    lng: -89.6436,
+    buildingInsights: {
+      center: { latitude: 39.8017, longitude: -89.6436 },
+      imageryDate: { year: 2024, month: 6, day: 14 },
+      imageryQuality: "HIGH",
+      solarPotential: {
+        buildingStats: { areaMeters2: 124.6 },
+        roofSegmentStats: [
+          {
+            pitchDegrees: 26.57,
+            azimuthDegrees: 180,
+            stats: { areaMeters2: 62.3, groundAreaMeters2: 55.74 },
+          },
+          {
+            pitchDegrees: 26.57,
+            azimuthDegrees: 0,
+            stats: { areaMeters2: 62.3, groundAreaMeters2: 55.74 },
+          },
+        ],
+      },
+    },
+  },
+  {
+    address: "250 Oak Ave, Springfield, IL 62704",
+    lat: 39.7812,
+    lng: -89.6701,
+    buildingInsights: {
+      center: { latitude: 39.7812, longitude: -89.6701 },
+      imageryDate: { year: 2023, month: 9, day: 2 },
+      imageryQuality: "MEDIUM",
+      solarPotential: {
+        buildingStats: { areaMeters2: 223.1 },
+        roofSegmentStats: [
+          {
+            pitchDegrees: 33.69,
+            azimuthDegrees: 180,
+            stats: { areaMeters2: 72.6, groundAreaMeters2: 60.4 },
+          },
+          {
+            pitchDegrees: 33.69,
+            azimuthDegrees: 0,
+            stats: { areaMeters2: 72.6, groundAreaMeters2: 60.4 },
+          },
+          {
+            pitchDegrees: 33.69,
+            azimuthDegrees: 90,
+            stats: { areaMeters2: 38.95, groundAreaMeters2: 32.4 },
+          },
+          {
+            pitchDegrees: 33.69,
+            azimuthDegrees: 270,
+            stats: { areaMeters2: 38.95, groundAreaMeters2: 32.4 },
+          },
+        ],
+      },
+    },
+  },
+];
+
+function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const metersPerDegree = 111_320;
+  const dLat = (a.lat - b.lat) * metersPerDegree;
+  const dLng =
+    (a.lng - b.lng) * metersPerDegree * Math.cos((a.lat * Math.PI) / 180);
+  return Math.hypot(dLat, dLng);
+}
+
+// Answers from a fixed list of addresses so auto-measure works offline and
+// in tests. MEASUREMENT_FIXTURES can point at a JSON array of fixtures.
+export class LocalMeasurementProvider implements MeasurementProvider {
+  readonly name = "local";
+  private fixtures: MeasurementFixture[] | null = null;
+
+  constructor(private readonly fixturePath?: string) {}
+
+  private load(): MeasurementFixture[] {
+    if (this.fixtures) return this.fixtures;
+    if (!this.fixturePath) {
+      this.fixtures = DEFAULT_FIXTURES;
+      return this.fixtures;
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(this.fixturePath, "utf8"));
+      if (!Array.isArray(parsed)) throw new Error("expected an array");
+      this.fixtures = parsed;
+      return parsed;
+    } catch (error: any) {
+      throw new MeasurementProviderError(
+        "provider_error",
+        `Could not load measurement fixtures from ${this.fixturePath}: ${error.message}`,
+      );
+    }
+  }
+
+  async geocode(address: string): Promise<Coordinates> {
+    const key = normalizeAddress(address);
+    const fixture = this.load().find(
+      (f) => normalizeAddress(f.address) === key,
+    );
+    if (!fixture) {
+      throw new MeasurementProviderError(
+        "address_not_found",
+        "Could not find address",
+      );
+    }
+    return { lat: fixture.lat, lng: fixture.lng };
+  }
+
+  async findClosestBuilding(
+    lat: number,
+    lng: number,
+  ): Promise<BuildingInsights> {
+    const fixture = this.load().find(
+      (f) => distanceMeters(f, { lat, lng }) <= FIXTURE_MATCH_METERS,
+    );
+    if (!fixture) {
+      throw new MeasurementProviderError(
+        "building_not_found",
+        "Could not get roof measurements for this location",
+      );
+    }
+    return fixture.buildingInsights;
+  }
+}
+
+function createMeasurementProvider(): MeasurementProvider {
+  const provider = process.env.MEASUREMENT_PROVIDER || "google";
+  if (provider === "local") {
+    return new LocalMeasurementProvider(process.env.MEASUREMENT_FIXTURES);
+  }
+  if (provider !== "google") {
+    console.warn(
+      `Unknown MEASUREMENT_PROVIDER "${provider}", using Google instead`,
+    );
+  }
+  return new GoogleMeasurementProvider(
+    process.env.GOOGLE_SOLAR_API_KEY || process.env.GOOGLE_MAPS_API_KEY,
+  );
+}
+
+export const measurementProvider: MeasurementProvider =
+  createMeasurementProvider();
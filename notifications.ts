@@ -0,0 +1,90 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+import { loadLocalProject, updateProject } from "@/lib/sync";
+import { getEstimateOptionFields, type EstimateOption } from "@shared/estimate";
+
+const APPLIED_NOTIFICATIONS_KEY = "roofmaster_applied_notifications";
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  projectId: string | null;
+  data: Record<string, any> | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const ESTIMATE_RESPONSE_TYPES = ["estimate_accepted", "estimate_declined"];
+const PERMIT_WATCH_TYPES = [
+  "permit_filed",
+  "permit_status_changed",
+  "permit_watch_summary",
+];
+
+// Sent by the permit watchlist job.
+export function isPermitNotification(notification: AppNotification): boolean {
+  return PERMIT_WATCH_TYPES.includes(notification.type);
+}
+
+// Signed-in users only; guests have no server account to notify.
+export async function loadNotifications(): Promise<AppNotification[]> {
+  const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+  if (isGuest === "true") return [];
+
+  try {
+    const response = await apiRequestSafe("GET", "/api/notifications");
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.success ? data.notifications : [];
+  } catch (error) {
+    console.log("Failed to load notifications:", error);
+    return [];
+  }
+}
+
+export async function markNotificationRead(id: string): Promise<void> {
+  try {
+    await apiRequestSafe("POST", `/api/notifications/${id}/read`);
+  } catch (error) {
+    console.log("Failed to mark notification read:", error);
+  }
+}
+
+// Copies a homeowner's accept/decline (and chosen option) onto the project
+// saved on this device. Each notification is applied once, so later edits to
+// the project are not overwritten.
+export async function applyEstimateResponses(
+  notifications: AppNotification[],
+): Promise<void> {
+  const storedApplied = await AsyncStorage.getItem(APPLIED_NOTIFICATIONS_KEY);
+  const applied: string[] = storedApplied ? JSON.parse(storedApplied) : [];
+  const pending = notifications.filter(
+    (n) =>
+      ESTIMATE_RESPONSE_TYPES.includes(n.type) &&
+      n.projectId &&
+      !applied.includes(n.id),
+  );
+  if (pending.length === 0) return;
+
+  // Oldest first so the latest response wins.
+  for (const notification of [...pending].reverse()) {
+    const project = await loadLocalProject(notification.projectId!);
+    if (!project) continue;
+
+    const option = (project.estimateOptions || []).find(
+      (o: EstimateOption) => o.tier === notification.data?.selectedOptionTier,
+    );
+    await updateProject(project.id, {
+      ...(option ? getEstimateOptionFields(option) : {}),
+      status: notification.data?.status || project.status,
+    });
+  }
+
+  await AsyncStorage.setItem(
+    APPLIED_NOTIFICATIONS_KEY,
+    JSON.stringify([...applied, ...pending.map((n) => n.id)]),
+  );
+}
@@ -0,0 +1,492 @@
+import { readFile } from "node:fs/promises";
+import { parseCsv } from "@shared/price-list";
+import { isRoofingPermit } from "@shared/roof-age";
+import {
+  isSameProperty,
+  mapPermitStatus,
+  parseStreetAddress,
+  searchPermitArea,
+  searchPermitList,
+  splitPermitsByProperty,
+  type PermitData,
+  type PermitSearchResult,
+} from "./permit-search";
+
+export const PERMIT_PROVIDERS = ["shovels", "county", "local"] as const;
+
+export type PermitProviderName = (typeof PERMIT_PROVIDERS)[number];
+
+export const PERMIT_PROVIDER_LABELS: Record<PermitProviderName, string> = {
+  shovels: "Shovels",
+  county: "County Open Data",
+  local: "Sample Data",
+};
+
+// A source of building permits. Every provider returns the same PermitData
+// shape, split into the property's own permits and nearby roofing work.
+export interface PermitProvider {
+  readonly name: PermitProviderName;
+  search(address: string): Promise<PermitSearchResult>;
+  // Recent roofing permits anywhere in a five-digit ZIP code.
+  searchZip(zip: string): Promise<PermitData[]>;
+}
+
+function formatShovelsAddress(raw: any): string | null {
+  if (typeof raw === "string") return raw;
+  if (!raw || typeof raw !== "object") return null;
+  const street =
+    raw.street_no && raw.street ? `${raw.street_no} ${raw.street}` : raw.street;
+  const parts = [
+    street,
+    raw.city,
+    [raw.state, raw.zip_code].filter(Boolean).join(" "),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function toPermitData(permit: any, index: number): PermitData {
+  return {
+    id: permit.id || permit.permit_number || String(index),
+    address: formatShovelsAddress(permit.address) || permit.full_address || "",
+    permitType:
+      permit.work_type || permit.type || permit.description || "Roofing",
+    status: mapPermitStatus(permit.status),
+    issueDate:
+      permit.issue_date || permit.filed_date || permit.permit_date || "",
+    expiryDate: permit.expiry_date || permit.final_date,
+    contractor:
+      permit.contractor_name || permit.contractor?.name
+        ? {
+            name: permit.contractor_name || permit.contractor?.name,
+            phone: permit.contractor_phone || permit.contractor?.phone,
+            email: permit.contractor_email || permit.contractor?.email,
+          }
+        : undefined,
+    value: permit.value || permit.job_value || permit.valuation,
+    description: permit.description || permit.work_description,
+  };
+}
+
+// Undated permits are dropped, as county exports do; a missing date must not
+// read as work done today.
+function toPermitList(items: any[]): PermitData[] {
+  return items.map(toPermitData).filter((permit) => permit.issueDate);
+}
+
+async function shovelsGet(
+  path: string,
+  params: Record<string, string>,
+  apiKey: string,
+): Promise<any[]> {
+  const url = `https://api.shovels.ai/v2/${path}?${new URLSearchParams(params).toString()}`;
+  const response = await fetch(url, {
+    method: "GET",
+    headers: {
+      "X-API-Key": apiKey,
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Shovels API error ${response.status}: ${errorText}`);
+  }
+
+  const data = await response.json();
+  const items = data.items || data.data || data.results || [];
+  return Array.isArray(items) ? items : [];
+}
+
+// Looks the address up in Shovels' address index so permits can be fetched
+// for the parcel itself rather than the whole ZIP.
+async function resolveShovelsAddress(
+  address: string,
+  apiKey: string,
+): Promise<{ geoId: string; address: string } | null> {
+  const target = parseStreetAddress(address);
+  if (!target) return null;
+
+  const candidates = await shovelsGet(
+    "addresses/search",
+    { q: address, size: "10" },
+    apiKey,
+  );
+  for (const candidate of candidates) {
+    const formatted =
+      formatShovelsAddress(candidate.address ?? candidate) ||
+      candidate.name ||
+      "";
+    const parsed = parseStreetAddress(formatted);
+    if (candidate.geo_id && parsed && isSameProperty(target, parsed)) {
+      return { geoId: String(candidate.geo_id), address: formatted };
+    }
+  }
+  return null;
+}
+
+function shovelsDateRange(years: number) {
+  const today = new Date();
+  const from = new Date(today);
+  from.setFullYear(today.getFullYear() - years);
+  return {
+    permit_from: from.toISOString().split("T")[0],
+    permit_to: today.toISOString().split("T")[0],
+  };
+}
+
+async function searchShovelsPermits(
+  address: string,
+  apiKey: string,
+): Promise<PermitSearchResult> {
+  const range = shovelsDateRange(10);
+
+  const resolved = await resolveShovelsAddress(address, apiKey);
+  const zip =
+    parseStreetAddress(address)?.zip ?? address.match(/\b(\d{5})\b/)?.[1];
+
+  const [propertyItems, areaItems] = await Promise.all([
+    resolved
+      ? shovelsGet(
+          "permits/search",
+          { geo_id: resolved.geoId, ...range, page: "1", size: "50" },
+          apiKey,
+        )
+      : Promise.resolve([]),
+    zip
+      ? shovelsGet(
+          "permits/search",
+          { geo_id: zip, ...range, page: "1", size: "50" },
+          apiKey,
+        )
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    resolvedAddress: resolved?.address ?? null,
+    ...splitPermitsByProperty(
+      resolved?.address ?? address,
+      toPermitList(areaItems),
+      toPermitList(propertyItems),
+    ),
+  };
+}
+
+export class ShovelsPermitProvider implements PermitProvider {
+  readonly name = "shovels";
+
+  constructor(private readonly apiKey: string) {}
+
+  search(address: string): Promise<PermitSearchResult> {
+    return searchShovelsPermits(address, this.apiKey);
+  }
+
+  async searchZip(zip: string): Promise<PermitData[]> {
+    const items = await shovelsGet(
+      "permits/search",
+      { geo_id: zip, ...shovelsDateRange(1), page: "1", size: "50" },
+      this.apiKey,
+    );
+    // Shovels already scoped the results to the ZIP, so only the roofing
+    // filter applies; its addresses don't always carry the ZIP.
+    return toPermitList(items).filter(isRoofingPermit);
+  }
+}
+
+// Header spellings used by county open-data portals, after lowercasing and
+// collapsing punctuation to underscores.
+const COUNTY_COLUMNS = {
+  id: [
+    "permit_number",
+    "permit_no",
+    "permit_num",
+    "permitnumber",
+    "record_id",
+    "permit_id",
+    "id",
+  ],
+  address: [
+    "address",
+    "site_address",
+    "property_address",
+    "original_address1",
+    "original_address_1",
+    "location",
+    "full_address",
+  ],
+  city: ["city", "original_city", "site_city"],
+  state: ["state", "original_state"],
+  zip: ["zip", "zip_code", "zipcode", "original_zip", "postal_code"],
+  permitType: [
+    "permit_type",
+    "work_class",
+    "permit_type_desc",
+    "permittypemapped",
+    "work_type",
+    "type",
+  ],
+  description: [
+    "description",
+    "work_description",
+    "permit_description",
+    "project_description",
+  ],
+  status: [
+    "status",
+    "current_status",
+    "status_current",
+    "permit_status",
+    "statuscurrent",
+  ],
+  issueDate: [
+    "issue_date",
+    "issued_date",
+    "issueddate",
+    "date_issued",
+    "applied_date",
+  ],
+  expiryDate: ["expiration_date", "expiry_date", "expires", "expiration"],
+  contractor: [
+    "contractor",
+    "contractor_name",
+    "contractor_company_name",
+    "contractorcompanyname",
+  ],
+  value: [
+    "valuation",
+    "estimated_cost",
+    "job_value",
+    "total_valuation",
+    "value",
+  ],
+} satisfies Record<string, string[]>;
+
+type CountyColumn = keyof typeof COUNTY_COLUMNS;
+
+// How long a county export is reused before it's read again.
+const COUNTY_CACHE_MS = 60 * 60 * 1000;
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function parseCountyPermitCsv(text: string): PermitData[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const headers = header.map(normalizeHeader);
+  const columns = {} as Record<CountyColumn, number>;
+  for (const key of Object.keys(COUNTY_COLUMNS) as CountyColumn[]) {
+    columns[key] = headers.findIndex((h) => COUNTY_COLUMNS[key].includes(h));
+  }
+  if (columns.address < 0) {
+    throw new Error("County permit export has no address column");
+  }
+
+  const permits: PermitData[] = [];
+  rows.forEach((row, index) => {
+    const get = (key: CountyColumn) =>
+      columns[key] >= 0 ? (row[columns[key]] || "").trim() : "";
+    const street = get("address");
+    if (!street) return;
+
+    const issued = new Date(get("issueDate"));
+    const expires = new Date(get("expiryDate"));
+    const value = parseFloat(get("value").replace(/[$,]/g, ""));
+    const contractor = get("contractor");
+    const description = get("description");
+    permits.push({
+      id: get("id") || `row-${index + 2}`,
+      address: [
+        street,
+        get("city"),
+        [get("state"), get("zip")].filter(Boolean).join(" "),
+      ]
+        .filter(Boolean)
+        .join(", "),
+      permitType: get("permitType") || description || "Permit",
+      status: mapPermitStatus(get("status")),
+      issueDate: Number.isNaN(issued.getTime()) ? "" : issued.toISOString(),
+      expiryDate: Number.isNaN(expires.getTime())
+        ? undefined
+        : expires.toISOString(),
+      contractor: contractor ? { name: contractor } : undefined,
+      value: Number.isFinite(value) && value > 0 ? value : undefined,
+      description: description || undefined,
+    });
+  });
+  return permits.filter((permit) => permit.issueDate);
+}
+
+// Reads a county's permit export (a local CSV file or an https URL to one)
+// and searches it in memory.
+export class CountyCsvPermitProvider implements PermitProvider {
+  readonly name = "county";
+  private permits: PermitData[] | null = null;
+  private loadedAt = 0;
+
+  constructor(private readonly source: string) {}
+
+  private async load(): Promise<PermitData[]> {
+    if (this.permits && Date.now() - this.loadedAt < COUNTY_CACHE_MS) {
+      return this.permits;
+    }
+    let text: string;
+    if (/^https?:\/\//.test(this.source)) {
+      const response = await fetch(this.source);
+      if (!response.ok) {
+        throw new Error(`County permit export returned ${response.status}`);
+      }
+      text = await response.text();
+    } else {
+      text = await readFile(this.source, "utf8");
+    }
+    this.permits = parseCountyPermitCsv(text);
+    this.loadedAt = Date.now();
+    return this.permits;
+  }
+
+  async search(address: string): Promise<PermitSearchResult> {
+    return {
+      resolvedAddress: null,
+      ...searchPermitList(address, await this.load()),
+    };
+  }
+
+  async searchZip(zip: string): Promise<PermitData[]> {
+    return searchPermitArea(zip, await this.load());
+  }
+}
+
+// Permits for the sample addresses served by the local measurement provider.
+const DEFAULT_PERMIT_FIXTURES: PermitData[] = [
+  {
+    id: "SPR-2009-0412",
+    address: "100 Main St, Springfield, IL 62701",
+    permitType: "Reroof",
+    status: "approved",
+    issueDate: "2009-05-18T00:00:00.000Z",
+    contractor: { name: "Capital City Roofing" },
+    value: 8400,
+    description: "Tear off and reroof, architectural shingles",
+  },
+  {
+    id: "SPR-2021-1877",
+    address: "100 Main St, Springfield, IL 62701",
+    permitType: "Solar",
+    status: "approved",
+    issueDate: "2021-08-02T00:00:00.000Z",
+    value: 21500,
+    description: "Roof-mounted solar array, 7.2 kW",
+  },
+  {
+    id: "SPR-2023-0935",
+    address: "112 Main St, Springfield, IL 62701",
+    permitType: "Reroof",
+    status: "approved",
+    issueDate: "2023-04-11T00:00:00.000Z",
+    contractor: { name: "Prairie State Exteriors" },
+    value: 11200,
+    description: "Reroof after hail damage",
+  },
+  {
+    id: "SPR-2016-2210",
+    address: "250 Oak Ave, Springfield, IL 62704",
+    permitType: "Reroof",
+    status: "approved",
+    issueDate: "2016-09-27T00:00:00.000Z",
+    contractor: { name: "Capital City Roofing" },
+    value: 14900,
+    description: "Reroof hip roof, replace decking as needed",
+  },
+];
+
+// Serves permits from a fixed list so permit lookup works offline.
+// PERMIT_FIXTURES can point at a JSON array of PermitData.
+export class LocalPermitProvider implements PermitProvider {
+  readonly name = "local";
+  private permits: PermitData[] | null = null;
+
+  constructor(private readonly fixturePath?: string) {}
+
+  private async load(): Promise<PermitData[]> {
+    if (this.permits) return this.permits;
+    if (!this.fixturePath) {
+      this.permits = DEFAULT_PERMIT_FIXTURES;
+      return this.permits;
+    }
+    const parsed = JSON.parse(await readFile(this.fixturePath, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error(
+        `Permit fixtures in ${this.fixturePath} must be an array`,
+      );
+    }
+    this.permits = parsed;
+    return parsed;
+  }
+
+  async search(address: string): Promise<PermitSearchResult> {
+    return {
+      resolvedAddress: null,
+      ...searchPermitList(address, await this.load()),
+    };
+  }
+
+  async searchZip(zip: string): Promise<PermitData[]> {
+    return searchPermitArea(zip, await this.load());
+  }
+}
+
+function createPermitProvider(name: PermitProviderName): PermitProvider | null {
+  switch (name) {
+    case "shovels":
+      return process.env.SHOVELS_API_KEY
+        ? new ShovelsPermitProvider(process.env.SHOVELS_API_KEY)
+        : null;
+    case "county":
+      return process.env.COUNTY_PERMITS_CSV
+        ? new CountyCsvPermitProvider(process.env.COUNTY_PERMITS_CSV)
+        : null;
+    case "local":
+      // Sample data is never offered in production unless it's the default.
+      return process.env.NODE_ENV !== "production" ||
+        process.env.PERMIT_PROVIDER === "local"
+        ? new LocalPermitProvider(process.env.PERMIT_FIXTURES)
+        : null;
+  }
+}
+
+export function isPermitProviderName(
+  value: unknown,
+): value is PermitProviderName {
+  return PERMIT_PROVIDERS.includes(value as PermitProviderName);
+}
+
+const providers = new Map<PermitProviderName, PermitProvider>();
+for (const name of PERMIT_PROVIDERS) {
+  const provider = createPermitProvider(name);
+  if (provider) providers.set(name, provider);
+}
+
+// The deployment's provider, from PERMIT_PROVIDER (Shovels by default).
+export const defaultPermitProviderName: PermitProviderName =
+  isPermitProviderName(process.env.PERMIT_PROVIDER)
+    ? process.env.PERMIT_PROVIDER
+    : "shovels";
+
+export function getAvailablePermitProviders(): PermitProviderName[] {
+  return PERMIT_PROVIDERS.filter((name) => providers.has(name));
+}
+
+// The user's chosen provider when it's configured here, otherwise the
+// deployment default. Null when neither is configured.
+export function getPermitProvider(
+  preferred?: string | null,
+): PermitProvider | null {
+  if (isPermitProviderName(preferred) && providers.has(preferred)) {
+    return providers.get(preferred)!;
+  }
+  return providers.get(defaultPermitProviderName) ?? null;
+}
@@ -0,0 +1,244 @@
+// Permits saved to a project. "history" permits are copied from a permit
+// search so the property's record stays with the job; a "project" permit is
+// the one the contractor pulls for this reroof and tracks through inspection.
+
+export const PERMIT_KINDS = ["history", "project"] as const;
+
+export type PermitKind = (typeof PERMIT_KINDS)[number];
+
+export const PROJECT_PERMIT_STATUSES = [
+  "planned",
+  "applied",
+  "issued",
+  "final",
+  "expired",
+] as const;
+
+export type ProjectPermitStatus = (typeof PROJECT_PERMIT_STATUSES)[number];
+
+export const PROJECT_PERMIT_STATUS_LABELS: Record<ProjectPermitStatus, string> =
+  {
+    planned: "Not Applied",
+    applied: "Applied",
+    issued: "Issued",
+    final: "Finaled",
+    expired: "Expired",
+  };
+
+// Statuses a permit search reports, from PermitData.
+export const HISTORY_PERMIT_STATUSES = [
+  "approved",
+  "pending",
+  "expired",
+] as const;
+
+export const INSPECTION_RESULTS = ["scheduled", "passed", "failed"] as const;
+
+export type InspectionResult = (typeof INSPECTION_RESULTS)[number];
+
+export interface PermitInspection {
+  id: string;
+  // e.g. "Deck", "Final".
+  type: string;
+  // YYYY-MM-DD
+  date: string;
+  result: InspectionResult;
+}
+
+// Fields accepted when saving or editing a permit. Dates are YYYY-MM-DD.
+export interface PermitRecordInput {
+  kind: PermitKind;
+  source: string | null;
+  sourceId: string | null;
+  permitNumber: string | null;
+  jurisdiction: string | null;
+  address: string | null;
+  permitType: string;
+  description: string | null;
+  status: string;
+  fee: number | null;
+  value: number | null;
+  contractorName: string | null;
+  appliedDate: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  inspections: PermitInspection[];
+}
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_INSPECTIONS = 20;
+const MAX_AMOUNT = 10_000_000;
+
+export function getPermitStatusLabel(kind: string, status: string): string {
+  if (kind === "project") {
+    return (
+      PROJECT_PERMIT_STATUS_LABELS[status as ProjectPermitStatus] ?? status
+    );
+  }
+  return status === "approved"
+    ? "Active"
+    : status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function readText(
+  value: unknown,
+  label: string,
+  maxLength = MAX_TEXT_LENGTH,
+): { error: string } | { value: string | null } {
+  if (value === undefined || value === null || value === "") {
+    return { value: null };
+  }
+  if (typeof value !== "string") return { error: `${label} must be text` };
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    return { error: `${label} must be ${maxLength} characters or less` };
+  }
+  return { value: trimmed || null };
+}
+
+function readAmount(
+  value: unknown,
+  label: string,
+): { error: string } | { value: number | null } {
+  if (value === undefined || value === null || value === "") {
+    return { value: null };
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0 || amount > MAX_AMOUNT) {
+    return { error: `${label} must be a positive amount` };
+  }
+  return { value: Math.round(amount * 100) / 100 };
+}
+
+// Accepts YYYY-MM-DD or a full ISO timestamp and returns YYYY-MM-DD.
+function readDate(
+  value: unknown,
+  label: string,
+): { error: string } | { value: string | null } {
+  if (value === undefined || value === null || value === "") {
+    return { value: null };
+  }
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return { error: `${label} must be a date (YYYY-MM-DD)` };
+  }
+  const date = new Date(value.slice(0, 10) + "T00:00:00Z");
+  if (Number.isNaN(date.getTime())) {
+    return { error: `${label} must be a date (YYYY-MM-DD)` };
+  }
+  return { value: value.slice(0, 10) };
+}
+
+function validateInspections(
+  value: unknown,
+): { error: string } | { value: PermitInspection[] } {
+  if (value === undefined || value === null) return { value: [] };
+  if (!Array.isArray(value)) return { error: "inspections must be a list" };
+  if (value.length > MAX_INSPECTIONS) {
+    return {
+      error: `A permit can have at most ${MAX_INSPECTIONS} inspections`,
+    };
+  }
+
+  const inspections: PermitInspection[] = [];
+  for (const [index, raw] of value.entries()) {
+    const label = `Inspection ${index + 1}`;
+    if (!raw || typeof raw !== "object") {
+      return { error: `${label} is invalid` };
+    }
+    const type = readText(raw.type, `${label} type`, 60);
+    if ("error" in type) return type;
+    const date = readDate(raw.date, `${label} date`);
+    if ("error" in date) return date;
+    if (!date.value) return { error: `${label} needs a date` };
+    if (!INSPECTION_RESULTS.includes(raw.result)) {
+      return { error: `${label} result must be scheduled, passed or failed` };
+    }
+    inspections.push({
+      id:
+        typeof raw.id === "string" && raw.id
+          ? raw.id.slice(0, 40)
+          : String(index + 1),
+      type: type.value || "Inspection",
+      date: date.value,
+      result: raw.result,
+    });
+  }
+  return { value: inspections };
+}
+
+// Validates a permit sent to the API. Project permits need a status from
+// PROJECT_PERMIT_STATUSES; saved history permits keep the search's status.
+export function validatePermitRecord(
+  value: unknown,
+): { error: string } | { permit: PermitRecordInput } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Permit is required" };
+  }
+  const raw = value as Record<string, unknown>;
+
+  const kind = raw.kind ?? "project";
+  if (!PERMIT_KINDS.includes(kind as PermitKind)) {
+    return { error: "kind must be history or project" };
+  }
+  const statuses: readonly string[] =
+    kind === "project" ? PROJECT_PERMIT_STATUSES : HISTORY_PERMIT_STATUSES;
+  const status = raw.status ?? (kind === "project" ? "planned" : "pending");
+  if (typeof status !== "string" || !statuses.includes(status)) {
+    return { error: `status must be one of ${statuses.join(", ")}` };
+  }
+
+  const fields = {
+    source: readText(raw.source, "source", 40),
+    sourceId: readText(raw.sourceId, "sourceId"),
+    permitNumber: readText(raw.permitNumber, "Permit number", 60),
+    jurisdiction: readText(raw.jurisdiction, "Jurisdiction"),
+    address: readText(raw.address, "Address"),
+    permitType: readText(raw.permitType, "Permit type", 100),
+    description: readText(
+      raw.description,
+      "Description",
+      MAX_DESCRIPTION_LENGTH,
+    ),
+    contractorName: readText(raw.contractorName, "Contractor"),
+  };
+  for (const field of Object.values(fields)) {
+    if ("error" in field) return field;
+  }
+  const fee = readAmount(raw.fee, "Fee");
+  if ("error" in fee) return fee;
+  const amount = readAmount(raw.value, "Value");
+  if ("error" in amount) return amount;
+  const appliedDate = readDate(raw.appliedDate, "Applied date");
+  if ("error" in appliedDate) return appliedDate;
+  const issueDate = readDate(raw.issueDate, "Issue date");
+  if ("error" in issueDate) return issueDate;
+  const expiryDate = readDate(raw.expiryDate, "Expiry date");
+  if ("error" in expiryDate) return expiryDate;
+  const inspections = validateInspections(raw.inspections);
+  if ("error" in inspections) return inspections;
+
+  const text = (field: { error: string } | { value: string | null }) =>
+    "value" in field ? field.value : null;
+  return {
+    permit: {
+      kind: kind as PermitKind,
+      source: text(fields.source),
+      sourceId: text(fields.sourceId),
+      permitNumber: text(fields.permitNumber),
+      jurisdiction: text(fields.jurisdiction),
+      address: text(fields.address),
+      permitType:
+        text(fields.permitType) || (kind === "project" ? "Reroof" : "Permit"),
+      description: text(fields.description),
+      status,
+      fee: fee.value,
+      value: amount.value,
+      contractorName: text(fields.contractorName),
+      appliedDate: appliedDate.value,
+      issueDate: issueDate.value,
+      expiryDate: expiryDate.value,
+      inspections: inspections.value,
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { isRoofingPermit } from "@shared/roof-age";
+
+export interface PermitData {
+  id: string;
+  address: string;
+  permitType: string;
+  status: "approved" | "pending" | "expired";
+  issueDate: string;
+  expiryDate?: string;
+  contractor?: {
+    name: string;
+    phone?: string;
+    email?: string;
+  };
+  value?: number;
+  description?: string;
+}
+
+export interface PermitSearchResult {
+  // The address the permit source matched, when it could resolve one.
+  resolvedAddress: string | null;
+  // Permits filed for this property.
+  property: PermitData[];
+  // Roofing permits at other addresses in the same ZIP.
+  nearby: PermitData[];
+}
+
+export interface StreetAddress {
+  number: string;
+  street: string;
+  unit: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+}
+
+const STREET_SUFFIXES: Record<string, string> = {
+  avenue: "ave",
+  av: "ave",
+  boulevard: "blvd",
+  circle: "cir",
+  court: "ct",
+  drive: "dr",
+  expressway: "expy",
+  highway: "hwy",
+  lane: "ln",
+  parkway: "pkwy",
+  place: "pl",
+  road: "rd",
+  square: "sq",
+  street: "st",
+  terrace: "ter",
+  trail: "trl",
+  way: "way",
+};
+
+const DIRECTIONS: Record<string, string> = {
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+};
+
+const UNIT_PATTERN = /\s+(?:apt|apartment|unit|suite|ste|#)\s*([\w-]+)$/;
+
+const MAX_PROPERTY_PERMITS = 25;
+const MAX_NEARBY_PERMITS = 10;
+const MAX_AREA_PERMITS = 50;
+
+function normalizeWords(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_SUFFIXES[word] || DIRECTIONS[word] || word)
+    .join(" ");
+}
+
+// Splits "123 N Main Street Apt 4, Springfield, IL 62701" into comparable
+// parts. Returns null when there's no street number to match on.
+export function parseStreetAddress(address: string): StreetAddress | null {
+  const parts = address
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  let line = normalizeWords(parts[0]).replace(/#/g, " # ");
+  line = line.replace(/\s+/g, " ").trim();
+  const match = line.match(/^(\d+[a-z]?)\s+(.+)$/);
+  if (!match) return null;
+
+  let street = match[2];
+  let unit: string | null = null;
+  const unitMatch = street.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = unitMatch[1];
+    street = street.slice(0, unitMatch.index).trim();
+  }
+
+  const rest = parts.slice(1).join(" ");
+  const zip = rest.match(/\b(\d{5})(?:-\d{4})?\b/)?.[1] ?? null;
+  const state = rest.match(/\b([A-Za-z]{2})\b(?=\s*\d{5}|\s*$)/)?.[1] ?? null;
+  const city = parts.length > 2 ? normalizeWords(parts[1]) : null;
+
+  return {
+    number: match[1],
+    street,
+    unit,
+    city,
+    state: state ? state.toUpperCase() : null,
+    zip,
+  };
+}
+
+// Same house number and street; ZIP, city and unit only have to agree when
+// both sides have them, since permit records often leave them out.
+export function isSameProperty(a: StreetAddress, b: StreetAddress): boolean {
+  if (a.number !== b.number || a.street !== b.street) return false;
+  if (a.zip && b.zip && a.zip !== b.zip) return false;
+  if (!(a.zip && b.zip) && a.city && b.city && a.city !== b.city) return false;
+  if (a.unit && b.unit && a.unit !== b.unit) return false;
+  return true;
+}
+
+export function mapPermitStatus(
+  status: string,
+): "approved" | "pending" | "expired" {
+  if (!status) return "pending";
+  const s = status.toLowerCase();
+  if (
+    s.includes("issued") ||
+    s.includes("approved") ||
+    s.includes("final") ||
+    s.includes("complete")
+  ) {
+    return "approved";
+  }
+  if (
+    s.includes("expired") ||
+    s.includes("closed") ||
+    s.includes("cancelled")
+  ) {
+    return "expired";
+  }
+  return "pending";
+}
+
+// Sorts permits into the property's own and nearby roofing work, newest
+// first. Permits the source already tied to the parcel are passed as
+// confirmed and kept even if their address is written differently.
+export function splitPermitsByProperty(
+  address: string,
+  permits: PermitData[],
+  confirmed: PermitData[] = [],
+): Omit<PermitSearchResult, "resolvedAddress"> {
+  const target = parseStreetAddress(address);
+  const byDate = (a: PermitData, b: PermitData) =>
+    new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime();
+  const seen = new Set<string>();
+  const property: PermitData[] = [];
+  const nearby: PermitData[] = [];
+
+  for (const permit of confirmed) {
+    if (seen.has(permit.id)) continue;
+    seen.add(permit.id);
+    property.push(permit);
+  }
+  for (const permit of permits) {
+    if (seen.has(permit.id)) continue;
+    seen.add(permit.id);
+    const parsed = parseStreetAddress(permit.address);
+    if (target && parsed && isSameProperty(target, parsed)) {
+      property.push(permit);
+    } else if (isRoofingPermit(permit)) {
+      nearby.push(permit);
+    }
+  }
+
+  return {
+    property: property.sort(byDate).slice(0, MAX_PROPERTY_PERMITS),
+    nearby: nearby.sort(byDate).slice(0, MAX_NEARBY_PERMITS),
+  };
+}
+
+// For sources that return a whole area's permits: keeps the property's own
+// and roofing work in the same ZIP.
+export function searchPermitList(
+  address: string,
+  permits: PermitData[],
+): Omit<PermitSearchResult, "resolvedAddress"> {
+  const zip = parseStreetAddress(address)?.zip;
+  const inArea = zip
+    ? permits.filter((permit) => {
+        const parsed = parseStreetAddress(permit.address);
+        return !parsed?.zip || parsed.zip === zip;
+      })
+    : permits;
+  return splitPermitsByProperty(address, inArea);
+}
+
+// Roofing permits filed anywhere in a ZIP code, newest first.
+export function searchPermitArea(
+  zip: string,
+  permits: PermitData[],
+): PermitData[] {
+  return permits
+    .filter((permit) => {
+      const parsed = parseStreetAddress(permit.address);
+      return parsed?.zip === zip && isRoofingPermit(permit);
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime(),
+    )
+    .slice(0, MAX_AREA_PERMITS);
+}
@@ -0,0 +1,278 @@
+import type { PermitWatch } from "@shared/schema";
+import { storage } from "./storage";
+import { getPermitProvider } from "./permit-providers";
+import { parseStreetAddress, type PermitData } from "./permit-search";
+
+export const PERMIT_WATCH_KINDS = ["address", "zip"] as const;
+
+export type PermitWatchKind = (typeof PERMIT_WATCH_KINDS)[number];
+
+export const MAX_PERMIT_WATCHES = 25;
+// Above this many changes in one check, a single summary notification is
+// sent instead of one per permit.
+const MAX_NOTIFICATIONS_PER_CHECK = 5;
+
+const DEFAULT_INTERVAL_MINUTES = 360;
+// How often the job looks for watches that are due.
+const TICK_MS = 15 * 60 * 1000;
+
+const STATUS_LABELS: Record<string, string> = {
+  approved: "Active",
+  pending: "Pending",
+  expired: "Expired",
+};
+
+type Snapshot = Record<string, string>;
+
+export interface PermitWatchChanges {
+  filed: PermitData[];
+  changed: { permit: PermitData; previousStatus: string }[];
+}
+
+export interface PermitWatchCheck extends PermitWatchChanges {
+  watch: PermitWatch;
+  // True when this check only recorded a baseline.
+  baseline: boolean;
+}
+
+export function validatePermitWatch(
+  value: unknown,
+): { error: string } | { watch: { kind: PermitWatchKind; query: string } } {
+  if (!value || typeof value !== "object") {
+    return { error: "Watch is required" };
+  }
+  const { kind, query } = value as Record<string, unknown>;
+  if (!PERMIT_WATCH_KINDS.includes(kind as PermitWatchKind)) {
+    return { error: "kind must be address or zip" };
+  }
+  if (typeof query !== "string" || !query.trim()) {
+    return {
+      error: kind === "zip" ? "ZIP code is required" : "Address is required",
+    };
+  }
+
+  const trimmed = query.trim().replace(/\s+/g, " ");
+  if (kind === "zip") {
+    if (!/^\d{5}$/.test(trimmed)) {
+      return { error: "ZIP code must be five digits" };
+    }
+    return { watch: { kind, query: trimmed } };
+  }
+  if (trimmed.length > 200) {
+    return { error: "Address must be 200 characters or less" };
+  }
+  if (!parseStreetAddress(trimmed)) {
+    return { error: "Address must start with a street number" };
+  }
+  return { watch: { kind: "address", query: trimmed } };
+}
+
+// Compares a fresh search with the last snapshot. Permits that dropped out
+// of the results are ignored; sources only return a recent window.
+export function diffPermits(
+  previous: Snapshot,
+  permits: PermitData[],
+): PermitWatchChanges {
+  const filed: PermitData[] = [];
+  const changed: PermitWatchChanges["changed"] = [];
+  for (const permit of permits) {
+    const previousStatus = previous[permit.id];
+    if (previousStatus === undefined) {
+      filed.push(permit);
+    } else if (previousStatus !== permit.status) {
+      changed.push({ permit, previousStatus });
+    }
+  }
+  return { filed, changed };
+}
+
+function formatIssueDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+}
+
+// The street part of an address, for notification titles.
+function shortAddress(address: string): string {
+  return address.split(",")[0].trim() || address;
+}
+
+async function notifyChanges(watch: PermitWatch, changes: PermitWatchChanges) {
+  const total = changes.filed.length + changes.changed.length;
+  if (total === 0) return;
+  const place =
+    watch.kind === "zip" ? `ZIP ${watch.query}` : shortAddress(watch.query);
+
+  if (total > MAX_NOTIFICATIONS_PER_CHECK) {
+    await storage.createNotification({
+      userId: watch.userId,
+      type: "permit_watch_summary",
+      title: `${total} permit updates for ${place}`,
+      body: [
+        changes.filed.length > 0 ? `${changes.filed.length} new` : null,
+        changes.changed.length > 0
+          ? `${changes.changed.length} status changes`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      projectId: null,
+      data: {
+        watchId: watch.id,
+        permitIds: [
+          ...changes.filed,
+          ...changes.changed.map((c) => c.permit),
+        ].map((p) => p.id),
+      },
+    });
+    return;
+  }
+
+  for (const permit of changes.filed) {
+    await storage.createNotification({
+      userId: watch.userId,
+      type: "permit_filed",
+      title: `New ${permit.permitType.toLowerCase()} permit at ${shortAddress(permit.address || watch.query)}`,
+      body: [
+        permit.id,
+        STATUS_LABELS[permit.status] ?? permit.status,
+        formatIssueDate(permit.issueDate),
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      projectId: null,
+      data: {
+        watchId: watch.id,
+        permitId: permit.id,
+        address: permit.address,
+        status: permit.status,
+      },
+    });
+  }
+  for (const { permit, previousStatus } of changes.changed) {
+    await storage.createNotification({
+      userId: watch.userId,
+      type: "permit_status_changed",
+      title: `Permit ${permit.id} is now ${STATUS_LABELS[permit.status] ?? permit.status}`,
+      body: `${permit.permitType} at ${shortAddress(permit.address || watch.query)}, was ${
+        STATUS_LABELS[previousStatus] ?? previousStatus
+      }`,
+      projectId: null,
+      data: {
+        watchId: watch.id,
+        permitId: permit.id,
+        address: permit.address,
+        status: permit.status,
+        previousStatus,
+      },
+    });
+  }
+}
+
+// Re-runs the watch's search through the owner's permit provider, notifies
+// them of new permits and status changes, and stores the new snapshot. The
+// first check, and the first after the provider changes, only records a
+// baseline. Search errors are saved on the watch rather than thrown.
+export async function checkPermitWatch(
+  watch: PermitWatch,
+): Promise<PermitWatchCheck> {
+  const unchanged = { filed: [], changed: [], baseline: false };
+  const user = await storage.getUser(watch.userId);
+  const provider = getPermitProvider(user?.permitProvider);
+  if (!provider) {
+    const updated = await storage.updatePermitWatch(watch.id, {
+      lastCheckedAt: new Date(),
+      lastError: "Permit lookup is not configured",
+    });
+    return { watch: updated ?? watch, ...unchanged };
+  }
+
+  let permits: PermitData[];
+  try {
+    permits =
+      watch.kind === "zip"
+        ? await provider.searchZip(watch.query)
+        : (await provider.search(watch.query)).property;
+  } catch (error) {
+    console.error("Permit watch search error:", error);
+    const updated = await storage.updatePermitWatch(watch.id, {
+      lastCheckedAt: new Date(),
+      lastError: "Permit search failed",
+    });
+    return { watch: updated ?? watch, ...unchanged };
+  }
+
+  const previous = watch.snapshot as Snapshot | null;
+  const baseline = !previous || watch.provider !== provider.name;
+  const changes = baseline
+    ? { filed: [], changed: [] }
+    : diffPermits(previous, permits);
+
+  // Notifications go out before the snapshot is saved: if one fails, the
+  // check throws and the same changes are found again next time.
+  await notifyChanges(watch, changes);
+
+  // Permits that fell out of the search window stay in the snapshot so they
+  // aren't reported as new if they come back.
+  const snapshot: Snapshot = baseline ? {} : { ...previous };
+  for (const permit of permits) {
+    snapshot[permit.id] = permit.status;
+  }
+  const updated = await storage.updatePermitWatch(watch.id, {
+    provider: provider.name,
+    snapshot,
+    lastCheckedAt: new Date(),
+    lastError: null,
+  });
+
+  return { watch: updated ?? watch, ...changes, baseline };
+}
+
+function getIntervalMs(): number {
+  const minutes = parseInt(process.env.PERMIT_WATCH_INTERVAL_MINUTES || "", 10);
+  return (
+    (Number.isFinite(minutes) && minutes > 0
+      ? minutes
+      : DEFAULT_INTERVAL_MINUTES) *
+    60 *
+    1000
+  );
+}
+
+let running = false;
+
+// Checks every watch not checked within the interval, one at a time.
+export async function runPermitWatchJob(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const due = await storage.getPermitWatchesCheckedBefore(
+      new Date(Date.now() - getIntervalMs()),
+    );
+    for (const watch of due) {
+      try {
+        await checkPermitWatch(watch);
+      } catch (error) {
+        console.error("Permit watch check error:", error);
+      }
+    }
+  } catch (error) {
+    console.error("Permit watch job error:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Starts the schedule. Set PERMIT_WATCH_INTERVAL_MINUTES to change how often
+// each watch is re-checked (six hours by default), or to 0 to turn it off.
+export function startPermitWatchJob(): void {
+  if (process.env.PERMIT_WATCH_INTERVAL_MINUTES === "0") return;
+  const tickMs = Math.min(TICK_MS, getIntervalMs());
+  setInterval(runPermitWatchJob, tickMs);
+}
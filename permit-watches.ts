@@ -0,0 +1,65 @@
+import { apiRequest, apiRequestSafe } from "@/lib/query-client";
+
+export type PermitWatchKind = "address" | "zip";
+
+export interface PermitWatch {
+  id: string;
+  kind: PermitWatchKind;
+  query: string;
+  provider: string | null;
+  // Permits found on the last check; null until the first check succeeds.
+  permitCount: number | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export async function loadPermitWatches(): Promise<PermitWatch[]> {
+  const response = await apiRequestSafe("GET", "/api/permit-watches");
+  if (!response.ok) {
+    throw new Error(`Failed to load watchlist (${response.status})`);
+  }
+  const data = await response.json();
+  return data.watches;
+}
+
+// Watching the same address or ZIP twice returns the existing watch.
+export async function addPermitWatch(
+  kind: PermitWatchKind,
+  query: string,
+): Promise<PermitWatch> {
+  const response = await apiRequestSafe("POST", "/api/permit-watches", {
+    kind,
+    query,
+  });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to add to watchlist");
+  }
+  return data.watch;
+}
+
+export async function checkPermitWatch(
+  id: string,
+): Promise<{ watch: PermitWatch; filed: number; changed: number }> {
+  const response = await apiRequest("POST", `/api/permit-watches/${id}/check`);
+  const data = await response.json();
+  return { watch: data.watch, filed: data.filed, changed: data.changed };
+}
+
+export async function deletePermitWatch(id: string): Promise<void> {
+  await apiRequest("DELETE", `/api/permit-watches/${id}`);
+}
+
+export function describePermitWatch(watch: PermitWatch): string {
+  if (watch.lastError) return watch.lastError;
+  if (!watch.lastCheckedAt) return "Not checked yet";
+  const checked = new Date(watch.lastCheckedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const count = watch.permitCount ?? 0;
+  return `${count} ${count === 1 ? "permit" : "permits"} · checked ${checked}`;
+}
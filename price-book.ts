@@ -0,0 +1,78 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+import {
+  DEFAULT_MATERIALS,
+  DEFAULT_ACCESSORIES,
+  type MaterialPricing,
+  type AccessoryPricingTable,
+} from "@shared/estimate";
+
+const PRICE_BOOK_STORAGE_KEY = "roofmaster_price_book";
+
+export interface PriceBookMaterial extends MaterialPricing {
+  id?: string;
+}
+
+export interface PriceBook {
+  materials: PriceBookMaterial[];
+  accessories: AccessoryPricingTable;
+}
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  materials: DEFAULT_MATERIALS,
+  accessories: DEFAULT_ACCESSORIES,
+};
+
+async function getCachedPriceBook(): Promise<PriceBook> {
+  try {
+    const stored = await AsyncStorage.getItem(PRICE_BOOK_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        materials: parsed.materials?.length
+          ? parsed.materials
+          : DEFAULT_MATERIALS,
+        accessories: { ...DEFAULT_ACCESSORIES, ...parsed.accessories },
+      };
+    }
+  } catch (error) {
+    console.error("Failed to read cached price book:", error);
+  }
+  return DEFAULT_PRICE_BOOK;
+}
+
+export async function cachePriceBook(priceBook: PriceBook): Promise<void> {
+  await AsyncStorage.setItem(PRICE_BOOK_STORAGE_KEY, JSON.stringify(priceBook));
+}
+
+// Fetches the signed-in company's price book, falling back to the last cached
+// copy (or the built-in defaults) for guests and when offline.
+export async function loadPriceBook(): Promise<PriceBook> {
+  const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+  if (isGuest === "true") {
+    return getCachedPriceBook();
+  }
+
+  try {
+    const response = await apiRequestSafe("GET", "/api/price-book");
+    if (response.ok) {
+      const data = await response.json();
+      if (data.success && data.priceBook) {
+        const priceBook: PriceBook = {
+          materials: data.priceBook.materials,
+          accessories: {
+            ...DEFAULT_ACCESSORIES,
+            ...data.priceBook.accessories,
+          },
+        };
+        await cachePriceBook(priceBook);
+        return priceBook;
+      }
+    }
+  } catch (error) {
+    console.log("Failed to load price book from server, using cache:", error);
+  }
+
+  return getCachedPriceBook();
+}
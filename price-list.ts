@@ -0,0 +1,369 @@
+import {
+  ACCESSORY_CATEGORIES,
+  SHINGLE_MATERIAL_SHARE,
+  isAccessoryCategory,
+  type AccessoryCategory,
+  type AccessoryPricingTable,
+  type MaterialPricing,
+} from "./estimate";
+
+// A price list target is either "material:<materialKey>" or
+// "accessory:<category>". SKIP_TARGET marks a SKU the contractor never wants
+// imported (tools, disposal fees, ...).
+export type PriceListTarget = string;
+
+export const SKIP_TARGET = "skip";
+
+type PriceListMaterial = Pick<
+  MaterialPricing,
+  "materialKey" | "name" | "pricePerSquare" | "bundlesPerSquare"
+>;
+
+export interface PriceListRow {
+  line: number;
+  sku: string;
+  description: string;
+  unit: string;
+  price: number;
+  category: string;
+}
+
+export interface ParsedPriceList {
+  rows: PriceListRow[];
+  warnings: string[];
+}
+
+export interface PriceListDiffRow extends PriceListRow {
+  target: PriceListTarget | null;
+  targetLabel: string | null;
+  currentCost: number | null;
+  newCost: number | null;
+  status: "changed" | "unchanged" | "unmapped" | "duplicate";
+}
+
+const HEADER_ALIASES: Record<keyof Omit<PriceListRow, "line">, string[]> = {
+  sku: [
+    "sku",
+    "item",
+    "item #",
+    "item no",
+    "item number",
+    "part",
+    "part #",
+    "part number",
+    "product code",
+    "code",
+  ],
+  description: [
+    "description",
+    "desc",
+    "item description",
+    "product",
+    "product name",
+    "name",
+  ],
+  unit: ["unit", "uom", "u/m", "unit of measure"],
+  price: [
+    "price",
+    "unit price",
+    "cost",
+    "unit cost",
+    "net price",
+    "net",
+    "each",
+  ],
+  category: ["category", "type", "product category"],
+};
+
+// Checked in order: more specific phrases come before the generic ones they
+// contain (e.g. "ridge vent" is a vent, "starter shingles" are starter).
+const ACCESSORY_KEYWORDS: [AccessoryCategory, string[]][] = [
+  ["vents", ["vent"]],
+  ["starter", ["starter"]],
+  ["ridgeCap", ["ridge cap", "hip & ridge", "hip and ridge", "ridge"]],
+  [
+    "iceShield",
+    ["ice & water", "ice and water", "ice shield", "ice/water", "water shield"],
+  ],
+  ["dripEdge", ["drip edge", "drip-edge"]],
+  ["flashing", ["flashing", "step flash"]],
+  ["underlayment", ["underlayment", "felt", "synthetic"]],
+  ["nails", ["nail", "fastener"]],
+];
+
+const MATERIAL_KEYWORDS: [string, string[]][] = [
+  ["three-tab", ["3-tab", "3 tab", "three tab", "three-tab"]],
+  ["architectural", ["architectural", "dimensional", "laminate"]],
+  ["standing-seam", ["standing seam", "standing-seam"]],
+  ["metal-pbr", ["pbr", "r-panel"]],
+];
+
+const SQUARE_UNITS = ["sq", "sqs", "square", "squares"];
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim().length > 0));
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function parsePrice(value: string): number {
+  const n = parseFloat(value.replace(/[$,\s]/g, ""));
+  return Number.isFinite(n) ? n : NaN;
+}
+
+export function parseSupplierPriceList(text: string): ParsedPriceList {
+  const warnings: string[] = [];
+  const table = parseCsv(text.replace(/^﻿/, ""));
+
+  const headerIndex = table.findIndex((row) =>
+    row.some((cell) => HEADER_ALIASES.price.includes(normalizeHeader(cell))),
+  );
+  if (headerIndex === -1) {
+    return {
+      rows: [],
+      warnings: ["Could not find a price column in the header row"],
+    };
+  }
+
+  const header = table[headerIndex].map(normalizeHeader);
+  const columns = {} as Record<keyof typeof HEADER_ALIASES, number>;
+  for (const key of Object.keys(
+    HEADER_ALIASES,
+  ) as (keyof typeof HEADER_ALIASES)[]) {
+    columns[key] = header.findIndex((h) => HEADER_ALIASES[key].includes(h));
+  }
+
+  if (columns.sku === -1 && columns.description === -1) {
+    return {
+      rows: [],
+      warnings: ["Price list needs a SKU or description column"],
+    };
+  }
+
+  const rows: PriceListRow[] = [];
+  table.slice(headerIndex + 1).forEach((cells, index) => {
+    const line = headerIndex + index + 2;
+    const cell = (column: number) =>
+      column >= 0 ? (cells[column] || "").trim() : "";
+
+    const price = parsePrice(cell(columns.price));
+    if (!Number.isFinite(price) || price < 0) {
+      warnings.push(
+        `Line ${line}: skipped, invalid price "${cell(columns.price)}"`,
+      );
+      return;
+    }
+
+    const description = cell(columns.description);
+    rows.push({
+      line,
+      sku: cell(columns.sku) || description,
+      description,
+      unit: cell(columns.unit),
+      price,
+      category: cell(columns.category),
+    });
+  });
+
+  return { rows, warnings };
+}
+
+export function getTargetLabel(
+  target: PriceListTarget,
+  materials: PriceListMaterial[],
+): string {
+  const [type, key] = target.split(":");
+  if (type === "material") {
+    const material = materials.find((m) => m.materialKey === key);
+    return material ? `${material.name} (per square)` : key;
+  }
+  const accessory = ACCESSORY_CATEGORIES.find((a) => a.category === key);
+  return accessory ? `${accessory.label} (per ${accessory.unit})` : key;
+}
+
+export function getTargetOptions(
+  materials: PriceListMaterial[],
+): { target: PriceListTarget; label: string }[] {
+  return [
+    ...materials.map((m) => `material:${m.materialKey}`),
+    ...ACCESSORY_CATEGORIES.map((a) => `accessory:${a.category}`),
+  ].map((target) => ({ target, label: getTargetLabel(target, materials) }));
+}
+
+export function isValidTarget(
+  target: unknown,
+  materials: PriceListMaterial[],
+): target is PriceListTarget {
+  if (typeof target !== "string") return false;
+  const [type, key] = target.split(":");
+  if (type === "accessory") return isAccessoryCategory(key);
+  if (type === "material") return materials.some((m) => m.materialKey === key);
+  return false;
+}
+
+// Guesses which price book entry a supplier line belongs to from its category
+// column and description.
+export function detectTarget(
+  row: PriceListRow,
+  materials: PriceListMaterial[],
+): PriceListTarget | null {
+  const text = `${row.category} ${row.description}`.toLowerCase();
+
+  for (const [category, keywords] of ACCESSORY_KEYWORDS) {
+    if (keywords.some((keyword) => text.includes(keyword))) {
+      return `accessory:${category}`;
+    }
+  }
+
+  const byName = materials.find((m) => text.includes(m.name.toLowerCase()));
+  if (byName) {
+    return `material:${byName.materialKey}`;
+  }
+
+  for (const [materialKey, keywords] of MATERIAL_KEYWORDS) {
+    if (
+      materials.some((m) => m.materialKey === materialKey) &&
+      keywords.some((keyword) => text.includes(keyword))
+    ) {
+      return `material:${materialKey}`;
+    }
+  }
+
+  return null;
+}
+
+// Converts a supplier price into the unit the price book stores: accessory
+// prices are per unit as-is, shingle prices per bundle or per square are
+// converted to the per-square selling price the estimate engine expects.
+export function toPriceBookCost(
+  row: PriceListRow,
+  target: PriceListTarget,
+  materials: PriceListMaterial[],
+): number | null {
+  const [type, key] = target.split(":");
+  if (type === "accessory") {
+    return row.price;
+  }
+
+  const material = materials.find((m) => m.materialKey === key);
+  if (!material) return null;
+
+  const perSquare = SQUARE_UNITS.includes(row.unit.toLowerCase())
+    ? row.price
+    : row.price * material.bundlesPerSquare;
+  return Math.round(perSquare / SHINGLE_MATERIAL_SHARE);
+}
+
+export function getCurrentCost(
+  target: PriceListTarget,
+  materials: PriceListMaterial[],
+  accessories: AccessoryPricingTable,
+): number | null {
+  const [type, key] = target.split(":");
+  if (type === "accessory") {
+    return isAccessoryCategory(key) ? accessories[key].unitCost : null;
+  }
+  const material = materials.find((m) => m.materialKey === key);
+  return material ? material.pricePerSquare : null;
+}
+
+export function diffPriceList(
+  rows: PriceListRow[],
+  mappings: Record<string, PriceListTarget>,
+  materials: PriceListMaterial[],
+  accessories: AccessoryPricingTable,
+): PriceListDiffRow[] {
+  const seenTargets = new Set<PriceListTarget>();
+
+  return rows.map((row) => {
+    const mapped = mappings[row.sku];
+    const target =
+      mapped === SKIP_TARGET
+        ? null
+        : isValidTarget(mapped, materials)
+          ? mapped
+          : detectTarget(row, materials);
+
+    if (!target) {
+      return {
+        ...row,
+        target: null,
+        targetLabel: null,
+        currentCost: null,
+        newCost: null,
+        status: "unmapped",
+      };
+    }
+
+    const targetLabel = getTargetLabel(target, materials);
+    const currentCost = getCurrentCost(target, materials, accessories);
+    const newCost = toPriceBookCost(row, target, materials);
+
+    if (seenTargets.has(target)) {
+      return {
+        ...row,
+        target,
+        targetLabel,
+        currentCost,
+        newCost,
+        status: "duplicate",
+      };
+    }
+    seenTargets.add(target);
+
+    return {
+      ...row,
+      target,
+      targetLabel,
+      currentCost,
+      newCost,
+      status:
+        newCost !== null && newCost !== currentCost ? "changed" : "unchanged",
+    };
+  });
+}
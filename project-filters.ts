@@ -0,0 +1,211 @@
+// Project listing filters shared by GET /api/projects and the app, which
+// applies the same rules to the projects on the device when it is offline.
+
+export const PROJECT_STATUSES = [
+  "draft",
+  "completed",
+  "accepted",
+  "declined",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const PROJECT_SORTS = [
+  "newest",
+  "oldest",
+  "updated",
+  "total_desc",
+  "total_asc",
+] as const;
+
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export const DEFAULT_PROJECT_PAGE_SIZE = 25;
+export const MAX_PROJECT_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 200;
+
+export interface ProjectFilters {
+  q?: string;
+  status?: ProjectStatus[];
+  material?: string;
+  from?: string;
+  to?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  sort?: ProjectSort;
+}
+
+// The fields a project needs for filtering; local projects carry a customer
+// snapshot, server rows a joined customer name and notes.
+export interface FilterableProject {
+  address?: string | null;
+  status?: string | null;
+  selectedMaterial?: string | null;
+  estimateTotal?: number | null;
+  createdAt: string | Date;
+  updatedAt?: string | Date | null;
+  customerName?: string | null;
+  customerNotes?: string | null;
+}
+
+function isProjectStatus(value: string): value is ProjectStatus {
+  return (PROJECT_STATUSES as readonly string[]).includes(value);
+}
+
+function isProjectSort(value: string): value is ProjectSort {
+  return (PROJECT_SORTS as readonly string[]).includes(value);
+}
+
+function parseDate(value: unknown, label: string): string | { error: string } {
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    return { error: `${label} must be a date` };
+  }
+  return date.toISOString();
+}
+
+function parseTotal(value: unknown, label: string): number | { error: string } {
+  const total = Number(value);
+  if (!isFinite(total) || total < 0) {
+    return { error: `${label} must be a non-negative number` };
+  }
+  return total;
+}
+
+// Validates query-string filters; unknown parameters are ignored.
+export function parseProjectFilters(
+  query: Record<string, unknown>,
+): { error: string } | { filters: ProjectFilters } {
+  const filters: ProjectFilters = {};
+
+  if (typeof query.q === "string" && query.q.trim()) {
+    filters.q = query.q.trim().slice(0, MAX_SEARCH_LENGTH);
+  }
+
+  if (typeof query.status === "string" && query.status) {
+    const statuses = query.status.split(",").map((s) => s.trim());
+    const invalid = statuses.find((s) => !isProjectStatus(s));
+    if (invalid) {
+      return { error: `Unknown status: ${invalid}` };
+    }
+    filters.status = statuses as ProjectStatus[];
+  }
+
+  if (typeof query.material === "string" && query.material) {
+    filters.material = query.material;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    if (query[key] !== undefined && query[key] !== "") {
+      const date = parseDate(query[key], key);
+      if (typeof date !== "string") return date;
+      filters[key] = date;
+    }
+  }
+
+  for (const key of ["minTotal", "maxTotal"] as const) {
+    if (query[key] !== undefined && query[key] !== "") {
+      const total = parseTotal(query[key], key);
+      if (typeof total !== "number") return total;
+      filters[key] = total;
+    }
+  }
+
+  if (
+    filters.minTotal !== undefined &&
+    filters.maxTotal !== undefined &&
+    filters.minTotal > filters.maxTotal
+  ) {
+    return { error: "minTotal cannot be greater than maxTotal" };
+  }
+
+  if (query.sort !== undefined) {
+    const sort = String(query.sort);
+    if (!isProjectSort(sort)) {
+      return { error: `Unknown sort: ${sort}` };
+    }
+    filters.sort = sort;
+  }
+
+  return { filters };
+}
+
+export function toProjectFilterQuery(
+  filters: ProjectFilters,
+): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (filters.q) query.q = filters.q;
+  if (filters.status?.length) query.status = filters.status.join(",");
+  if (filters.material) query.material = filters.material;
+  if (filters.from) query.from = filters.from;
+  if (filters.to) query.to = filters.to;
+  if (filters.minTotal !== undefined) query.minTotal = String(filters.minTotal);
+  if (filters.maxTotal !== undefined) query.maxTotal = String(filters.maxTotal);
+  if (filters.sort) query.sort = filters.sort;
+  return query;
+}
+
+// Words are matched by prefix so results update while the user is typing.
+export function getSearchTerms(q: string): string[] {
+  return q
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toTime(value: string | Date | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+export function matchesProjectFilters(
+  project: FilterableProject,
+  filters: ProjectFilters,
+): boolean {
+  const total = project.estimateTotal ?? 0;
+  const createdAt = toTime(project.createdAt);
+
+  if (filters.status?.length) {
+    const status = (project.status || "draft") as ProjectStatus;
+    if (!filters.status.includes(status)) return false;
+  }
+  if (filters.material && project.selectedMaterial !== filters.material) {
+    return false;
+  }
+  if (filters.from && createdAt < toTime(filters.from)) return false;
+  if (filters.to && createdAt > toTime(filters.to)) return false;
+  if (filters.minTotal !== undefined && total < filters.minTotal) return false;
+  if (filters.maxTotal !== undefined && total > filters.maxTotal) return false;
+
+  if (filters.q) {
+    const words = getSearchTerms(
+      [project.address, project.customerName, project.customerNotes]
+        .filter(Boolean)
+        .join(" "),
+    );
+    return getSearchTerms(filters.q).every((term) =>
+      words.some((word) => word.startsWith(term)),
+    );
+  }
+  return true;
+}
+
+export function compareProjects(
+  a: FilterableProject,
+  b: FilterableProject,
+  sort: ProjectSort = "newest",
+): number {
+  switch (sort) {
+    case "oldest":
+      return toTime(a.createdAt) - toTime(b.createdAt);
+    case "updated":
+      return (
+        toTime(b.updatedAt ?? b.createdAt) - toTime(a.updatedAt ?? a.createdAt)
+      );
+    case "total_desc":
+      return (b.estimateTotal ?? 0) - (a.estimateTotal ?? 0);
+    case "total_asc":
+      return (a.estimateTotal ?? 0) - (b.estimateTotal ?? 0);
+    default:
+      return toTime(b.createdAt) - toTime(a.createdAt);
+  }
+}
@@ -0,0 +1,145 @@
+import { apiRequest, apiRequestSafe } from "@/lib/query-client";
+import { syncProjects } from "@/lib/sync";
+import {
+  getPermitStatusLabel,
+  type PermitInspection,
+  type PermitKind,
+  type PermitRecordInput,
+} from "@shared/permit-records";
+
+export interface ProjectPermit {
+  id: string;
+  projectId: string;
+  kind: PermitKind;
+  source: string | null;
+  sourceId: string | null;
+  permitNumber: string | null;
+  jurisdiction: string | null;
+  address: string | null;
+  permitType: string;
+  description: string | null;
+  status: string;
+  fee: number | null;
+  value: number | null;
+  contractorName: string | null;
+  appliedDate: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  inspections: PermitInspection[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A permit as returned by /api/permits.
+export interface PermitSearchResult {
+  id: string;
+  address: string;
+  permitType: string;
+  status: "approved" | "pending" | "expired";
+  issueDate: string;
+  expiryDate?: string;
+  contractor?: { name: string };
+  value?: number;
+  description?: string;
+}
+
+export type ProjectPermitFields = Partial<Omit<PermitRecordInput, "kind">>;
+
+export async function loadProjectPermits(
+  projectId: string,
+): Promise<ProjectPermit[]> {
+  const response = await apiRequestSafe(
+    "GET",
+    `/api/projects/${projectId}/permits`,
+  );
+  // A project that hasn't reached the server yet has no permits saved.
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to load permits (${response.status})`);
+  }
+  const data = await response.json();
+  return data.permits;
+}
+
+async function createPermit(
+  projectId: string,
+  body: Partial<PermitRecordInput>,
+): Promise<ProjectPermit> {
+  // The project is synced first so the server knows about projects created
+  // offline.
+  await syncProjects();
+  const response = await apiRequestSafe(
+    "POST",
+    `/api/projects/${projectId}/permits`,
+    body,
+  );
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to save permit");
+  }
+  return data.permit;
+}
+
+// Copies a permit search result onto the project. Saving the same result
+// again returns the existing copy.
+export function savePermitToProject(
+  projectId: string,
+  permit: PermitSearchResult,
+  source?: string | null,
+): Promise<ProjectPermit> {
+  return createPermit(projectId, {
+    kind: "history",
+    source: source ?? null,
+    sourceId: permit.id,
+    permitNumber: permit.id,
+    address: permit.address,
+    permitType: permit.permitType,
+    description: permit.description ?? null,
+    status: permit.status,
+    value: permit.value ?? null,
+    contractorName: permit.contractor?.name ?? null,
+    issueDate: permit.issueDate || null,
+    expiryDate: permit.expiryDate ?? null,
+  });
+}
+
+export function createProjectPermit(
+  projectId: string,
+  fields: ProjectPermitFields,
+): Promise<ProjectPermit> {
+  return createPermit(projectId, { ...fields, kind: "project" });
+}
+
+export async function updateProjectPermit(
+  id: string,
+  fields: ProjectPermitFields,
+): Promise<ProjectPermit> {
+  const response = await apiRequestSafe("PUT", `/api/permits/${id}`, fields);
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to update permit");
+  }
+  return data.permit;
+}
+
+export async function deleteProjectPermit(id: string): Promise<void> {
+  await apiRequest("DELETE", `/api/permits/${id}`);
+}
+
+// One-line summary for the estimate screen, e.g. "Permit #B-102 · Issued ·
+// 2 from property history".
+export function describeProjectPermits(permits: ProjectPermit[]): string {
+  const own = permits.find((p) => p.kind === "project");
+  const history = permits.filter((p) => p.kind === "history").length;
+  const parts: string[] = [];
+  if (own) {
+    parts.push(
+      own.permitNumber ? `Permit #${own.permitNumber}` : "Reroof permit",
+      getPermitStatusLabel(own.kind, own.status),
+    );
+  } else {
+    parts.push("No permit for this job yet");
+  }
+  if (history > 0) parts.push(`${history} from property history`);
+  return parts.join(" · ");
+}
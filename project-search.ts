@@ -0,0 +1,91 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+import { loadLocalProjects, LocalProject } from "@/lib/sync";
+import {
+  DEFAULT_PROJECT_PAGE_SIZE,
+  compareProjects,
+  matchesProjectFilters,
+  toProjectFilterQuery,
+  type ProjectFilters,
+} from "@shared/project-filters";
+
+// Cursors for pages filtered on the device are offsets; server cursors are
+// opaque and only valid against the server.
+const DEVICE_CURSOR_PREFIX = "device:";
+
+export interface ProjectPage {
+  projects: LocalProject[];
+  nextCursor: string | null;
+}
+
+function toFilterable(project: LocalProject) {
+  return {
+    ...project,
+    customerName: project.customer?.name ?? null,
+    customerNotes: project.customer?.notes ?? null,
+  };
+}
+
+async function searchDeviceProjects(
+  filters: ProjectFilters,
+  cursor: string | null,
+): Promise<ProjectPage> {
+  const offset = cursor
+    ? parseInt(cursor.slice(DEVICE_CURSOR_PREFIX.length), 10) || 0
+    : 0;
+  const projects = (await loadLocalProjects())
+    .filter((p) => matchesProjectFilters(toFilterable(p), filters))
+    .sort((a, b) => compareProjects(a, b, filters.sort));
+  const end = offset + DEFAULT_PROJECT_PAGE_SIZE;
+
+  return {
+    projects: projects.slice(offset, end),
+    nextCursor: end < projects.length ? `${DEVICE_CURSOR_PREFIX}${end}` : null,
+  };
+}
+
+// Signed-in users page through the server's listing; guests, and anyone
+// offline, get the same filters applied to the projects on the device.
+export async function searchProjects(
+  filters: ProjectFilters,
+  cursor: string | null = null,
+): Promise<ProjectPage> {
+  const isDeviceCursor = cursor?.startsWith(DEVICE_CURSOR_PREFIX);
+  const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+  const user = await AsyncStorage.getItem("roofmaster_user");
+  if (isGuest === "true" || !user || isDeviceCursor) {
+    return searchDeviceProjects(filters, cursor);
+  }
+
+  const params = new URLSearchParams(toProjectFilterQuery(filters));
+  params.set("limit", String(DEFAULT_PROJECT_PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+
+  try {
+    const response = await apiRequestSafe(
+      "GET",
+      `/api/projects?${params.toString()}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Project search failed with ${response.status}`);
+    }
+    const data = await response.json();
+
+    // The device copy can hold edits that haven't synced yet.
+    const local = await loadLocalProjects();
+    return {
+      projects: data.projects.map(
+        (project: LocalProject) =>
+          local.find((p) => p.id === project.id) || project,
+      ),
+      nextCursor: data.nextCursor,
+    };
+  } catch (error) {
+    console.log("Searching projects on the device instead:", error);
+    // A server cursor can't continue on the device; restart from the top.
+    return cursor
+      ? { projects: [], nextCursor: null }
+      : searchDeviceProjects(filters, null);
+  }
+}
@@ -22,7 +22,7 @@ export function getApiUrl(): string {
   return `https://${host}`;
 }
 
-async function getAuthToken(): Promise<string | null> {
+export async function getAuthToken(): Promise<string | null> {
   try {
     const userData = await AsyncStorage.getItem(AUTH_STORAGE_KEY);
     if (userData) {
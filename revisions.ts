@@ -0,0 +1,97 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+import {
+  isSameEstimateRevision,
+  type EstimateRevisionSnapshot,
+} from "@shared/estimate";
+
+const REVISIONS_STORAGE_KEY = "roofmaster_estimate_revisions";
+
+export interface EstimateRevision extends EstimateRevisionSnapshot {
+  id: string;
+  revisionNumber: number;
+  authorName?: string | null;
+  createdAt: string;
+}
+
+type RevisionLog = Record<string, EstimateRevision[]>;
+
+async function getRevisionLog(): Promise<RevisionLog> {
+  try {
+    const stored = await AsyncStorage.getItem(REVISIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to read estimate revisions:", error);
+    return {};
+  }
+}
+
+async function getAuthorName(): Promise<string | null> {
+  try {
+    const stored = await AsyncStorage.getItem("roofmaster_user");
+    return stored ? JSON.parse(stored).username || null : null;
+  } catch {
+    return null;
+  }
+}
+
+// Appends a revision to the on-device log. Revisions are never edited; a save
+// that leaves the estimate unchanged is not recorded again.
+export async function recordRevision(
+  projectId: string,
+  snapshot: EstimateRevisionSnapshot,
+): Promise<void> {
+  const log = await getRevisionLog();
+  const revisions = log[projectId] || [];
+  const latest = revisions[revisions.length - 1];
+  if (latest && isSameEstimateRevision(latest, snapshot)) {
+    return;
+  }
+
+  revisions.push({
+    ...snapshot,
+    id: `${projectId}-${revisions.length + 1}`,
+    revisionNumber: revisions.length + 1,
+    authorName: await getAuthorName(),
+    createdAt: new Date().toISOString(),
+  });
+  log[projectId] = revisions;
+  await AsyncStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(log));
+}
+
+// Used when a project saved under a legacy id is given its stable id.
+export async function moveRevisions(fromId: string, toId: string) {
+  const log = await getRevisionLog();
+  if (!log[fromId]) return;
+  log[toId] = log[fromId];
+  delete log[fromId];
+  await AsyncStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(log));
+}
+
+// Newest first. Signed-in users get the server's history when the project has
+// been synced; otherwise the on-device log is used.
+export async function loadRevisions(
+  projectId: string,
+): Promise<EstimateRevision[]> {
+  const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+  if (isGuest !== "true") {
+    try {
+      const response = await apiRequestSafe(
+        "GET",
+        `/api/projects/${projectId}/revisions`,
+      );
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.revisions.length > 0) {
+          return data.revisions;
+        }
+      }
+    } catch (error) {
+      console.log("Failed to load revisions from server, using device:", error);
+    }
+  }
+
+  const log = await getRevisionLog();
+  return [...(log[projectId] || [])].reverse();
+}
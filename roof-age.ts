@@ -0,0 +1,207 @@
+// Estimates how old a roof is from the property's permit history: the most
+// recent reroof permit is taken as the last replacement.
+
+// Words that mark a permit as roofing work.
+export const ROOFING_KEYWORDS = [
+  "roof",
+  "shingle",
+  "reroof",
+  "re-roof",
+  "roofing",
+  "solar",
+  "gutter",
+];
+
+// Roofing work that doesn't replace the roof covering.
+const ADD_ON_KEYWORDS = ["solar", "gutter"];
+const REPAIR_PATTERN = /\brepair/;
+const REPLACEMENT_PATTERN = /re-?roof|replace|tear[\s-]?off/;
+
+export const ROOF_MATERIALS = [
+  "three-tab",
+  "architectural",
+  "metal-pbr",
+  "standing-seam",
+] as const;
+
+export type RoofMaterial = (typeof ROOF_MATERIALS)[number];
+
+// Typical service life in years.
+export const ROOF_LIFESPAN_YEARS: Record<RoofMaterial, number> = {
+  "three-tab": 20,
+  architectural: 28,
+  "metal-pbr": 40,
+  "standing-seam": 50,
+};
+
+export const ROOF_MATERIAL_DESCRIPTIONS: Record<RoofMaterial, string> = {
+  "three-tab": "3-tab shingles",
+  architectural: "architectural shingles",
+  "metal-pbr": "metal panels",
+  "standing-seam": "standing seam metal",
+};
+
+export type RoofCondition = "good" | "aging" | "near-end" | "past-life";
+
+export const ROOF_CONDITION_LABELS: Record<RoofCondition, string> = {
+  good: "Good",
+  aging: "Aging",
+  "near-end": "Near End of Life",
+  "past-life": "Past Expected Life",
+};
+
+// The permit fields the estimate needs; search results and saved permits
+// both have them.
+export interface RoofAgePermit {
+  id?: string;
+  permitNumber?: string | null;
+  permitType: string;
+  description?: string | null;
+  status?: string;
+  issueDate?: string | null;
+}
+
+export interface RoofAgeEstimate {
+  // YYYY-MM-DD issue date of the last reroof permit.
+  lastReroofDate: string;
+  permitNumber: string | null;
+  ageYears: number;
+  material: RoofMaterial;
+  // True when the permit didn't say what was installed.
+  materialAssumed: boolean;
+  lifespanYears: number;
+  // Zero once the roof is past its expected life.
+  remainingYears: number;
+  yearsPastLife: number;
+  condition: RoofCondition;
+}
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+function permitText(permit: RoofAgePermit): string {
+  return `${permit.permitType} ${permit.description || ""}`.toLowerCase();
+}
+
+export function isRoofingPermit(permit: RoofAgePermit): boolean {
+  const text = permitText(permit);
+  return ROOFING_KEYWORDS.some((keyword) => text.includes(keyword));
+}
+
+// A roofing permit that replaced the roof covering, as opposed to solar,
+// gutters or a repair.
+export function isReroofPermit(permit: RoofAgePermit): boolean {
+  if (!isRoofingPermit(permit)) return false;
+  const text = permitText(permit);
+  const isAddOn = !ROOFING_KEYWORDS.filter(
+    (keyword) => !ADD_ON_KEYWORDS.includes(keyword),
+  ).some((keyword) => text.includes(keyword));
+  if (isAddOn) return false;
+  const isReplacement = REPLACEMENT_PATTERN.test(text);
+  // e.g. "Roof-mounted solar array" mentions the roof without replacing it.
+  if (
+    ADD_ON_KEYWORDS.some((keyword) => text.includes(keyword)) &&
+    !isReplacement
+  ) {
+    return false;
+  }
+  return !REPAIR_PATTERN.test(text) || isReplacement;
+}
+
+// Reads the installed material from the permit wording. Roofs whose
+// permits don't say are assumed to be 3-tab, the shortest-lived option.
+export function inferRoofMaterial(permit: RoofAgePermit): {
+  material: RoofMaterial;
+  assumed: boolean;
+} {
+  const text = permitText(permit);
+  if (/standing[\s-]?seam/.test(text)) {
+    return { material: "standing-seam", assumed: false };
+  }
+  if (/metal|steel|\bpbr\b/.test(text)) {
+    return { material: "metal-pbr", assumed: false };
+  }
+  if (/architectural|dimensional|laminated/.test(text)) {
+    return { material: "architectural", assumed: false };
+  }
+  if (/\b(?:3|three)[\s-]?tab\b/.test(text)) {
+    return { material: "three-tab", assumed: false };
+  }
+  return { material: "three-tab", assumed: true };
+}
+
+function getCondition(ageYears: number, lifespanYears: number): RoofCondition {
+  const used = ageYears / lifespanYears;
+  if (used >= 1) return "past-life";
+  if (used >= 0.8) return "near-end";
+  if (used >= 0.5) return "aging";
+  return "good";
+}
+
+// Uses the newest reroof permit that wasn't left pending. Returns null when
+// the history has no reroof.
+export function estimateRoofAge(
+  permits: RoofAgePermit[],
+  now: Date = new Date(),
+): RoofAgeEstimate | null {
+  let latest: { permit: RoofAgePermit; issued: Date } | null = null;
+  for (const permit of permits) {
+    if (permit.status === "pending" || !permit.issueDate) continue;
+    if (!isReroofPermit(permit)) continue;
+    const issued = new Date(`${permit.issueDate.slice(0, 10)}T00:00:00Z`);
+    if (Number.isNaN(issued.getTime()) || issued > now) continue;
+    if (!latest || issued > latest.issued) latest = { permit, issued };
+  }
+  if (!latest) return null;
+
+  const { material, assumed } = inferRoofMaterial(latest.permit);
+  const lifespanYears = ROOF_LIFESPAN_YEARS[material];
+  const ageYears =
+    Math.round(((now.getTime() - latest.issued.getTime()) / YEAR_MS) * 10) / 10;
+  return {
+    lastReroofDate: latest.issued.toISOString().slice(0, 10),
+    permitNumber: latest.permit.permitNumber ?? latest.permit.id ?? null,
+    ageYears,
+    material,
+    materialAssumed: assumed,
+    lifespanYears,
+    remainingYears: Math.max(0, Math.round(lifespanYears - ageYears)),
+    yearsPastLife: Math.max(0, Math.round(ageYears - lifespanYears)),
+    condition: getCondition(ageYears, lifespanYears),
+  };
+}
+
+// e.g. "Last reroofed May 2009, about 17 years ago."
+export function describeRoofAge(estimate: RoofAgeEstimate): string {
+  const date = new Date(`${estimate.lastReroofDate}T00:00:00Z`);
+  const month = date.toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  const years = Math.round(estimate.ageYears);
+  const ago =
+    years < 1
+      ? "less than a year ago"
+      : `about ${years} ${years === 1 ? "year" : "years"} ago`;
+  return `Last reroofed ${month}, ${ago}.`;
+}
+
+// e.g. "Architectural shingles last about 28 years, leaving roughly 11 years."
+export function describeRemainingLife(estimate: RoofAgeEstimate): string {
+  const material = ROOF_MATERIAL_DESCRIPTIONS[estimate.material];
+  const lead = estimate.materialAssumed
+    ? `Assuming ${material}, which last`
+    : `${material.charAt(0).toUpperCase()}${material.slice(1)} last`;
+  const life = `${lead} about ${estimate.lifespanYears} years`;
+  if (estimate.yearsPastLife > 0) {
+    return `${life}, so this roof is ${estimate.yearsPastLife} ${
+      estimate.yearsPastLife === 1 ? "year" : "years"
+    } past its expected life.`;
+  }
+  if (estimate.remainingYears === 0) {
+    return `${life}, so this roof is at the end of its expected life.`;
+  }
+  return `${life}, leaving roughly ${estimate.remainingYears} ${
+    estimate.remainingYears === 1 ? "year" : "years"
+  }.`;
+}
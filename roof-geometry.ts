@@ -0,0 +1,407 @@
+// Derives roof facets and edge lengths from a building footprint, roof style
+// and pitch, for when there is no satellite measurement. The result is the
+// same facets and linear measurements the satellite path produces, so the
+// estimate prices both the same way.
+//
+// Rectangles, L and T footprints are worked out plane by plane.
+
+import {
+  emptyLinearMeasurements,
+  type RoofLinearMeasurements,
+} from "./roof-lines";
+import {
+  getPitchFactor,
+  MAX_ROOF_PITCH,
+  type RoofSegment,
+} from "./roof-segments";
+
+export const ROOF_STYLES = [
+  "gable",
+  "hip",
+  "dutch-hip",
+  "shed",
+  "mansard",
+] as const;
+
+export type RoofStyle = (typeof ROOF_STYLES)[number];
+
+export const ROOF_STYLE_LABELS: Record<RoofStyle, string> = {
+  gable: "Gable",
+  hip: "Hip",
+  "dutch-hip": "Dutch Hip",
+  shed: "Shed",
+  mansard: "Mansard",
+};
+
+// Dimensions are wall to wall in feet. L and T footprints are a main block
+// with one wing: `wingWidth` is measured along the main block's length and
+// `wingLength` is how far the wing sticks out from it. An L's wing is flush
+// with one end; a T's is centered.
+export type RoofFootprint =
+  | { shape: "rectangle"; length: number; width: number }
+  | {
+      shape: "l" | "t";
+      length: number;
+      width: number;
+      wingLength: number;
+      wingWidth: number;
+    };
+
+export type FootprintShape = RoofFootprint["shape"];
+
+export interface RoofGeometryInput {
+  footprint: RoofFootprint;
+  style: RoofStyle;
+  // Rise per 12 of run. On a mansard this is the upper roof's pitch.
+  pitch: number;
+  // Horizontal eave overhang in feet, added on every side.
+  overhang: number;
+}
+
+export interface RoofGeometry {
+  planAreaSqFt: number;
+  segments: RoofSegment[];
+  linearMeasurements: RoofLinearMeasurements;
+}
+
+// How far up the run a dutch hip's hips climb before the gablet starts.
+const DUTCH_HIP_INSET = 0.5;
+// Mansard lower slopes are near vertical and about this deep in plan.
+const MANSARD_LOWER_PITCH = MAX_ROOF_PITCH;
+const MANSARD_LOWER_RUN_FT = 4;
+const MAX_DIMENSION_FT = 1000;
+const MAX_OVERHANG_FT = 5;
+
+interface Wing {
+  span: number;
+  projection: number;
+  // A flush wing continues one of the main block's end walls (an L).
+  flush: boolean;
+}
+
+interface RoofParts {
+  length: number;
+  width: number;
+  wings: Wing[];
+}
+
+interface Plane {
+  label: string;
+  planArea: number;
+  pitch: number;
+}
+
+interface RoofBuilder {
+  planes: Plane[];
+  lines: RoofLinearMeasurements;
+}
+
+// True length of a hip or valley over a plan run, where two planes of the
+// same pitch meet at right angles.
+function getDiagonalLength(run: number, pitch: number): number {
+  return run * Math.sqrt(2 + (pitch / 12) ** 2);
+}
+
+function getRakeLength(run: number, pitch: number): number {
+  return run * getPitchFactor(pitch);
+}
+
+function createBuilder(): RoofBuilder {
+  return { planes: [], lines: emptyLinearMeasurements() };
+}
+
+function addMainRoof(
+  b: RoofBuilder,
+  parts: RoofParts,
+  style: Exclude<RoofStyle, "mansard">,
+  pitch: number,
+  prefix = "",
+) {
+  const long = Math.max(parts.length, parts.width);
+  const short = Math.min(parts.length, parts.width);
+  const run = short / 2;
+  const plane = (label: string, planArea: number) =>
+    b.planes.push({ label: `${prefix}${label}`, planArea, pitch });
+
+  switch (style) {
+    case "gable":
+      plane("Front", long * run);
+      plane("Back", long * run);
+      b.lines.eaves += 2 * long;
+      b.lines.rakes += 4 * getRakeLength(run, pitch);
+      b.lines.ridges += long;
+      break;
+    case "hip":
+      plane("Front", ((2 * long - short) * run) / 2);
+      plane("Back", ((2 * long - short) * run) / 2);
+      plane("Left", (short * run) / 2);
+      plane("Right", (short * run) / 2);
+      b.lines.eaves += 2 * (long + short);
+      b.lines.hips += 4 * getDiagonalLength(run, pitch);
+      b.lines.ridges += long - short;
+      break;
+    case "dutch-hip": {
+      const inset = run * DUTCH_HIP_INSET;
+      const sideArea = long * run - 2 * (inset * run - (inset * inset) / 2);
+      plane("Front", sideArea);
+      plane("Back", sideArea);
+      plane("Left", inset * (short - inset));
+      plane("Right", inset * (short - inset));
+      b.lines.eaves += 2 * (long + short);
+      b.lines.hips += 4 * getDiagonalLength(inset, pitch);
+      b.lines.rakes += 4 * getRakeLength(run - inset, pitch);
+      b.lines.ridges += long - 2 * inset;
+      break;
+    }
+    case "shed":
+      // One plane sloping across the short side. The high edge gets drip
+      // edge like a rake.
+      plane("Main", long * short);
+      b.lines.eaves += long;
+      b.lines.rakes += 2 * getRakeLength(short, pitch) + long;
+      break;
+  }
+}
+
+// A wing's own planes, and where its roof runs into the main roof. Facet
+// areas cover the wing's footprint beyond the main block, so the facets add
+// up to the whole footprint.
+function addWingRoof(
+  b: RoofBuilder,
+  parts: RoofParts,
+  wing: Wing,
+  style: Exclude<RoofStyle, "mansard">,
+  pitch: number,
+  label: string,
+) {
+  const { span, projection } = wing;
+  const mainRun = Math.min(parts.length, parts.width) / 2;
+  const run = span / 2;
+  // Valleys end where the narrower roof's ridge meets the other roof.
+  const valleyRun = Math.min(run, mainRun);
+  const plane = (suffix: string, planArea: number) =>
+    b.planes.push({ label: `${label} ${suffix}`, planArea, pitch });
+
+  if (style === "shed") {
+    // A lean-to: the high side is flashed against the main wall.
+    plane("Main", span * projection);
+    b.lines.eaves += span;
+    b.lines.rakes += 2 * getRakeLength(projection, pitch);
+    b.lines.stepFlashing += span;
+    return;
+  }
+
+  // The main block's eave is interrupted where the wing joins it.
+  b.lines.eaves += 2 * projection - span;
+  b.lines.valleys += 2 * getDiagonalLength(valleyRun, pitch);
+
+  switch (style) {
+    case "gable":
+      plane("Left", projection * run);
+      plane("Right", projection * run);
+      b.lines.rakes += 2 * getRakeLength(run, pitch);
+      b.lines.ridges += projection + valleyRun;
+      break;
+    case "hip":
+      plane("Left", projection * run - (run * run) / 2);
+      plane("Right", projection * run - (run * run) / 2);
+      plane("End", run * run);
+      b.lines.eaves += span;
+      b.lines.hips += 2 * getDiagonalLength(run, pitch);
+      b.lines.ridges += Math.max(0, projection - run) + valleyRun;
+      break;
+    case "dutch-hip": {
+      const inset = run * DUTCH_HIP_INSET;
+      const endArea = inset * (span - inset);
+      plane("Left", (projection * span - endArea) / 2);
+      plane("Right", (projection * span - endArea) / 2);
+      plane("End", endArea);
+      b.lines.eaves += span;
+      b.lines.hips += 2 * getDiagonalLength(inset, pitch);
+      b.lines.rakes += 2 * getRakeLength(run - inset, pitch);
+      b.lines.ridges += Math.max(0, projection - inset) + valleyRun;
+      break;
+    }
+  }
+
+  // On an L the wing's outer side runs straight on from the main block's end
+  // wall, so the hip and valley at that corner become one plane.
+  if (wing.flush && style !== "gable") {
+    const inset = style === "dutch-hip" ? mainRun * DUTCH_HIP_INSET : mainRun;
+    b.lines.hips -= getDiagonalLength(inset, pitch);
+    b.lines.valleys -= getDiagonalLength(valleyRun, pitch);
+  }
+}
+
+function addRoof(
+  b: RoofBuilder,
+  parts: RoofParts,
+  style: Exclude<RoofStyle, "mansard">,
+  pitch: number,
+  prefix = "",
+) {
+  addMainRoof(b, parts, style, pitch, prefix);
+  parts.wings.forEach((wing, index) =>
+    addWingRoof(
+      b,
+      parts,
+      wing,
+      style,
+      pitch,
+      `${prefix}Wing${parts.wings.length > 1 ? ` ${index + 1}` : ""}`,
+    ),
+  );
+}
+
+function countCorners(parts: RoofParts): { outside: number; inside: number } {
+  return parts.wings.reduce(
+    (corners, wing) => ({
+      outside: corners.outside + (wing.flush ? 1 : 2),
+      inside: corners.inside + (wing.flush ? 1 : 2),
+    }),
+    { outside: 4, inside: 0 },
+  );
+}
+
+// A steep lower band all round, with a hip roof at `pitch` on top of it. The
+// line where they meet is flashed with the roof and not counted separately.
+function addMansardRoof(b: RoofBuilder, parts: RoofParts, pitch: number) {
+  const short = Math.min(
+    parts.length,
+    parts.width,
+    ...parts.wings.map((w) => w.span),
+  );
+  const band = Math.min(MANSARD_LOWER_RUN_FT, short / 4);
+  const inner: RoofParts = {
+    length: parts.length - 2 * band,
+    width: parts.width - 2 * band,
+    wings: parts.wings.map((w) => ({ ...w, span: w.span - 2 * band })),
+  };
+
+  const lower = (label: string, planArea: number) =>
+    b.planes.push({ label, planArea, pitch: MANSARD_LOWER_PITCH });
+  const lowerBand = (side: number) => ((side + side - 2 * band) / 2) * band;
+  lower("Lower Front", lowerBand(parts.length));
+  lower("Lower Back", lowerBand(parts.length));
+  lower("Lower Left", lowerBand(parts.width));
+  lower("Lower Right", lowerBand(parts.width));
+  parts.wings.forEach((wing, index) => {
+    const label = `Lower Wing${parts.wings.length > 1 ? ` ${index + 1}` : ""}`;
+    lower(`${label} Left`, band * wing.projection);
+    lower(`${label} Right`, band * wing.projection);
+  });
+
+  const corners = countCorners(parts);
+  b.lines.eaves +=
+    2 * (parts.length + parts.width) +
+    parts.wings.reduce((sum, w) => sum + 2 * w.projection, 0);
+  b.lines.hips +=
+    corners.outside * getDiagonalLength(band, MANSARD_LOWER_PITCH);
+  b.lines.valleys +=
+    corners.inside * getDiagonalLength(band, MANSARD_LOWER_PITCH);
+
+  const upper = createBuilder();
+  addRoof(upper, inner, "hip", pitch, "Upper ");
+  b.planes.push(...upper.planes);
+  b.lines.hips += upper.lines.hips;
+  b.lines.valleys += upper.lines.valleys;
+  b.lines.ridges += upper.lines.ridges;
+}
+
+function toParts(footprint: RoofFootprint, overhang: number): RoofParts {
+  const parts: RoofParts = {
+    length: footprint.length + 2 * overhang,
+    width: footprint.width + 2 * overhang,
+    wings: [],
+  };
+  if (footprint.shape !== "rectangle") {
+    // The wing's projection is unchanged by the overhang: both its end and
+    // the main eave it starts from move out by the same amount.
+    parts.wings.push({
+      span: footprint.wingWidth + 2 * overhang,
+      projection: footprint.wingLength,
+      flush: footprint.shape === "l",
+    });
+  }
+  return parts;
+}
+
+export function calculateRoofGeometry(input: RoofGeometryInput): RoofGeometry {
+  const { footprint, style, pitch } = input;
+  const overhang = Math.max(0, input.overhang || 0);
+  const b = createBuilder();
+
+  if (style === "mansard") {
+    addMansardRoof(b, toParts(footprint, overhang), pitch);
+  } else {
+    addRoof(b, toParts(footprint, overhang), style, pitch);
+  }
+
+  const round = (n: number) => Math.max(0, Math.round(n * 10) / 10);
+  const segments: RoofSegment[] = b.planes
+    .filter((p) => p.planArea > 0)
+    .map((p, index) => ({
+      id: String(index + 1),
+      label: p.label,
+      planAreaSqFt: Math.round(p.planArea),
+      pitch: p.pitch,
+      orientation: null,
+    }));
+  const lines = emptyLinearMeasurements();
+  for (const key of Object.keys(lines) as (keyof RoofLinearMeasurements)[]) {
+    lines[key] = round(b.lines[key]);
+  }
+
+  return {
+    planAreaSqFt: Math.round(b.planes.reduce((sum, p) => sum + p.planArea, 0)),
+    segments,
+    linearMeasurements: lines,
+  };
+}
+
+function isDimension(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value > 0 &&
+    value <= MAX_DIMENSION_FT
+  );
+}
+
+export function validateRoofGeometryInput(
+  input: RoofGeometryInput,
+): string | null {
+  const { footprint } = input;
+
+  if (!ROOF_STYLES.includes(input.style)) return "Unknown roof style";
+  if (
+    !Number.isFinite(input.pitch) ||
+    input.pitch < 0 ||
+    input.pitch > MAX_ROOF_PITCH
+  ) {
+    return `Pitch must be between 0 and ${MAX_ROOF_PITCH}`;
+  }
+  if (
+    !Number.isFinite(input.overhang) ||
+    input.overhang < 0 ||
+    input.overhang > MAX_OVERHANG_FT
+  ) {
+    return `Overhang must be between 0 and ${MAX_OVERHANG_FT} ft`;
+  }
+
+  if (!isDimension(footprint.length) || !isDimension(footprint.width)) {
+    return "Length and width must be greater than 0";
+  }
+  if (footprint.shape !== "rectangle") {
+    if (
+      !isDimension(footprint.wingLength) ||
+      !isDimension(footprint.wingWidth)
+    ) {
+      return "Wing length and width must be greater than 0";
+    }
+    if (footprint.wingWidth > footprint.length) {
+      return "The wing can't be wider than the main block is long";
+    }
+  }
+  return null;
+}
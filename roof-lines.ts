@@ -0,0 +1,70 @@
+// Linear roof measurements, in feet. When a project has them, the estimate
+// sizes edge and flashing materials from these lengths instead of guessing
+// them from the roof area.
+
+export interface RoofLinearMeasurements {
+  eaves: number;
+  rakes: number;
+  ridges: number;
+  hips: number;
+  valleys: number;
+  // Where the roof meets a sidewall and needs step flashing.
+  stepFlashing: number;
+}
+
+export type RoofLineKey = keyof RoofLinearMeasurements;
+
+export const ROOF_LINES: { key: RoofLineKey; label: string; hint: string }[] = [
+  { key: "eaves", label: "Eaves", hint: "Drip edge, starter, ice shield" },
+  { key: "rakes", label: "Rakes", hint: "Drip edge, starter" },
+  { key: "ridges", label: "Ridges", hint: "Ridge cap" },
+  { key: "hips", label: "Hips", hint: "Ridge cap" },
+  { key: "valleys", label: "Valleys", hint: "Ice shield" },
+  { key: "stepFlashing", label: "Step Flashing Walls", hint: "Flashing" },
+];
+
+const MAX_LINE_LENGTH_FT = 10000;
+
+export function emptyLinearMeasurements(): RoofLinearMeasurements {
+  return {
+    eaves: 0,
+    rakes: 0,
+    ridges: 0,
+    hips: 0,
+    valleys: 0,
+    stepFlashing: 0,
+  };
+}
+
+export function hasLinearMeasurements(
+  lines: RoofLinearMeasurements | null | undefined,
+): lines is RoofLinearMeasurements {
+  return !!lines && ROOF_LINES.some(({ key }) => lines[key] > 0);
+}
+
+// Validates lengths sent to the API; missing lines count as zero.
+export function validateLinearMeasurements(
+  value: unknown,
+): { error: string } | { lines: RoofLinearMeasurements | null } {
+  if (value === null || value === undefined) return { lines: null };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "linearMeasurements must be an object" };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const lines = emptyLinearMeasurements();
+  for (const { key, label } of ROOF_LINES) {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === "") {
+      continue;
+    }
+    const length = Number(raw[key]);
+    if (!Number.isFinite(length) || length < 0 || length > MAX_LINE_LENGTH_FT) {
+      return {
+        error: `${label} must be between 0 and ${MAX_LINE_LENGTH_FT} feet`,
+      };
+    }
+    lines[key] = Math.round(length * 10) / 10;
+  }
+
+  return { lines: hasLinearMeasurements(lines) ? lines : null };
+}
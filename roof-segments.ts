@@ -0,0 +1,155 @@
+// Roof facets ("segments") measured from satellite imagery or entered by
+// hand. Each facet keeps its own pitch so steep and low-slope sections of the
+// same roof are priced on their true surface area.
+
+export interface RoofSegment {
+  id: string;
+  label: string;
+  // Horizontal (footprint) area of the facet; the surface area follows from
+  // the pitch.
+  planAreaSqFt: number;
+  // Rise in inches per 12 inches of run.
+  pitch: number;
+  orientation: string | null;
+}
+
+export interface RoofSegmentSummary {
+  count: number;
+  areaSqFt: number;
+  squares: number;
+  averagePitch: number;
+  primaryOrientation: string | null;
+}
+
+export const MAX_ROOF_SEGMENTS = 50;
+export const MAX_ROOF_PITCH = 24;
+const MAX_SEGMENT_AREA_SQ_FT = 100000;
+const MAX_LABEL_LENGTH = 50;
+
+// Ratio of sloped surface to footprint for a rise over 12 of run.
+export function getPitchFactor(pitch: number): number {
+  const rise = Number.isFinite(pitch) ? Math.max(0, pitch) : 0;
+  return Math.sqrt(1 + (rise / 12) ** 2);
+}
+
+// Compass direction a facet faces, from its azimuth in degrees clockwise
+// from north.
+export function getOrientation(azimuth: number): string {
+  if (azimuth >= 337.5 || azimuth < 22.5) return "North";
+  if (azimuth >= 22.5 && azimuth < 67.5) return "Northeast";
+  if (azimuth >= 67.5 && azimuth < 112.5) return "East";
+  if (azimuth >= 112.5 && azimuth < 157.5) return "Southeast";
+  if (azimuth >= 157.5 && azimuth < 202.5) return "South";
+  if (azimuth >= 202.5 && azimuth < 247.5) return "Southwest";
+  if (azimuth >= 247.5 && azimuth < 292.5) return "West";
+  if (azimuth >= 292.5 && azimuth < 337.5) return "Northwest";
+  return "Unknown";
+}
+
+export function getSegmentAreaSqFt(segment: RoofSegment): number {
+  return segment.planAreaSqFt * getPitchFactor(segment.pitch);
+}
+
+// Surface squares summed facet by facet, to two decimals.
+export function getRoofSegmentsSquares(segments: RoofSegment[]): number {
+  const area = segments.reduce((sum, s) => sum + getSegmentAreaSqFt(s), 0);
+  return Math.round(area) / 100;
+}
+
+export function summarizeRoofSegments(
+  segments: RoofSegment[],
+): RoofSegmentSummary {
+  const areas = segments.map(getSegmentAreaSqFt);
+  const areaSqFt = areas.reduce((sum, area) => sum + area, 0);
+  // Pitch and orientation are weighted by area so small dormers don't skew
+  // the headline numbers.
+  const averagePitch =
+    areaSqFt > 0
+      ? segments.reduce((sum, s, i) => sum + s.pitch * areas[i], 0) / areaSqFt
+      : 0;
+  const largest = segments[areas.indexOf(Math.max(...areas))];
+
+  return {
+    count: segments.length,
+    areaSqFt: Math.round(areaSqFt),
+    squares: Math.ceil(Math.round(areaSqFt) / 100),
+    averagePitch: Math.round(averagePitch * 10) / 10,
+    primaryOrientation: largest?.orientation ?? null,
+  };
+}
+
+export function createRoofSegment(
+  segments: RoofSegment[],
+  defaults: Partial<Omit<RoofSegment, "id">> = {},
+): RoofSegment {
+  const next =
+    segments.reduce((max, s) => Math.max(max, parseInt(s.id, 10) || 0), 0) + 1;
+  return {
+    id: String(next),
+    label: `Facet ${next}`,
+    planAreaSqFt: 0,
+    pitch: segments[segments.length - 1]?.pitch ?? 6,
+    orientation: null,
+    ...defaults,
+  };
+}
+
+// Validates segments sent to the API and returns a normalized copy.
+export function validateRoofSegments(
+  value: unknown,
+): { error: string } | { segments: RoofSegment[] } {
+  if (value === null || value === undefined) return { segments: [] };
+  if (!Array.isArray(value)) return { error: "roofSegments must be a list" };
+  if (value.length > MAX_ROOF_SEGMENTS) {
+    return { error: `At most ${MAX_ROOF_SEGMENTS} roof segments are allowed` };
+  }
+
+  const segments: RoofSegment[] = [];
+  const ids = new Set<string>();
+  for (const [index, raw] of value.entries()) {
+    const label = `Roof segment ${index + 1}`;
+    if (!raw || typeof raw !== "object") {
+      return { error: `${label} is invalid` };
+    }
+
+    const id = String(raw.id ?? "").slice(0, 64);
+    if (!id || ids.has(id)) {
+      return { error: `${label} needs a unique id` };
+    }
+    ids.add(id);
+
+    const planAreaSqFt = Number(raw.planAreaSqFt);
+    if (
+      !Number.isFinite(planAreaSqFt) ||
+      planAreaSqFt < 0 ||
+      planAreaSqFt > MAX_SEGMENT_AREA_SQ_FT
+    ) {
+      return {
+        error: `${label} area must be between 0 and ${MAX_SEGMENT_AREA_SQ_FT} sq ft`,
+      };
+    }
+
+    const pitch = Number(raw.pitch);
+    if (!Number.isFinite(pitch) || pitch < 0 || pitch > MAX_ROOF_PITCH) {
+      return {
+        error: `${label} pitch must be between 0 and ${MAX_ROOF_PITCH}`,
+      };
+    }
+
+    segments.push({
+      id,
+      label:
+        typeof raw.label === "string" && raw.label.trim()
+          ? raw.label.trim().slice(0, MAX_LABEL_LENGTH)
+          : `Facet ${index + 1}`,
+      planAreaSqFt,
+      pitch,
+      orientation:
+        typeof raw.orientation === "string" && raw.orientation
+          ? raw.orientation.slice(0, 20)
+          : null,
+    });
+  }
+
+  return { segments };
+}
@@ -0,0 +1,387 @@
+// A hand-drawn roof plan: corner points on a grid, the roof lines between
+// them and the facets they enclose. Coordinates are plan-view feet, so facet
+// areas and line lengths come straight from the drawing and feed the same
+// facets and linear measurements as the satellite path.
+
+import {
+  emptyLinearMeasurements,
+  type RoofLineKey,
+  type RoofLinearMeasurements,
+} from "./roof-lines";
+import {
+  getPitchFactor,
+  MAX_ROOF_PITCH,
+  MAX_ROOF_SEGMENTS,
+  type RoofSegment,
+} from "./roof-segments";
+
+export const SKETCH_EDGE_TYPES = [
+  "eave",
+  "rake",
+  "ridge",
+  "hip",
+  "valley",
+  "wall",
+] as const;
+
+export type SketchEdgeType = (typeof SKETCH_EDGE_TYPES)[number];
+
+export const SKETCH_EDGE_LABELS: Record<SketchEdgeType, string> = {
+  eave: "Eave",
+  rake: "Rake",
+  ridge: "Ridge",
+  hip: "Hip",
+  valley: "Valley",
+  wall: "Wall",
+};
+
+// Shared by the editor and the PDF so a diagram reads the same in both.
+export const SKETCH_EDGE_COLORS: Record<SketchEdgeType, string> = {
+  eave: "#2E7D32",
+  rake: "#1565C0",
+  ridge: "#C62828",
+  hip: "#EF6C00",
+  valley: "#6A1B9A",
+  wall: "#546E7A",
+};
+
+const EDGE_LINES: Record<SketchEdgeType, RoofLineKey> = {
+  eave: "eaves",
+  rake: "rakes",
+  ridge: "ridges",
+  hip: "hips",
+  valley: "valleys",
+  wall: "stepFlashing",
+};
+
+export interface SketchPoint {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface SketchEdge {
+  id: string;
+  from: string;
+  to: string;
+  type: SketchEdgeType;
+}
+
+export interface SketchFacet {
+  id: string;
+  label: string;
+  // Corners in drawing order.
+  pointIds: string[];
+  pitch: number;
+}
+
+export interface RoofSketch {
+  points: SketchPoint[];
+  edges: SketchEdge[];
+  facets: SketchFacet[];
+}
+
+export interface RoofSketchMeasurements {
+  segments: RoofSegment[];
+  linearMeasurements: RoofLinearMeasurements;
+}
+
+// The drawing area is a square this many feet across, with grid lines every
+// SKETCH_GRID_FT and points snapped to SKETCH_SNAP_FT.
+export const SKETCH_EXTENT_FT = 100;
+export const SKETCH_GRID_FT = 5;
+export const SKETCH_SNAP_FT = 1;
+const MAX_SKETCH_POINTS = 200;
+const MAX_SKETCH_EDGES = 300;
+const MAX_LABEL_LENGTH = 50;
+
+export function emptyRoofSketch(): RoofSketch {
+  return { points: [], edges: [], facets: [] };
+}
+
+export function hasRoofSketch(
+  sketch: RoofSketch | null | undefined,
+): sketch is RoofSketch {
+  return !!sketch && sketch.edges.length + sketch.facets.length > 0;
+}
+
+// Next id for a list of sketch items; ids are numeric strings like facets'.
+export function nextSketchId(items: { id: string }[]): string {
+  return String(
+    items.reduce((max, item) => Math.max(max, parseInt(item.id, 10) || 0), 0) +
+      1,
+  );
+}
+
+function getPlanLength(a: SketchPoint, b: SketchPoint): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+export function getFacetPlanArea(
+  facet: SketchFacet,
+  points: Map<string, SketchPoint>,
+): number {
+  const corners = facet.pointIds
+    .map((id) => points.get(id))
+    .filter((p): p is SketchPoint => !!p);
+  if (corners.length < 3) return 0;
+  const twiceArea = corners.reduce((sum, p, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0);
+  return Math.abs(twiceArea) / 2;
+}
+
+// Facets that have this edge as one of their sides.
+function getAdjacentFacets(
+  edge: SketchEdge,
+  facets: SketchFacet[],
+): SketchFacet[] {
+  return facets.filter((facet) =>
+    facet.pointIds.some((id, i) => {
+      const next = facet.pointIds[(i + 1) % facet.pointIds.length];
+      return (
+        (id === edge.from && next === edge.to) ||
+        (id === edge.to && next === edge.from)
+      );
+    }),
+  );
+}
+
+// True length of a line drawn in plan. Eaves and ridges are level; rakes and
+// walls climb the slope of the facet beside them; hips and valleys cut
+// diagonally across it.
+export function getSketchEdgeLength(
+  edge: SketchEdge,
+  sketch: RoofSketch,
+  points: Map<string, SketchPoint> = new Map(
+    sketch.points.map((p) => [p.id, p]),
+  ),
+): number {
+  const from = points.get(edge.from);
+  const to = points.get(edge.to);
+  if (!from || !to) return 0;
+
+  const plan = getPlanLength(from, to);
+  const pitch = Math.max(
+    0,
+    ...getAdjacentFacets(edge, sketch.facets).map((f) => f.pitch),
+  );
+  switch (edge.type) {
+    case "rake":
+    case "wall":
+      return plan * getPitchFactor(pitch);
+    case "hip":
+    case "valley":
+      return plan * Math.sqrt(1 + (pitch / 12) ** 2 / 2);
+    default:
+      return plan;
+  }
+}
+
+export function measureRoofSketch(sketch: RoofSketch): RoofSketchMeasurements {
+  const points = new Map(sketch.points.map((p) => [p.id, p]));
+
+  const segments = sketch.facets
+    .map((facet) => ({
+      id: facet.id,
+      label: facet.label,
+      planAreaSqFt: Math.round(getFacetPlanArea(facet, points)),
+      pitch: facet.pitch,
+      orientation: null,
+    }))
+    .filter((segment) => segment.planAreaSqFt > 0);
+
+  const linearMeasurements = emptyLinearMeasurements();
+  for (const edge of sketch.edges) {
+    linearMeasurements[EDGE_LINES[edge.type]] += getSketchEdgeLength(
+      edge,
+      sketch,
+      points,
+    );
+  }
+  for (const key of Object.keys(linearMeasurements) as RoofLineKey[]) {
+    linearMeasurements[key] = Math.round(linearMeasurements[key] * 10) / 10;
+  }
+
+  return { segments, linearMeasurements };
+}
+
+export interface RoofSketchDiagram {
+  facets: {
+    label: string;
+    pitch: number;
+    // SVG path data in the target box's coordinates.
+    path: string;
+    center: { x: number; y: number };
+  }[];
+  edges: { type: SketchEdgeType; path: string }[];
+}
+
+// Fits the drawing into a width x height box, keeping its proportions, and
+// returns SVG path data for each facet and roof line.
+export function getRoofSketchDiagram(
+  sketch: RoofSketch,
+  width: number,
+  height: number,
+): RoofSketchDiagram {
+  const points = new Map(sketch.points.map((p) => [p.id, p]));
+  const used = sketch.points.filter(
+    (p) =>
+      sketch.edges.some((e) => e.from === p.id || e.to === p.id) ||
+      sketch.facets.some((f) => f.pointIds.includes(p.id)),
+  );
+  if (used.length === 0) return { facets: [], edges: [] };
+
+  const minX = Math.min(...used.map((p) => p.x));
+  const minY = Math.min(...used.map((p) => p.y));
+  const spanX = Math.max(...used.map((p) => p.x)) - minX || 1;
+  const spanY = Math.max(...used.map((p) => p.y)) - minY || 1;
+  const scale = Math.min(width / spanX, height / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  const place = (p: SketchPoint) => ({
+    x: Math.round((offsetX + (p.x - minX) * scale) * 100) / 100,
+    y: Math.round((offsetY + (p.y - minY) * scale) * 100) / 100,
+  });
+  const toPath = (ids: string[], close: boolean) => {
+    const placed = ids
+      .map((id) => points.get(id))
+      .filter((p): p is SketchPoint => !!p)
+      .map(place);
+    return (
+      placed.map((p, i) => `${i === 0 ? "M" : "L"}${p.x} ${p.y}`).join(" ") +
+      (close ? " Z" : "")
+    );
+  };
+
+  return {
+    facets: sketch.facets.map((facet) => {
+      const placed = facet.pointIds
+        .map((id) => points.get(id))
+        .filter((p): p is SketchPoint => !!p)
+        .map(place);
+      return {
+        label: facet.label,
+        pitch: facet.pitch,
+        path: toPath(facet.pointIds, true),
+        center: {
+          x: placed.reduce((sum, p) => sum + p.x, 0) / (placed.length || 1),
+          y: placed.reduce((sum, p) => sum + p.y, 0) / (placed.length || 1),
+        },
+      };
+    }),
+    edges: sketch.edges.map((edge) => ({
+      type: edge.type,
+      path: toPath([edge.from, edge.to], false),
+    })),
+  };
+}
+
+function isCoordinate(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    value <= SKETCH_EXTENT_FT
+  );
+}
+
+// Validates a sketch sent to the API and returns a normalized copy. An empty
+// sketch is stored as null.
+export function validateRoofSketch(
+  value: unknown,
+): { error: string } | { sketch: RoofSketch | null } {
+  if (value === null || value === undefined) return { sketch: null };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "roofSketch must be an object" };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const rawPoints = raw.points ?? [];
+  const rawEdges = raw.edges ?? [];
+  const rawFacets = raw.facets ?? [];
+  if (
+    !Array.isArray(rawPoints) ||
+    !Array.isArray(rawEdges) ||
+    !Array.isArray(rawFacets)
+  ) {
+    return { error: "Roof sketch points, edges and facets must be lists" };
+  }
+  if (
+    rawPoints.length > MAX_SKETCH_POINTS ||
+    rawEdges.length > MAX_SKETCH_EDGES ||
+    rawFacets.length > MAX_ROOF_SEGMENTS
+  ) {
+    return { error: "Roof sketch is too large" };
+  }
+
+  const points: SketchPoint[] = [];
+  const pointIds = new Set<string>();
+  for (const p of rawPoints) {
+    const id = String(p?.id ?? "").slice(0, 64);
+    if (!id || pointIds.has(id)) {
+      return { error: "Every sketch point needs a unique id" };
+    }
+    if (!isCoordinate(p.x) || !isCoordinate(p.y)) {
+      return {
+        error: `Sketch points must be within ${SKETCH_EXTENT_FT} ft of the origin`,
+      };
+    }
+    pointIds.add(id);
+    points.push({ id, x: p.x, y: p.y });
+  }
+
+  const edges: SketchEdge[] = [];
+  const edgeIds = new Set<string>();
+  for (const e of rawEdges) {
+    const id = String(e?.id ?? "").slice(0, 64);
+    if (!id || edgeIds.has(id)) {
+      return { error: "Every sketch line needs a unique id" };
+    }
+    if (!SKETCH_EDGE_TYPES.includes(e.type)) {
+      return { error: `Unknown roof line type: ${String(e.type)}` };
+    }
+    if (!pointIds.has(e.from) || !pointIds.has(e.to) || e.from === e.to) {
+      return { error: "Sketch lines must join two different points" };
+    }
+    edgeIds.add(id);
+    edges.push({ id, from: e.from, to: e.to, type: e.type });
+  }
+
+  const facets: SketchFacet[] = [];
+  const facetIds = new Set<string>();
+  for (const [index, f] of rawFacets.entries()) {
+    const label = `Sketch facet ${index + 1}`;
+    const id = String(f?.id ?? "").slice(0, 64);
+    if (!id || facetIds.has(id)) {
+      return { error: `${label} needs a unique id` };
+    }
+    if (
+      !Array.isArray(f.pointIds) ||
+      f.pointIds.length < 3 ||
+      !f.pointIds.every((pointId: unknown) => pointIds.has(pointId as string))
+    ) {
+      return { error: `${label} needs at least three sketch points` };
+    }
+    const pitch = Number(f.pitch);
+    if (!Number.isFinite(pitch) || pitch < 0 || pitch > MAX_ROOF_PITCH) {
+      return {
+        error: `${label} pitch must be between 0 and ${MAX_ROOF_PITCH}`,
+      };
+    }
+    facetIds.add(id);
+    facets.push({
+      id,
+      label:
+        typeof f.label === "string" && f.label.trim()
+          ? f.label.trim().slice(0, MAX_LABEL_LENGTH)
+          : `Facet ${index + 1}`,
+      pointIds: [...f.pointIds],
+      pitch,
+    });
+  }
+
+  const sketch = { points, edges, facets };
+  return { sketch: hasRoofSketch(sketch) ? sketch : null };
+}
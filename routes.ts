@@ -1,9 +1,84 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "node:http";
-import { storage } from "./storage";
-import { createHash, randomBytes, pbkdf2Sync } from "crypto";
+import { storage, type ProjectCursor } from "./storage";
+import { createHash, createHmac, randomBytes, randomUUID, pbkdf2Sync } from "crypto";
 import jwt from "jsonwebtoken";
 import OpenAI from "openai";
+import {
+  calculateEstimate,
+  calculateEstimateOptions,
+  validateEstimateInput,
+  validateEstimateOptions,
+  isAccessoryCategory,
+  getEstimateLineItems,
+  getEstimateOptionFields,
+  getEstimateOptionLabel,
+  getEstimateRevisionInputs,
+  isSameEstimateRevision,
+  DEFAULT_MATERIALS,
+  DEFAULT_ACCESSORIES,
+  type EstimateInput,
+  type AccessoryPricingTable,
+  type EstimateOption,
+  type EstimateOptionInput,
+  type EstimateRevisionSnapshot,
+  type MaterialPricing,
+  type MicroBreakdown,
+} from "@shared/estimate";
+import {
+  parseSupplierPriceList,
+  diffPriceList,
+  isValidTarget,
+  SKIP_TARGET,
+  type PriceListTarget,
+} from "@shared/price-list";
+import type { Attachment, Customer, EstimateShare, PermitWatch, PriceBookMaterial, Project } from "@shared/schema";
+import {
+  DEFAULT_PROJECT_PAGE_SIZE,
+  MAX_PROJECT_PAGE_SIZE,
+  parseProjectFilters,
+  type ProjectSort,
+} from "@shared/project-filters";
+import { validateLinearMeasurements } from "@shared/roof-lines";
+import { validateRoofSketch } from "@shared/roof-sketch";
+import { getPermitStatusLabel, validatePermitRecord } from "@shared/permit-records";
+import { estimateRoofAge } from "@shared/roof-age";
+import {
+  getOrientation,
+  getPitchFactor,
+  summarizeRoofSegments,
+  validateRoofSegments,
+  type RoofSegment,
+} from "@shared/roof-segments";
+import {
+  renderEstimatePdf,
+  type EstimatePdfInput,
+  type EstimatePdfPhoto,
+  type EstimatePdfSignature,
+} from "./estimate-pdf";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  attachmentStore,
+  detectAttachmentType,
+  extractJpegThumbnail,
+} from "./attachment-store";
+import { parseAerialReport, MAX_REPORT_BYTES } from "./aerial-report-parser";
+import { parseDroneSurvey } from "./drone-survey-parser";
+import {
+  MeasurementProviderError,
+  measurementProvider,
+  type SolarRoofSegment,
+} from "./measurement-providers";
+import { lookupRoof, type RoofLookup } from "./measurement-cache";
+import {
+  PERMIT_PROVIDER_LABELS,
+  defaultPermitProviderName,
+  getAvailablePermitProviders,
+  getPermitProvider,
+  isPermitProviderName,
+} from "./permit-providers";
+import { MAX_PERMIT_WATCHES, checkPermitWatch, validatePermitWatch } from "./permit-watch-job";
 
 // Using GPT-5.2 as requested by user
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -50,6 +125,14 @@ function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   next();
 }
 
+function getOptionalUserId(req: Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return undefined;
+  }
+  return verifyToken(authHeader.substring(7))?.userId;
+}
+
 const SALT_LENGTH = 32;
 const ITERATIONS = 100000;
 const KEY_LENGTH = 64;
@@ -68,265 +151,791 @@ function verifyPassword(password: string, storedHash: string): boolean {
   return hash === verifyHash;
 }
 
-interface RoofSegment {
-  pitchDegrees: number;
-  azimuthDegrees: number;
-  areaMeters2: number;
-  planeHeightAtCenterMeters?: number;
+function metersToFeet(meters: number): number {
+  return meters * 10.7639;
 }
 
-interface BuildingInsights {
-  name?: string;
-  center: {
-    latitude: number;
-    longitude: number;
-  };
-  boundingBox?: {
-    sw: { latitude: number; longitude: number };
-    ne: { latitude: number; longitude: number };
-  };
-  imageryDate?: {
-    year: number;
-    month: number;
-    day: number;
-  };
-  imageryQuality?: string;
-  solarPotential?: {
-    maxArrayPanelsCount?: number;
-    maxArrayAreaMeters2?: number;
-    maxSunshineHoursPerYear?: number;
-    buildingStats?: {
-      areaMeters2: number;
-      sunshineQuantiles?: number[];
-    };
-    roofSegmentStats?: RoofSegment[];
-  };
+function calculateRoofSquares(areaMeters2: number): number {
+  const sqFeet = metersToFeet(areaMeters2);
+  return Math.ceil(sqFeet / 100);
 }
 
-interface PermitData {
-  id: string;
-  address: string;
-  permitType: string;
-  status: "approved" | "pending" | "expired";
-  issueDate: string;
-  expiryDate?: string;
-  contractor?: {
-    name: string;
-    phone?: string;
-    email?: string;
+function toRoofSegment(segment: SolarRoofSegment, index: number): RoofSegment {
+  const pitch = Math.round(Math.tan(segment.pitchDegrees * Math.PI / 180) * 12 * 10) / 10;
+  // Older responses only carry the sloped area; back the footprint out of it.
+  const planAreaMeters = segment.stats.groundAreaMeters2 ?? segment.stats.areaMeters2 / getPitchFactor(pitch);
+  const orientation = getOrientation(segment.azimuthDegrees);
+  return {
+    id: String(index + 1),
+    label: `${orientation} ${index + 1}`,
+    planAreaSqFt: Math.round(metersToFeet(planAreaMeters)),
+    pitch,
+    orientation,
   };
-  value?: number;
-  description?: string;
 }
 
-async function geocodeAddress(address: string, apiKey: string): Promise<{ lat: number; lng: number } | null> {
-  try {
-    const encodedAddress = encodeURIComponent(address);
-    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&key=${apiKey}`;
-    
-    const response = await fetch(url);
-    const data = await response.json();
-    
-    if (data.status === "OK" && data.results.length > 0) {
-      const location = data.results[0].geometry.location;
-      return { lat: location.lat, lng: location.lng };
+// Roof segments sent with a project replace its area and squares, so the
+// stored totals always match the facets. Edge lengths are validated here too.
+function withRoofMeasurements(data: any): { error: string } | { data: any } {
+  let measured = data;
+
+  if (data.linearMeasurements !== undefined) {
+    const result = validateLinearMeasurements(data.linearMeasurements);
+    if ("error" in result) {
+      return result;
     }
-    
-    return null;
-  } catch (error) {
-    console.error("Geocoding error:", error);
-    return null;
+    measured = { ...measured, linearMeasurements: result.lines };
+  }
+
+  if (data.roofSketch !== undefined) {
+    const result = validateRoofSketch(data.roofSketch);
+    if ("error" in result) {
+      return result;
+    }
+    measured = { ...measured, roofSketch: result.sketch };
   }
+
+  if (data.roofSegments !== undefined) {
+    const result = validateRoofSegments(data.roofSegments);
+    if ("error" in result) {
+      return result;
+    }
+    if (result.segments.length === 0) {
+      measured = { ...measured, roofSegments: null };
+    } else {
+      const summary = summarizeRoofSegments(result.segments);
+      measured = {
+        ...measured,
+        roofSegments: result.segments,
+        roofArea: summary.areaSqFt,
+        roofSquares: summary.squares,
+      };
+    }
+  }
+
+  return { data: measured };
 }
 
-async function getRoofMeasurements(lat: number, lng: number, apiKey: string): Promise<BuildingInsights | null> {
-  try {
-    const url = `https://solar.googleapis.com/v1/buildingInsights:findClosest?location.latitude=${lat}&location.longitude=${lng}&key=${apiKey}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("Solar API error:", errorData);
-      return null;
+interface PriceBook {
+  materials: PriceBookMaterial[];
+  accessories: AccessoryPricingTable;
+}
+
+// Loads a company's price book, seeding the default materials the first time
+// so every user starts from the same catalog the app used to hardcode.
+async function loadPriceBook(userId: string): Promise<PriceBook> {
+  let materials = await storage.getPriceBookMaterials(userId);
+  if (materials.length === 0) {
+    await storage.createPriceBookMaterials(
+      DEFAULT_MATERIALS.map((material, index) => ({ ...material, userId, sortOrder: index })),
+    );
+    materials = await storage.getPriceBookMaterials(userId);
+  }
+
+  if (await applyDuePriceChanges(userId, materials)) {
+    materials = await storage.getPriceBookMaterials(userId);
+  }
+
+  const accessories: AccessoryPricingTable = { ...DEFAULT_ACCESSORIES };
+  const rows = await storage.getPriceBookAccessories(userId);
+  for (const row of rows) {
+    if (isAccessoryCategory(row.category)) {
+      accessories[row.category] = { unitCost: row.unitCost, coverage: row.coverage };
     }
-    
-    const data = await response.json();
-    return data as BuildingInsights;
-  } catch (error) {
-    console.error("Solar API error:", error);
-    return null;
   }
+
+  return { materials, accessories };
 }
 
-async function getPermitHistory(address: string, apiKey: string): Promise<PermitData[]> {
-  try {
-    const today = new Date();
-    const fiveYearsAgo = new Date(today);
-    fiveYearsAgo.setFullYear(today.getFullYear() - 5);
-    
-    const permitFrom = fiveYearsAgo.toISOString().split('T')[0];
-    const permitTo = today.toISOString().split('T')[0];
-    
-    const zipMatch = address.match(/\b(\d{5})\b/);
-    const stateMatch = address.match(/\b([A-Z]{2})\b/);
-    
-    let geoId = "US";
-    if (zipMatch) {
-      geoId = zipMatch[1];
-    } else if (stateMatch) {
-      geoId = stateMatch[1];
+// Writes imported price changes whose effective date has arrived into the
+// price book. Each change is claimed before it's written, so a change due
+// during concurrent requests is applied once. Returns true when anything
+// was applied.
+async function applyDuePriceChanges(userId: string, materials: PriceBookMaterial[]): Promise<boolean> {
+  const due = await storage.getDuePriceChanges(userId, new Date());
+  if (due.length === 0) return false;
+
+  const accessoryRows = await storage.getPriceBookAccessories(userId);
+
+  let applied = false;
+  for (const change of due) {
+    if (!(await storage.claimPriceChange(change.id))) continue;
+    applied = true;
+    const [type, key] = change.target.split(":");
+
+    if (type === "material") {
+      const material = materials.find((m) => m.materialKey === key);
+      if (material) {
+        await storage.updatePriceBookMaterial(material.id, { pricePerSquare: change.newCost });
+      }
+    } else if (type === "accessory" && isAccessoryCategory(key)) {
+      const existing = accessoryRows.find((row) => row.category === key);
+      await storage.upsertPriceBookAccessory({
+        userId,
+        category: key,
+        unitCost: change.newCost,
+        coverage: existing?.coverage ?? DEFAULT_ACCESSORIES[key].coverage,
+      });
     }
-    
-    const params = new URLSearchParams({
-      geo_id: geoId,
-      permit_from: permitFrom,
-      permit_to: permitTo,
-      page: "1",
-      size: "50"
-    });
-    
-    const url = `https://api.shovels.ai/v2/permits/search?${params.toString()}`;
-    
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "X-API-Key": apiKey,
-        "Accept": "application/json"
+  }
+
+  return applied;
+}
+
+const MAX_PRICE_LIST_LENGTH = 1024 * 1024;
+
+// Parses an uploaded supplier price list and diffs it against the price book,
+// using saved SKU mappings plus any overrides sent with the request.
+async function buildPriceListDiff(userId: string, body: any) {
+  if (!body.csv || typeof body.csv !== "string") {
+    return { error: "Price list CSV is required" };
+  }
+  if (body.csv.length > MAX_PRICE_LIST_LENGTH) {
+    return { error: "Price list must be 1 MB or smaller" };
+  }
+
+  const priceBook = await loadPriceBook(userId);
+
+  const mappings: Record<string, PriceListTarget> = {};
+  for (const mapping of await storage.getSupplierSkuMappings(userId)) {
+    mappings[mapping.sku] = mapping.target;
+  }
+
+  const overrides: Record<string, PriceListTarget> = {};
+  if (body.mappings && typeof body.mappings === "object") {
+    for (const [sku, target] of Object.entries(body.mappings)) {
+      if (target !== SKIP_TARGET && !isValidTarget(target, priceBook.materials)) {
+        return { error: `Unknown price book entry for SKU ${sku}` };
       }
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Shovels API error:", response.status, errorText);
-      return [];
+      overrides[sku] = target as PriceListTarget;
     }
-    
-    const data = await response.json();
-    
-    const items = data.items || data.data || data.results || [];
-    
-    if (Array.isArray(items)) {
-      const roofingKeywords = ["roof", "shingle", "reroof", "re-roof", "roofing", "solar", "gutter"];
-      
-      const roofingPermits = items.filter((permit: any) => {
-        const workType = (permit.work_type || permit.type || "").toLowerCase();
-        const description = (permit.description || permit.work_description || "").toLowerCase();
-        const permitType = (permit.permit_type || "").toLowerCase();
-        
-        return roofingKeywords.some(keyword => 
-          workType.includes(keyword) || description.includes(keyword) || permitType.includes(keyword)
-        );
-      });
-      
-      const permitsToShow = roofingPermits.length > 0 ? roofingPermits : items.slice(0, 5);
-      
-      return permitsToShow.slice(0, 10).map((permit: any, index: number) => {
-        // Format address - handle both string and object formats
-        let formattedAddress = address;
-        if (typeof permit.address === 'object' && permit.address) {
-          const a = permit.address;
-          const parts = [
-            a.street_no && a.street ? `${a.street_no} ${a.street}` : a.street,
-            a.city,
-            a.state
-          ].filter(Boolean);
-          formattedAddress = parts.join(', ') || address;
-        } else if (typeof permit.address === 'string') {
-          formattedAddress = permit.address;
-        } else if (permit.full_address) {
-          formattedAddress = permit.full_address;
-        }
-        
-        return {
-          id: permit.id || permit.permit_number || String(index),
-          address: formattedAddress,
-          permitType: permit.work_type || permit.type || permit.description || "Roofing",
-          status: mapPermitStatus(permit.status),
-          issueDate: permit.issue_date || permit.filed_date || permit.permit_date || new Date().toISOString(),
-          expiryDate: permit.expiry_date || permit.final_date,
-          contractor: (permit.contractor_name || permit.contractor?.name) ? {
-            name: permit.contractor_name || permit.contractor?.name,
-            phone: permit.contractor_phone || permit.contractor?.phone,
-            email: permit.contractor_email || permit.contractor?.email
-          } : undefined,
-          value: permit.value || permit.job_value || permit.valuation,
-          description: permit.description || permit.work_description
-        };
-      });
+  }
+
+  const { rows, warnings } = parseSupplierPriceList(body.csv);
+  if (rows.length === 0) {
+    return { error: warnings[0] || "Price list has no priced rows" };
+  }
+
+  const diff = diffPriceList(rows, { ...mappings, ...overrides }, priceBook.materials, priceBook.accessories);
+  for (const row of diff) {
+    if (row.status === "duplicate") {
+      warnings.push(`Line ${row.line}: ${row.targetLabel} is already priced by an earlier SKU, ignored`);
     }
-    
-    return [];
-  } catch (error) {
-    console.error("Shovels API error:", error);
-    return [];
   }
+
+  return { priceBook, diff, warnings, overrides };
 }
 
-function mapPermitStatus(status: string): "approved" | "pending" | "expired" {
-  if (!status) return "pending";
-  const s = status.toLowerCase();
-  if (s.includes("issued") || s.includes("approved") || s.includes("final") || s.includes("complete")) {
-    return "approved";
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
   }
-  if (s.includes("expired") || s.includes("closed") || s.includes("cancelled")) {
-    return "expired";
+}
+
+// How far the zone's wall clock is ahead of UTC at `time`, in milliseconds.
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(time)) {
+    parts[part.type] = Number(part.value);
   }
-  return "pending";
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
 }
 
-function metersToFeet(meters: number): number {
-  return meters * 10.7639;
+// Effective dates are calendar days in the account holder's time zone (sent
+// by the app as an IANA name), so a change dated the 1st starts at local
+// midnight rather than UTC midnight. Without a zone, UTC is used.
+function parseEffectiveDate(value: unknown, timeZone: unknown): Date | null {
+  if (value === undefined || value === null || value === "") {
+    return new Date();
+  }
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const midnightUtc = new Date(`${value}T00:00:00Z`).getTime();
+  if (Number.isNaN(midnightUtc)) return null;
+  if (typeof timeZone !== "string" || !timeZone) {
+    return new Date(midnightUtc);
+  }
+
+  // Checked again at the result so a DST change that day is accounted for.
+  const guess = midnightUtc - getTimeZoneOffset(midnightUtc, timeZone);
+  return new Date(midnightUtc - getTimeZoneOffset(guess, timeZone));
 }
 
-function calculateRoofSquares(areaMeters2: number): number {
-  const sqFeet = metersToFeet(areaMeters2);
-  return Math.ceil(sqFeet / 100);
+function parseOptionalText(value: unknown, maxLength: number): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text ? text.slice(0, maxLength) : null;
+}
+
+function parseCustomerInput(body: any, partial: boolean): { error: string } | { data: Partial<Customer> } {
+  const data: Partial<Customer> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || typeof body.name !== "string" || body.name.trim().length === 0) {
+      return { error: "Customer name is required" };
+    }
+    if (body.name.length > 100) {
+      return { error: "Customer name must be 100 characters or less" };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.email !== undefined) {
+    const email = parseOptionalText(body.email, 255);
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { error: "Invalid email address" };
+    }
+    data.email = email;
+  }
+
+  if (body.phone !== undefined) {
+    data.phone = parseOptionalText(body.phone, 40);
+  }
+
+  if (body.billingAddress !== undefined) {
+    data.billingAddress = parseOptionalText(body.billingAddress, 300);
+  }
+
+  if (body.notes !== undefined) {
+    data.notes = parseOptionalText(body.notes, 2000);
+  }
+
+  return { data };
+}
+
+// Projects may only point at customers owned by the same user.
+async function validateProjectCustomer(userId: string, customerId: unknown): Promise<string | null> {
+  if (customerId === undefined || customerId === null) return null;
+  if (typeof customerId !== "string") return "Invalid customer";
+
+  const customer = await storage.getCustomer(customerId);
+  if (!customer || customer.userId !== userId) {
+    return "Customer not found";
+  }
+  return null;
+}
+
+function getEstimatePdfFilename(project: any): string {
+  const id = String(project?.id || "estimate").replace(/[^A-Za-z0-9_-]/g, "");
+  return `RoofMaster360_Estimate_${id}.pdf`;
+}
+
+function parsePositiveNumber(value: unknown): number | null {
+  const n = typeof value === "string" ? parseFloat(value) : Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function toMaterialKey(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function parseMaterialInput(body: any, partial: boolean): { error: string } | { data: Partial<PriceBookMaterial> } {
+  const data: Partial<PriceBookMaterial> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || typeof body.name !== "string" || body.name.trim().length === 0) {
+      return { error: "Material name is required" };
+    }
+    if (body.name.length > 100) {
+      return { error: "Material name must be 100 characters or less" };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.pricePerSquare !== undefined || !partial) {
+    const price = parsePositiveNumber(body.pricePerSquare);
+    if (price === null) {
+      return { error: "Price per square must be a positive number" };
+    }
+    data.pricePerSquare = price;
+  }
+
+  if (body.bundlesPerSquare !== undefined) {
+    const bundles = parsePositiveNumber(body.bundlesPerSquare);
+    if (bundles === null) {
+      return { error: "Bundles per square must be a positive number" };
+    }
+    data.bundlesPerSquare = bundles;
+  }
+
+  if (body.description !== undefined) {
+    data.description = body.description ? String(body.description).slice(0, 200) : null;
+  }
+
+  if (body.icon !== undefined) {
+    data.icon = body.icon ? String(body.icon).slice(0, 50) : "layers";
+  }
+
+  if (!partial) {
+    data.materialKey = toMaterialKey(body.materialKey || body.name);
+    if (!data.materialKey) {
+      return { error: "Material name must contain letters or numbers" };
+    }
+  }
+
+  return { data };
+}
+
+// Recomputes microBreakdown and estimateTotal from the pricing inputs and the
+// user's price book so the stored totals never depend on what the client sent.
+async function withServerEstimate(userId: string | undefined, data: any): Promise<{ error: string } | { data: any }> {
+  if (!data.selectedMaterial) {
+    const {
+      microBreakdown: _breakdown,
+      estimateTotal: _total,
+      estimateOptions: _options,
+      selectedOptionTier: _tier,
+      ...rest
+    } = data;
+    return { data: rest };
+  }
+
+  // Guests have no price book and are priced from the default catalog.
+  const priceBook: {
+    materials: Pick<MaterialPricing, "materialKey" | "pricePerSquare" | "bundlesPerSquare">[];
+    accessories: AccessoryPricingTable;
+  } = userId
+    ? await loadPriceBook(userId)
+    : { materials: DEFAULT_MATERIALS, accessories: DEFAULT_ACCESSORIES };
+  const material = priceBook.materials.find((m) => m.materialKey === data.selectedMaterial);
+
+  const input: EstimateInput = {
+    roofSquares: data.roofSquares ?? Math.ceil((data.roofArea || 0) / 100),
+    roofSegments: data.roofSegments,
+    linearMeasurements: data.linearMeasurements,
+    selectedMaterial: data.selectedMaterial,
+    materialPricePerSquare: data.materialPricePerSquare ?? material?.pricePerSquare ?? 0,
+    bundlesPerSquare: material?.bundlesPerSquare,
+    accessories: priceBook.accessories,
+    laborRate: data.laborRate ?? 0,
+    laborHours: data.laborHours ?? 0,
+    additionalCosts: data.additionalCosts ?? 0,
+  };
+
+  const validationError = validateEstimateInput(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const { breakdown, estimateTotal } = calculateEstimate(input);
+
+  // Good/Better/Best options are re-priced here too; only each option's tier,
+  // material and price per square are taken from the client.
+  let estimateOptions = null;
+  if (Array.isArray(data.estimateOptions) && data.estimateOptions.length > 0) {
+    const optionsError = validateEstimateOptions(data.estimateOptions);
+    if (optionsError) {
+      return { error: optionsError };
+    }
+    estimateOptions = calculateEstimateOptions(
+      input,
+      data.estimateOptions as EstimateOptionInput[],
+      priceBook.materials,
+    );
+  }
+
+  // Going back to a single estimate drops the choice made between options.
+  const selectedOptionTier = estimateOptions ? (data.selectedOptionTier ?? null) : null;
+  if (
+    selectedOptionTier !== null &&
+    !estimateOptions?.some((option) => option.tier === selectedOptionTier)
+  ) {
+    return { error: "Selected option does not exist" };
+  }
+
+  return {
+    data: {
+      ...data,
+      microBreakdown: breakdown,
+      estimateTotal,
+      estimateOptions,
+      selectedOptionTier,
+    },
+  };
+}
+
+// The project fields an estimate is priced from.
+const PRICING_FIELDS = [
+  "roofArea",
+  "roofSquares",
+  "roofSegments",
+  "linearMeasurements",
+  "selectedMaterial",
+  "materialPricePerSquare",
+  "laborRate",
+  "laborHours",
+  "additionalCosts",
+  "estimateOptions",
+] as const;
+
+// Only an option's tier, material and price per square are inputs; its
+// breakdown and total are what the server priced.
+function toPricingValue(field: (typeof PRICING_FIELDS)[number], value: unknown): string {
+  const input =
+    field === "estimateOptions" && Array.isArray(value)
+      ? value.map((option: EstimateOptionInput) => ({
+          tier: option?.tier,
+          selectedMaterial: option?.selectedMaterial,
+          materialPricePerSquare: option?.materialPricePerSquare,
+        }))
+      : value;
+  // Sorted keys, since jsonb columns don't keep the order they were saved in.
+  return JSON.stringify(input ?? null, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : nested,
+  );
+}
+
+function hasPricingChanges(existing: Project, changes: any): boolean {
+  return PRICING_FIELDS.some(
+    (field) =>
+      field in changes && toPricingValue(field, changes[field]) !== toPricingValue(field, existing[field]),
+  );
+}
+
+// A save that leaves every pricing input as stored (a status change, a sync
+// push of other edits) keeps the estimate as it was quoted, so later price
+// book changes don't move it. Only the choice between its options can change.
+function withStoredEstimate(existing: Project, data: any): { error: string } | { data: any } {
+  const {
+    microBreakdown: _breakdown,
+    estimateTotal: _total,
+    estimateOptions: _options,
+    selectedOptionTier,
+    ...rest
+  } = data;
+  if (selectedOptionTier === undefined) {
+    return { data: rest };
+  }
+
+  const options = (existing.estimateOptions as EstimateOption[] | null) ?? [];
+  if (selectedOptionTier !== null && !options.some((option) => option.tier === selectedOptionTier)) {
+    return { error: "Selected option does not exist" };
+  }
+  return { data: { ...rest, selectedOptionTier } };
+}
+
+// Saves an immutable snapshot of the project's pricing. Saves that leave the
+// estimate unchanged (e.g. only the status flipped) don't add a revision.
+async function recordEstimateRevision(userId: string, project: Project): Promise<void> {
+  if (!project.selectedMaterial || !project.microBreakdown) return;
+
+  const snapshot: EstimateRevisionSnapshot = {
+    inputs: getEstimateRevisionInputs(project),
+    breakdown: project.microBreakdown as MicroBreakdown,
+    estimateTotal: project.estimateTotal ?? 0,
+  };
+
+  const latest = await storage.getLatestEstimateRevision(project.id);
+  if (latest && isSameEstimateRevision(latest as EstimateRevisionSnapshot, snapshot)) {
+    return;
+  }
+
+  await storage.createEstimateRevision({
+    projectId: project.id,
+    authorId: userId,
+    ...snapshot,
+  });
+}
+
+// Projects are created offline with client-generated ids, so the same id is
+// used on every device and on the server.
+const PROJECT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PROJECT_SYNC_PAGE_SIZE = 200;
+
+function isTotalSort(sort: ProjectSort): boolean {
+  return sort === "total_desc" || sort === "total_asc";
+}
+
+function encodeProjectCursor(project: Project, sort: ProjectSort = "newest"): string {
+  const value = isTotalSort(sort)
+    ? project.estimateTotal ?? 0
+    : (sort === "updated" ? project.updatedAt : project.createdAt).toISOString();
+  return Buffer.from(JSON.stringify({ value, id: project.id })).toString("base64url");
+}
+
+// A cursor only makes sense with the sort it was issued for.
+function decodeProjectCursor(cursor: string, sort: ProjectSort = "newest"): ProjectCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const validValue = isTotalSort(sort)
+      ? typeof parsed.value === "number" && isFinite(parsed.value)
+      : typeof parsed.value === "string" && !isNaN(new Date(parsed.value).getTime());
+    if (!validValue || typeof parsed.id !== "string") return null;
+    return { value: parsed.value, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+const MAX_ATTACHMENT_CAPTION_LENGTH = 500;
+const PDF_PHOTO_TYPES = ["image/jpeg", "image/png"];
+
+// Uploads arrive as the raw file body (Content-Type is the file's type), so
+// they bypass the 100kb JSON limit without a multipart parser.
+const attachmentBodyParser = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+
+function parseAttachmentBody(req: Request, res: Response, next: NextFunction) {
+  attachmentBodyParser(req, res, (err?: any) => {
+    if (err) {
+      return err.type === "entity.too.large"
+        ? res.status(413).json({ error: `File must be ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB or smaller` })
+        : res.status(400).json({ error: "Failed to read upload" });
+    }
+    next();
+  });
+}
+
+// Reads uploaded measurement files (reports, drone surveys) as raw text.
+const textFileBodyParser = express.text({ type: () => true, limit: MAX_REPORT_BYTES });
+
+function parseTextFileBody(req: Request, res: Response, next: NextFunction) {
+  textFileBodyParser(req, res, (err?: any) => {
+    if (err) {
+      return err.type === "entity.too.large"
+        ? res.status(413).json({ error: `File must be ${MAX_REPORT_BYTES / (1024 * 1024)}MB or smaller` })
+        : res.status(400).json({ error: "Failed to read uploaded file" });
+    }
+    next();
+  });
+}
+
+function serializeAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    projectId: attachment.projectId,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    caption: attachment.caption,
+    includeInPdf: attachment.includeInPdf,
+    url: `/api/attachments/${attachment.id}/file`,
+    thumbnailUrl: `/api/attachments/${attachment.id}/thumbnail`,
+    createdAt: attachment.createdAt,
+  };
+}
+
+// The snapshot of permit statuses stays on the server.
+function serializePermitWatch(watch: PermitWatch) {
+  return {
+    id: watch.id,
+    kind: watch.kind,
+    query: watch.query,
+    provider: watch.provider,
+    permitCount: watch.snapshot ? Object.keys(watch.snapshot).length : null,
+    lastCheckedAt: watch.lastCheckedAt,
+    lastError: watch.lastError,
+    createdAt: watch.createdAt,
+  };
+}
+
+// Stored PDF payloads reference photos by attachment id; the bytes are read
+// when the PDF is rendered.
+type StoredEstimatePdf = Omit<EstimatePdfInput, "photos"> & { photoIds?: string[] };
+
+async function getPdfPhotoIds(userId: string | undefined, projectId: unknown): Promise<string[]> {
+  if (!userId || typeof projectId !== "string") return [];
+  const attachments = await storage.getPdfAttachments(userId, projectId);
+  return attachments.filter((a) => PDF_PHOTO_TYPES.includes(a.mimeType)).map((a) => a.id);
+}
+
+// Permits and the roof age estimated from them are copied into the payload,
+// so a shared estimate keeps showing what it was sent with.
+async function getPdfPermits(
+  userId: string | undefined,
+  projectId: unknown,
+): Promise<Pick<EstimatePdfInput, "permits" | "roofAge">> {
+  if (!userId || typeof projectId !== "string") return { permits: [], roofAge: null };
+  const project = await storage.getProject(projectId);
+  if (!project || project.userId !== userId) return { permits: [], roofAge: null };
+  const permits = await storage.getPermitsByProject(projectId);
+  return {
+    permits: permits.map((permit) => ({
+      kind: permit.kind,
+      permitNumber: permit.permitNumber,
+      jurisdiction: permit.jurisdiction,
+      permitType: permit.permitType,
+      status: getPermitStatusLabel(permit.kind, permit.status),
+      issueDate: permit.issueDate,
+      fee: permit.fee,
+    })),
+    roofAge: estimateRoofAge(permits.filter((permit) => permit.kind === "history")),
+  };
+}
+
+async function loadPdfPhotos(photoIds: string[] | undefined): Promise<EstimatePdfPhoto[]> {
+  const attachments = await storage.getAttachmentsByIds(photoIds || []);
+  const photos: EstimatePdfPhoto[] = [];
+  // Keep the order the photos were selected in, skipping any since deleted.
+  for (const id of photoIds || []) {
+    const attachment = attachments.find((a) => a.id === id);
+    const data = attachment ? await attachmentStore.read(attachment.storageKey) : null;
+    if (attachment && data) {
+      photos.push({ data, caption: attachment.caption });
+    }
+  }
+  return photos;
+}
+
+async function renderStoredEstimatePdf(
+  { photoIds, ...payload }: StoredEstimatePdf,
+  generatedAt: Date,
+  signature?: EstimatePdfSignature | null,
+): Promise<Buffer> {
+  return renderEstimatePdf(
+    { ...payload, signature, photos: await loadPdfPhotos(photoIds) },
+    generatedAt,
+  );
+}
+
+const ESTIMATE_SHARE_TTL_DAYS = 30;
+const ESTIMATE_DOCUMENT_TTL_DAYS = 7;
+// Drawn signatures arrive as PNG data URIs inside a JSON body, which is
+// capped at 100kb by express.json().
+const MAX_SIGNATURE_LENGTH = 90 * 1024;
+
+const MATERIAL_NAMES: Record<string, string> = {
+  "three-tab": "Three Tab Shingles",
+  architectural: "Architectural Shingles",
+  "metal-pbr": "Metal PBR Panels",
+  "standing-seam": "Standing Seam Metal",
+};
+
+function hashShareToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function getClientIp(req: Request): string | null {
+  const forwarded = req.header("x-forwarded-for");
+  return forwarded?.split(",")[0].trim() || req.ip || null;
+}
+
+function isShareExpired(share: EstimateShare): boolean {
+  return share.status === "pending" && share.expiresAt.getTime() < Date.now();
+}
+
+function getShareSignature(share: EstimateShare): EstimatePdfSignature | null {
+  if (share.status !== "accepted" || !share.signerName || !share.respondedAt) {
+    return null;
+  }
+  return {
+    signerName: share.signerName,
+    imageUri: share.signatureImage,
+    signedAt: share.respondedAt,
+    signerIp: share.signerIp,
+  };
+}
+
+// What the contractor's app sees; the token hash and signature image stay
+// on the server.
+function serializeEstimateShare(share: EstimateShare) {
+  return {
+    id: share.id,
+    projectId: share.projectId,
+    status: share.status,
+    selectedOptionTier: share.selectedOptionTier,
+    signerName: share.signerName,
+    declineReason: share.declineReason,
+    viewedAt: share.viewedAt,
+    respondedAt: share.respondedAt,
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+  };
+}
+
+// The homeowner-facing view of a shared estimate, with line items worked out
+// here so the public page needs no estimate logic of its own.
+function buildPublicEstimate(share: EstimateShare) {
+  const { project, branding } = share.payload as EstimatePdfInput;
+  const options: EstimateOption[] = project.estimateOptions || [];
+  const materialName = (key: string) => MATERIAL_NAMES[key] || key;
+
+  return {
+    companyName: branding?.companyName || "RoofMaster 360",
+    logoUri: branding?.logoUri?.startsWith("data:image/") ? branding.logoUri : null,
+    customerName: project.customer?.name || null,
+    address: project.address,
+    roofArea: project.roofArea || 0,
+    roofSquares: project.roofSquares || Math.ceil((project.roofArea || 0) / 100),
+    materialName: project.selectedMaterial ? materialName(project.selectedMaterial) : null,
+    lineItems: project.microBreakdown ? getEstimateLineItems(project.microBreakdown) : [],
+    estimateTotal: project.estimateTotal || 0,
+    options: options.map((option) => ({
+      tier: option.tier,
+      label: getEstimateOptionLabel(option.tier),
+      materialName: materialName(option.selectedMaterial),
+      materialPricePerSquare: option.materialPricePerSquare,
+      estimateTotal: option.estimateTotal,
+    })),
+    status: isShareExpired(share) ? "expired" : share.status,
+    selectedOptionTier: share.selectedOptionTier || project.selectedOptionTier || null,
+    signerName: share.signerName,
+    respondedAt: share.respondedAt,
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+  };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/roof-measurements", async (req: Request, res: Response) => {
-    const { address } = req.body;
+    const { address, refresh } = req.body;
     
     if (!address || typeof address !== "string") {
       return res.status(400).json({ error: "Address is required" });
     }
-    
-    const googleApiKey = process.env.GOOGLE_SOLAR_API_KEY || process.env.GOOGLE_MAPS_API_KEY;
-    
-    if (!googleApiKey) {
-      return res.status(500).json({ 
-        error: "Google API key not configured. Please add GOOGLE_SOLAR_API_KEY.",
-        configured: false 
-      });
-    }
-    
-    const coordinates = await geocodeAddress(address, googleApiKey);
-    
-    if (!coordinates) {
-      return res.status(404).json({ 
-        error: "Could not find address",
-        address 
-      });
+    // Skipping the cache costs paid geocoding and Solar API calls, so only
+    // signed-in users can ask for it.
+    if (refresh === true && !getOptionalUserId(req)) {
+      return res.status(401).json({ error: "Sign in to refresh measurements" });
     }
     
-    const buildingData = await getRoofMeasurements(coordinates.lat, coordinates.lng, googleApiKey);
-    
-    if (!buildingData) {
-      return res.status(404).json({ 
-        error: "Could not get roof measurements for this location",
-        coordinates 
-      });
+    let lookup: RoofLookup;
+    try {
+      lookup = await lookupRoof(address, { refresh: refresh === true });
+    } catch (error) {
+      if (error instanceof MeasurementProviderError) {
+        return res.status(error.status).json({
+          error: error.message,
+          code: error.code,
+          ...(error.code === "not_configured" ? { configured: false } : {}),
+          ...(error.code === "address_not_found" ? { address } : {}),
+        });
+      }
+      console.error("Roof measurement error:", error);
+      return res.status(500).json({ error: "Failed to get roof measurements" });
     }
+    const { coordinates, buildingInsights: buildingData } = lookup;
     
     const buildingStats = buildingData.solarPotential?.buildingStats;
     const roofSegments = buildingData.solarPotential?.roofSegmentStats || [];
     
-    const totalAreaMeters = buildingStats?.areaMeters2 || 
-      roofSegments.reduce((sum, seg) => sum + seg.areaMeters2, 0);
+    const segments = roofSegments.map(toRoofSegment);
+    const summary = summarizeRoofSegments(segments);
     
-    const totalAreaSqFt = Math.round(metersToFeet(totalAreaMeters));
-    const roofSquares = calculateRoofSquares(totalAreaMeters);
+    // Totals come from the facets when there are any so they agree with the
+    // per-facet pricing; otherwise fall back to the building's roof area.
+    const totalAreaMeters = buildingStats?.areaMeters2 || 0;
+    const totalAreaSqFt = segments.length > 0 ? summary.areaSqFt : Math.round(metersToFeet(totalAreaMeters));
+    const roofSquares = segments.length > 0 ? summary.squares : calculateRoofSquares(totalAreaMeters);
     
     const avgPitch = roofSegments.length > 0
       ? Math.round(roofSegments.reduce((sum, seg) => sum + seg.pitchDegrees, 0) / roofSegments.length)
@@ -334,15 +943,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     const pitchRatio = Math.round(Math.tan(avgPitch * Math.PI / 180) * 12);
     
-    const segments = roofSegments.map((seg, index) => ({
-      id: index + 1,
-      areaSqFt: Math.round(metersToFeet(seg.areaMeters2)),
-      pitchDegrees: Math.round(seg.pitchDegrees),
-      pitchRatio: Math.round(Math.tan(seg.pitchDegrees * Math.PI / 180) * 12),
-      orientation: getOrientation(seg.azimuthDegrees),
-      azimuthDegrees: Math.round(seg.azimuthDegrees)
-    }));
-    
     res.json({
       success: true,
       address,
@@ -356,36 +956,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
         segments
       },
       imageryDate: buildingData.imageryDate,
-      imageryQuality: buildingData.imageryQuality
+      imageryQuality: buildingData.imageryQuality,
+      cached: lookup.cached,
+      fetchedAt: lookup.fetchedAt
     });
   });
 
-  app.post("/api/permits", async (req: Request, res: Response) => {
-    const { address } = req.body;
-    
-    if (!address || typeof address !== "string") {
-      return res.status(400).json({ error: "Address is required" });
+  // Reads an aerial measurement report (XML, JSON or CSV) sent as the raw
+  // request body. Nothing is saved: the app shows the result and warnings and
+  // only applies them to the project once the estimator confirms.
+  app.post("/api/measurement-reports/preview", parseTextFileBody, (req: Request, res: Response) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({ error: "Report contents are required" });
     }
-    
-    const shovelsApiKey = process.env.SHOVELS_API_KEY;
-    
-    if (!shovelsApiKey) {
-      return res.status(200).json({ 
-        success: true,
-        permits: [],
-        message: "Permit API not configured - showing no results",
-        configured: false 
+
+    try {
+      const fileName = typeof req.query.fileName === "string" ? req.query.fileName : null;
+      const result = parseAerialReport(req.body, fileName);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json({ success: true, report: result.report, warnings: result.warnings });
+    } catch (error) {
+      console.error("Measurement report preview error:", error);
+      res.status(500).json({ error: "Failed to read measurement report" });
+    }
+  });
+
+  // Reads roof planes traced in drone photogrammetry software (GeoJSON or KML
+  // polygons with elevations) and returns measurements in the same shape as
+  // /api/roof-measurements. Like report imports, nothing is saved here.
+  app.post("/api/drone-surveys/preview", parseTextFileBody, (req: Request, res: Response) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({ error: "Survey contents are required" });
+    }
+
+    try {
+      const fileName = typeof req.query.fileName === "string" ? req.query.fileName : null;
+      const result = parseDroneSurvey(req.body, fileName);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json({
+        success: true,
+        format: result.format,
+        measurements: result.measurements,
+        warnings: result.warnings,
       });
+    } catch (error) {
+      console.error("Drone survey preview error:", error);
+      res.status(500).json({ error: "Failed to read drone survey" });
+    }
+  });
+
+  app.post("/api/permits", async (req: Request, res: Response) => {
+    const { address } = req.body;
+    
+    if (!address || typeof address !== "string") {
+      return res.status(400).json({ error: "Address is required" });
     }
     
     try {
-      const permits = await getPermitHistory(address, shovelsApiKey);
+      // Signed-in users can pick their own permit source in settings.
+      const userId = getOptionalUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const provider = getPermitProvider(user?.permitProvider);
+      
+      if (!provider) {
+        return res.status(200).json({ 
+          success: true,
+          permits: [],
+          nearby: [],
+          message: "Permit API not configured - showing no results",
+          configured: false 
+        });
+      }
+      
+      const result = await provider.search(address);
       
+      // permits holds only this property's history; roofing work elsewhere
+      // in the ZIP is returned separately as nearby. roofAge is inferred
+      // from the property's last reroof permit, or null if there isn't one.
       res.json({
         success: true,
         address,
-        permits,
-        count: permits.length,
+        resolvedAddress: result.resolvedAddress,
+        permits: result.property,
+        nearby: result.nearby,
+        count: result.property.length,
+        roofAge: estimateRoofAge(result.property),
+        provider: provider.name,
         configured: true
       });
     } catch (error) {
@@ -394,6 +1056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: false,
         error: "Failed to search permits. Please try again.",
         permits: [],
+        nearby: [],
         configured: true
       });
     }
@@ -403,7 +1066,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({
       googleMapsConfigured: !!(process.env.GOOGLE_SOLAR_API_KEY || process.env.GOOGLE_MAPS_API_KEY),
       googleSolarConfigured: !!(process.env.GOOGLE_SOLAR_API_KEY || process.env.GOOGLE_MAPS_API_KEY),
+      measurementProvider: measurementProvider.name,
       shovelsConfigured: !!process.env.SHOVELS_API_KEY,
+      permitProviders: getAvailablePermitProviders(),
       openaiConfigured: !!process.env.OPENAI_API_KEY
     });
   });
@@ -587,389 +1252,1450 @@ ${context ? `Current context: ${context}` : ''}`;
     }
   });
 
-  // Authentication routes
-  app.post("/api/auth/register", async (req: Request, res: Response) => {
-    const { username, email, password } = req.body;
-    
-    if (!username || !email || !password) {
-      return res.status(400).json({ error: "Username, email, and password are required" });
+  // Authentication routes
+  app.post("/api/auth/register", async (req: Request, res: Response) => {
+    const { username, email, password } = req.body;
+    
+    if (!username || !email || !password) {
+      return res.status(400).json({ error: "Username, email, and password are required" });
+    }
+
+    try {
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(400).json({ error: "Email already registered" });
+      }
+
+      const existingUsername = await storage.getUserByUsername(username);
+      if (existingUsername) {
+        return res.status(400).json({ error: "Username already taken" });
+      }
+
+      const hashedPassword = hashPassword(password);
+      const user = await storage.createUser({
+        username,
+        email,
+        password: hashedPassword,
+      });
+
+      const token = generateToken(user.id);
+      
+      res.json({
+        success: true,
+        token,
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          subscriptionStatus: user.subscriptionStatus,
+        },
+      });
+    } catch (error) {
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req: Request, res: Response) => {
+    const { email, password } = req.body;
+    
+    if (!email || !password) {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    try {
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      if (!verifyPassword(password, user.password)) {
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      const token = generateToken(user.id);
+
+      res.json({
+        success: true,
+        token,
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          subscriptionStatus: user.subscriptionStatus,
+        },
+      });
+    } catch (error) {
+      console.error("Login error:", error);
+      res.status(500).json({ error: "Failed to login" });
+    }
+  });
+
+  // Company Branding routes
+  app.get("/api/branding", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({
+        success: true,
+        branding: {
+          companyName: user.companyName || "",
+          companyLogo: user.companyLogo || null,
+        },
+      });
+    } catch (error) {
+      console.error("Get branding error:", error);
+      res.status(500).json({ error: "Failed to get branding" });
+    }
+  });
+
+  app.put("/api/branding", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { companyName, companyLogo } = req.body;
+    
+    // Validate company name length
+    if (companyName && typeof companyName === "string" && companyName.length > 100) {
+      return res.status(400).json({ error: "Company name must be 100 characters or less" });
+    }
+    
+    // Validate logo - must be valid URI and under 2MB (base64 ~1.37x original size)
+    if (companyLogo) {
+      if (typeof companyLogo !== "string") {
+        return res.status(400).json({ error: "Invalid logo format" });
+      }
+      // Limit logo size to ~2MB encoded
+      if (companyLogo.length > 2 * 1024 * 1024 * 1.4) {
+        return res.status(400).json({ error: "Logo file is too large (max 2MB)" });
+      }
+      // Validate URI format
+      const isValidUri = companyLogo.startsWith("data:image/") || 
+                         companyLogo.startsWith("https://") || 
+                         companyLogo.startsWith("file://");
+      if (!isValidUri) {
+        return res.status(400).json({ error: "Invalid logo URI format" });
+      }
+    }
+    
+    try {
+      const user = await storage.updateUserBranding(req.userId!, {
+        companyName: companyName ? String(companyName).slice(0, 100) : null,
+        companyLogo: companyLogo || null,
+      });
+      res.json({
+        success: true,
+        branding: {
+          companyName: user.companyName || "",
+          companyLogo: user.companyLogo || null,
+        },
+      });
+    } catch (error) {
+      console.error("Update branding error:", error);
+      res.status(500).json({ error: "Failed to update branding" });
+    }
+  });
+
+  // Permit source settings. Only providers configured on this server are
+  // offered; null falls back to the deployment default.
+  app.get("/api/permit-providers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({
+        success: true,
+        providers: getAvailablePermitProviders().map((name) => ({ name, label: PERMIT_PROVIDER_LABELS[name] })),
+        defaultProvider: defaultPermitProviderName,
+        selected: user.permitProvider,
+      });
+    } catch (error) {
+      console.error("Get permit providers error:", error);
+      res.status(500).json({ error: "Failed to get permit providers" });
+    }
+  });
+
+  app.put("/api/permit-providers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { provider } = req.body;
+    
+    if (provider !== null && !(isPermitProviderName(provider) && getAvailablePermitProviders().includes(provider))) {
+      return res.status(400).json({ error: "Permit provider is not available" });
+    }
+    
+    try {
+      const user = await storage.updateUser(req.userId!, { permitProvider: provider });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ success: true, selected: user.permitProvider });
+    } catch (error) {
+      console.error("Update permit provider error:", error);
+      res.status(500).json({ error: "Failed to update permit provider" });
+    }
+  });
+
+  // Permit watchlist. Watched addresses and ZIP codes are re-searched on a
+  // schedule (see permit-watch-job) and changes arrive as notifications.
+  app.get("/api/permit-watches", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const watches = await storage.getPermitWatches(req.userId!);
+      res.json({ success: true, watches: watches.map(serializePermitWatch) });
+    } catch (error) {
+      console.error("Get permit watches error:", error);
+      res.status(500).json({ error: "Failed to get watchlist" });
+    }
+  });
+
+  // The first search runs straight away so that only permits filed after the
+  // watch was added are reported.
+  app.post("/api/permit-watches", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const validated = validatePermitWatch(req.body);
+    if ("error" in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    try {
+      const existing = await storage.getPermitWatches(req.userId!);
+      const { kind, query } = validated.watch;
+      const duplicate = existing.find(
+        (w) => w.kind === kind && w.query.toLowerCase() === query.toLowerCase(),
+      );
+      if (duplicate) {
+        return res.json({ success: true, watch: serializePermitWatch(duplicate), alreadyWatching: true });
+      }
+      if (existing.length >= MAX_PERMIT_WATCHES) {
+        return res.status(400).json({ error: `You can watch up to ${MAX_PERMIT_WATCHES} addresses and ZIP codes` });
+      }
+
+      const watch = await storage.createPermitWatch({ userId: req.userId!, kind, query });
+      const check = await checkPermitWatch(watch);
+      res.json({ success: true, watch: serializePermitWatch(check.watch) });
+    } catch (error) {
+      console.error("Create permit watch error:", error);
+      res.status(500).json({ error: "Failed to add to watchlist" });
+    }
+  });
+
+  // Runs the watch's search now instead of waiting for the schedule.
+  app.post("/api/permit-watches/:id/check", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const watch = await storage.getPermitWatch(req.params.id);
+      if (!watch) {
+        return res.status(404).json({ error: "Watch not found" });
+      }
+      if (watch.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to check this watch" });
+      }
+
+      const check = await checkPermitWatch(watch);
+      res.json({
+        success: true,
+        watch: serializePermitWatch(check.watch),
+        filed: check.filed.length,
+        changed: check.changed.length,
+      });
+    } catch (error) {
+      console.error("Check permit watch error:", error);
+      res.status(500).json({ error: "Failed to check permits" });
+    }
+  });
+
+  app.delete("/api/permit-watches/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const watch = await storage.getPermitWatch(req.params.id);
+      if (!watch) {
+        return res.status(404).json({ error: "Watch not found" });
+      }
+      if (watch.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this watch" });
+      }
+
+      await storage.deletePermitWatch(watch.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete permit watch error:", error);
+      res.status(500).json({ error: "Failed to remove from watchlist" });
+    }
+  });
+
+  // Projects routes - protected with auth middleware
+  // Filtered, sorted, cursor-paginated listing. See @shared/project-filters for
+  // the accepted query parameters.
+  app.get("/api/projects", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const parsed = parseProjectFilters(req.query as Record<string, unknown>);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const limit = req.query.limit === undefined
+      ? DEFAULT_PROJECT_PAGE_SIZE
+      : parseInt(String(req.query.limit), 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PROJECT_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PROJECT_PAGE_SIZE}` });
+    }
+
+    let cursor: ProjectCursor | null = null;
+    if (req.query.cursor !== undefined) {
+      cursor = decodeProjectCursor(String(req.query.cursor), parsed.filters.sort);
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+    }
+
+    try {
+      // One extra row tells us whether there is another page.
+      const rows = await storage.searchProjects(req.userId!, parsed.filters, limit + 1, cursor);
+      const projects = rows.slice(0, limit);
+      const nextCursor = rows.length > limit
+        ? encodeProjectCursor(projects[projects.length - 1], parsed.filters.sort)
+        : null;
+      res.json({ success: true, projects, nextCursor });
+    } catch (error) {
+      console.error("Get projects error:", error);
+      res.status(500).json({ error: "Failed to get projects" });
+    }
+  });
+
+  // Incremental pull for offline sync: everything changed after `cursor`,
+  // including deletions, oldest first. Clients pass back `cursor` until
+  // `hasMore` is false. A bare ISO timestamp (the cursor format older
+  // clients stored, also accepted as `since`) resumes from that instant.
+  app.get("/api/projects/sync", authMiddleware, async (req: AuthRequest, res: Response) => {
+    let cursor: ProjectCursor | null = null;
+    const position = req.query.cursor ?? req.query.since;
+    if (position !== undefined) {
+      const value = String(position);
+      const since = new Date(value);
+      cursor = isNaN(since.getTime())
+        ? decodeProjectCursor(value, "updated")
+        : { value: since.toISOString(), id: "" };
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid sync cursor" });
+      }
+    }
+
+    try {
+      const projects = await storage.getProjectChanges(req.userId!, cursor, PROJECT_SYNC_PAGE_SIZE);
+      const nextCursor = projects.length > 0
+        ? encodeProjectCursor(projects[projects.length - 1], "updated")
+        : position !== undefined ? String(position) : null;
+      res.json({
+        success: true,
+        projects,
+        cursor: nextCursor,
+        hasMore: projects.length === PROJECT_SYNC_PAGE_SIZE,
+      });
+    } catch (error) {
+      console.error("Sync projects error:", error);
+      res.status(500).json({ error: "Failed to sync projects" });
+    }
+  });
+
+  app.post("/api/projects", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { userId: _ignored, deletedAt: _deleted, ...projectData } = req.body;
+
+    if (projectData.id !== undefined && !PROJECT_ID_PATTERN.test(String(projectData.id))) {
+      return res.status(400).json({ error: "Project id must be a UUID" });
+    }
+    
+    try {
+      // A retried create (the response was lost on a flaky connection) may
+      // carry edits made since; the client gets the stored row back as a
+      // conflict and follows up with an update instead of a duplicate.
+      if (projectData.id) {
+        const existing = await storage.getProjectIncludingDeleted(projectData.id);
+        if (existing) {
+          if (existing.userId !== req.userId) {
+            return res.status(409).json({ error: "Project id is already in use" });
+          }
+          if (existing.deletedAt) {
+            return res.status(404).json({ error: "Project not found" });
+          }
+          return res.status(409).json({
+            error: "Project already exists",
+            project: existing,
+          });
+        }
+      }
+
+      const customerError = await validateProjectCustomer(req.userId!, projectData.customerId);
+      if (customerError) {
+        return res.status(400).json({ error: customerError });
+      }
+
+      const measured = withRoofMeasurements(projectData);
+      if ("error" in measured) {
+        return res.status(400).json({ error: measured.error });
+      }
+
+      const estimate = await withServerEstimate(req.userId!, measured.data);
+      if ("error" in estimate) {
+        return res.status(400).json({ error: estimate.error });
+      }
+      
+      const project = await storage.createProject({
+        ...estimate.data,
+        userId: req.userId!,
+      });
+      await recordEstimateRevision(req.userId!, project);
+      res.json({ success: true, project });
+    } catch (error) {
+      console.error("Create project error:", error);
+      res.status(500).json({ error: "Failed to create project" });
+    }
+  });
+
+  app.put("/api/projects/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const updates = req.body;
+    
+    try {
+      const existingProject = await storage.getProject(id);
+      if (!existingProject) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (existingProject.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to update this project" });
+      }
+      
+      const { userId: _ignored, deletedAt: _deleted, baseUpdatedAt, ...requested } = updates;
+
+      // Offline clients send the version they edited; if the server copy has
+      // moved on since, they get it back to merge instead of overwriting it.
+      if (baseUpdatedAt !== undefined) {
+        const base = new Date(baseUpdatedAt);
+        if (isNaN(base.getTime())) {
+          return res.status(400).json({ error: "baseUpdatedAt must be an ISO timestamp" });
+        }
+        if (existingProject.updatedAt.getTime() > base.getTime()) {
+          return res.status(409).json({
+            error: "Project was changed on another device",
+            project: existingProject,
+          });
+        }
+      }
+      const customerError = await validateProjectCustomer(req.userId!, requested.customerId);
+      if (customerError) {
+        return res.status(400).json({ error: customerError });
+      }
+
+      const measured = withRoofMeasurements(requested);
+      if ("error" in measured) {
+        return res.status(400).json({ error: measured.error });
+      }
+      const changes = measured.data;
+
+      let priced: any;
+      if (hasPricingChanges(existingProject, changes)) {
+        const estimate = await withServerEstimate(req.userId!, { ...existingProject, ...changes });
+        if ("error" in estimate) {
+          return res.status(400).json({ error: estimate.error });
+        }
+        priced = {
+          ...changes,
+          microBreakdown: estimate.data.microBreakdown ?? existingProject.microBreakdown,
+          estimateTotal: estimate.data.estimateTotal ?? existingProject.estimateTotal,
+          // null is meaningful here (options removed / nothing picked yet).
+          estimateOptions:
+            "estimateOptions" in estimate.data ? estimate.data.estimateOptions : existingProject.estimateOptions,
+          selectedOptionTier:
+            "selectedOptionTier" in estimate.data ? estimate.data.selectedOptionTier : existingProject.selectedOptionTier,
+        };
+      } else {
+        const stored = withStoredEstimate(existingProject, changes);
+        if ("error" in stored) {
+          return res.status(400).json({ error: stored.error });
+        }
+        priced = stored.data;
+      }
+
+      const project = await storage.updateProject(id, priced);
+      if (project) {
+        await recordEstimateRevision(req.userId!, project);
+      }
+      res.json({ success: true, project });
+    } catch (error) {
+      console.error("Update project error:", error);
+      res.status(500).json({ error: "Failed to update project" });
+    }
+  });
+
+  app.delete("/api/projects/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    
+    try {
+      const existingProject = await storage.getProject(id);
+      if (!existingProject) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (existingProject.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this project" });
+      }
+      
+      await storage.deleteProject(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete project error:", error);
+      res.status(500).json({ error: "Failed to delete project" });
+    }
+  });
+
+  app.get("/api/projects/:id/revisions", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    try {
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (project.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this project" });
+      }
+
+      const revisions = await storage.getEstimateRevisions(id);
+      res.json({ success: true, revisions });
+    } catch (error) {
+      console.error("Get revisions error:", error);
+      res.status(500).json({ error: "Failed to get revisions" });
+    }
+  });
+
+  app.get("/api/projects/:id/revisions/:revisionId", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id, revisionId } = req.params;
+
+    try {
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (project.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this project" });
+      }
+
+      const revision = await storage.getEstimateRevision(revisionId);
+      if (!revision || revision.projectId !== id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      res.json({ success: true, revision });
+    } catch (error) {
+      console.error("Get revision error:", error);
+      res.status(500).json({ error: "Failed to get revision" });
+    }
+  });
+
+  // Customer routes - protected with auth middleware
+  app.get("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const customers = await storage.getCustomersByUser(req.userId!);
+      res.json({ success: true, customers });
+    } catch (error) {
+      console.error("Get customers error:", error);
+      res.status(500).json({ error: "Failed to get customers" });
+    }
+  });
+
+  app.get("/api/customers/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    try {
+      const customer = await storage.getCustomer(id);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      if (customer.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this customer" });
+      }
+
+      const projects = await storage.getProjectsByCustomer(id);
+      res.json({ success: true, customer, projects });
+    } catch (error) {
+      console.error("Get customer error:", error);
+      res.status(500).json({ error: "Failed to get customer" });
+    }
+  });
+
+  app.post("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const parsed = parseCustomerInput(req.body, false);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    try {
+      const customer = await storage.createCustomer({
+        ...parsed.data,
+        name: parsed.data.name!,
+        userId: req.userId!,
+      });
+      res.json({ success: true, customer });
+    } catch (error) {
+      console.error("Create customer error:", error);
+      res.status(500).json({ error: "Failed to create customer" });
+    }
+  });
+
+  app.put("/api/customers/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const parsed = parseCustomerInput(req.body, true);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    try {
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      if (existing.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to update this customer" });
+      }
+
+      const customer = await storage.updateCustomer(id, parsed.data);
+      res.json({ success: true, customer });
+    } catch (error) {
+      console.error("Update customer error:", error);
+      res.status(500).json({ error: "Failed to update customer" });
+    }
+  });
+
+  app.delete("/api/customers/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    try {
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      if (existing.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this customer" });
+      }
+
+      // Linked projects keep their history; the foreign key clears customerId.
+      await storage.deleteCustomer(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete customer error:", error);
+      res.status(500).json({ error: "Failed to delete customer" });
+    }
+  });
+
+  app.post("/api/estimates/calculate", async (req: Request, res: Response) => {
+    const input = req.body as Partial<EstimateInput>;
+    
+    const validationError = validateEstimateInput(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    try {
+      const userId = getOptionalUserId(req);
+      if (userId) {
+        const priceBook = await loadPriceBook(userId);
+        const material = priceBook.materials.find((m) => m.materialKey === input.selectedMaterial);
+        input.bundlesPerSquare = material?.bundlesPerSquare;
+        input.accessories = priceBook.accessories;
+      }
+      
+      const { breakdown, estimateTotal } = calculateEstimate(input as EstimateInput);
+      res.json({ success: true, breakdown, estimateTotal });
+    } catch (error) {
+      console.error("Estimate calculation error:", error);
+      res.status(500).json({ error: "Failed to calculate estimate" });
+    }
+  });
+
+  // Price book routes - per-company materials and accessory pricing
+  app.get("/api/price-book", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const priceBook = await loadPriceBook(req.userId!);
+      res.json({ success: true, priceBook });
+    } catch (error) {
+      console.error("Get price book error:", error);
+      res.status(500).json({ error: "Failed to get price book" });
+    }
+  });
+
+  app.post("/api/price-book/materials", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const parsed = parseMaterialInput(req.body, false);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    
+    try {
+      const existing = await storage.getPriceBookMaterials(req.userId!);
+      if (existing.some((m) => m.materialKey === parsed.data.materialKey)) {
+        return res.status(400).json({ error: "A material with this name already exists" });
+      }
+      
+      const [material] = await storage.createPriceBookMaterials([
+        {
+          ...parsed.data,
+          materialKey: parsed.data.materialKey!,
+          name: parsed.data.name!,
+          pricePerSquare: parsed.data.pricePerSquare!,
+          userId: req.userId!,
+          sortOrder: existing.length,
+        },
+      ]);
+      res.json({ success: true, material });
+    } catch (error) {
+      console.error("Create material error:", error);
+      res.status(500).json({ error: "Failed to create material" });
+    }
+  });
+
+  app.put("/api/price-book/materials/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    
+    const parsed = parseMaterialInput(req.body, true);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    
+    try {
+      const existing = await storage.getPriceBookMaterial(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Material not found" });
+      }
+      if (existing.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to update this material" });
+      }
+      
+      const material = await storage.updatePriceBookMaterial(id, parsed.data);
+      res.json({ success: true, material });
+    } catch (error) {
+      console.error("Update material error:", error);
+      res.status(500).json({ error: "Failed to update material" });
+    }
+  });
+
+  app.delete("/api/price-book/materials/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    
+    try {
+      const existing = await storage.getPriceBookMaterial(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Material not found" });
+      }
+      if (existing.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this material" });
+      }
+      
+      const materials = await storage.getPriceBookMaterials(req.userId!);
+      if (materials.length <= 1) {
+        return res.status(400).json({ error: "Price book must contain at least one material" });
+      }
+      
+      await storage.deletePriceBookMaterial(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete material error:", error);
+      res.status(500).json({ error: "Failed to delete material" });
+    }
+  });
+
+  app.put("/api/price-book/accessories/:category", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { category } = req.params;
+    
+    if (!isAccessoryCategory(category)) {
+      return res.status(400).json({ error: "Unknown accessory category" });
+    }
+    
+    const unitCost = Number(req.body.unitCost);
+    if (!Number.isFinite(unitCost) || unitCost < 0) {
+      return res.status(400).json({ error: "Unit cost must be a non-negative number" });
+    }
+    
+    const coverage = parsePositiveNumber(req.body.coverage);
+    if (coverage === null) {
+      return res.status(400).json({ error: "Coverage must be a positive number" });
+    }
+    
+    try {
+      const accessory = await storage.upsertPriceBookAccessory({
+        userId: req.userId!,
+        category,
+        unitCost,
+        coverage,
+      });
+      res.json({ success: true, accessory });
+    } catch (error) {
+      console.error("Update accessory error:", error);
+      res.status(500).json({ error: "Failed to update accessory pricing" });
+    }
+  });
+
+  app.post("/api/price-book/imports/preview", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await buildPriceListDiff(req.userId!, req.body);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json({ success: true, rows: result.diff, warnings: result.warnings });
+    } catch (error) {
+      console.error("Preview price list error:", error);
+      res.status(500).json({ error: "Failed to read price list" });
+    }
+  });
+
+  app.post("/api/price-book/imports/apply", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { timeZone } = req.body;
+    if (timeZone !== undefined && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: "Unknown time zone" });
+    }
+    const effectiveDate = parseEffectiveDate(req.body.effectiveDate, timeZone);
+    if (!effectiveDate) {
+      return res.status(400).json({ error: "Effective date must be in YYYY-MM-DD format" });
+    }
+
+    const supplierName = req.body.supplierName ? String(req.body.supplierName).slice(0, 100) : null;
+
+    try {
+      const result = await buildPriceListDiff(req.userId!, req.body);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      // Remember every resolved SKU (and explicit skips) for the next import.
+      for (const row of result.diff) {
+        const target = result.overrides[row.sku] ?? row.target;
+        if (target && row.status !== "duplicate") {
+          await storage.upsertSupplierSkuMapping(req.userId!, row.sku, target);
+        }
+      }
+
+      const changes = await storage.createPriceChanges(
+        result.diff
+          .filter((row) => row.status === "changed" && row.target && row.newCost !== null)
+          .map((row) => ({
+            userId: req.userId!,
+            target: row.target!,
+            sku: row.sku,
+            supplierName,
+            previousCost: row.currentCost,
+            newCost: row.newCost!,
+            effectiveDate,
+          })),
+      );
+
+      const priceBook = await loadPriceBook(req.userId!);
+      const scheduled = effectiveDate.getTime() > Date.now();
+
+      res.json({
+        success: true,
+        changes: changes.length,
+        scheduled,
+        effectiveDate: effectiveDate.toISOString(),
+        priceBook,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error("Apply price list error:", error);
+      res.status(500).json({ error: "Failed to apply price list" });
+    }
+  });
+
+  app.get("/api/price-book/changes", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const changes = await storage.getPriceChanges(req.userId!);
+      res.json({ success: true, changes });
+    } catch (error) {
+      console.error("Get price changes error:", error);
+      res.status(500).json({ error: "Failed to fetch price changes" });
+    }
+  });
+
+  // PDF Generation endpoint. Re-prices the estimate, stores the payload under
+  // a signed hash and returns a stable URL that renders the same PDF on every
+  // platform. Stored documents expire after ESTIMATE_DOCUMENT_TTL_DAYS.
+  // Guests are priced from the default catalog and their documents belong to
+  // no account.
+  app.post("/api/generate-pdf", async (req: Request, res: Response) => {
+    const { project, branding } = req.body;
+    
+    if (!project) {
+      return res.status(400).json({ error: "Project data is required" });
+    }
+
+    try {
+      const userId = getOptionalUserId(req);
+      const measured = withRoofMeasurements(project);
+      if ("error" in measured) {
+        return res.status(400).json({ error: measured.error });
+      }
+
+      const estimate = await withServerEstimate(userId, measured.data);
+      if ("error" in estimate) {
+        return res.status(400).json({ error: estimate.error });
+      }
+
+      const payload: StoredEstimatePdf = {
+        project: estimate.data,
+        branding: branding
+          ? { companyName: branding.companyName || null, logoUri: branding.logoUri || null }
+          : null,
+        photoIds: await getPdfPhotoIds(userId, project.id),
+        ...(await getPdfPermits(userId, project.id)),
+      };
+      const documentId = createHmac("sha256", JWT_SECRET)
+        .update(JSON.stringify({ userId: userId ?? null, payload }))
+        .digest("hex")
+        .slice(0, 32);
+
+      await storage.deleteExpiredEstimateDocuments(new Date());
+      await storage.saveEstimateDocument(
+        documentId,
+        userId ?? null,
+        payload,
+        new Date(Date.now() + ESTIMATE_DOCUMENT_TTL_DAYS * 24 * 60 * 60 * 1000),
+      );
+
+      res.json({
+        success: true,
+        url: `/api/generate-pdf/${documentId}.pdf`,
+        filename: getEstimatePdfFilename(project),
+      });
+    } catch (error) {
+      console.error("PDF generation error:", error);
+      res.status(500).json({ error: "Failed to generate PDF" });
+    }
+  });
+
+  app.get("/api/generate-pdf/:documentId.pdf", async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getEstimateDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.userId && document.userId !== getOptionalUserId(req)) {
+        return res.status(403).json({ error: "Not authorized to view this document" });
+      }
+      if (document.expiresAt.getTime() < Date.now()) {
+        return res.status(410).json({ error: "This PDF has expired. Please generate it again." });
+      }
+
+      const payload = document.payload as StoredEstimatePdf;
+      const pdf = await renderStoredEstimatePdf(payload, document.createdAt);
+      const disposition = req.query.download ? "attachment" : "inline";
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdf.length);
+      res.setHeader(
+        "Content-Disposition",
+        `${disposition}; filename="${getEstimatePdfFilename(payload.project)}"`,
+      );
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(pdf);
+    } catch (error) {
+      console.error("PDF render error:", error);
+      res.status(500).json({ error: "Failed to render PDF" });
+    }
+  });
+
+  // Estimate share links - the contractor creates one, the homeowner opens it
+  // at /estimate/<token> and accepts or declines without an account.
+  app.post("/api/estimate-shares", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { project, branding } = req.body;
+
+    if (!project || typeof project.id !== "string" || !project.address) {
+      return res.status(400).json({ error: "Project data is required" });
+    }
+
+    try {
+      const existingProject = await storage.getProject(project.id);
+      if (!existingProject) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (existingProject.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to share this project" });
+      }
+
+      const measured = withRoofMeasurements(project);
+      if ("error" in measured) {
+        return res.status(400).json({ error: measured.error });
+      }
+
+      const estimate = await withServerEstimate(req.userId!, measured.data);
+      if ("error" in estimate) {
+        return res.status(400).json({ error: estimate.error });
+      }
+      if (!estimate.data.microBreakdown) {
+        return res.status(400).json({ error: "Price the estimate before sending it" });
+      }
+
+      const payload: StoredEstimatePdf = {
+        project: estimate.data,
+        branding: branding
+          ? { companyName: branding.companyName || null, logoUri: branding.logoUri || null }
+          : null,
+        photoIds: await getPdfPhotoIds(req.userId, project.id),
+        ...(await getPdfPermits(req.userId, project.id)),
+      };
+      const token = randomBytes(24).toString("base64url");
+      const share = await storage.createEstimateShare({
+        userId: req.userId!,
+        projectId: project.id,
+        tokenHash: hashShareToken(token),
+        payload,
+        expiresAt: new Date(Date.now() + ESTIMATE_SHARE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+
+      res.json({ success: true, share: serializeEstimateShare(share), url: `/estimate/${token}` });
+    } catch (error) {
+      console.error("Create estimate share error:", error);
+      res.status(500).json({ error: "Failed to create estimate link" });
+    }
+  });
+
+  app.get("/api/estimate-shares", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const projectId = req.query.projectId;
+    if (typeof projectId !== "string" || !projectId) {
+      return res.status(400).json({ error: "projectId is required" });
     }
 
     try {
-      const existingUser = await storage.getUserByEmail(email);
-      if (existingUser) {
-        return res.status(400).json({ error: "Email already registered" });
+      const shares = await storage.getEstimateSharesByProject(req.userId!, projectId);
+      res.json({ success: true, shares: shares.map(serializeEstimateShare) });
+    } catch (error) {
+      console.error("Get estimate shares error:", error);
+      res.status(500).json({ error: "Failed to get estimate links" });
+    }
+  });
+
+  app.get("/api/public/estimates/:token", async (req: Request, res: Response) => {
+    try {
+      const share = await storage.getEstimateShareByTokenHash(hashShareToken(req.params.token));
+      if (!share) {
+        return res.status(404).json({ error: "Estimate not found" });
       }
 
-      const existingUsername = await storage.getUserByUsername(username);
-      if (existingUsername) {
-        return res.status(400).json({ error: "Username already taken" });
+      if (!share.viewedAt) {
+        await storage.updateEstimateShare(share.id, { viewedAt: new Date() });
       }
 
-      const hashedPassword = hashPassword(password);
-      const user = await storage.createUser({
-        username,
-        email,
-        password: hashedPassword,
-      });
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ success: true, estimate: buildPublicEstimate(share) });
+    } catch (error) {
+      console.error("Get public estimate error:", error);
+      res.status(500).json({ error: "Failed to load estimate" });
+    }
+  });
 
-      const token = generateToken(user.id);
-      
-      res.json({
-        success: true,
-        token,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          subscriptionStatus: user.subscriptionStatus,
-        },
-      });
+  app.get("/api/public/estimates/:token/pdf", async (req: Request, res: Response) => {
+    try {
+      const share = await storage.getEstimateShareByTokenHash(hashShareToken(req.params.token));
+      if (!share) {
+        return res.status(404).json({ error: "Estimate not found" });
+      }
+      if (isShareExpired(share)) {
+        return res.status(410).json({ error: "This estimate link has expired" });
+      }
+
+      const payload = share.payload as StoredEstimatePdf;
+      const pdf = await renderStoredEstimatePdf(payload, share.createdAt, getShareSignature(share));
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdf.length);
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${getEstimatePdfFilename(payload.project)}"`,
+      );
+      res.setHeader("Cache-Control", "no-store");
+      res.send(pdf);
     } catch (error) {
-      console.error("Registration error:", error);
-      res.status(500).json({ error: "Failed to register user" });
+      console.error("Public estimate PDF error:", error);
+      res.status(500).json({ error: "Failed to render PDF" });
     }
   });
 
-  app.post("/api/auth/login", async (req: Request, res: Response) => {
-    const { email, password } = req.body;
-    
-    if (!email || !password) {
-      return res.status(400).json({ error: "Email and password are required" });
+  app.post("/api/public/estimates/:token/respond", async (req: Request, res: Response) => {
+    const { decision, signerName, signature, selectedOptionTier, declineReason } = req.body;
+
+    if (decision !== "accept" && decision !== "decline") {
+      return res.status(400).json({ error: "Decision must be accept or decline" });
+    }
+    const name = parseOptionalText(signerName, 100);
+    if (!name) {
+      return res.status(400).json({ error: "Please enter your full name" });
+    }
+    const accepted = decision === "accept";
+    if (accepted) {
+      if (typeof signature !== "string" || !signature.startsWith("data:image/png;base64,")) {
+        return res.status(400).json({ error: "Please sign to accept the estimate" });
+      }
+      if (signature.length > MAX_SIGNATURE_LENGTH) {
+        return res.status(400).json({ error: "Signature image is too large" });
+      }
     }
 
     try {
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(401).json({ error: "Invalid credentials" });
+      const share = await storage.getEstimateShareByTokenHash(hashShareToken(req.params.token));
+      if (!share) {
+        return res.status(404).json({ error: "Estimate not found" });
+      }
+      if (isShareExpired(share)) {
+        return res.status(410).json({ error: "This estimate link has expired" });
+      }
+      if (share.status !== "pending") {
+        return res.status(409).json({ error: `This estimate has already been ${share.status}` });
       }
 
-      if (!verifyPassword(password, user.password)) {
-        return res.status(401).json({ error: "Invalid credentials" });
+      const { project: snapshot } = share.payload as EstimatePdfInput;
+      const options: EstimateOption[] = snapshot.estimateOptions || [];
+      let option: EstimateOption | undefined;
+      if (accepted && options.length > 0) {
+        option = options.find((o) => o.tier === selectedOptionTier);
+        if (!option) {
+          return res.status(400).json({ error: "Please choose one of the options" });
+        }
       }
 
-      const token = generateToken(user.id);
+      const status = accepted ? "accepted" : "declined";
+      const updated = await storage.respondToEstimateShare(share.id, {
+        status,
+        signerName: name,
+        signatureImage: accepted ? signature : null,
+        signerIp: getClientIp(req),
+        selectedOptionTier: option?.tier ?? null,
+        declineReason: accepted ? null : parseOptionalText(declineReason, 1000),
+      });
+      if (!updated) {
+        return res.status(409).json({ error: "This estimate has already been answered" });
+      }
 
-      res.json({
-        success: true,
-        token,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          subscriptionStatus: user.subscriptionStatus,
+      // A project edited after the link went out keeps its current pricing
+      // rather than the chosen option's snapshot; the contractor is asked to
+      // reconcile it instead.
+      const project = await storage.getProject(share.projectId);
+      const changedSinceSent = !!project && project.updatedAt > share.createdAt;
+      if (project && project.userId === share.userId) {
+        const updatedProject = await storage.updateProject(project.id, {
+          status,
+          ...(option && !changedSinceSent ? getEstimateOptionFields(option) : {}),
+        });
+        if (updatedProject) {
+          await recordEstimateRevision(share.userId, updatedProject);
+        }
+      }
+
+      const total = option ? option.estimateTotal : snapshot.estimateTotal || 0;
+      const summary = option
+        ? `${snapshot.address} - ${getEstimateOptionLabel(option.tier)} option, $${Math.round(total).toLocaleString()}`
+        : snapshot.address;
+      await storage.createNotification({
+        userId: share.userId,
+        type: accepted ? "estimate_accepted" : "estimate_declined",
+        title: `${name} ${status} your estimate`,
+        body: option && changedSinceSent
+          ? `${summary}. The project changed after this estimate was sent, so its pricing wasn't updated. Please review it.`
+          : summary,
+        projectId: share.projectId,
+        data: {
+          status,
+          selectedOptionTier: option?.tier ?? null,
+          signerName: name,
+          projectChangedSinceSent: changedSinceSent,
         },
       });
+
+      res.json({ success: true, estimate: buildPublicEstimate(updated) });
     } catch (error) {
-      console.error("Login error:", error);
-      res.status(500).json({ error: "Failed to login" });
+      console.error("Respond to estimate error:", error);
+      res.status(500).json({ error: "Failed to record your response" });
     }
   });
 
-  // Company Branding routes
-  app.get("/api/branding", authMiddleware, async (req: AuthRequest, res: Response) => {
+  // Notifications - protected with auth middleware
+  app.get("/api/notifications", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const user = await storage.getUser(req.userId!);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const notifications = await storage.getNotifications(req.userId!);
+      res.json({ success: true, notifications });
+    } catch (error) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ error: "Failed to get notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.userId!);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
       }
-      res.json({
-        success: true,
-        branding: {
-          companyName: user.companyName || "",
-          companyLogo: user.companyLogo || null,
-        },
-      });
+      res.json({ success: true, notification });
     } catch (error) {
-      console.error("Get branding error:", error);
-      res.status(500).json({ error: "Failed to get branding" });
+      console.error("Mark notification read error:", error);
+      res.status(500).json({ error: "Failed to update notification" });
     }
   });
 
-  app.put("/api/branding", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { companyName, companyLogo } = req.body;
-    
-    // Validate company name length
-    if (companyName && typeof companyName === "string" && companyName.length > 100) {
-      return res.status(400).json({ error: "Company name must be 100 characters or less" });
+  app.get("/api/projects/:id/attachments", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (project.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this project" });
+      }
+
+      const attachments = await storage.getAttachmentsByProject(project.id);
+      res.json({ success: true, attachments: attachments.map(serializeAttachment) });
+    } catch (error) {
+      console.error("Get attachments error:", error);
+      res.status(500).json({ error: "Failed to get attachments" });
     }
-    
-    // Validate logo - must be valid URI and under 2MB (base64 ~1.37x original size)
-    if (companyLogo) {
-      if (typeof companyLogo !== "string") {
-        return res.status(400).json({ error: "Invalid logo format" });
+  });
+
+  // Body is the file itself; fileName and caption come in the query string.
+  app.post(
+    "/api/projects/:id/attachments",
+    authMiddleware,
+    parseAttachmentBody,
+    async (req: AuthRequest, res: Response) => {
+      const data = req.body;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        return res.status(400).json({ error: "File is required" });
       }
-      // Limit logo size to ~2MB encoded
-      if (companyLogo.length > 2 * 1024 * 1024 * 1.4) {
-        return res.status(400).json({ error: "Logo file is too large (max 2MB)" });
+
+      const mimeType = detectAttachmentType(data);
+      if (!mimeType) {
+        return res.status(415).json({ error: "Only JPEG, PNG and PDF files can be attached" });
       }
-      // Validate URI format
-      const isValidUri = companyLogo.startsWith("data:image/") || 
-                         companyLogo.startsWith("https://") || 
-                         companyLogo.startsWith("file://");
-      if (!isValidUri) {
-        return res.status(400).json({ error: "Invalid logo URI format" });
+
+      try {
+        const project = await storage.getProject(req.params.id);
+        if (!project) {
+          return res.status(404).json({ error: "Project not found" });
+        }
+        if (project.userId !== req.userId) {
+          return res.status(403).json({ error: "Not authorized to update this project" });
+        }
+
+        const id = randomUUID();
+        const baseKey = `${req.userId}/${project.id}/${id}`;
+        const storageKey = `${baseKey}.${ATTACHMENT_TYPES[mimeType]}`;
+        await attachmentStore.save(storageKey, data);
+
+        let thumbnailKey: string | null = null;
+        const thumbnail = mimeType === "image/jpeg" ? extractJpegThumbnail(data) : null;
+        if (thumbnail) {
+          thumbnailKey = `${baseKey}-thumb.jpg`;
+          await attachmentStore.save(thumbnailKey, thumbnail);
+        }
+
+        const fileName =
+          parseOptionalText(req.query.fileName, 200) || `attachment.${ATTACHMENT_TYPES[mimeType]}`;
+        const attachment = await storage.createAttachment({
+          id,
+          userId: req.userId!,
+          projectId: project.id,
+          fileName,
+          mimeType,
+          size: data.length,
+          storageKey,
+          thumbnailKey,
+          caption: parseOptionalText(req.query.caption, MAX_ATTACHMENT_CAPTION_LENGTH),
+          includeInPdf: false,
+        });
+
+        res.json({ success: true, attachment: serializeAttachment(attachment) });
+      } catch (error) {
+        console.error("Upload attachment error:", error);
+        res.status(500).json({ error: "Failed to upload attachment" });
       }
+    },
+  );
+
+  app.put("/api/attachments/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { caption, includeInPdf } = req.body;
+    if (includeInPdf !== undefined && typeof includeInPdf !== "boolean") {
+      return res.status(400).json({ error: "includeInPdf must be true or false" });
     }
-    
+
     try {
-      const user = await storage.updateUserBranding(req.userId!, {
-        companyName: companyName ? String(companyName).slice(0, 100) : null,
-        companyLogo: companyLogo || null,
-      });
-      res.json({
-        success: true,
-        branding: {
-          companyName: user.companyName || "",
-          companyLogo: user.companyLogo || null,
-        },
-      });
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      if (attachment.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to update this attachment" });
+      }
+      if (includeInPdf && !PDF_PHOTO_TYPES.includes(attachment.mimeType)) {
+        return res.status(400).json({ error: "Only photos can be included in the PDF" });
+      }
+
+      const changes: Partial<Attachment> = {};
+      if (caption !== undefined) {
+        changes.caption = parseOptionalText(caption, MAX_ATTACHMENT_CAPTION_LENGTH);
+      }
+      if (includeInPdf !== undefined) {
+        changes.includeInPdf = includeInPdf;
+      }
+
+      const updated = await storage.updateAttachment(attachment.id, changes);
+      res.json({ success: true, attachment: serializeAttachment(updated!) });
     } catch (error) {
-      console.error("Update branding error:", error);
-      res.status(500).json({ error: "Failed to update branding" });
+      console.error("Update attachment error:", error);
+      res.status(500).json({ error: "Failed to update attachment" });
     }
   });
 
-  // Projects routes - protected with auth middleware
-  app.get("/api/projects", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.delete("/api/attachments/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const projects = await storage.getProjectsByUser(req.userId!);
-      res.json({ success: true, projects });
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      if (attachment.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this attachment" });
+      }
+
+      await storage.deleteAttachment(attachment.id);
+      await attachmentStore.remove(attachment.storageKey);
+      if (attachment.thumbnailKey) {
+        await attachmentStore.remove(attachment.thumbnailKey);
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get projects error:", error);
-      res.status(500).json({ error: "Failed to get projects" });
+      console.error("Delete attachment error:", error);
+      res.status(500).json({ error: "Failed to delete attachment" });
     }
   });
 
-  app.post("/api/projects", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { userId: _ignored, ...projectData } = req.body;
-    
+  app.get("/api/projects/:id/permits", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const project = await storage.createProject({
-        ...projectData,
-        userId: req.userId!,
-      });
-      res.json({ success: true, project });
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (project.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this project" });
+      }
+
+      const permits = await storage.getPermitsByProject(project.id);
+      res.json({ success: true, permits });
     } catch (error) {
-      console.error("Create project error:", error);
-      res.status(500).json({ error: "Failed to create project" });
+      console.error("Get permits error:", error);
+      res.status(500).json({ error: "Failed to get permits" });
     }
   });
 
-  app.put("/api/projects/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    const updates = req.body;
-    
+  // Saves a permit search result (kind "history") or the job's own permit
+  // (kind "project"). Saving the same search result twice returns the copy
+  // already on the project.
+  app.post("/api/projects/:id/permits", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const validated = validatePermitRecord(req.body);
+    if ("error" in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
     try {
-      const existingProject = await storage.getProject(id);
-      if (!existingProject) {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
         return res.status(404).json({ error: "Project not found" });
       }
-      if (existingProject.userId !== req.userId) {
+      if (project.userId !== req.userId) {
         return res.status(403).json({ error: "Not authorized to update this project" });
       }
-      
-      const project = await storage.updateProject(id, updates);
-      res.json({ success: true, project });
+
+      const { permit } = validated;
+      if (permit.sourceId) {
+        const existing = (await storage.getPermitsByProject(project.id)).find(
+          (p) => p.sourceId === permit.sourceId,
+        );
+        if (existing) {
+          return res.json({ success: true, permit: existing, alreadySaved: true });
+        }
+      }
+
+      const created = await storage.createPermit({
+        ...permit,
+        userId: req.userId!,
+        projectId: project.id,
+      });
+      res.json({ success: true, permit: created });
     } catch (error) {
-      console.error("Update project error:", error);
-      res.status(500).json({ error: "Failed to update project" });
+      console.error("Create permit error:", error);
+      res.status(500).json({ error: "Failed to save permit" });
     }
   });
 
-  app.delete("/api/projects/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    
+  // Replaces a saved permit's details. The kind and source can't change.
+  app.put("/api/permits/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const existingProject = await storage.getProject(id);
-      if (!existingProject) {
-        return res.status(404).json({ error: "Project not found" });
+      const permit = await storage.getPermit(req.params.id);
+      if (!permit) {
+        return res.status(404).json({ error: "Permit not found" });
       }
-      if (existingProject.userId !== req.userId) {
-        return res.status(403).json({ error: "Not authorized to delete this project" });
+      if (permit.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to update this permit" });
       }
-      
-      await storage.deleteProject(id);
-      res.json({ success: true });
+
+      const validated = validatePermitRecord({ ...req.body, kind: permit.kind });
+      if ("error" in validated) {
+        return res.status(400).json({ error: validated.error });
+      }
+
+      const { kind, source, sourceId, ...changes } = validated.permit;
+      const updated = await storage.updatePermit(permit.id, changes);
+      res.json({ success: true, permit: updated });
     } catch (error) {
-      console.error("Delete project error:", error);
-      res.status(500).json({ error: "Failed to delete project" });
+      console.error("Update permit error:", error);
+      res.status(500).json({ error: "Failed to update permit" });
     }
   });
 
-  // PDF Generation endpoint
-  app.post("/api/generate-pdf", async (req: Request, res: Response) => {
-    const { project, branding } = req.body;
-    
-    if (!project) {
-      return res.status(400).json({ error: "Project data is required" });
+  app.delete("/api/permits/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const permit = await storage.getPermit(req.params.id);
+      if (!permit) {
+        return res.status(404).json({ error: "Permit not found" });
+      }
+      if (permit.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this permit" });
+      }
+
+      await storage.deletePermit(permit.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete permit error:", error);
+      res.status(500).json({ error: "Failed to delete permit" });
     }
+  });
 
+  // Images without an embedded preview fall back to the original file.
+  app.get("/api/attachments/:id/:variant(file|thumbnail)", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat("en-US", {
-          style: "currency",
-          currency: "USD",
-          minimumFractionDigits: 0,
-          maximumFractionDigits: 0,
-        }).format(amount);
-      };
-
-      const formatDate = (dateString: string) => {
-        return new Date(dateString).toLocaleDateString("en-US", {
-          month: "long",
-          day: "numeric",
-          year: "numeric",
-        });
-      };
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      if (attachment.userId !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view this attachment" });
+      }
 
-      const MATERIAL_NAMES: Record<string, string> = {
-        "three-tab": "Three Tab Shingles",
-        "architectural": "Architectural Shingles",
-        "metal-pbr": "Metal PBR Panels",
-        "standing-seam": "Standing Seam Metal",
-      };
+      const useThumbnail = req.params.variant === "thumbnail" && attachment.thumbnailKey;
+      if (req.params.variant === "thumbnail" && !useThumbnail && attachment.mimeType === "application/pdf") {
+        return res.status(404).json({ error: "No thumbnail for this attachment" });
+      }
+      const data = await attachmentStore.read(useThumbnail ? attachment.thumbnailKey! : attachment.storageKey);
+      if (!data) {
+        return res.status(404).json({ error: "Attachment file is missing" });
+      }
 
-      const materialName = project.selectedMaterial
-        ? MATERIAL_NAMES[project.selectedMaterial] || project.selectedMaterial
-        : "Standard Materials";
-      const breakdown = project.microBreakdown;
-      
-      const companyName = (branding?.companyName || "RoofMaster 360").replace(/[<>&"']/g, '');
-      const companyLogo = branding?.logoUri;
-      
-      const isValidLogoUri = companyLogo && (
-        companyLogo.startsWith('data:image/') || 
-        companyLogo.startsWith('https://') ||
-        companyLogo.startsWith('file://')
+      res.setHeader("Content-Type", useThumbnail ? "image/jpeg" : attachment.mimeType);
+      res.setHeader("Content-Length", data.length);
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${attachment.fileName.replace(/["\\\r\n]/g, "")}"`,
       );
-      
-      const logoHtml = isValidLogoUri
-        ? `<img src="${companyLogo.replace(/"/g, '&quot;')}" alt="Company Logo" style="width: 50px; height: 50px; border-radius: 8px; object-fit: contain;" onerror="this.style.display='none'" />`
-        : `<div class="logo-icon">${companyName.charAt(0).toUpperCase()}</div>`;
-
-      const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: 'Helvetica Neue', Arial, sans-serif; margin: 40px; color: #1A2332; }
-    .header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 30px; padding-bottom: 20px; border-bottom: 2px solid #FF6B35; }
-    .logo { display: flex; align-items: center; gap: 15px; }
-    .logo-icon { width: 50px; height: 50px; background: #FF6B35; border-radius: 8px; display: flex; align-items: center; justify-content: center; color: white; font-size: 24px; font-weight: bold; }
-    .company-name { font-size: 24px; font-weight: bold; }
-    .company-subtitle { color: #666; font-size: 14px; }
-    .date { color: #666; }
-    .section { margin-bottom: 25px; padding: 20px; background: #f8f9fa; border-radius: 8px; }
-    .section-title { font-size: 14px; color: #666; margin-bottom: 8px; text-transform: uppercase; letter-spacing: 0.5px; }
-    .address { font-size: 18px; font-weight: 600; margin-bottom: 15px; }
-    .details { display: flex; gap: 40px; }
-    .detail-item { }
-    .detail-label { font-size: 12px; color: #666; }
-    .detail-value { font-size: 16px; font-weight: 600; }
-    .material-section { display: flex; justify-content: space-between; align-items: center; }
-    .breakdown-table { width: 100%; border-collapse: collapse; }
-    .breakdown-table th, .breakdown-table td { padding: 10px 0; text-align: left; border-bottom: 1px solid #e0e0e0; }
-    .breakdown-table th { font-size: 12px; color: #666; text-transform: uppercase; }
-    .breakdown-table .amount { text-align: right; }
-    .category { font-weight: 600; background: #f0f0f0; padding: 8px; margin-top: 15px; }
-    .total-row { border-top: 2px solid #1A2332; font-size: 20px; font-weight: bold; }
-    .total-row .amount { color: #FF6B35; }
-    .signature-section { margin-top: 50px; display: flex; gap: 50px; }
-    .signature-line { flex: 1; border-top: 1px solid #666; padding-top: 10px; }
-    .footer { margin-top: 40px; text-align: center; color: #666; font-size: 12px; }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <div class="logo">
-      ${logoHtml}
-      <div>
-        <div class="company-name">${companyName}</div>
-        <div class="company-subtitle">Professional Roofing Estimate</div>
-      </div>
-    </div>
-    <div class="date">${formatDate(project.createdAt)}</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">Property Address</div>
-    <div class="address">${project.address}</div>
-    <div class="details">
-      <div class="detail-item">
-        <div class="detail-label">Roof Area</div>
-        <div class="detail-value">${project.roofArea?.toLocaleString() || 0} sq ft</div>
-      </div>
-      <div class="detail-item">
-        <div class="detail-label">Squares</div>
-        <div class="detail-value">${project.roofSquares || Math.ceil((project.roofArea || 0) / 100)}</div>
-      </div>
-      <div class="detail-item">
-        <div class="detail-label">Pitch</div>
-        <div class="detail-value">${project.pitch || 0}/12</div>
-      </div>
-    </div>
-  </div>
-
-  <div class="section material-section">
-    <div>
-      <div class="section-title">Material Selection</div>
-      <div style="font-size: 18px; font-weight: 600;">${materialName}</div>
-    </div>
-    <div style="text-align: right;">
-      <div class="detail-label">Price per Square</div>
-      <div class="detail-value">${formatCurrency(project.materialPricePerSquare || 0)}</div>
-    </div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">Cost Breakdown</div>
-    <table class="breakdown-table">
-      <tr class="category"><td colspan="2">Materials</td></tr>
-      ${breakdown ? `
-      <tr><td>Shingles/Panels</td><td class="amount">${formatCurrency(breakdown.shingles || 0)}</td></tr>
-      <tr><td>Waste Factor (12%)</td><td class="amount">${formatCurrency(breakdown.waste || 0)}</td></tr>
-      <tr><td>Underlayment</td><td class="amount">${formatCurrency(breakdown.underlayment || 0)}</td></tr>
-      <tr><td>Flashing</td><td class="amount">${formatCurrency(breakdown.flashing || 0)}</td></tr>
-      <tr><td>Nails/Fasteners</td><td class="amount">${formatCurrency(breakdown.nails || 0)}</td></tr>
-      <tr><td>Venting</td><td class="amount">${formatCurrency(breakdown.venting || 0)}</td></tr>
-      <tr><td>Ridge Cap</td><td class="amount">${formatCurrency(breakdown.ridgeCap || 0)}</td></tr>
-      ` : '<tr><td colspan="2">No breakdown available</td></tr>'}
-      
-      <tr class="category"><td colspan="2">Labor & Other</td></tr>
-      ${breakdown ? `
-      <tr><td>Labor (${project.laborHours || 0} hrs x ${formatCurrency(project.laborRate || 0)}/hr)</td><td class="amount">${formatCurrency(breakdown.labor || 0)}</td></tr>
-      <tr><td>Additional Costs</td><td class="amount">${formatCurrency(breakdown.additional || 0)}</td></tr>
-      ` : ''}
-      
-      <tr class="total-row">
-        <td>Total Estimate</td>
-        <td class="amount">${formatCurrency(project.estimateTotal || 0)}</td>
-      </tr>
-    </table>
-  </div>
-
-  <div class="signature-section">
-    <div class="signature-line">Contractor Signature</div>
-    <div class="signature-line">Client Signature</div>
-  </div>
-
-  <div class="footer">
-    Generated by RoofMaster 360 | Professional Roofing Estimation Platform
-    <br>Contact: support@lionshareanimation.com
-  </div>
-</body>
-</html>`;
-
-      res.json({
-        success: true,
-        html: htmlContent,
-        filename: `RoofMaster360_Estimate_${project.id || Date.now()}.html`,
-      });
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.send(data);
     } catch (error) {
-      console.error("PDF generation error:", error);
-      res.status(500).json({ error: "Failed to generate PDF" });
+      console.error("Get attachment file error:", error);
+      res.status(500).json({ error: "Failed to load attachment" });
     }
   });
 
@@ -1039,15 +2765,3 @@ Always prioritize safety - recommend professional help for complex or dangerous
 
   return httpServer;
 }
-
-function getOrientation(azimuth: number): string {
-  if (azimuth >= 337.5 || azimuth < 22.5) return "North";
-  if (azimuth >= 22.5 && azimuth < 67.5) return "Northeast";
-  if (azimuth >= 67.5 && azimuth < 112.5) return "East";
-  if (azimuth >= 112.5 && azimuth < 157.5) return "Southeast";
-  if (azimuth >= 157.5 && azimuth < 202.5) return "South";
-  if (azimuth >= 202.5 && azimuth < 247.5) return "Southwest";
-  if (azimuth >= 247.5 && azimuth < 292.5) return "West";
-  if (azimuth >= 292.5 && azimuth < 337.5) return "Northwest";
-  return "Unknown";
-}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, date, jsonb, unique, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,20 +15,48 @@ export const users = pgTable("users", {
   aiRequestsUsed: integer("ai_requests_used").default(0),
   companyName: text("company_name"),
   companyLogo: text("company_logo"),
+  // Permit source chosen in settings; null uses the deployment default.
+  permitProvider: text("permit_provider"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const customers = pgTable("customers", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  billingAddress: text("billing_address"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Project search; must match the expression in storage.searchProjects.
+  index("customers_search_idx").using(
+    "gin",
+    sql`to_tsvector('simple', coalesce(${table.name}, '') || ' ' || coalesce(${table.notes}, ''))`,
+  ),
+]);
+
 export const projects = pgTable("projects", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
   address: text("address").notNull(),
   length: real("length").default(0),
   width: real("width").default(0),
   pitch: real("pitch").default(0),
   roofArea: real("roof_area").default(0),
   roofSquares: integer("roof_squares"),
+  roofSegments: jsonb("roof_segments"),
+  linearMeasurements: jsonb("linear_measurements"),
+  roofSketch: jsonb("roof_sketch"),
   selectedMaterial: text("selected_material"),
   materialPricePerSquare: real("material_price_per_square"),
   microBreakdown: jsonb("micro_breakdown"),
@@ -36,20 +64,362 @@ export const projects = pgTable("projects", {
   laborHours: real("labor_hours").default(0),
   additionalCosts: real("additional_costs").default(0),
   estimateTotal: real("estimate_total").default(0),
+  estimateOptions: jsonb("estimate_options"),
+  selectedOptionTier: text("selected_option_tier"),
   status: text("status").default("draft"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  // Deleted projects are kept as tombstones so other devices pull the delete.
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  // Project search; must match the expression in storage.searchProjects.
+  index("projects_address_search_idx").using("gin", sql`to_tsvector('simple', coalesce(${table.address}, ''))`),
+]);
+
+export const priceBookMaterials = pgTable("price_book_materials", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  materialKey: text("material_key").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  icon: text("icon").default("layers"),
+  pricePerSquare: real("price_per_square").notNull(),
+  bundlesPerSquare: real("bundles_per_square").default(3).notNull(),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.userId, table.materialKey)]);
+
+export const priceBookAccessories = pgTable("price_book_accessories", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  category: text("category").notNull(),
+  unitCost: real("unit_cost").notNull(),
+  coverage: real("coverage").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.userId, table.category)]);
+
+// Remembers which price book entry a supplier SKU feeds so repeat imports of
+// the same supplier's price list map automatically.
+export const supplierSkuMappings = pgTable("supplier_sku_mappings", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  sku: text("sku").notNull(),
+  target: text("target").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.userId, table.sku)]);
+
+// Imported price updates. A change is written to the price book once its
+// effective date arrives; appliedAt stays null until then.
+export const priceChanges = pgTable("price_changes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  target: text("target").notNull(),
+  sku: text("sku"),
+  supplierName: text("supplier_name"),
+  previousCost: real("previous_cost"),
+  newCost: real("new_cost").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Immutable snapshot of a project's pricing, written each time a priced
+// estimate is saved. Rows are never updated; revisionNumber counts up per project.
+export const estimateRevisions = pgTable("estimate_revisions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id")
+    .references(() => projects.id, { onDelete: "cascade" })
+    .notNull(),
+  authorId: varchar("author_id").references(() => users.id),
+  revisionNumber: integer("revision_number").notNull(),
+  inputs: jsonb("inputs").notNull(),
+  breakdown: jsonb("breakdown").notNull(),
+  estimateTotal: real("estimate_total").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.projectId, table.revisionNumber)]);
+
+// A public link that lets the homeowner review and accept or decline an
+// estimate. Only a SHA-256 hash of the link token is stored. The estimate is
+// snapshotted when the link is created so the homeowner signs exactly what was
+// sent. projectId is the app's project id; the project is synced before it's shared.
+export const estimateShares = pgTable("estimate_shares", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  projectId: varchar("project_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").default("pending").notNull(),
+  selectedOptionTier: text("selected_option_tier"),
+  signerName: text("signer_name"),
+  signatureImage: text("signature_image"),
+  signerIp: text("signer_ip"),
+  declineReason: text("decline_reason"),
+  viewedAt: timestamp("viewed_at"),
+  respondedAt: timestamp("responded_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body"),
+  projectId: varchar("project_id"),
+  data: jsonb("data"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Photos and documents attached to a project. The bytes live in the
+// attachment store; storageKey/thumbnailKey locate them there.
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  projectId: varchar("project_id")
+    .references(() => projects.id, { onDelete: "cascade" })
+    .notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  caption: text("caption"),
+  includeInPdf: boolean("include_in_pdf").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Inputs for a generated estimate PDF, keyed by a signed hash of the owner and
+// payload so the same estimate always resolves to the same download URL.
+// Only the owner can download it, and it's deleted once it expires.
+export const estimateDocuments = pgTable("estimate_documents", {
+  id: varchar("id").primaryKey(),
+  // Null for guests; their documents are reachable only through the id.
+  userId: varchar("user_id").references(() => users.id),
+  payload: jsonb("payload").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Permits saved to a project: copies of search results (kind "history") and
+// the contractor's own permit for the job (kind "project"). See
+// @shared/permit-records for statuses and validation.
+export const permits = pgTable("permits", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  projectId: varchar("project_id")
+    .references(() => projects.id, { onDelete: "cascade" })
+    .notNull(),
+  kind: text("kind").notNull(),
+  // Permit provider and its id for saved search results, so the same
+  // permit isn't saved twice.
+  source: text("source"),
+  sourceId: text("source_id"),
+  permitNumber: text("permit_number"),
+  jurisdiction: text("jurisdiction"),
+  address: text("address"),
+  permitType: text("permit_type").notNull(),
+  description: text("description"),
+  status: text("status").notNull(),
+  fee: real("fee"),
+  value: real("value"),
+  contractorName: text("contractor_name"),
+  appliedDate: date("applied_date", { mode: "string" }),
+  issueDate: date("issue_date", { mode: "string" }),
+  expiryDate: date("expiry_date", { mode: "string" }),
+  inspections: jsonb("inspections").default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.projectId, table.sourceId)]);
+
+// An address or ZIP code whose permits are re-checked on a schedule.
+// snapshot maps each permit id seen on the last check to its status; it's
+// null until the first check, which only records a baseline.
+export const permitWatches = pgTable("permit_watches", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .references(() => users.id)
+    .notNull(),
+  kind: text("kind").notNull(),
+  query: text("query").notNull(),
+  // Provider the snapshot came from; ids from another provider don't compare.
+  provider: text("provider"),
+  snapshot: jsonb("snapshot"),
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.userId, table.kind, table.query)]);
+
+// Geocoding and building-insights answers from the measurement provider,
+// keyed by "<kind>:<provider>:<normalized address or rounded coordinates>".
+// Rows past expiresAt are refetched and overwritten.
+export const measurementCache = pgTable("measurement_cache", {
+  key: text("key").primaryKey(),
+  payload: jsonb("payload").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
+  customers: many(customers),
+  priceBookMaterials: many(priceBookMaterials),
+  priceBookAccessories: many(priceBookAccessories),
+  supplierSkuMappings: many(supplierSkuMappings),
+  priceChanges: many(priceChanges),
+  estimateShares: many(estimateShares),
+  estimateDocuments: many(estimateDocuments),
+  notifications: many(notifications),
+  attachments: many(attachments),
+  permits: many(permits),
+  permitWatches: many(permitWatches),
 }));
 
-export const projectsRelations = relations(projects, ({ one }) => ({
+export const customersRelations = relations(customers, ({ one, many }) => ({
+  user: one(users, {
+    fields: [customers.userId],
+    references: [users.id],
+  }),
+  projects: many(projects),
+}));
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
   user: one(users, {
     fields: [projects.userId],
     references: [users.id],
   }),
+  customer: one(customers, {
+    fields: [projects.customerId],
+    references: [customers.id],
+  }),
+  estimateRevisions: many(estimateRevisions),
+  attachments: many(attachments),
+  permits: many(permits),
+}));
+
+export const priceBookMaterialsRelations = relations(priceBookMaterials, ({ one }) => ({
+  user: one(users, {
+    fields: [priceBookMaterials.userId],
+    references: [users.id],
+  }),
+}));
+
+export const priceBookAccessoriesRelations = relations(priceBookAccessories, ({ one }) => ({
+  user: one(users, {
+    fields: [priceBookAccessories.userId],
+    references: [users.id],
+  }),
+}));
+
+export const supplierSkuMappingsRelations = relations(supplierSkuMappings, ({ one }) => ({
+  user: one(users, {
+    fields: [supplierSkuMappings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const priceChangesRelations = relations(priceChanges, ({ one }) => ({
+  user: one(users, {
+    fields: [priceChanges.userId],
+    references: [users.id],
+  }),
+}));
+
+export const estimateSharesRelations = relations(estimateShares, ({ one }) => ({
+  user: one(users, {
+    fields: [estimateShares.userId],
+    references: [users.id],
+  }),
+}));
+
+export const estimateDocumentsRelations = relations(estimateDocuments, ({ one }) => ({
+  user: one(users, {
+    fields: [estimateDocuments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  user: one(users, {
+    fields: [attachments.userId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [attachments.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const permitsRelations = relations(permits, ({ one }) => ({
+  user: one(users, {
+    fields: [permits.userId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [permits.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const permitWatchesRelations = relations(permitWatches, ({ one }) => ({
+  user: one(users, {
+    fields: [permitWatches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const estimateRevisionsRelations = relations(estimateRevisions, ({ one }) => ({
+  project: one(projects, {
+    fields: [estimateRevisions.projectId],
+    references: [projects.id],
+  }),
+  author: one(users, {
+    fields: [estimateRevisions.authorId],
+    references: [users.id],
+  }),
 }));
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -64,7 +434,94 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   updatedAt: true,
 });
 
+export const insertCustomerSchema = createInsertSchema(customers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+export const insertPriceBookMaterialSchema = createInsertSchema(priceBookMaterials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPriceBookAccessorySchema = createInsertSchema(priceBookAccessories).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertPriceBookMaterial = z.infer<typeof insertPriceBookMaterialSchema>;
+export type PriceBookMaterial = typeof priceBookMaterials.$inferSelect;
+export type InsertPriceBookAccessory = z.infer<typeof insertPriceBookAccessorySchema>;
+export type PriceBookAccessory = typeof priceBookAccessories.$inferSelect;
+
+export const insertPriceChangeSchema = createInsertSchema(priceChanges).omit({
+  id: true,
+  appliedAt: true,
+  createdAt: true,
+});
+
+export type SupplierSkuMapping = typeof supplierSkuMappings.$inferSelect;
+export type InsertPriceChange = z.infer<typeof insertPriceChangeSchema>;
+export type PriceChange = typeof priceChanges.$inferSelect;
+
+export const insertEstimateRevisionSchema = createInsertSchema(estimateRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEstimateRevision = z.infer<typeof insertEstimateRevisionSchema>;
+export type EstimateRevision = typeof estimateRevisions.$inferSelect;
+
+export const insertEstimateShareSchema = createInsertSchema(estimateShares).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEstimateShare = z.infer<typeof insertEstimateShareSchema>;
+export type EstimateShare = typeof estimateShares.$inferSelect;
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  createdAt: true,
+});
+
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+
+export type EstimateDocument = typeof estimateDocuments.$inferSelect;
+
+export const insertPermitSchema = createInsertSchema(permits).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPermit = z.infer<typeof insertPermitSchema>;
+export type Permit = typeof permits.$inferSelect;
+
+export const insertPermitWatchSchema = createInsertSchema(permitWatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPermitWatch = z.infer<typeof insertPermitWatchSchema>;
+export type PermitWatch = typeof permitWatches.$inferSelect;
+
+export type MeasurementCacheEntry = typeof measurementCache.$inferSelect;
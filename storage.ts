@@ -1,6 +1,72 @@
-import { users, projects, type User, type InsertUser, type Project, type InsertProject } from "@shared/schema";
+import {
+  users,
+  projects,
+  customers,
+  priceBookMaterials,
+  priceBookAccessories,
+  supplierSkuMappings,
+  priceChanges,
+  estimateRevisions,
+  estimateDocuments,
+  estimateShares,
+  notifications,
+  attachments,
+  measurementCache,
+  permits,
+  permitWatches,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type Customer,
+  type InsertCustomer,
+  type PriceBookMaterial,
+  type InsertPriceBookMaterial,
+  type PriceBookAccessory,
+  type InsertPriceBookAccessory,
+  type SupplierSkuMapping,
+  type PriceChange,
+  type InsertPriceChange,
+  type EstimateRevision,
+  type InsertEstimateRevision,
+  type EstimateDocument,
+  type EstimateShare,
+  type InsertEstimateShare,
+  type Notification,
+  type InsertNotification,
+  type Attachment,
+  type InsertAttachment,
+  type MeasurementCacheEntry,
+  type Permit,
+  type InsertPermit,
+  type PermitWatch,
+  type InsertPermitWatch,
+} from "@shared/schema";
+import { getSearchTerms, type ProjectFilters } from "@shared/project-filters";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+
+export type ProjectListItem = Project & { customerName: string | null };
+
+// Keyset position: the sort value and id of the last project on a page.
+export interface ProjectCursor {
+  value: string | number;
+  id: string;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -12,10 +78,80 @@ export interface IStorage {
   incrementAiRequests(userId: string): Promise<number>;
   
   getProject(id: string): Promise<Project | undefined>;
+  getProjectIncludingDeleted(id: string): Promise<Project | undefined>;
   getProjectsByUser(userId: string): Promise<Project[]>;
+  getProjectChanges(userId: string, cursor: ProjectCursor | null, limit: number): Promise<Project[]>;
+  searchProjects(
+    userId: string,
+    filters: ProjectFilters,
+    limit: number,
+    cursor: ProjectCursor | null,
+  ): Promise<ProjectListItem[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, data: Partial<Project>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
+  getProjectsByCustomer(customerId: string): Promise<Project[]>;
+
+  getCustomer(id: string): Promise<Customer | undefined>;
+  getCustomersByUser(userId: string): Promise<Customer[]>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: string, data: Partial<Customer>): Promise<Customer | undefined>;
+  deleteCustomer(id: string): Promise<boolean>;
+
+  getPriceBookMaterials(userId: string): Promise<PriceBookMaterial[]>;
+  getPriceBookMaterial(id: string): Promise<PriceBookMaterial | undefined>;
+  createPriceBookMaterials(materials: InsertPriceBookMaterial[]): Promise<PriceBookMaterial[]>;
+  updatePriceBookMaterial(id: string, data: Partial<PriceBookMaterial>): Promise<PriceBookMaterial | undefined>;
+  deletePriceBookMaterial(id: string): Promise<boolean>;
+  getPriceBookAccessories(userId: string): Promise<PriceBookAccessory[]>;
+  upsertPriceBookAccessory(accessory: InsertPriceBookAccessory): Promise<PriceBookAccessory>;
+
+  getSupplierSkuMappings(userId: string): Promise<SupplierSkuMapping[]>;
+  upsertSupplierSkuMapping(userId: string, sku: string, target: string): Promise<SupplierSkuMapping>;
+  createPriceChanges(changes: InsertPriceChange[]): Promise<PriceChange[]>;
+  getPriceChanges(userId: string): Promise<PriceChange[]>;
+  getDuePriceChanges(userId: string, asOf: Date): Promise<PriceChange[]>;
+  claimPriceChange(id: string): Promise<boolean>;
+
+  getEstimateRevisions(projectId: string): Promise<EstimateRevision[]>;
+  getEstimateRevision(id: string): Promise<EstimateRevision | undefined>;
+  getLatestEstimateRevision(projectId: string): Promise<EstimateRevision | undefined>;
+  createEstimateRevision(revision: Omit<InsertEstimateRevision, "revisionNumber">): Promise<EstimateRevision>;
+
+  getEstimateDocument(id: string): Promise<EstimateDocument | undefined>;
+  saveEstimateDocument(id: string, userId: string | null, payload: unknown, expiresAt: Date): Promise<void>;
+  deleteExpiredEstimateDocuments(asOf: Date): Promise<void>;
+
+  createEstimateShare(share: InsertEstimateShare): Promise<EstimateShare>;
+  getEstimateShareByTokenHash(tokenHash: string): Promise<EstimateShare | undefined>;
+  getEstimateSharesByProject(userId: string, projectId: string): Promise<EstimateShare[]>;
+  updateEstimateShare(id: string, data: Partial<EstimateShare>): Promise<EstimateShare | undefined>;
+  respondToEstimateShare(id: string, data: Partial<EstimateShare>): Promise<EstimateShare | undefined>;
+
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: string): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  getAttachmentsByProject(projectId: string): Promise<Attachment[]>;
+  getPdfAttachments(userId: string, projectId: string): Promise<Attachment[]>;
+  getAttachmentsByIds(ids: string[]): Promise<Attachment[]>;
+  updateAttachment(id: string, data: Partial<Attachment>): Promise<Attachment | undefined>;
+  deleteAttachment(id: string): Promise<boolean>;
+  getPermitsByProject(projectId: string): Promise<Permit[]>;
+  getPermit(id: string): Promise<Permit | undefined>;
+  createPermit(permit: InsertPermit): Promise<Permit>;
+  updatePermit(id: string, data: Partial<Permit>): Promise<Permit | undefined>;
+  deletePermit(id: string): Promise<boolean>;
+  getPermitWatches(userId: string): Promise<PermitWatch[]>;
+  getPermitWatch(id: string): Promise<PermitWatch | undefined>;
+  getPermitWatchesCheckedBefore(before: Date): Promise<PermitWatch[]>;
+  createPermitWatch(watch: InsertPermitWatch): Promise<PermitWatch>;
+  updatePermitWatch(id: string, data: Partial<PermitWatch>): Promise<PermitWatch | undefined>;
+  deletePermitWatch(id: string): Promise<boolean>;
+  getMeasurementCacheEntry(key: string): Promise<MeasurementCacheEntry | undefined>;
+  saveMeasurementCacheEntry(key: string, payload: unknown, expiresAt: Date): Promise<MeasurementCacheEntry>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -75,18 +211,116 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), isNull(projects.deletedAt)));
+    return project || undefined;
+  }
+
+  async getProjectIncludingDeleted(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
     return project || undefined;
   }
 
   async getProjectsByUser(userId: string): Promise<Project[]> {
-    return db.select().from(projects).where(eq(projects.userId, userId));
+    return db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.userId, userId), isNull(projects.deletedAt)));
+  }
+
+  // Oldest change first, tombstones included, so a client can page through
+  // everything after its last sync. Ties on updatedAt are broken by id so a
+  // page boundary never skips projects saved in the same millisecond.
+  async getProjectChanges(userId: string, cursor: ProjectCursor | null, limit: number): Promise<Project[]> {
+    const updatedAt = sql`date_trunc('milliseconds', ${projects.updatedAt})`;
+    return db
+      .select()
+      .from(projects)
+      .where(
+        cursor
+          ? and(
+              eq(projects.userId, userId),
+              sql`(${updatedAt}, ${projects.id}) > (${cursor.value}::timestamp, ${cursor.id})`,
+            )
+          : eq(projects.userId, userId),
+      )
+      .orderBy(asc(updatedAt), asc(projects.id))
+      .limit(limit);
+  }
+
+  async searchProjects(
+    userId: string,
+    filters: ProjectFilters,
+    limit: number,
+    cursor: ProjectCursor | null,
+  ): Promise<ProjectListItem[]> {
+    const sort = filters.sort ?? "newest";
+    const descending = sort !== "oldest" && sort !== "total_asc";
+    const byTotal = sort === "total_desc" || sort === "total_asc";
+    const total = sql`coalesce(${projects.estimateTotal}, 0)`;
+    // Timestamps are truncated to what a JSON cursor can carry.
+    const sortValue = byTotal
+      ? total
+      : sql`date_trunc('milliseconds', ${sort === "updated" ? projects.updatedAt : projects.createdAt})`;
+
+    const conditions: SQL[] = [eq(projects.userId, userId), isNull(projects.deletedAt)];
+    if (filters.status?.length) {
+      conditions.push(inArray(sql`coalesce(${projects.status}, 'draft')`, filters.status));
+    }
+    if (filters.material) {
+      conditions.push(eq(projects.selectedMaterial, filters.material));
+    }
+    if (filters.from) {
+      conditions.push(gte(projects.createdAt, new Date(filters.from)));
+    }
+    if (filters.to) {
+      conditions.push(lte(projects.createdAt, new Date(filters.to)));
+    }
+    if (filters.minTotal !== undefined) {
+      conditions.push(gte(total, filters.minTotal));
+    }
+    if (filters.maxTotal !== undefined) {
+      conditions.push(lte(total, filters.maxTotal));
+    }
+
+    const terms = filters.q ? getSearchTerms(filters.q) : [];
+    // Every term has to match the address or the customer's name or notes,
+    // each searched through its own GIN index (see schema.ts). Projects have
+    // no notes of their own; the customer's notes are the ones searched.
+    const addressVector = sql`to_tsvector('simple', coalesce(${projects.address}, ''))`;
+    const customerVector = sql`to_tsvector('simple', coalesce(${customers.name}, '') || ' ' || coalesce(${customers.notes}, ''))`;
+    for (const term of terms) {
+      const query = sql`to_tsquery('simple', ${`${term}:*`})`;
+      conditions.push(sql`(${addressVector} @@ ${query} or ${customerVector} @@ ${query})`);
+    }
+
+    if (cursor) {
+      const value = byTotal ? sql`${cursor.value}::real` : sql`${cursor.value}::timestamp`;
+      conditions.push(
+        descending
+          ? sql`(${sortValue}, ${projects.id}) < (${value}, ${cursor.id})`
+          : sql`(${sortValue}, ${projects.id}) > (${value}, ${cursor.id})`,
+      );
+    }
+
+    const order = descending ? desc : asc;
+    return db
+      .select({ ...getTableColumns(projects), customerName: customers.name })
+      .from(projects)
+      .leftJoin(customers, eq(projects.customerId, customers.id))
+      .where(and(...conditions))
+      .orderBy(order(sortValue), order(projects.id))
+      .limit(limit);
   }
 
   async createProject(insertProject: InsertProject): Promise<Project> {
     const [project] = await db
       .insert(projects)
-      .values(insertProject)
+      // Set in JS like updateProject does, so updatedAt round-trips through
+      // JSON at millisecond precision and works as a sync cursor.
+      .values({ ...insertProject, updatedAt: new Date() })
       .returning();
     return project;
   }
@@ -101,9 +335,441 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: string): Promise<boolean> {
-    const result = await db.delete(projects).where(eq(projects.id, id));
+    const now = new Date();
+    const result = await db
+      .update(projects)
+      .set({ deletedAt: now, updatedAt: now })
+      .where(eq(projects.id, id));
+    return true;
+  }
+
+  async getProjectsByCustomer(customerId: string): Promise<Project[]> {
+    return db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.customerId, customerId), isNull(projects.deletedAt)));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer || undefined;
+  }
+
+  async getCustomersByUser(userId: string): Promise<Customer[]> {
+    return db
+      .select()
+      .from(customers)
+      .where(eq(customers.userId, userId))
+      .orderBy(asc(customers.name));
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await db
+      .insert(customers)
+      .values(insertCustomer)
+      .returning();
+    return customer;
+  }
+
+  async updateCustomer(id: string, data: Partial<Customer>): Promise<Customer | undefined> {
+    const [customer] = await db
+      .update(customers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return customer || undefined;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    await db.delete(customers).where(eq(customers.id, id));
+    return true;
+  }
+
+  async getPriceBookMaterials(userId: string): Promise<PriceBookMaterial[]> {
+    return db
+      .select()
+      .from(priceBookMaterials)
+      .where(eq(priceBookMaterials.userId, userId))
+      .orderBy(asc(priceBookMaterials.sortOrder), asc(priceBookMaterials.createdAt));
+  }
+
+  async getPriceBookMaterial(id: string): Promise<PriceBookMaterial | undefined> {
+    const [material] = await db.select().from(priceBookMaterials).where(eq(priceBookMaterials.id, id));
+    return material || undefined;
+  }
+
+  async createPriceBookMaterials(materials: InsertPriceBookMaterial[]): Promise<PriceBookMaterial[]> {
+    if (materials.length === 0) return [];
+    return db
+      .insert(priceBookMaterials)
+      .values(materials)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updatePriceBookMaterial(id: string, data: Partial<PriceBookMaterial>): Promise<PriceBookMaterial | undefined> {
+    const [material] = await db
+      .update(priceBookMaterials)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(priceBookMaterials.id, id))
+      .returning();
+    return material || undefined;
+  }
+
+  async deletePriceBookMaterial(id: string): Promise<boolean> {
+    await db.delete(priceBookMaterials).where(eq(priceBookMaterials.id, id));
+    return true;
+  }
+
+  async getPriceBookAccessories(userId: string): Promise<PriceBookAccessory[]> {
+    return db.select().from(priceBookAccessories).where(eq(priceBookAccessories.userId, userId));
+  }
+
+  async upsertPriceBookAccessory(accessory: InsertPriceBookAccessory): Promise<PriceBookAccessory> {
+    const [existing] = await db
+      .select()
+      .from(priceBookAccessories)
+      .where(
+        and(
+          eq(priceBookAccessories.userId, accessory.userId),
+          eq(priceBookAccessories.category, accessory.category),
+        ),
+      );
+
+    if (existing) {
+      const [updated] = await db
+        .update(priceBookAccessories)
+        .set({ unitCost: accessory.unitCost, coverage: accessory.coverage, updatedAt: new Date() })
+        .where(eq(priceBookAccessories.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(priceBookAccessories)
+      .values(accessory)
+      .returning();
+    return created;
+  }
+
+  async getSupplierSkuMappings(userId: string): Promise<SupplierSkuMapping[]> {
+    return db.select().from(supplierSkuMappings).where(eq(supplierSkuMappings.userId, userId));
+  }
+
+  async upsertSupplierSkuMapping(userId: string, sku: string, target: string): Promise<SupplierSkuMapping> {
+    const [mapping] = await db
+      .insert(supplierSkuMappings)
+      .values({ userId, sku, target })
+      .onConflictDoUpdate({
+        target: [supplierSkuMappings.userId, supplierSkuMappings.sku],
+        set: { target, updatedAt: new Date() },
+      })
+      .returning();
+    return mapping;
+  }
+
+  async createPriceChanges(changes: InsertPriceChange[]): Promise<PriceChange[]> {
+    if (changes.length === 0) return [];
+    return db.insert(priceChanges).values(changes).returning();
+  }
+
+  async getPriceChanges(userId: string): Promise<PriceChange[]> {
+    return db
+      .select()
+      .from(priceChanges)
+      .where(eq(priceChanges.userId, userId))
+      .orderBy(desc(priceChanges.effectiveDate), desc(priceChanges.createdAt));
+  }
+
+  async getDuePriceChanges(userId: string, asOf: Date): Promise<PriceChange[]> {
+    return db
+      .select()
+      .from(priceChanges)
+      .where(
+        and(
+          eq(priceChanges.userId, userId),
+          isNull(priceChanges.appliedAt),
+          lte(priceChanges.effectiveDate, asOf),
+        ),
+      )
+      .orderBy(asc(priceChanges.effectiveDate), asc(priceChanges.createdAt));
+  }
+
+  // Marks a due change applied. Only one caller gets true, so concurrent
+  // requests can't apply the same change twice.
+  async claimPriceChange(id: string): Promise<boolean> {
+    const claimed = await db
+      .update(priceChanges)
+      .set({ appliedAt: new Date() })
+      .where(and(eq(priceChanges.id, id), isNull(priceChanges.appliedAt)))
+      .returning({ id: priceChanges.id });
+    return claimed.length > 0;
+  }
+
+  async getEstimateRevisions(projectId: string): Promise<EstimateRevision[]> {
+    return db
+      .select()
+      .from(estimateRevisions)
+      .where(eq(estimateRevisions.projectId, projectId))
+      .orderBy(desc(estimateRevisions.revisionNumber));
+  }
+
+  async getEstimateRevision(id: string): Promise<EstimateRevision | undefined> {
+    const [revision] = await db.select().from(estimateRevisions).where(eq(estimateRevisions.id, id));
+    return revision || undefined;
+  }
+
+  async getLatestEstimateRevision(projectId: string): Promise<EstimateRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(estimateRevisions)
+      .where(eq(estimateRevisions.projectId, projectId))
+      .orderBy(desc(estimateRevisions.revisionNumber))
+      .limit(1);
+    return revision || undefined;
+  }
+
+  async createEstimateRevision(revision: Omit<InsertEstimateRevision, "revisionNumber">): Promise<EstimateRevision> {
+    // Numbered in the same statement; the (project_id, revision_number)
+    // unique constraint rejects a concurrent save that picks the same number.
+    const [created] = await db
+      .insert(estimateRevisions)
+      .values({
+        ...revision,
+        revisionNumber: sql`(select coalesce(max(${estimateRevisions.revisionNumber}), 0) + 1 from ${estimateRevisions} where ${estimateRevisions.projectId} = ${revision.projectId})`,
+      })
+      .returning();
+    return created;
+  }
+
+  async getEstimateDocument(id: string): Promise<EstimateDocument | undefined> {
+    const [document] = await db.select().from(estimateDocuments).where(eq(estimateDocuments.id, id));
+    return document || undefined;
+  }
+
+  // Saving the same estimate again pushes its expiry back.
+  async saveEstimateDocument(id: string, userId: string | null, payload: unknown, expiresAt: Date): Promise<void> {
+    await db
+      .insert(estimateDocuments)
+      .values({ id, userId, payload, expiresAt })
+      .onConflictDoUpdate({ target: estimateDocuments.id, set: { expiresAt } });
+  }
+
+  async deleteExpiredEstimateDocuments(asOf: Date): Promise<void> {
+    await db.delete(estimateDocuments).where(lt(estimateDocuments.expiresAt, asOf));
+  }
+
+  async createEstimateShare(share: InsertEstimateShare): Promise<EstimateShare> {
+    const [created] = await db.insert(estimateShares).values(share).returning();
+    return created;
+  }
+
+  async getEstimateShareByTokenHash(tokenHash: string): Promise<EstimateShare | undefined> {
+    const [share] = await db.select().from(estimateShares).where(eq(estimateShares.tokenHash, tokenHash));
+    return share || undefined;
+  }
+
+  async getEstimateSharesByProject(userId: string, projectId: string): Promise<EstimateShare[]> {
+    return db
+      .select()
+      .from(estimateShares)
+      .where(and(eq(estimateShares.userId, userId), eq(estimateShares.projectId, projectId)))
+      .orderBy(desc(estimateShares.createdAt));
+  }
+
+  async updateEstimateShare(id: string, data: Partial<EstimateShare>): Promise<EstimateShare | undefined> {
+    const [share] = await db
+      .update(estimateShares)
+      .set(data)
+      .where(eq(estimateShares.id, id))
+      .returning();
+    return share || undefined;
+  }
+
+  // Only a pending share can be answered; a second, concurrent response
+  // matches no row and gets undefined back.
+  async respondToEstimateShare(id: string, data: Partial<EstimateShare>): Promise<EstimateShare | undefined> {
+    const [share] = await db
+      .update(estimateShares)
+      .set({ ...data, respondedAt: new Date() })
+      .where(and(eq(estimateShares.id, id), eq(estimateShares.status, "pending")))
+      .returning();
+    return share || undefined;
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(100);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await db
+      .insert(attachments)
+      .values(insertAttachment)
+      .returning();
+    return attachment;
+  }
+
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment || undefined;
+  }
+
+  async getAttachmentsByProject(projectId: string): Promise<Attachment[]> {
+    return db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.projectId, projectId))
+      .orderBy(asc(attachments.createdAt));
+  }
+
+  async getPdfAttachments(userId: string, projectId: string): Promise<Attachment[]> {
+    return db
+      .select()
+      .from(attachments)
+      .where(
+        and(
+          eq(attachments.userId, userId),
+          eq(attachments.projectId, projectId),
+          eq(attachments.includeInPdf, true),
+        ),
+      )
+      .orderBy(asc(attachments.createdAt));
+  }
+
+  async getAttachmentsByIds(ids: string[]): Promise<Attachment[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(attachments).where(inArray(attachments.id, ids));
+  }
+
+  async updateAttachment(id: string, data: Partial<Attachment>): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .update(attachments)
+      .set(data)
+      .where(eq(attachments.id, id))
+      .returning();
+    return attachment || undefined;
+  }
+
+  async deleteAttachment(id: string): Promise<boolean> {
+    await db.delete(attachments).where(eq(attachments.id, id));
     return true;
   }
+
+  async getPermitsByProject(projectId: string): Promise<Permit[]> {
+    return db
+      .select()
+      .from(permits)
+      .where(eq(permits.projectId, projectId))
+      .orderBy(asc(permits.kind), desc(permits.issueDate), asc(permits.createdAt));
+  }
+
+  async getPermit(id: string): Promise<Permit | undefined> {
+    const [permit] = await db.select().from(permits).where(eq(permits.id, id));
+    return permit || undefined;
+  }
+
+  async createPermit(insertPermit: InsertPermit): Promise<Permit> {
+    const [permit] = await db
+      .insert(permits)
+      .values(insertPermit)
+      .returning();
+    return permit;
+  }
+
+  async updatePermit(id: string, data: Partial<Permit>): Promise<Permit | undefined> {
+    const [permit] = await db
+      .update(permits)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(permits.id, id))
+      .returning();
+    return permit || undefined;
+  }
+
+  async deletePermit(id: string): Promise<boolean> {
+    await db.delete(permits).where(eq(permits.id, id));
+    return true;
+  }
+
+  async getPermitWatches(userId: string): Promise<PermitWatch[]> {
+    return db
+      .select()
+      .from(permitWatches)
+      .where(eq(permitWatches.userId, userId))
+      .orderBy(asc(permitWatches.createdAt));
+  }
+
+  async getPermitWatch(id: string): Promise<PermitWatch | undefined> {
+    const [watch] = await db.select().from(permitWatches).where(eq(permitWatches.id, id));
+    return watch || undefined;
+  }
+
+  // Watches never checked, or last checked before the given time, oldest
+  // first so a backlog is worked through fairly.
+  async getPermitWatchesCheckedBefore(before: Date): Promise<PermitWatch[]> {
+    return db
+      .select()
+      .from(permitWatches)
+      .where(or(isNull(permitWatches.lastCheckedAt), lt(permitWatches.lastCheckedAt, before)))
+      .orderBy(sql`${permitWatches.lastCheckedAt} asc nulls first`);
+  }
+
+  async createPermitWatch(insertWatch: InsertPermitWatch): Promise<PermitWatch> {
+    const [watch] = await db
+      .insert(permitWatches)
+      .values(insertWatch)
+      .returning();
+    return watch;
+  }
+
+  async updatePermitWatch(id: string, data: Partial<PermitWatch>): Promise<PermitWatch | undefined> {
+    const [watch] = await db
+      .update(permitWatches)
+      .set(data)
+      .where(eq(permitWatches.id, id))
+      .returning();
+    return watch || undefined;
+  }
+
+  async deletePermitWatch(id: string): Promise<boolean> {
+    await db.delete(permitWatches).where(eq(permitWatches.id, id));
+    return true;
+  }
+
+  async getMeasurementCacheEntry(key: string): Promise<MeasurementCacheEntry | undefined> {
+    const [entry] = await db.select().from(measurementCache).where(eq(measurementCache.key, key));
+    return entry || undefined;
+  }
+
+  async saveMeasurementCacheEntry(key: string, payload: unknown, expiresAt: Date): Promise<MeasurementCacheEntry> {
+    const [entry] = await db
+      .insert(measurementCache)
+      .values({ key, payload, expiresAt })
+      .onConflictDoUpdate({
+        target: measurementCache.key,
+        set: { payload, expiresAt, createdAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,595 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { apiRequestSafe } from "@/lib/query-client";
+import { isLocalCustomerId } from "@/lib/customers";
+import { moveRevisions } from "@/lib/revisions";
+
+const PROJECTS_STORAGE_KEY = "roofmaster_projects";
+const OUTBOX_STORAGE_KEY = "roofmaster_sync_outbox";
+const SYNC_STATE_STORAGE_KEY = "roofmaster_sync_state";
+
+// Fields stored on the server. Anything else on a local project (the customer
+// snapshot, auto measurements, ...) stays on the device.
+const SYNCED_FIELDS = [
+  "address",
+  "customerId",
+  "length",
+  "width",
+  "pitch",
+  "roofArea",
+  "roofSquares",
+  "roofSegments",
+  "linearMeasurements",
+  "roofSketch",
+  "selectedMaterial",
+  "materialPricePerSquare",
+  "microBreakdown",
+  "laborRate",
+  "laborHours",
+  "additionalCosts",
+  "estimateTotal",
+  "estimateOptions",
+  "selectedOptionTier",
+  "status",
+] as const;
+
+const PROJECT_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface LocalProject {
+  id: string;
+  createdAt: string;
+  // Last local edit.
+  updatedAt?: string;
+  // Server version this copy is based on; null until the first push.
+  serverUpdatedAt?: string | null;
+  [key: string]: any;
+}
+
+interface SyncMutation {
+  projectId: string;
+  type: "upsert" | "delete";
+  // Fields edited locally since the last push. On a conflict these win over
+  // the server copy; every other field takes the server's value.
+  fields: string[];
+  queuedAt: string;
+}
+
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+interface StoredSyncState {
+  cursor: string | null;
+  lastSyncedAt: string | null;
+}
+
+let syncState: SyncState = {
+  status: "idle",
+  pendingCount: 0,
+  lastSyncedAt: null,
+  error: null,
+};
+const listeners = new Set<(state: SyncState) => void>();
+
+function setSyncState(changes: Partial<SyncState>) {
+  syncState = { ...syncState, ...changes };
+  listeners.forEach((listener) => listener(syncState));
+}
+
+export function getSyncState(): SyncState {
+  return syncState;
+}
+
+export function subscribeToSyncState(
+  listener: (state: SyncState) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Client-generated v4 UUID so a project keeps the same id before and after it
+// reaches the server.
+export function createProjectId(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+// Screens and the sync engine all read-modify-write the same AsyncStorage
+// keys; running those updates one at a time keeps them from clobbering each
+// other.
+let storageLock: Promise<unknown> = Promise.resolve();
+
+function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = storageLock.then(task, task);
+  storageLock = run.catch(() => undefined);
+  return run;
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+}
+
+function readProjects(): Promise<LocalProject[]> {
+  return readJson<LocalProject[]>(PROJECTS_STORAGE_KEY, []);
+}
+
+function readOutbox(): Promise<SyncMutation[]> {
+  return readJson<SyncMutation[]>(OUTBOX_STORAGE_KEY, []);
+}
+
+async function writeProjects(projects: LocalProject[]) {
+  await AsyncStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+}
+
+async function writeOutbox(outbox: SyncMutation[]) {
+  await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  setSyncState({ pendingCount: outbox.length });
+}
+
+// Keeps one pending mutation per project: edits accumulate their changed
+// fields, and a delete replaces any pending edit.
+function enqueue(outbox: SyncMutation[], mutation: SyncMutation) {
+  const index = outbox.findIndex((m) => m.projectId === mutation.projectId);
+  if (index === -1) {
+    outbox.push(mutation);
+  } else if (mutation.type === "delete") {
+    outbox[index] = mutation;
+  } else {
+    outbox[index] = {
+      ...mutation,
+      fields: Array.from(
+        new Set([...outbox[index].fields, ...mutation.fields]),
+      ),
+    };
+  }
+}
+
+function getChangedFields(
+  previous: LocalProject | undefined,
+  next: LocalProject,
+): string[] {
+  return SYNCED_FIELDS.filter(
+    (field) =>
+      !previous ||
+      JSON.stringify(previous[field]) !== JSON.stringify(next[field]),
+  );
+}
+
+function toServerProject(project: LocalProject) {
+  const data: Record<string, unknown> = { id: project.id };
+  SYNCED_FIELDS.forEach((field) => {
+    if (project[field] !== undefined) data[field] = project[field];
+  });
+  // Customers created offline only exist on this device.
+  if (project.customerId && isLocalCustomerId(project.customerId)) {
+    data.customerId = null;
+  }
+  return data;
+}
+
+function fromServerProject(
+  server: any,
+  local: LocalProject | undefined,
+): LocalProject {
+  const project: LocalProject = {
+    ...local,
+    id: server.id,
+    createdAt: local?.createdAt ?? server.createdAt,
+    updatedAt: server.updatedAt,
+    serverUpdatedAt: server.updatedAt,
+  };
+  SYNCED_FIELDS.forEach((field) => {
+    project[field] = server[field];
+  });
+  if (
+    !server.customerId &&
+    local?.customerId &&
+    isLocalCustomerId(local.customerId)
+  ) {
+    project.customerId = local.customerId;
+  } else if (local?.customer && local.customer.id !== server.customerId) {
+    project.customer = null;
+  }
+  return project;
+}
+
+export async function loadLocalProjects(): Promise<LocalProject[]> {
+  return readProjects();
+}
+
+export async function loadLocalProject(
+  id: string,
+): Promise<LocalProject | null> {
+  const projects = await readProjects();
+  return projects.find((p) => p.id === id) || null;
+}
+
+// The single write path for projects: saves on the device immediately and
+// queues the change for the server.
+export async function saveProject(
+  project: LocalProject,
+): Promise<LocalProject> {
+  const saved = await withStorageLock(async () => {
+    const projects = await readProjects();
+    const index = projects.findIndex((p) => p.id === project.id);
+    const previous = index === -1 ? undefined : projects[index];
+    const next: LocalProject = {
+      ...project,
+      updatedAt: new Date().toISOString(),
+      serverUpdatedAt: previous?.serverUpdatedAt ?? null,
+    };
+    if (index === -1) {
+      projects.unshift(next);
+    } else {
+      projects[index] = next;
+    }
+    await writeProjects(projects);
+
+    const fields = getChangedFields(previous, next);
+    if (fields.length > 0) {
+      const outbox = await readOutbox();
+      enqueue(outbox, {
+        projectId: next.id,
+        type: "upsert",
+        fields,
+        queuedAt: next.updatedAt!,
+      });
+      await writeOutbox(outbox);
+    }
+    return next;
+  });
+
+  syncProjects();
+  return saved;
+}
+
+export async function updateProject(
+  id: string,
+  changes: Partial<LocalProject>,
+): Promise<LocalProject | null> {
+  const project = await loadLocalProject(id);
+  if (!project) return null;
+  return saveProject({ ...project, ...changes });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStorageLock(async () => {
+    const projects = await readProjects();
+    const project = projects.find((p) => p.id === id);
+    await writeProjects(projects.filter((p) => p.id !== id));
+
+    const outbox = await readOutbox();
+    if (project?.serverUpdatedAt) {
+      enqueue(outbox, {
+        projectId: id,
+        type: "delete",
+        fields: [],
+        queuedAt: new Date().toISOString(),
+      });
+      await writeOutbox(outbox);
+    } else {
+      // Never reached the server, so there is nothing to delete there.
+      await writeOutbox(outbox.filter((m) => m.projectId !== id));
+    }
+  });
+
+  syncProjects();
+}
+
+// Projects saved before ids were UUIDs used Date.now(); give them a stable id
+// and queue them so they are uploaded once.
+async function migrateLegacyProjects() {
+  await withStorageLock(async () => {
+    const projects = await readProjects();
+    const outbox = await readOutbox();
+    let changed = false;
+
+    for (const project of projects) {
+      if (project.serverUpdatedAt) continue;
+      if (!PROJECT_ID_PATTERN.test(project.id)) {
+        const newId = createProjectId();
+        await moveRevisions(project.id, newId);
+        outbox.forEach((m) => {
+          if (m.projectId === project.id) m.projectId = newId;
+        });
+        project.id = newId;
+        changed = true;
+      }
+      if (!outbox.some((m) => m.projectId === project.id)) {
+        enqueue(outbox, {
+          projectId: project.id,
+          type: "upsert",
+          fields: [...SYNCED_FIELDS],
+          queuedAt: new Date().toISOString(),
+        });
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await writeProjects(projects);
+      await writeOutbox(outbox);
+    }
+  });
+}
+
+type PushResult = "done" | "offline" | "failed";
+
+async function sendMutation(
+  mutation: SyncMutation,
+  project: LocalProject | undefined,
+): Promise<Response | null> {
+  if (mutation.type === "delete") {
+    return apiRequestSafe("DELETE", `/api/projects/${mutation.projectId}`);
+  }
+  if (!project) return null;
+  if (!project.serverUpdatedAt) {
+    return apiRequestSafe("POST", "/api/projects", toServerProject(project));
+  }
+  return apiRequestSafe("PUT", `/api/projects/${project.id}`, {
+    ...toServerProject(project),
+    baseUpdatedAt: project.serverUpdatedAt,
+  });
+}
+
+// Stores the server's copy unless the project was edited again while the
+// request was in flight; then only the base version moves forward and the
+// newer edit stays queued.
+async function applyPushResult(
+  mutation: SyncMutation,
+  server: any | null,
+  pushedUpdatedAt: string | undefined,
+) {
+  await withStorageLock(async () => {
+    const projects = await readProjects();
+    const outbox = await readOutbox();
+    const index = projects.findIndex((p) => p.id === mutation.projectId);
+    const pending = outbox.find((m) => m.projectId === mutation.projectId);
+    const editedSincePush =
+      index !== -1 && projects[index].updatedAt !== pushedUpdatedAt;
+
+    if (!server || server.deletedAt) {
+      // Deleted here or on another device; the delete wins.
+      await writeProjects(projects.filter((p) => p.id !== mutation.projectId));
+      await writeOutbox(
+        outbox.filter((m) => m.projectId !== mutation.projectId),
+      );
+      return;
+    }
+
+    if (index !== -1) {
+      projects[index] = editedSincePush
+        ? { ...projects[index], serverUpdatedAt: server.updatedAt }
+        : fromServerProject(server, projects[index]);
+      await writeProjects(projects);
+    }
+    if (pending && pending.queuedAt === mutation.queuedAt) {
+      await writeOutbox(outbox.filter((m) => m !== pending));
+    }
+  });
+}
+
+// Field-level merge: the fields edited on this device win, everything else
+// takes the newer server value. The result is pushed again on top of the
+// server's version.
+async function resolveConflict(mutation: SyncMutation, server: any) {
+  await withStorageLock(async () => {
+    const projects = await readProjects();
+    const index = projects.findIndex((p) => p.id === mutation.projectId);
+    if (index === -1) return;
+
+    const local = projects[index];
+    const merged = fromServerProject(server, local);
+    mutation.fields.forEach((field) => {
+      merged[field] = local[field];
+    });
+    merged.updatedAt = local.updatedAt;
+    projects[index] = merged;
+    await writeProjects(projects);
+  });
+}
+
+async function pushMutation(mutation: SyncMutation): Promise<PushResult> {
+  // One retry after merging a conflict; a second conflict waits for the next
+  // sync. A create that already reached the server also comes back as a
+  // conflict, and the retry goes out as an update.
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const project = (await readProjects()).find(
+      (p) => p.id === mutation.projectId,
+    );
+
+    let response: Response | null;
+    try {
+      response = await sendMutation(mutation, project);
+    } catch (error) {
+      console.log("Sync push failed, will retry when online:", error);
+      return "offline";
+    }
+
+    if (!response || response.status === 404) {
+      await applyPushResult(mutation, null, project?.updatedAt);
+      return "done";
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 409 && data.project) {
+      await resolveConflict(mutation, data.project);
+      continue;
+    }
+    if (!response.ok) {
+      console.error("Sync push rejected:", data.error || response.status);
+      setSyncState({ error: data.error || "Some changes could not be synced" });
+      return "failed";
+    }
+
+    await applyPushResult(
+      mutation,
+      mutation.type === "delete" ? null : data.project,
+      project?.updatedAt,
+    );
+    return "done";
+  }
+  return "failed";
+}
+
+async function pullChanges(): Promise<boolean> {
+  const stored = await readJson<StoredSyncState>(SYNC_STATE_STORAGE_KEY, {
+    cursor: null,
+    lastSyncedAt: null,
+  });
+  let cursor = stored.cursor;
+  let hasMore = true;
+
+  while (hasMore) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    let data: any;
+    try {
+      const response = await apiRequestSafe(
+        "GET",
+        `/api/projects/sync${query}`,
+      );
+      if (!response.ok) {
+        setSyncState({ error: "Failed to download changes" });
+        return false;
+      }
+      data = await response.json();
+    } catch (error) {
+      console.log("Sync pull failed, will retry when online:", error);
+      return false;
+    }
+
+    await withStorageLock(async () => {
+      let projects = await readProjects();
+      const outbox = await readOutbox();
+
+      for (const server of data.projects) {
+        const index = projects.findIndex((p) => p.id === server.id);
+        if (server.deletedAt) {
+          projects = projects.filter((p) => p.id !== server.id);
+          continue;
+        }
+        if (index === -1) {
+          projects.unshift(fromServerProject(server, undefined));
+          continue;
+        }
+
+        const local = projects[index];
+        const pending = outbox.find(
+          (m) => m.projectId === server.id && m.type === "upsert",
+        );
+        if (local.serverUpdatedAt === server.updatedAt) continue;
+
+        const merged = fromServerProject(server, local);
+        if (pending) {
+          // Unsent edits are kept and pushed on top of this version.
+          pending.fields.forEach((field) => {
+            merged[field] = local[field];
+          });
+          merged.updatedAt = local.updatedAt;
+        }
+        projects[index] = merged;
+      }
+
+      const remaining = outbox.filter(
+        (m) =>
+          !data.projects.some((p: any) => p.deletedAt && p.id === m.projectId),
+      );
+      await writeProjects(projects);
+      await writeOutbox(remaining);
+    });
+
+    cursor = data.cursor;
+    hasMore = data.hasMore;
+  }
+
+  const lastSyncedAt = new Date().toISOString();
+  await AsyncStorage.setItem(
+    SYNC_STATE_STORAGE_KEY,
+    JSON.stringify({ cursor, lastSyncedAt }),
+  );
+  setSyncState({ lastSyncedAt });
+  return true;
+}
+
+async function canSync(): Promise<boolean> {
+  const isGuest = await AsyncStorage.getItem("roofmaster_guest_mode");
+  if (isGuest === "true") return false;
+  const user = await AsyncStorage.getItem("roofmaster_user");
+  return !!user;
+}
+
+async function runSync() {
+  const outboxBefore = await readOutbox();
+  setSyncState({ pendingCount: outboxBefore.length });
+  if (!(await canSync())) {
+    setSyncState({ status: "idle" });
+    return;
+  }
+
+  setSyncState({ status: "syncing", error: null });
+  await migrateLegacyProjects();
+
+  // Push first so the pull doesn't have to merge around our own edits.
+  let offline = false;
+  let failed = false;
+  for (const mutation of await readOutbox()) {
+    const result = await pushMutation(mutation);
+    if (result === "offline") {
+      offline = true;
+      break;
+    }
+    if (result === "failed") failed = true;
+  }
+
+  if (!offline && !(await pullChanges())) {
+    offline = true;
+  }
+
+  setSyncState({
+    status: offline ? "offline" : failed ? "error" : "idle",
+    pendingCount: (await readOutbox()).length,
+  });
+}
+
+let activeSync: Promise<void> | null = null;
+let syncRequested = false;
+
+// Pushes queued changes, then pulls everything changed on the server since the
+// last sync. Calls made while a sync is running schedule one more pass.
+export function syncProjects(): Promise<void> {
+  if (activeSync) {
+    syncRequested = true;
+    return activeSync;
+  }
+
+  activeSync = (async () => {
+    try {
+      do {
+        syncRequested = false;
+        await runSync();
+      } while (syncRequested);
+    } catch (error) {
+      console.error("Sync failed:", error);
+      setSyncState({ status: "error", error: "Sync failed" });
+    } finally {
+      activeSync = null;
+    }
+  })();
+  return activeSync;
+}